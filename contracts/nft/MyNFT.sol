@@ -8,6 +8,9 @@ import "@openzeppelin/contracts/token/ERC721/extensions/ERC721URIStorage.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/Counters.sol";
 import "@openzeppelin/contracts/utils/Strings.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/draft-EIP712.sol";
 
 // import "hardhat/console.sol";
 
@@ -16,10 +19,30 @@ contract MyNFT is
     ERC721Enumerable,
     ERC721URIStorage,
     ERC721Burnable,
+    EIP712,
     Ownable
 {
     using Counters for Counters.Counter;
 
+    /// @dev mint voucher signed off-chain by the voucher signer (EIP-712)
+    /// @param recipient the address receiving the tokens
+    /// @param quantity the number of tokens to mint
+    /// @param price the total price of the tokens in wei
+    /// @param expiry the timestamp after which the voucher is no longer valid
+    /// @param nonce the unique number of the voucher
+    struct MintVoucher {
+        address recipient;
+        uint256 quantity;
+        uint256 price;
+        uint256 expiry;
+        uint256 nonce;
+    }
+
+    bytes32 private constant MINT_VOUCHER_TYPEHASH =
+        keccak256(
+            "MintVoucher(address recipient,uint256 quantity,uint256 price,uint256 expiry,uint256 nonce)"
+        );
+
     /// @dev event emitted when admin withdraws ETH funds
     /// @param sender the address of the sender
     /// @param amount the amount of tokens withdrawn
@@ -46,16 +69,58 @@ contract MyNFT is
     /// @param tokenURI the URI of the new NFT
     event MintToken(address indexed sender, uint256 tokenId, string tokenURI);
 
+    /// @dev event emitted when admin toggles the presale
+    /// @param sender the address of the sender
+    /// @param isPresaleEnabled enables or disables the presale
+    event ToggleIsPresaleEnabled(address indexed sender, bool isPresaleEnabled);
+
+    /// @dev event emitted when admin sets the presale allowlist and price
+    /// @param sender the address of the sender
+    /// @param merkleRoot the Merkle root of the allowlisted wallets and limits
+    /// @param presalePrice the presale mint price
+    event SetPresale(
+        address indexed sender,
+        bytes32 merkleRoot,
+        uint256 presalePrice
+    );
+
+    /// @dev event emitted when admin changes the voucher signer
+    /// @param sender the address of the sender
+    /// @param voucherSigner the new voucher signer
+    event SetVoucherSigner(address indexed sender, address voucherSigner);
+
+    /// @dev event emitted when a mint voucher is redeemed
+    /// @param sender the address of the sender
+    /// @param recipient the address receiving the tokens
+    /// @param nonce the nonce of the voucher
+    /// @param quantity the number of tokens minted
+    event RedeemVoucher(
+        address indexed sender,
+        address indexed recipient,
+        uint256 nonce,
+        uint256 quantity
+    );
+
     Counters.Counter private _tokenIdCounter;
     uint256 public mintPrice;
     uint256 public maxSupply;
     uint256 public limitPerUser;
     bool public isMintEnabled;
     string public baseURI;
+    bytes32 public presaleMerkleRoot;
+    uint256 public presalePrice;
+    bool public isPresaleEnabled;
+    address public voucherSigner;
 
     /// @notice store number of tokens minted by user
     mapping(address => uint256) public mintedWallets;
 
+    /// @notice store number of tokens minted by user during the presale
+    mapping(address => uint256) public presaleMintedWallets;
+
+    /// @notice store the nonces of the redeemed vouchers
+    mapping(uint256 => bool) public usedVoucherNonces;
+
     /// @dev constructor
     /// @param name the name of the token
     /// @param symbol the symbol of the token
@@ -72,7 +137,7 @@ contract MyNFT is
         uint256 _limitPerUser,
         bool _isMintEnabled,
         string memory _baseUri
-    ) ERC721(name, symbol) {
+    ) ERC721(name, symbol) EIP712(name, "1") {
         mintPrice = _mintPrice;
         maxSupply = _maxSupply;
         limitPerUser = _limitPerUser;
@@ -96,12 +161,109 @@ contract MyNFT is
         require(msg.value == mintPrice, "Wrong transaction value");
 
         mintedWallets[msg.sender]++;
+        _mintToken(msg.sender);
+    }
 
+    /// @dev function to mint new NFT token to an allowlisted user during the presale
+    /// @param _limit the presale limit of msg.sender in the allowlist
+    /// @param _proof Merkle proof of msg.sender and its limit
+    /// @notice requires the presale is enabled and the public sale is not
+    /// @notice requires msg.sender and _limit to be in the presale allowlist
+    /// @notice requires presale mint amount to be less than _limit
+    /// @notice requires the pay value to be equal to the presale price
+    /// @notice emits MintToken event
+    function presalePurchaseToken(uint256 _limit, bytes32[] calldata _proof)
+        external
+        payable
+    {
+        require(isPresaleEnabled && !isMintEnabled, "Presale not open");
+        require(maxSupply > _tokenIdCounter.current(), "Tokens sold out");
+        require(
+            isPresaleAllowlisted(msg.sender, _limit, _proof),
+            "User is not authorized to purchase"
+        );
+        require(
+            presaleMintedWallets[msg.sender] < _limit,
+            "Exceeds presale tokens per wallet"
+        );
+        require(msg.value == presalePrice, "Wrong transaction value");
+
+        presaleMintedWallets[msg.sender]++;
+        _mintToken(msg.sender);
+    }
+
+    /// @dev function to mint the tokens of a voucher signed by the voucher signer
+    /// @param _voucher the mint voucher
+    /// @param _signature the EIP-712 signature of the voucher
+    /// @notice the sale does not need to be enabled and limitPerUser does not apply
+    /// @notice requires the voucher is signed by the current voucher signer
+    /// @notice requires the voucher is not expired nor already redeemed
+    /// @notice requires the pay value to be equal to the voucher price
+    /// @notice requires the quantity to be less or equal to the remaining supply
+    /// @notice emits RedeemVoucher and MintToken events
+    function redeemVoucher(
+        MintVoucher calldata _voucher,
+        bytes calldata _signature
+    ) external payable {
+        require(
+            voucherSigner != address(0) &&
+                recoverVoucherSigner(_voucher, _signature) == voucherSigner,
+            "Invalid voucher signature"
+        );
+        require(block.timestamp <= _voucher.expiry, "Voucher expired");
+        require(!usedVoucherNonces[_voucher.nonce], "Voucher already used");
+        require(_voucher.quantity > 0, "Quantity must be greater than 0");
+        require(
+            maxSupply >= _tokenIdCounter.current() + _voucher.quantity,
+            "Tokens sold out"
+        );
+        require(msg.value == _voucher.price, "Wrong transaction value");
+
+        usedVoucherNonces[_voucher.nonce] = true;
+        emit RedeemVoucher(
+            msg.sender,
+            _voucher.recipient,
+            _voucher.nonce,
+            _voucher.quantity
+        );
+
+        for (uint256 i = 0; i < _voucher.quantity; i++) {
+            _mintToken(_voucher.recipient);
+        }
+    }
+
+    /// @dev function to recover the address that signed a voucher
+    /// @param _voucher the mint voucher
+    /// @param _signature the EIP-712 signature of the voucher
+    /// @notice reverts when the signature is malformed
+    /// @notice returns the address of the signer
+    function recoverVoucherSigner(
+        MintVoucher calldata _voucher,
+        bytes calldata _signature
+    ) public view returns (address) {
+        bytes32 digest = _hashTypedDataV4(
+            keccak256(
+                abi.encode(
+                    MINT_VOUCHER_TYPEHASH,
+                    _voucher.recipient,
+                    _voucher.quantity,
+                    _voucher.price,
+                    _voucher.expiry,
+                    _voucher.nonce
+                )
+            )
+        );
+        return ECDSA.recover(digest, _signature);
+    }
+
+    /// @dev function to mint the next token id to a user
+    /// @param _to the address receiving the token
+    function _mintToken(address _to) private {
         _tokenIdCounter.increment();
         uint256 tokenId = _tokenIdCounter.current();
 
-        _safeMint(msg.sender, tokenId);
-        emit MintToken(msg.sender, tokenId, tokenURI(tokenId));
+        _safeMint(_to, tokenId);
+        emit MintToken(_to, tokenId, tokenURI(tokenId));
     }
 
     /// @dev Function to withdraw tokens
@@ -126,6 +288,63 @@ contract MyNFT is
         emit ToggleIsSaleEnabled(msg.sender, isMintEnabled);
     }
 
+    /// @dev function to enable or disable the presale
+    /// @param _toggleIsPresaleEnabled boolean enable or disable the presale
+    /// @notice only admin can enable or disable the presale
+    /// @notice the presale is closed while the public sale is enabled
+    /// @notice emits ToggleIsPresaleEnabled event
+    function toggleIsPresaleEnabled(bool _toggleIsPresaleEnabled)
+        external
+        onlyOwner
+    {
+        isPresaleEnabled = _toggleIsPresaleEnabled;
+
+        emit ToggleIsPresaleEnabled(msg.sender, isPresaleEnabled);
+    }
+
+    /// @dev function to set the presale allowlist and price
+    /// @param _merkleRoot root of the tree of allowlisted wallets and limits
+    /// @param _presalePrice the presale mint price
+    /// @notice only admin can set the presale
+    /// @notice emits SetPresale event
+    function setPresale(bytes32 _merkleRoot, uint256 _presalePrice)
+        external
+        onlyOwner
+    {
+        presaleMerkleRoot = _merkleRoot;
+        presalePrice = _presalePrice;
+
+        emit SetPresale(msg.sender, presaleMerkleRoot, presalePrice);
+    }
+
+    /// @dev function to check if a wallet and its limit are in the presale allowlist
+    /// @param _wallet address of the wallet
+    /// @param _limit presale limit of the wallet
+    /// @param _proof Merkle proof of the wallet and its limit
+    /// @notice leaves are keccak256(keccak256(abi.encode(wallet, limit)))
+    /// @notice returns boolean if the wallet is allowlisted
+    function isPresaleAllowlisted(
+        address _wallet,
+        uint256 _limit,
+        bytes32[] calldata _proof
+    ) public view returns (bool) {
+        bytes32 leaf = keccak256(
+            bytes.concat(keccak256(abi.encode(_wallet, _limit)))
+        );
+        return MerkleProof.verify(_proof, presaleMerkleRoot, leaf);
+    }
+
+    /// @dev function to change the address signing the mint vouchers
+    /// @param _voucherSigner the new voucher signer, zero disables the vouchers
+    /// @notice only admin can change the voucher signer
+    /// @notice vouchers signed by the previous signer are no longer valid
+    /// @notice emits SetVoucherSigner event
+    function setVoucherSigner(address _voucherSigner) external onlyOwner {
+        voucherSigner = _voucherSigner;
+
+        emit SetVoucherSigner(msg.sender, voucherSigner);
+    }
+
     /// @dev function to change max mint supply
     /// @param _newMaxSupply new max supply
     /// @notice only admin can change max supply
@@ -4,6 +4,7 @@ pragma solidity ^0.8.4;
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
 import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Burnable.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/MerkleProof.sol";
 
 // import "hardhat/console.sol";
 
@@ -62,12 +63,28 @@ contract MyERC20 is ERC20, ERC20Burnable, Ownable {
     /// @param amount the amount of tokens minted
     event Mint(address indexed to, uint256 amount);
 
+    /// @dev event emitted when admin sets the allowlist Merkle root
+    /// @param sender the address of the sender
+    /// @param merkleRoot the new Merkle root
+    event SetMerkleRoot(address indexed sender, bytes32 merkleRoot);
+
+    /// @dev event emitted for every wallet of a whitelist update
+    /// @param sender the address of the sender
+    /// @param wallet the address of the updated wallet
+    /// @param isWhitelisted the new whitelisted status of the wallet
+    event UpdateWhitelist(
+        address indexed sender,
+        address indexed wallet,
+        bool isWhitelisted
+    );
+
     bool public isWhitelistedSale;
     mapping(address => bool) private whitelistedWallets;
     uint256 public TOKEN_PRICE;
     uint256 public ERC_20_PAYMENT_TOKEN_PRICE;
     uint256 public BUY_LIMIT;
     ERC20 public PAYMENT_TOKEN;
+    bytes32 public merkleRoot;
 
     modifier whitelisted(address _address) {
         if (isWhitelistedSale) {
@@ -79,6 +96,16 @@ contract MyERC20 is ERC20, ERC20Burnable, Ownable {
         _;
     }
 
+    modifier allowlisted(address _address, bytes32[] calldata _proof) {
+        if (isWhitelistedSale) {
+            require(
+                isWhitelisted(_address) || isAllowlisted(_address, _proof),
+                "User is not authorized to purchase"
+            );
+        }
+        _;
+    }
+
     modifier valueGreaterThan0(uint256 _amount) {
         require(_amount > 0, "Value must be greater than 0");
         _;
@@ -150,6 +177,26 @@ contract MyERC20 is ERC20, ERC20Burnable, Ownable {
         whitelisted(msg.sender)
         valueGreaterThan0(msg.value)
     {
+        _buyTokens();
+    }
+
+    /// @dev Function to buy tokens as a wallet of the Merkle allowlist
+    /// @param _proof Merkle proof of msg.sender, unused when the sale is public
+    /// @notice msg.sender must be whitelisted or allowlisted when isWhitelistedSale is true
+    /// @notice msg.value must be greater than 0
+    /// @notice amount of tokens purchased is equal or less than BUY_LIMIT
+    /// @notice emit PurchaseTokens event
+    function buyTokensWithProof(bytes32[] calldata _proof)
+        external
+        payable
+        allowlisted(msg.sender, _proof)
+        valueGreaterThan0(msg.value)
+    {
+        _buyTokens();
+    }
+
+    /// @dev Function to mint the tokens paid by msg.value
+    function _buyTokens() private {
         uint256 amount = (msg.value * (10**decimals())) /
             (TOKEN_PRICE * (10**decimals()));
         require(amount <= BUY_LIMIT, "Purchase exceed tokens limit");
@@ -170,6 +217,25 @@ contract MyERC20 is ERC20, ERC20Burnable, Ownable {
         whitelisted(msg.sender)
         valueGreaterThan0(_erc20Amount)
     {
+        _buyTokenByERC20(_erc20Amount);
+    }
+
+    /// @dev Function to buy tokens by ERC20 token as a wallet of the Merkle allowlist
+    /// @param _erc20Amount Amount of payment tokens to pay
+    /// @param _proof Merkle proof of msg.sender, unused when the sale is public
+    /// @notice msg.sender must be whitelisted or allowlisted when isWhitelistedSale is true
+    /// @notice same requirements as buyTokenByERC20
+    /// @notice emit PurchaseByERC20 event
+    function buyTokenByERC20WithProof(
+        uint256 _erc20Amount,
+        bytes32[] calldata _proof
+    ) external allowlisted(msg.sender, _proof) valueGreaterThan0(_erc20Amount) {
+        _buyTokenByERC20(_erc20Amount);
+    }
+
+    /// @dev Function to pay the ERC20 amount and mint the purchased tokens
+    /// @param _erc20Amount Amount of payment tokens to pay
+    function _buyTokenByERC20(uint256 _erc20Amount) private {
         uint256 amount = (_erc20Amount * (10**decimals())) /
             (ERC_20_PAYMENT_TOKEN_PRICE * (10**decimals()));
 
@@ -197,12 +263,15 @@ contract MyERC20 is ERC20, ERC20Burnable, Ownable {
     /// @param _wallets List of addresses array
     /// @param _toogleIsWhitelisted toggle whitelisted address
     /// @notice Function is only available to the owner
+    /// @notice emit UpdateWhitelist event for every wallet
     function updateWhitelist(
         address[] memory _wallets,
         bool _toogleIsWhitelisted
     ) public onlyOwner {
         for (uint256 i = 0; i < _wallets.length; i++) {
             whitelistedWallets[_wallets[i]] = _toogleIsWhitelisted;
+
+            emit UpdateWhitelist(msg.sender, _wallets[i], _toogleIsWhitelisted);
         }
     }
 
@@ -213,6 +282,30 @@ contract MyERC20 is ERC20, ERC20Burnable, Ownable {
         return whitelistedWallets[_wallet];
     }
 
+    /// @dev Function to set the Merkle root of the allowlist
+    /// @param _merkleRoot Root of the tree of allowlisted wallets
+    /// @notice Function is only available to the owner
+    /// @notice emit SetMerkleRoot event
+    function setMerkleRoot(bytes32 _merkleRoot) external onlyOwner {
+        merkleRoot = _merkleRoot;
+
+        emit SetMerkleRoot(msg.sender, _merkleRoot);
+    }
+
+    /// @dev Function to check if address is in the Merkle allowlist
+    /// @param _wallet Address of wallet
+    /// @param _proof Merkle proof of the wallet
+    /// @notice leaves are keccak256(keccak256(abi.encode(wallet)))
+    /// @return bool isAllowlisted
+    function isAllowlisted(address _wallet, bytes32[] calldata _proof)
+        public
+        view
+        returns (bool)
+    {
+        bytes32 leaf = keccak256(bytes.concat(keccak256(abi.encode(_wallet))));
+        return MerkleProof.verify(_proof, merkleRoot, leaf);
+    }
+
     /// dev Function to toggle whitelisted sale
     /// @notice Function is only available to the owner
     function toggleIsWhitelistedSale() public onlyOwner {
@@ -0,0 +1,354 @@
+import { BigNumber, BigNumberish, utils } from "ethers";
+
+// selectors of the Error(string) and Panic(uint256) revert data
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+// values known by the caller of the reverted call, copied to the error fields
+export interface ErrorContext {
+  offerId?: number;
+  tokenId?: BigNumberish;
+  account?: string;
+}
+
+//function to prefix a message with the offer id when it is known
+const offerLabel = (offerId?: number) =>
+  offerId === undefined ? "Offer" : `Offer ${offerId}`;
+
+// a revert of one of the contracts, reason is the contract revert string
+export class ContractError extends Error {
+  constructor(readonly reason: string, message = reason) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class NotOwnerError extends ContractError {
+  constructor() {
+    super("Ownable: caller is not the owner");
+  }
+}
+
+export class InvalidAmountError extends ContractError {}
+
+export class NoFundsError extends ContractError {
+  constructor() {
+    super("There are no funds to be withdraw");
+  }
+}
+
+export class WrongValueError extends ContractError {
+  constructor(reason = "Wrong transaction value") {
+    super(reason);
+  }
+}
+
+// balance is in base units, the message shows it in whole tokens
+export class InsufficientBalanceError extends ContractError {
+  constructor(
+    reason = "Insufficient balance",
+    readonly balance?: BigNumber,
+    readonly decimals = 18
+  ) {
+    super(
+      reason,
+      balance === undefined
+        ? reason
+        : `${reason}: ${utils.formatUnits(balance, decimals)} tokens available`
+    );
+  }
+}
+
+export class InsufficientAllowanceError extends ContractError {
+  constructor(reason = "Insufficient allowance") {
+    super(reason);
+  }
+}
+
+export class OfferNotFoundError extends ContractError {
+  constructor(readonly offerId?: number) {
+    super("Offer does not exist", `${offerLabel(offerId)} does not exist`);
+  }
+}
+
+export class OfferInactiveError extends ContractError {
+  constructor(readonly offerId?: number) {
+    super("Offer is not active", `${offerLabel(offerId)} is not active`);
+  }
+}
+
+export class OfferExpiredError extends ContractError {
+  constructor(readonly offerId?: number) {
+    super("Offer expired", `${offerLabel(offerId)} expired`);
+  }
+}
+
+export class OwnOfferError extends ContractError {
+  constructor(readonly offerId?: number) {
+    super("Offer does belong to you", `${offerLabel(offerId)} belongs to you`);
+  }
+}
+
+export class NotOfferSellerError extends ContractError {
+  constructor(reason: string, readonly offerId?: number) {
+    super(
+      reason,
+      offerId === undefined ? reason : `${reason} of offer ${offerId}`
+    );
+  }
+}
+
+export class InsufficientOfferAmountError extends ContractError {
+  constructor(readonly offerId?: number, readonly available?: BigNumber) {
+    super(
+      "Insufficient sale amount",
+      available === undefined
+        ? "Insufficient sale amount"
+        : `${offerLabel(offerId)} has only ${utils.formatEther(
+            available
+          )} tokens left`
+    );
+  }
+}
+
+export class InvalidExpirationError extends ContractError {
+  constructor() {
+    super("Expiration time must be in the future");
+  }
+}
+
+export class SaleNotOpenError extends ContractError {
+  constructor(reason = "Sales not open") {
+    super(reason);
+  }
+}
+
+export class SoldOutError extends ContractError {
+  constructor(readonly remaining?: BigNumber) {
+    super(
+      "Tokens sold out",
+      remaining === undefined
+        ? "Tokens sold out"
+        : `Tokens sold out: ${remaining} tokens left`
+    );
+  }
+}
+
+export class WalletLimitError extends ContractError {
+  constructor(
+    reason = "Exceeds max tokens per wallet",
+    readonly remaining?: BigNumber
+  ) {
+    super(
+      reason,
+      remaining === undefined ? reason : `${reason}: ${remaining} tokens left`
+    );
+  }
+}
+
+export class InvalidVoucherError extends ContractError {}
+
+export class BuyLimitError extends ContractError {
+  constructor(readonly limit?: BigNumber) {
+    super(
+      "Purchase exceed tokens limit",
+      limit === undefined
+        ? "Purchase exceed tokens limit"
+        : `Purchase exceed tokens limit of ${limit}`
+    );
+  }
+}
+
+export class NotAuthorizedError extends ContractError {
+  constructor(readonly account?: string) {
+    super(
+      "User is not authorized to purchase",
+      account === undefined
+        ? "User is not authorized to purchase"
+        : `User ${account} is not authorized to purchase`
+    );
+  }
+}
+
+export class TokenNotFoundError extends ContractError {
+  constructor(reason = "Token does not exist", readonly tokenId?: BigNumber) {
+    super(
+      reason,
+      tokenId === undefined ? reason : `Token ${tokenId} does not exist`
+    );
+  }
+}
+
+export class NotEnoughTokensError extends ContractError {
+  constructor(readonly tokenId?: BigNumber, readonly available?: BigNumber) {
+    super(
+      "Not enough tokens",
+      available === undefined
+        ? "Not enough tokens"
+        : `Not enough tokens: ${available} of token ${tokenId} left`
+    );
+  }
+}
+
+export class NotApprovedError extends ContractError {
+  constructor() {
+    super("ERC1155: caller is not token owner nor approved");
+  }
+}
+
+//function to get the token id of the context as a BigNumber
+const contextTokenId = ({ tokenId }: ErrorContext) =>
+  tokenId === undefined ? undefined : BigNumber.from(tokenId);
+
+// error classes of the revert strings of MyTokenMarket, MyNFT, MyERC20,
+// My1155Token and the OpenZeppelin contracts they extend
+const REVERT_REASONS: Record<
+  string,
+  (context: ErrorContext, reason: string) => ContractError
+> = {
+  "Ownable: caller is not the owner": () => new NotOwnerError(),
+  "Price must be greater than 0": (_, reason) => new InvalidAmountError(reason),
+  "Limit must be greater than 0": (_, reason) => new InvalidAmountError(reason),
+  "Value must be greater than 0": (_, reason) => new InvalidAmountError(reason),
+  "Quantity must be greater than 0": (_, reason) =>
+    new InvalidAmountError(reason),
+  "Fee percentage must be greater than 0": (_, reason) =>
+    new InvalidAmountError(reason),
+  "There are no funds to be withdraw": () => new NoFundsError(),
+  "Wrong transaction value": (_, reason) => new WrongValueError(reason),
+  "Insufficient value": (_, reason) => new WrongValueError(reason),
+  "Insufficient balance": (_, reason) => new InsufficientBalanceError(reason),
+  "You don`t have enough tokens": (_, reason) =>
+    new InsufficientBalanceError(reason),
+  "Insufficient allowance": (_, reason) =>
+    new InsufficientAllowanceError(reason),
+  "ERC20: insufficient allowance": (_, reason) =>
+    new InsufficientAllowanceError(reason),
+  "Offer does not exist": ({ offerId }) => new OfferNotFoundError(offerId),
+  "Offer is not active": ({ offerId }) => new OfferInactiveError(offerId),
+  "Offer expired": ({ offerId }) => new OfferExpiredError(offerId),
+  "Offer does belong to you": ({ offerId }) => new OwnOfferError(offerId),
+  "Insufficient sale amount": ({ offerId }) =>
+    new InsufficientOfferAmountError(offerId),
+  "Only seller can toggle offer status": ({ offerId }, reason) =>
+    new NotOfferSellerError(reason, offerId),
+  "Only seller can change price": ({ offerId }, reason) =>
+    new NotOfferSellerError(reason, offerId),
+  "Only seller can change expiration date": ({ offerId }, reason) =>
+    new NotOfferSellerError(reason, offerId),
+  "Expiration time must be in the future": () => new InvalidExpirationError(),
+  "Sales not open": (_, reason) => new SaleNotOpenError(reason),
+  "Presale not open": (_, reason) => new SaleNotOpenError(reason),
+  "Tokens sold out": () => new SoldOutError(),
+  "Exceeds max tokens per wallet": (_, reason) => new WalletLimitError(reason),
+  "Exceeds presale tokens per wallet": (_, reason) =>
+    new WalletLimitError(reason),
+  "Invalid voucher signature": (_, reason) => new InvalidVoucherError(reason),
+  "Voucher expired": (_, reason) => new InvalidVoucherError(reason),
+  "Voucher already used": (_, reason) => new InvalidVoucherError(reason),
+  "Purchase exceed tokens limit": () => new BuyLimitError(),
+  "User is not authorized to purchase": ({ account }) =>
+    new NotAuthorizedError(account),
+  "Token does not exist": (context, reason) =>
+    new TokenNotFoundError(reason, contextTokenId(context)),
+  "ERC721: nonexistent token": (context, reason) =>
+    new TokenNotFoundError(reason, contextTokenId(context)),
+  "Not enough tokens": (context) =>
+    new NotEnoughTokensError(contextTokenId(context)),
+  "ERC1155: caller is not token owner nor approved": () =>
+    new NotApprovedError(),
+};
+
+//function to decode Error(string) and Panic(uint256) revert data
+const decodeRevertData = (data: string): string | undefined => {
+  if (!utils.isHexString(data)) return undefined;
+
+  try {
+    if (data.startsWith(ERROR_SELECTOR)) {
+      return utils.defaultAbiCoder.decode(
+        ["string"],
+        utils.hexDataSlice(data, 4)
+      )[0];
+    }
+    if (data.startsWith(PANIC_SELECTOR)) {
+      const [code] = utils.defaultAbiCoder.decode(
+        ["uint256"],
+        utils.hexDataSlice(data, 4)
+      );
+      return `Panic(${BigNumber.from(code).toHexString()})`;
+    }
+  } catch (error) {
+    // malformed revert data, left to the message
+  }
+  return undefined;
+};
+
+//function to decode the JSON-RPC response body of a failed request
+const decodeRevertBody = (body: string, depth: number) => {
+  try {
+    return decodeRevertReason(JSON.parse(body), depth + 1);
+  } catch (error) {
+    return undefined;
+  }
+};
+
+//function to find the revert reason of a failed call, estimateGas or
+//transaction, the revert data is nested differently by the hardhat network,
+//the hardhat-ethers JSON-RPC provider and the plain ethers one
+export const decodeRevertReason = (
+  error: unknown,
+  depth = 0
+): string | undefined => {
+  if (depth > 5 || error === null || typeof error !== "object") {
+    return undefined;
+  }
+  const {
+    data,
+    error: cause,
+    body,
+    message,
+  } = error as Record<string, unknown>;
+
+  const reason =
+    (typeof data === "string"
+      ? decodeRevertData(data)
+      : decodeRevertReason(data, depth + 1)) ??
+    decodeRevertReason(cause, depth + 1) ??
+    (typeof body === "string" ? decodeRevertBody(body, depth) : undefined);
+  if (reason !== undefined) return reason;
+
+  // the message is the last resort, for errors without the revert data
+  const match =
+    typeof message === "string"
+      ? /reverted with reason string ['"](.*)['"]/.exec(message)
+      : null;
+  return match?.[1];
+};
+
+//function to convert a failed contract call to its typed error, undefined
+//when it is not a revert (network, signer or argument errors)
+export const decodeContractError = (
+  error: unknown,
+  context: ErrorContext = {}
+): ContractError | undefined => {
+  const reason = decodeRevertReason(error);
+  if (reason === undefined) return undefined;
+
+  const toError = REVERT_REASONS[reason];
+  return toError === undefined
+    ? new ContractError(reason)
+    : toError(context, reason);
+};
+
+//function to run a contract call, estimateGas or transaction and throw its
+//revert as a typed error, other errors are thrown unchanged
+export const withContractErrors = async <T>(
+  call: () => Promise<T>,
+  context: ErrorContext = {}
+): Promise<T> => {
+  try {
+    return await call();
+  } catch (error) {
+    throw decodeContractError(error, context) ?? error;
+  }
+};
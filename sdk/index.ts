@@ -0,0 +1,7 @@
+export * from "./errors";
+export * from "./items";
+export * from "./market";
+export * from "./nft";
+export * from "./sale";
+export * from "./sdk";
+export * from "./utils";
@@ -0,0 +1,70 @@
+import { BigNumber, BigNumberish, Signer } from "ethers";
+import { My1155Token, My1155Token__factory } from "../typechain-types";
+import type { BuyTokensEvent } from "../typechain-types/contracts/erc1155/My1155Token";
+import {
+  NotApprovedError,
+  NotEnoughTokensError,
+  TokenNotFoundError,
+  withContractErrors,
+} from "./errors";
+import { parseCount, waitForEvent } from "./utils";
+
+export interface ItemPurchaseResult {
+  buyer: string;
+  tokenId: BigNumber;
+  amount: BigNumber;
+  paidAmount: BigNumber;
+  transactionHash: string;
+}
+
+export class ItemsClient {
+  constructor(readonly contract: My1155Token) {}
+
+  //function to create a client of My1155Token at the address
+  static connect(address: string, signer: Signer): ItemsClient {
+    return new ItemsClient(My1155Token__factory.connect(address, signer));
+  }
+
+  //function to buy tokens of an id from the owner, paying exactly the token
+  //price for each
+  async buy(
+    tokenId: BigNumberish,
+    amount: BigNumberish
+  ): Promise<ItemPurchaseResult> {
+    const count = parseCount("Amount", amount);
+    const buyer = await this.contract.signer.getAddress();
+    const owner = await this.contract.owner();
+    const [exists, price, balance, isApproved] = await Promise.all([
+      this.contract.exists(tokenId),
+      this.contract.tokenPrice(tokenId),
+      this.contract.balanceOf(owner, tokenId),
+      this.contract.isApprovedForAll(owner, buyer),
+    ]);
+
+    const id = BigNumber.from(tokenId);
+    if (!exists) throw new TokenNotFoundError(undefined, id);
+    if (balance.lt(count)) throw new NotEnoughTokensError(id, balance);
+    // buyToken transfers from the owner on behalf of the buyer
+    if (buyer !== owner && !isApproved) throw new NotApprovedError();
+
+    const { receipt, args } = await withContractErrors(
+      async () =>
+        waitForEvent<BuyTokensEvent>(
+          this.contract,
+          await this.contract.buyToken(tokenId, count, {
+            value: price.mul(count),
+          }),
+          "BuyTokens"
+        ),
+      { tokenId }
+    );
+
+    return {
+      buyer: args.sender,
+      tokenId: args.tokenId,
+      amount: args.amount,
+      paidAmount: args.value,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+}
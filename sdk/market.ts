@@ -0,0 +1,196 @@
+import { BigNumber, BigNumberish, Signer, utils } from "ethers";
+import { OfferStatus, getOfferStatus } from "../tasks/utils/market";
+import {
+  ERC20__factory,
+  MyTokenMarket,
+  MyTokenMarket__factory,
+} from "../typechain-types";
+import type {
+  CreateOfferEvent,
+  PurchaseTokensEvent,
+} from "../typechain-types/contracts/marketplace/MyTokenMarket";
+import {
+  InsufficientBalanceError,
+  InsufficientOfferAmountError,
+  InvalidExpirationError,
+  OfferExpiredError,
+  OfferInactiveError,
+  OfferNotFoundError,
+  OwnOfferError,
+  withContractErrors,
+} from "./errors";
+import {
+  DecimalAmount,
+  Duration,
+  parseCount,
+  parseDecimalAmount,
+  parseDurationSeconds,
+  waitForEvent,
+} from "./utils";
+
+// MyTokenMarket.buyTokens removes purchased * 10**18 from the offer amount
+const MARKET_AMOUNT_UNIT = utils.parseEther("1");
+
+export interface MarketOffer {
+  offerId: number;
+  seller: string;
+  token: string;
+  // in base units of the token
+  amount: BigNumber;
+  // in wei per whole token
+  price: BigNumber;
+  expirationDate: number;
+  isActive: boolean;
+  status: OfferStatus;
+}
+
+export interface ListResult {
+  offerId: number;
+  token: string;
+  amount: BigNumber;
+  price: BigNumber;
+  expirationDate: number;
+  transactionHash: string;
+  // set when the market allowance had to be raised first
+  approvalHash?: string;
+}
+
+export interface MarketPurchaseResult {
+  offerId: number;
+  buyer: string;
+  amount: BigNumber;
+  paidAmount: BigNumber;
+  transactionHash: string;
+}
+
+export class MarketClient {
+  constructor(readonly contract: MyTokenMarket) {}
+
+  //function to create a client of the market at the address
+  static connect(address: string, signer: Signer): MarketClient {
+    return new MarketClient(MyTokenMarket__factory.connect(address, signer));
+  }
+
+  //function to get an offer with its status at the chain time, throws when it
+  //does not exist
+  async getOffer(offerId: number): Promise<MarketOffer> {
+    const [offer, { timestamp }] = await Promise.all([
+      this.contract.offers(offerId),
+      this.contract.provider.getBlock("latest"),
+    ]);
+    if (offer.offerID.isZero()) throw new OfferNotFoundError(offerId);
+
+    return {
+      offerId,
+      seller: offer.seller,
+      token: offer.token,
+      amount: offer.amount,
+      price: offer.price,
+      expirationDate: offer.expirationDate.toNumber(),
+      isActive: offer.isActive,
+      status: getOfferStatus(offer, timestamp),
+    };
+  }
+
+  //function to offer ERC20 tokens: amount in whole tokens, price in ETH per
+  //whole token, the market allowance is raised first when too low
+  async list(
+    token: string,
+    amount: DecimalAmount,
+    price: DecimalAmount,
+    expiresIn: Duration
+  ): Promise<ListResult> {
+    const seller = await this.contract.signer.getAddress();
+    const Token = ERC20__factory.connect(token, this.contract.signer);
+    const [decimals, balance, allowance, { timestamp }] = await Promise.all([
+      Token.decimals(),
+      Token.balanceOf(seller),
+      Token.allowance(seller, this.contract.address),
+      this.contract.provider.getBlock("latest"),
+    ]);
+
+    const offerAmount = parseDecimalAmount(amount, decimals);
+    const offerPrice = parseDecimalAmount(price);
+    const expirationDate = timestamp + parseDurationSeconds(expiresIn);
+
+    if (offerAmount.lte(0) || offerPrice.lte(0)) {
+      throw new Error("Amount and price must be greater than 0");
+    }
+    if (expirationDate <= timestamp) throw new InvalidExpirationError();
+    if (balance.lt(offerAmount)) {
+      throw new InsufficientBalanceError(
+        "Insufficient balance",
+        balance,
+        decimals
+      );
+    }
+
+    let approvalHash: string | undefined;
+    if (allowance.lt(offerAmount)) {
+      const approval = await withContractErrors(async () =>
+        (await Token.approve(this.contract.address, offerAmount)).wait()
+      );
+      approvalHash = approval.transactionHash;
+    }
+
+    const { receipt, args } = await withContractErrors(async () =>
+      waitForEvent<CreateOfferEvent>(
+        this.contract,
+        await this.contract.createOffer(
+          token,
+          offerAmount,
+          offerPrice,
+          expirationDate
+        ),
+        "CreateOffer"
+      )
+    );
+
+    return {
+      offerId: args.offerID.toNumber(),
+      token: args.token,
+      amount: args.amount,
+      price: args.price,
+      expirationDate: args.expirationDate.toNumber(),
+      transactionHash: receipt.transactionHash,
+      approvalHash,
+    };
+  }
+
+  //function to buy whole tokens of an offer, paying the offer price for each
+  async buy(
+    offerId: number,
+    amount: BigNumberish
+  ): Promise<MarketPurchaseResult> {
+    const count = parseCount("Amount", amount);
+    const buyer = await this.contract.signer.getAddress();
+    const offer = await this.getOffer(offerId);
+
+    if (offer.status === "inactive") throw new OfferInactiveError(offerId);
+    if (offer.status === "expired") throw new OfferExpiredError(offerId);
+    if (offer.seller === buyer) throw new OwnOfferError(offerId);
+    if (offer.amount.lt(count.mul(MARKET_AMOUNT_UNIT))) {
+      throw new InsufficientOfferAmountError(offerId, offer.amount);
+    }
+
+    const { receipt, args } = await withContractErrors(
+      async () =>
+        waitForEvent<PurchaseTokensEvent>(
+          this.contract,
+          await this.contract.buyTokens(offerId, {
+            value: offer.price.mul(count),
+          }),
+          "PurchaseTokens"
+        ),
+      { offerId }
+    );
+
+    return {
+      offerId,
+      buyer: args.buyer,
+      amount: args.amount,
+      paidAmount: args.paidAmount,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+}
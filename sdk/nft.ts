@@ -0,0 +1,107 @@
+import { BigNumber, Signer, constants } from "ethers";
+import { getLogsInChunks } from "../tasks/utils/events";
+import { MyNFT, MyNFT__factory } from "../typechain-types";
+import type { TransferEvent } from "../typechain-types/contracts/nft/MyNFT";
+import {
+  SaleNotOpenError,
+  SoldOutError,
+  WalletLimitError,
+  withContractErrors,
+} from "./errors";
+import { waitForEvent } from "./utils";
+
+// blocks per getLogs request, hosted RPCs reject or truncate larger ranges
+const LOGS_CHUNK_SIZE = 2000;
+
+export interface MintResult {
+  tokenIds: BigNumber[];
+  paidAmount: BigNumber;
+  // one purchaseToken transaction per token
+  transactionHashes: string[];
+}
+
+export class NftClient {
+  // fromBlock is the deployment block, the mints are searched from it
+  constructor(
+    readonly contract: MyNFT,
+    readonly fromBlock: number,
+    readonly chunkSize = LOGS_CHUNK_SIZE
+  ) {}
+
+  //function to create a client of MyNFT at the address
+  static connect(
+    address: string,
+    signer: Signer,
+    fromBlock: number
+  ): NftClient {
+    return new NftClient(MyNFT__factory.connect(address, signer), fromBlock);
+  }
+
+  //function to count all minted tokens, burned ones included, as the MyNFT
+  //token id counter the sold out checks use is private
+  async getMintedCount(): Promise<number> {
+    const toBlock = await this.contract.provider.getBlockNumber();
+    let count = 0;
+
+    await getLogsInChunks(
+      this.contract.provider,
+      this.contract.filters.Transfer(constants.AddressZero),
+      this.fromBlock,
+      toBlock,
+      this.chunkSize,
+      async (logs) => {
+        count += logs.length;
+      }
+    );
+
+    return count;
+  }
+
+  //function to mint tokens in the public sale, paying exactly the mint price
+  //for each, the checks run for the whole quantity before the first mint
+  async mint(quantity = 1): Promise<MintResult> {
+    if (!Number.isInteger(quantity) || quantity < 1) {
+      throw new Error("Quantity must be greater than 0");
+    }
+
+    const buyer = await this.contract.signer.getAddress();
+    const [isMintEnabled, mintPrice, maxSupply, totalMinted, limit, minted] =
+      await Promise.all([
+        this.contract.isMintEnabled(),
+        this.contract.mintPrice(),
+        this.contract.maxSupply(),
+        this.getMintedCount(),
+        this.contract.limitPerUser(),
+        this.contract.mintedWallets(buyer),
+      ]);
+
+    if (!isMintEnabled) throw new SaleNotOpenError();
+    // burned tokens leave the supply but still count towards maxSupply
+    if (maxSupply.lt(totalMinted + quantity)) {
+      throw new SoldOutError(maxSupply.sub(totalMinted));
+    }
+    if (minted.add(quantity).gt(limit)) {
+      throw new WalletLimitError(undefined, limit.sub(minted));
+    }
+
+    const tokenIds: BigNumber[] = [];
+    const transactionHashes: string[] = [];
+    for (let i = 0; i < quantity; i++) {
+      const { receipt, args } = await withContractErrors(async () =>
+        waitForEvent<TransferEvent>(
+          this.contract,
+          await this.contract.purchaseToken({ value: mintPrice }),
+          "Transfer"
+        )
+      );
+      tokenIds.push(args.tokenId);
+      transactionHashes.push(receipt.transactionHash);
+    }
+
+    return {
+      tokenIds,
+      paidAmount: mintPrice.mul(quantity),
+      transactionHashes,
+    };
+  }
+}
@@ -0,0 +1,156 @@
+import { BigNumber, BigNumberish, Signer } from "ethers";
+import { ERC20__factory, MyERC20, MyERC20__factory } from "../typechain-types";
+import type {
+  PurchaseByERC20Event,
+  PurchaseTokensEvent,
+} from "../typechain-types/contracts/tokens/MyERC20";
+import {
+  BuyLimitError,
+  InsufficientBalanceError,
+  NotAuthorizedError,
+  withContractErrors,
+} from "./errors";
+import { parseCount, waitForEvent } from "./utils";
+
+export interface SalePurchaseResult {
+  buyer: string;
+  // MyERC20 mints the purchased amount without decimals
+  amount: BigNumber;
+  // in wei, or in base units of the payment token
+  paidAmount: BigNumber;
+  // undefined for an ETH purchase
+  paymentToken?: string;
+  transactionHash: string;
+  // set when the sale allowance had to be raised first
+  approvalHash?: string;
+}
+
+export class SaleClient {
+  constructor(readonly contract: MyERC20) {}
+
+  //function to create a client of the MyERC20 sale at the address
+  static connect(address: string, signer: Signer): SaleClient {
+    return new SaleClient(MyERC20__factory.connect(address, signer));
+  }
+
+  //function to check the buy limit and, during a whitelisted sale, that the
+  //buyer is whitelisted or proves to be in the Merkle allowlist
+  private async checkPurchase(
+    buyer: string,
+    amount: BigNumber,
+    proof?: string[]
+  ) {
+    const [buyLimit, isWhitelistedSale, isWhitelisted] = await Promise.all([
+      this.contract.BUY_LIMIT(),
+      this.contract.isWhitelistedSale(),
+      this.contract.isWhitelisted(buyer),
+    ]);
+
+    if (amount.gt(buyLimit)) {
+      throw new BuyLimitError(buyLimit);
+    }
+    if (
+      isWhitelistedSale &&
+      !isWhitelisted &&
+      !(
+        proof !== undefined && (await this.contract.isAllowlisted(buyer, proof))
+      )
+    ) {
+      throw new NotAuthorizedError(buyer);
+    }
+  }
+
+  //function to buy tokens with ETH, paying the token price for each, the
+  //proof is needed for allowlisted wallets during a whitelisted sale
+  async buy(
+    amount: BigNumberish,
+    proof?: string[]
+  ): Promise<SalePurchaseResult> {
+    const count = parseCount("Amount", amount);
+    const buyer = await this.contract.signer.getAddress();
+    await this.checkPurchase(buyer, count, proof);
+
+    const value = (await this.contract.TOKEN_PRICE()).mul(count);
+    const { receipt, args } = await withContractErrors(
+      async () =>
+        waitForEvent<PurchaseTokensEvent>(
+          this.contract,
+          proof === undefined
+            ? await this.contract.buyTokens({ value })
+            : await this.contract.buyTokensWithProof(proof, { value }),
+          "PurchaseTokens"
+        ),
+      { account: buyer }
+    );
+
+    return {
+      buyer: args.buyer,
+      amount: args.amount,
+      paidAmount: args.paidAmount,
+      transactionHash: receipt.transactionHash,
+    };
+  }
+
+  //function to buy tokens with the payment token, the sale allowance is raised
+  //first when too low
+  async buyWithToken(
+    amount: BigNumberish,
+    proof?: string[]
+  ): Promise<SalePurchaseResult> {
+    const count = parseCount("Amount", amount);
+    const buyer = await this.contract.signer.getAddress();
+    await this.checkPurchase(buyer, count, proof);
+
+    const [paymentToken, tokenPrice] = await Promise.all([
+      this.contract.PAYMENT_TOKEN(),
+      this.contract.ERC_20_PAYMENT_TOKEN_PRICE(),
+    ]);
+    const PaymentToken = ERC20__factory.connect(
+      paymentToken,
+      this.contract.signer
+    );
+    const cost = tokenPrice.mul(count);
+    const [decimals, balance, allowance] = await Promise.all([
+      PaymentToken.decimals(),
+      PaymentToken.balanceOf(buyer),
+      PaymentToken.allowance(buyer, this.contract.address),
+    ]);
+
+    if (balance.lt(cost)) {
+      throw new InsufficientBalanceError(
+        "You don`t have enough tokens",
+        balance,
+        decimals
+      );
+    }
+
+    let approvalHash: string | undefined;
+    if (allowance.lt(cost)) {
+      const approval = await withContractErrors(async () =>
+        (await PaymentToken.approve(this.contract.address, cost)).wait()
+      );
+      approvalHash = approval.transactionHash;
+    }
+
+    const { receipt, args } = await withContractErrors(
+      async () =>
+        waitForEvent<PurchaseByERC20Event>(
+          this.contract,
+          proof === undefined
+            ? await this.contract.buyTokenByERC20(cost)
+            : await this.contract.buyTokenByERC20WithProof(cost, proof),
+          "PurchaseByERC20"
+        ),
+      { account: buyer }
+    );
+
+    return {
+      buyer: args.buyer,
+      amount: args.amount,
+      paidAmount: args.paidAmount,
+      paymentToken: args.paymentToken,
+      transactionHash: receipt.transactionHash,
+      approvalHash,
+    };
+  }
+}
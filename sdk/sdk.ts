@@ -0,0 +1,68 @@
+import type { Signer } from "ethers";
+import { readManifest } from "../tasks/utils/manifest";
+import { ItemsClient } from "./items";
+import { MarketClient } from "./market";
+import { NftClient } from "./nft";
+import { SaleClient } from "./sale";
+
+export interface SdkAddresses {
+  MyERC20?: string;
+  MyNFT?: string;
+  My1155Token?: string;
+  MyTokenMarket?: string;
+}
+
+// deployment blocks of the contracts, to search their events from
+export type SdkDeployBlocks = Partial<Record<keyof SdkAddresses, number>>;
+
+export class Sdk {
+  constructor(
+    readonly signer: Signer,
+    readonly addresses: SdkAddresses,
+    readonly deployBlocks: SdkDeployBlocks = {}
+  ) {}
+
+  //function to create an SDK with the addresses of deployments/<network>.json
+  static fromManifest(network: string, signer: Signer): Sdk {
+    const { contracts } = readManifest(network);
+
+    return new Sdk(
+      signer,
+      {
+        MyERC20: contracts.MyERC20?.address,
+        MyNFT: contracts.MyNFT?.address,
+        My1155Token: contracts.My1155Token?.address,
+        MyTokenMarket: contracts.MyTokenMarket?.address,
+      },
+      { MyNFT: contracts.MyNFT?.blockNumber }
+    );
+  }
+
+  //function to get the address of a contract, throws when it is not set
+  private getAddress(name: keyof SdkAddresses): string {
+    const address = this.addresses[name];
+    if (address === undefined) throw new Error(`${name} address is not set`);
+    return address;
+  }
+
+  get market(): MarketClient {
+    return MarketClient.connect(this.getAddress("MyTokenMarket"), this.signer);
+  }
+
+  get nft(): NftClient {
+    const address = this.getAddress("MyNFT");
+    const deployBlock = this.deployBlocks.MyNFT;
+    if (deployBlock === undefined) {
+      throw new Error("MyNFT deploy block is not set");
+    }
+    return NftClient.connect(address, this.signer, deployBlock);
+  }
+
+  get sale(): SaleClient {
+    return SaleClient.connect(this.getAddress("MyERC20"), this.signer);
+  }
+
+  get items(): ItemsClient {
+    return ItemsClient.connect(this.getAddress("My1155Token"), this.signer);
+  }
+}
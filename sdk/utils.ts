@@ -0,0 +1,61 @@
+import { BigNumber, BigNumberish, utils } from "ethers";
+import type {
+  BaseContract,
+  ContractReceipt,
+  ContractTransaction,
+} from "ethers";
+import { parseDuration } from "../tasks/utils/market";
+import type { TypedEvent } from "../typechain-types/common";
+
+// a decimal amount like "1.5" or 0.1, a BigNumber is already in base units
+export type DecimalAmount = string | number | BigNumber;
+
+// seconds, or a duration like "30m", "12h" or "7d"
+export type Duration = number | string;
+
+//function to convert a decimal amount to base units of the given decimals
+export const parseDecimalAmount = (
+  value: DecimalAmount,
+  decimals = 18
+): BigNumber =>
+  BigNumber.isBigNumber(value)
+    ? value
+    : utils.parseUnits(String(value), decimals);
+
+//function to convert a duration to seconds
+export const parseDurationSeconds = (value: Duration): number => {
+  if (typeof value === "string") return parseDuration(value);
+  if (!Number.isInteger(value) || value < 0) {
+    throw new Error(`Invalid duration ${value}, use a number of seconds`);
+  }
+  return value;
+};
+
+//function to parse a count of tokens, throws when it is not positive
+export const parseCount = (name: string, value: BigNumberish): BigNumber => {
+  const count = BigNumber.from(value);
+  if (count.lte(0)) throw new Error(`${name} must be greater than 0`);
+  return count;
+};
+
+//function to wait for a transaction and get the typechain args of its first
+//event with the given name emitted by the contract
+export const waitForEvent = async <T extends TypedEvent>(
+  contract: BaseContract,
+  transaction: ContractTransaction,
+  eventName: string
+): Promise<{ receipt: ContractReceipt; args: T["args"] }> => {
+  const receipt = await transaction.wait();
+  const event = receipt.events?.find(
+    ({ address, event: name }) =>
+      address === contract.address && name === eventName
+  );
+
+  if (event?.args === undefined) {
+    throw new Error(
+      `${eventName} was not emitted by transaction ${receipt.transactionHash}`
+    );
+  }
+
+  return { receipt, args: event.args as T["args"] };
+};
@@ -0,0 +1,105 @@
+import http from "http";
+import { task, types } from "hardhat/config";
+import {
+  DEFAULT_API_PORT,
+  DEFAULT_CONFIRMATIONS,
+  DEFAULT_INDEXER_DB_PATH,
+  createApiHandler,
+  createIndexer,
+  getIndexerDeployments,
+  openIndexerStore,
+} from "./utils";
+
+task("api:serve", "Runs a local JSON API over the indexed contract activity")
+  .addOptionalParam("port", "Port to listen on", DEFAULT_API_PORT, types.int)
+  .addOptionalParam("host", "Host to listen on", "127.0.0.1")
+  .addOptionalParam(
+    "db",
+    "Path of the SQLite database",
+    DEFAULT_INDEXER_DB_PATH
+  )
+  .addOptionalParam(
+    "confirmations",
+    "Blocks rewound when a reorg is detected",
+    DEFAULT_CONFIRMATIONS,
+    types.int
+  )
+  .addOptionalParam(
+    "interval",
+    "Seconds between two syncs of the index",
+    5,
+    types.int
+  )
+  .setAction(async (taskArgs, hre) => {
+    const { ethers } = hre;
+    const { port, host, db, confirmations, interval } = taskArgs;
+
+    if (confirmations < 1) {
+      throw new Error("confirmations must be greater than 0");
+    }
+
+    const { contracts, startBlock } = await getIndexerDeployments(hre);
+    const store = await openIndexerStore(db);
+    // the index is kept in memory by sql.js, so the API syncs it itself
+    const indexer = createIndexer({
+      store,
+      provider: ethers.provider,
+      contracts,
+      startBlock,
+      confirmations,
+      log: console.log,
+    });
+
+    console.log(`Indexing ${Object.keys(contracts).join(", ")} to ${db}...`);
+    const { toBlock } = await indexer.sync();
+    console.log(`Indexed up to block ${toBlock}`);
+
+    const server = http.createServer(
+      createApiHandler({
+        db: store.db,
+        contracts,
+        // offers expire against the chain time, which devnets can move
+        getTimestamp: async () =>
+          (await ethers.provider.getBlock("latest")).timestamp,
+      })
+    );
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, resolve);
+    });
+
+    const serverUrl = `http://${host}:${port}`;
+    console.log(`Serving the API on ${serverUrl}`);
+    console.log(`  ${serverUrl}/offers`);
+    console.log(`  ${serverUrl}/offers/:id`);
+    console.log(`  ${serverUrl}/nft/:owner`);
+    console.log(`  ${serverUrl}/1155/:id`);
+
+    let stopped = false;
+    const stop = new Promise<void>((resolve) =>
+      process.once("SIGINT", () => {
+        stopped = true;
+        resolve();
+      })
+    );
+
+    // runs until Ctrl+C, a failed sync is retried on the next interval
+    try {
+      while (!stopped) {
+        await Promise.race([
+          stop,
+          new Promise((resolve) => setTimeout(resolve, interval * 1000)),
+        ]);
+        if (stopped) break;
+
+        try {
+          await indexer.sync();
+        } catch (error) {
+          console.log(`Sync failed: ${(error as Error).message}`);
+        }
+      }
+    } finally {
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+      store.close();
+    }
+  });
@@ -0,0 +1,123 @@
+import fs from "fs";
+import { task } from "hardhat/config";
+import type { My1155Token } from "../typechain-types/contracts/erc1155";
+import {
+  CatalogItem,
+  DEFAULT_CATALOG_PATH,
+  assertSignerIsOwner,
+  confirm,
+  getDeployedContract,
+  printTransactionEvents,
+  readCatalog,
+} from "./utils";
+
+interface CatalogPlan {
+  contract: string;
+  mintBatch: { ids: number[]; amounts: number[]; prices: string[] };
+  priceMismatches: Array<{ id: number; catalog: string; onChain: string }>;
+  supplyMismatches: Array<{ id: number; catalog: number; onChain: string }>;
+  unchanged: number[];
+}
+
+//function to compare the catalog with the on-chain supply and prices
+const buildCatalogPlan = async (
+  Token: My1155Token,
+  items: CatalogItem[]
+): Promise<CatalogPlan> => {
+  const plan: CatalogPlan = {
+    contract: Token.address,
+    mintBatch: { ids: [], amounts: [], prices: [] },
+    priceMismatches: [],
+    supplyMismatches: [],
+    unchanged: [],
+  };
+
+  for (const { id, amount, price } of items) {
+    const [totalSupply, tokenPrice] = await Promise.all([
+      Token.totalSupply(id),
+      Token.tokenPrice(id),
+    ]);
+
+    // burning can bring the supply back to 0, a minted id keeps its price
+    if (tokenPrice.isZero()) {
+      plan.mintBatch.ids.push(id);
+      plan.mintBatch.amounts.push(amount);
+      plan.mintBatch.prices.push(price.toString());
+      continue;
+    }
+
+    let isChanged = false;
+    if (!tokenPrice.eq(price)) {
+      plan.priceMismatches.push({
+        id,
+        catalog: price.toString(),
+        onChain: tokenPrice.toString(),
+      });
+      isChanged = true;
+    }
+    if (!totalSupply.eq(amount)) {
+      plan.supplyMismatches.push({
+        id,
+        catalog: amount,
+        onChain: totalSupply.toString(),
+      });
+      isChanged = true;
+    }
+    if (!isChanged) plan.unchanged.push(id);
+  }
+
+  return plan;
+};
+
+task("catalog:sync", "Mints the new My1155Token catalog items")
+  .addOptionalPositionalParam(
+    "catalog",
+    "Path to the catalog file",
+    DEFAULT_CATALOG_PATH
+  )
+  .addOptionalParam("plan", "Path to save the JSON plan")
+  .addFlag("planOnly", "Print the plan without sending anything")
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ catalog, plan: planPath, planOnly, yes }, hre) => {
+    const items = readCatalog(catalog);
+    const Token = await getDeployedContract<My1155Token>(hre, "My1155Token");
+
+    const plan = await buildCatalogPlan(Token, items);
+    const planJson = JSON.stringify(plan, null, 2);
+
+    console.log(planJson);
+    if (planPath !== undefined) fs.writeFileSync(planPath, `${planJson}\n`);
+
+    for (const { id, catalog: price, onChain } of plan.priceMismatches) {
+      console.warn(
+        `Warning: token ${id} price is ${hre.ethers.utils.formatEther(
+          onChain
+        )} ETH on chain, catalog says ${hre.ethers.utils.formatEther(
+          price
+        )} ETH`
+      );
+    }
+    for (const { id, catalog: amount, onChain } of plan.supplyMismatches) {
+      console.warn(
+        `Warning: token ${id} supply is ${onChain} on chain, catalog says ${amount}`
+      );
+    }
+
+    const { ids, amounts, prices } = plan.mintBatch;
+    if (planOnly) return;
+    if (ids.length === 0) {
+      console.log("No new items to mint");
+      return;
+    }
+
+    await assertSignerIsOwner(Token);
+    if (!yes && !(await confirm(`Mint ${ids.length} new item(s)?`))) {
+      console.log("Aborted");
+      return;
+    }
+
+    await printTransactionEvents(
+      Token,
+      await Token.mintBatch(ids, amounts, prices, "0x")
+    );
+  });
@@ -0,0 +1,177 @@
+import { task } from "hardhat/config";
+import {
+  DEPLOYABLE_CONTRACTS,
+  DeployOptions,
+  DeployableContract,
+  DryRun,
+  deployOrReuse,
+  getContractParams,
+  getManifestPath,
+  getParamsPath,
+  loadDeployParams,
+  parseContractNames,
+  printGasEstimates,
+  readManifest,
+  runStep,
+} from "./utils";
+
+task("deploy", "Deploys the contracts and saves them in the network manifest")
+  .addOptionalParam(
+    "contracts",
+    "Comma separated list of contracts to deploy",
+    DEPLOYABLE_CONTRACTS.join(",")
+  )
+  .addOptionalParam(
+    "params",
+    "Path to the deploy params file, defaults to config/<network>.json"
+  )
+  .addFlag(
+    "force",
+    "Redeploy the contracts even when the manifest ones are up to date"
+  )
+  .addFlag("dryRun", "Estimate the gas of the deploy without sending anything")
+  .addOptionalParam(
+    "gasPrice",
+    "Gas price in gwei used by the dry run, defaults to the network one"
+  )
+  .setAction(async (taskArgs, hre) => {
+    const { contracts, params: paramsPath, force, gasPrice } = taskArgs;
+    const { ethers, network } = hre;
+    const options: DeployOptions = {
+      force,
+      dryRun: taskArgs.dryRun ? new DryRun(hre) : undefined,
+    };
+    const contractNames: DeployableContract[] = parseContractNames(contracts);
+
+    // validate everything before the first transaction is sent
+    const params = loadDeployParams(
+      paramsPath ?? getParamsPath(network.name),
+      contractNames
+    );
+
+    const [deployer] = await ethers.getSigners();
+    console.log(`Deployer address: ${deployer.address}`);
+    console.log(
+      `Deployer balance: ${ethers.utils.formatEther(
+        await deployer.getBalance()
+      )} ETH`
+    );
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const manifest = readManifest(network.name, chainId);
+    manifest.chainId = chainId;
+
+    try {
+      for (const contractName of contractNames) {
+        switch (contractName) {
+          case "MyERC20": {
+            const erc20Params = getContractParams(params, contractName);
+            let paymentToken = erc20Params.paymentToken;
+
+            if (paymentToken === undefined) {
+              const PaymentToken = await deployOrReuse(
+                hre,
+                manifest,
+                "ERC20MockToken",
+                [],
+                deployer,
+                options
+              );
+              paymentToken = PaymentToken.address;
+            }
+
+            const Token = await deployOrReuse(
+              hre,
+              manifest,
+              contractName,
+              [
+                erc20Params.name,
+                erc20Params.symbol,
+                erc20Params.initMintAmount,
+                erc20Params.tokenPrice,
+                erc20Params.erc20TokenPrice,
+                paymentToken,
+                erc20Params.buyLimit,
+                erc20Params.isWhitelistedSale,
+              ],
+              deployer,
+              options
+            );
+
+            if (erc20Params.whitelist.length > 0) {
+              await runStep(
+                manifest,
+                contractName,
+                Token,
+                "updateWhitelist",
+                [erc20Params.whitelist, true],
+                options
+              );
+            }
+            break;
+          }
+          case "MyNFT": {
+            const nftParams = getContractParams(params, contractName);
+            await deployOrReuse(
+              hre,
+              manifest,
+              contractName,
+              [
+                nftParams.name,
+                nftParams.symbol,
+                nftParams.mintPrice,
+                nftParams.maxSupply,
+                nftParams.limitPerUser,
+                nftParams.isMintEnabled,
+                nftParams.baseURI,
+              ],
+              deployer,
+              options
+            );
+            break;
+          }
+          case "My1155Token":
+            await deployOrReuse(
+              hre,
+              manifest,
+              contractName,
+              [getContractParams(params, contractName).baseURI],
+              deployer,
+              options
+            );
+            break;
+          case "MyTokenMarket":
+            await deployOrReuse(
+              hre,
+              manifest,
+              contractName,
+              [getContractParams(params, contractName).feePercentage],
+              deployer,
+              options
+            );
+            break;
+        }
+      }
+    } finally {
+      // the transactions of a dry run on a snapshot network are reverted
+      await options.dryRun?.finish();
+    }
+
+    if (options.dryRun !== undefined) {
+      const totalCost = printGasEstimates(
+        options.dryRun.estimates,
+        gasPrice !== undefined
+          ? ethers.utils.parseUnits(gasPrice, "gwei")
+          : await ethers.provider.getGasPrice()
+      );
+
+      if (totalCost.gt(await deployer.getBalance())) {
+        console.log("\nDeployer balance is not enough to cover the deploy");
+      }
+      return;
+    }
+
+    console.log(
+      `Deployment manifest saved to: ${getManifestPath(network.name)}`
+    );
+  });
@@ -0,0 +1,248 @@
+import fs from "fs";
+import { task } from "hardhat/config";
+import type { ContractTransaction } from "ethers";
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import type { My1155Token } from "../typechain-types/contracts/erc1155";
+import type { MyTokenMarket } from "../typechain-types/contracts/marketplace";
+import type { ERC20MockToken } from "../typechain-types/contracts/mock";
+import type { MyNFT } from "../typechain-types/contracts/nft";
+import type { MyERC20 } from "../typechain-types/contracts/tokens";
+import {
+  DEPLOYABLE_CONTRACTS,
+  DevnetSeed,
+  SEED_ROLES,
+  SeedRole,
+  assertDevnet,
+  getDeployedContract,
+  getManifestPath,
+  getSeedPath,
+  readManifest,
+} from "./utils";
+
+const DAY = 24 * 60 * 60;
+
+//function to wait for a seeding transaction
+const send = async (
+  label: string,
+  transaction: Promise<ContractTransaction>
+) => {
+  await (await transaction).wait();
+  console.log(`  ${label}`);
+};
+
+task("devnet:seed", "Deploys and fills a local hardhat node with sample data")
+  .addOptionalParam(
+    "params",
+    "Path to the deploy params file, defaults to config/<network>.json"
+  )
+  .addOptionalParam("eth", "ETH sent to every funded account", "100")
+  .addOptionalParam(
+    "mockTokens",
+    "ERC20MockToken minted to every funded account",
+    "10000"
+  )
+  .addOptionalParam("fund", "Comma separated extra addresses to fund")
+  .addOptionalParam(
+    "output",
+    "Path of the JSON summary, defaults to deployments/<network>.seed.json"
+  )
+  .setAction(async (taskArgs, hre) => {
+    const { ethers, network } = hre;
+    const { parseEther } = ethers.utils;
+    await assertDevnet(hre);
+
+    console.log("Deploying the contracts...");
+    await hre.run("deploy", { params: taskArgs.params, force: true });
+
+    const signers = await ethers.getSigners();
+    const roles = Object.fromEntries(
+      Object.entries(SEED_ROLES).map(([role, { index }]) => [
+        role,
+        signers[index],
+      ])
+    ) as Record<SeedRole, SignerWithAddress>;
+    const { owner, seller, buyer, collector } = roles;
+
+    const Token = await getDeployedContract<MyERC20>(hre, "MyERC20");
+    const NFT = await getDeployedContract<MyNFT>(hre, "MyNFT");
+    const Token1155 = await getDeployedContract<My1155Token>(
+      hre,
+      "My1155Token"
+    );
+    const MarketPlace = await getDeployedContract<MyTokenMarket>(
+      hre,
+      "MyTokenMarket"
+    );
+    const MockToken = (await ethers.getContractAt(
+      "ERC20MockToken",
+      await Token.PAYMENT_TOKEN()
+    )) as unknown as ERC20MockToken;
+
+    console.log("Funding the accounts...");
+    const extraAddresses: string[] = (taskArgs.fund ?? "")
+      .split(",")
+      .map((address: string) => address.trim())
+      .filter((address: string) => address !== "")
+      .map((address: string) => ethers.utils.getAddress(address));
+    const funded = [
+      ...Object.values(roles)
+        .filter((signer) => signer !== owner)
+        .map(({ address }) => address),
+      ...extraAddresses,
+    ];
+    for (const address of funded) {
+      await send(
+        `${taskArgs.eth} ETH to ${address}`,
+        owner.sendTransaction({ to: address, value: parseEther(taskArgs.eth) })
+      );
+      await send(
+        `${taskArgs.mockTokens} ERC20MockToken to ${address}`,
+        MockToken.mint(address, parseEther(taskArgs.mockTokens))
+      );
+    }
+
+    console.log("Whitelisting the buyers...");
+    await send(
+      "MyERC20 whitelist updated",
+      Token.updateWhitelist([buyer.address, collector.address], true)
+    );
+
+    console.log("Minting MyNFT tokens...");
+    if (!(await NFT.isMintEnabled())) {
+      await send("MyNFT sale enabled", NFT.toggleIsSaleEnabled(true));
+    }
+    const nfts: Record<string, number[]> = {};
+    const mintPrice = await NFT.mintPrice();
+    const limitPerUser = (await NFT.limitPerUser()).toNumber();
+    const maxSupply = (await NFT.maxSupply()).toNumber();
+    let minted = 0;
+    for (const [role, count] of [
+      ["collector", limitPerUser],
+      ["buyer", 1],
+    ] as const) {
+      for (let i = 0; i < count && minted < maxSupply; i++) {
+        await send(
+          `MyNFT #${++minted} to ${role}`,
+          NFT.connect(roles[role]).purchaseToken({ value: mintPrice })
+        );
+        nfts[roles[role].address] = [
+          ...(nfts[roles[role].address] ?? []),
+          minted,
+        ];
+      }
+    }
+
+    console.log("Minting the My1155Token catalog...");
+    await hre.run("catalog:sync", { yes: true });
+    const items: Record<string, Record<string, number>> = {};
+    // buyToken transfers from the owner, so the buyers need its approval
+    for (const role of ["collector", "buyer"] as const) {
+      await send(
+        `My1155Token approved for ${role}`,
+        Token1155.setApprovalForAll(roles[role].address, true)
+      );
+    }
+    for (const [role, id, amount] of [
+      ["collector", 1, 5],
+      ["collector", 2, 2],
+      ["buyer", 1, 1],
+    ] as const) {
+      const value = (await Token1155.tokenPrice(id)).mul(amount);
+      await send(
+        `${amount} of item ${id} to ${role}`,
+        Token1155.connect(roles[role]).buyToken(id, amount, { value })
+      );
+      const address = roles[role].address;
+      items[address] = {
+        ...items[address],
+        [id]: (items[address]?.[id] ?? 0) + amount,
+      };
+    }
+
+    console.log("Creating the market offers...");
+    const offers: DevnetSeed["offers"] = {
+      active: [],
+      inactive: [],
+      expired: [],
+    };
+    const SellerMarket = MarketPlace.connect(seller);
+    const { timestamp } = await ethers.provider.getBlock("latest");
+    const offerSpecs = [
+      { status: "active", amount: "500", price: "0.01", expiration: 30 * DAY },
+      {
+        status: "inactive",
+        amount: "200",
+        price: "0.02",
+        expiration: 30 * DAY,
+      },
+      { status: "expired", amount: "100", price: "0.03", expiration: 60 * 60 },
+    ] as const;
+
+    await send(
+      "Market approved by seller",
+      MockToken.connect(seller).approve(MarketPlace.address, parseEther("800"))
+    );
+    for (const { status, amount, price, expiration } of offerSpecs) {
+      await send(
+        `${status} offer of ${amount} tokens at ${price} ETH`,
+        SellerMarket.createOffer(
+          MockToken.address,
+          parseEther(amount),
+          parseEther(price),
+          timestamp + expiration
+        )
+      );
+      offers[status].push((await MarketPlace.offersCount()).toNumber());
+    }
+
+    await send(
+      `Offer ${offers.inactive[0]} deactivated`,
+      SellerMarket.toggleOfferIsActive(offers.inactive[0], false)
+    );
+    await send(
+      `Buyer bought 5 tokens from offer ${offers.active[0]}`,
+      MarketPlace.connect(buyer).buyTokens(offers.active[0], {
+        value: parseEther("0.05"),
+      })
+    );
+
+    // move the chain past the expiration of the short offer
+    await ethers.provider.send("evm_increaseTime", [2 * 60 * 60]);
+    await ethers.provider.send("evm_mine", []);
+
+    const { chainId } = await ethers.provider.getNetwork();
+    const manifest = readManifest(network.name, chainId);
+    const seed: DevnetSeed = {
+      network: network.name,
+      chainId,
+      contracts: Object.fromEntries(
+        ["ERC20MockToken", ...DEPLOYABLE_CONTRACTS].map((name) => [
+          name,
+          manifest.contracts[name].address,
+        ])
+      ),
+      accounts: {
+        ...Object.fromEntries(
+          Object.entries(SEED_ROLES).map(([role, { description }]) => [
+            role,
+            { address: roles[role as SeedRole].address, description },
+          ])
+        ),
+        ...Object.fromEntries(
+          extraAddresses.map((address, i) => [
+            `funded${i + 1}`,
+            { address, description: "Funded with --fund" },
+          ])
+        ),
+      },
+      nfts,
+      items,
+      offers,
+    };
+
+    const output = taskArgs.output ?? getSeedPath(network.name);
+    fs.writeFileSync(output, `${JSON.stringify(seed, null, 2)}\n`);
+
+    console.log(`Deployment manifest: ${getManifestPath(network.name)}`);
+    console.log(`Seed summary saved to: ${output}`);
+  });
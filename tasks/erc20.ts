@@ -0,0 +1,177 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import type { MyERC20 } from "../typechain-types/contracts/tokens";
+import {
+  WalletEntry,
+  assertSignerIsOwner,
+  chunk,
+  confirm,
+  confirmChange,
+  getDeployedContract,
+  printTransactionEvents,
+  readMerkleTree,
+  readWalletList,
+} from "./utils";
+
+// number of isWhitelisted calls sent at once
+const READ_CONCURRENCY = 50;
+
+//function to get the number of wallets per updateWhitelist call that fits the gas limit
+const getBatchSize = async (
+  Token: MyERC20,
+  wallets: string[],
+  isWhitelisted: boolean,
+  maxGas: number
+): Promise<number> => {
+  const single = await Token.estimateGas.updateWhitelist(
+    wallets.slice(0, 1),
+    isWhitelisted
+  );
+  if (wallets.length === 1) return 1;
+
+  const double = await Token.estimateGas.updateWhitelist(
+    wallets.slice(0, 2),
+    isWhitelisted
+  );
+  const perWallet = double.sub(single);
+  const size = perWallet.lte(0)
+    ? wallets.length
+    : Math.floor((maxGas - single.toNumber()) / perWallet.toNumber()) + 1;
+
+  if (size < 1) {
+    throw new Error(
+      `Batch gas limit ${maxGas} is lower than a single wallet update (${single})`
+    );
+  }
+
+  return Math.min(size, wallets.length);
+};
+
+task("erc20:whitelist", "Syncs the MyERC20 whitelist with a CSV or JSON list")
+  .addPositionalParam(
+    "file",
+    "CSV (address[,whitelisted]) or JSON list of wallets"
+  )
+  .addFlag("remove", "Remove all the listed wallets from the whitelist")
+  .addOptionalParam(
+    "batchGas",
+    "Max gas of a single updateWhitelist transaction",
+    5_000_000,
+    types.int
+  )
+  .addOptionalParam("report", "Path to save the JSON report of the changes")
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ file, remove, batchGas, report, yes }, hre) => {
+    const Token = await getDeployedContract<MyERC20>(hre, "MyERC20");
+    await assertSignerIsOwner(Token);
+
+    const entries: WalletEntry[] = readWalletList(file).map((entry) =>
+      remove ? { ...entry, whitelisted: false } : entry
+    );
+
+    const toAdd: string[] = [];
+    const toRemove: string[] = [];
+
+    for (const group of chunk(entries, READ_CONCURRENCY)) {
+      const states = await Promise.all(
+        group.map(({ address }) => Token.isWhitelisted(address))
+      );
+      group.forEach(({ address, whitelisted }, i) => {
+        if (whitelisted && !states[i]) toAdd.push(address);
+        if (!whitelisted && states[i]) toRemove.push(address);
+      });
+    }
+
+    console.log(
+      `${entries.length} wallets listed: ${toAdd.length} to add, ${
+        toRemove.length
+      } to remove, ${entries.length - toAdd.length - toRemove.length} unchanged`
+    );
+
+    const batches: Array<{ wallets: string[]; isWhitelisted: boolean }> = [];
+    for (const [wallets, isWhitelisted] of [
+      [toAdd, true],
+      [toRemove, false],
+    ] as const) {
+      if (wallets.length === 0) continue;
+
+      const size = await getBatchSize(Token, wallets, isWhitelisted, batchGas);
+      chunk(wallets, size).forEach((batch) =>
+        batches.push({ wallets: batch, isWhitelisted })
+      );
+    }
+
+    if (batches.length === 0) {
+      console.log("Whitelist is already up to date");
+      return;
+    }
+    if (!yes && !(await confirm(`Send ${batches.length} transaction(s)?`))) {
+      console.log("Aborted");
+      return;
+    }
+
+    const added: string[] = [];
+    const removed: string[] = [];
+    const printReport = () => {
+      console.log(`\nAdded ${added.length} wallets`);
+      added.forEach((address) => console.log(`  + ${address}`));
+      console.log(`Removed ${removed.length} wallets`);
+      removed.forEach((address) => console.log(`  - ${address}`));
+
+      if (report !== undefined) {
+        fs.writeFileSync(
+          report,
+          `${JSON.stringify({ added, removed }, null, 2)}\n`
+        );
+      }
+    };
+
+    for (const [index, { wallets, isWhitelisted }] of batches.entries()) {
+      try {
+        const transaction = await Token.updateWhitelist(wallets, isWhitelisted);
+        const receipt = await transaction.wait();
+        console.log(
+          `Batch ${index + 1}/${batches.length}: ${
+            wallets.length
+          } wallets, gas used ${receipt.gasUsed}`
+        );
+      } catch (error) {
+        printReport();
+        console.log(
+          `\nBatch ${index + 1}/${
+            batches.length
+          } failed, rerun the task to resume: wallets already updated are skipped`
+        );
+        throw error;
+      }
+
+      (isWhitelisted ? added : removed).push(...wallets);
+    }
+
+    printReport();
+  });
+
+task(
+  "erc20:set-merkle-root",
+  "Sets the MyERC20 allowlist root from a tree JSON"
+)
+  .addPositionalParam("file", "Path of the tree JSON built by merkle:build")
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ file, yes }, hre) => {
+    const Token = await getDeployedContract<MyERC20>(hre, "MyERC20");
+    await assertSignerIsOwner(Token);
+
+    const tree = readMerkleTree(file, "erc20");
+
+    const current = await Token.merkleRoot();
+    if (current === tree.root) {
+      console.log(`merkleRoot is already ${tree.root}`);
+      return;
+    }
+    if (!(await confirmChange("merkleRoot", current, tree.root, yes))) return;
+
+    await printTransactionEvents(Token, await Token.setMerkleRoot(tree.root));
+    if (!(await Token.isWhitelistedSale())) {
+      console.log("isWhitelistedSale is off, the sale is still public");
+    }
+  });
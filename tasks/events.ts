@@ -0,0 +1,101 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import {
+  EXPORT_FORMATS,
+  decodeEvent,
+  formatEvent,
+  getContractInterface,
+  getCsvColumns,
+  getDeployment,
+  getEventFragments,
+  getExportFormat,
+  getLogsInChunks,
+} from "./utils";
+
+task("events:export", "Exports the decoded events of a deployed contract")
+  .addPositionalParam("contract", "Contract name in the deployment manifest")
+  .addParam("output", "Path of the .csv or .jsonl file to write")
+  .addOptionalParam("events", "Comma separated event names, all by default")
+  .addOptionalParam(
+    "fromBlock",
+    "First block, the deploy block by default",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "toBlock",
+    "Last block, latest by default",
+    undefined,
+    types.int
+  )
+  .addOptionalParam(
+    "chunkSize",
+    "Number of blocks per getLogs request",
+    2000,
+    types.int
+  )
+  .addOptionalParam("format", `Output format: ${EXPORT_FORMATS.join(", ")}`)
+  .setAction(async (taskArgs, hre) => {
+    const { ethers, network } = hre;
+    const { contract, output, chunkSize } = taskArgs;
+
+    const contractInterface = getContractInterface(contract);
+    const fragments = getEventFragments(contractInterface, taskArgs.events);
+    const format = getExportFormat(output, taskArgs.format);
+    const { address, blockNumber } = getDeployment(network.name, contract);
+
+    const fromBlock: number = taskArgs.fromBlock ?? blockNumber;
+    const toBlock: number =
+      taskArgs.toBlock ?? (await ethers.provider.getBlockNumber());
+    if (fromBlock > toBlock) {
+      throw new Error(`fromBlock ${fromBlock} is after toBlock ${toBlock}`);
+    }
+    if (chunkSize < 1) throw new Error("chunkSize must be greater than 0");
+
+    const columns = getCsvColumns(fragments);
+    fs.writeFileSync(output, format === "csv" ? `${columns.join(",")}\n` : "");
+
+    const filter = {
+      address,
+      topics: [
+        fragments.map((fragment) => contractInterface.getEventTopic(fragment)),
+      ],
+    };
+    const timestamps = new Map<number, number>();
+    let exported = 0;
+
+    console.log(
+      `Exporting ${contract} events from block ${fromBlock} to ${toBlock}...`
+    );
+
+    await getLogsInChunks(
+      ethers.provider,
+      filter,
+      fromBlock,
+      toBlock,
+      chunkSize,
+      async (logs, chunkEnd) => {
+        const lines: string[] = [];
+
+        for (const log of logs) {
+          if (!timestamps.has(log.blockNumber)) {
+            const block = await ethers.provider.getBlock(log.blockNumber);
+            timestamps.set(log.blockNumber, block.timestamp);
+          }
+
+          const event = decodeEvent(
+            contractInterface,
+            log,
+            timestamps.get(log.blockNumber) as number
+          );
+          lines.push(`${formatEvent(event, format, columns)}\n`);
+        }
+
+        fs.appendFileSync(output, lines.join(""));
+        exported += logs.length;
+        console.log(`  block ${chunkEnd}: ${exported} events`);
+      }
+    );
+
+    console.log(`Exported ${exported} events to ${output}`);
+  });
@@ -0,0 +1,87 @@
+import { task, types } from "hardhat/config";
+import {
+  TASK_TEST,
+  TASK_TEST_GET_TEST_FILES,
+} from "hardhat/builtin-tasks/task-names";
+import {
+  GAS_SNAPSHOT_IGNORE,
+  GAS_SNAPSHOT_PATH,
+  compareGasSnapshots,
+  createGasRecorder,
+  createGasReporter,
+  formatGasDiff,
+  readGasSnapshot,
+  writeGasSnapshot,
+} from "./utils";
+
+task("gas:snapshot", "Runs the tests and records their gas usage")
+  .addFlag("check", "Compare with the snapshot instead of updating it")
+  .addOptionalParam(
+    "threshold",
+    "Test gas increase in percent allowed before a regression is flagged",
+    1,
+    types.float
+  )
+  .addOptionalParam("snapshot", "Path of the snapshot file", GAS_SNAPSHOT_PATH)
+  .addOptionalParam(
+    "ignore",
+    "Comma separated parts of the test file paths to skip",
+    GAS_SNAPSHOT_IGNORE.join(",")
+  )
+  .setAction(async (taskArgs, hre) => {
+    const { check, threshold, snapshot: snapshotPath } = taskArgs;
+    const ignore: string[] = taskArgs.ignore
+      .split(",")
+      .map((pattern: string) => pattern.trim())
+      .filter((pattern: string) => pattern !== "");
+
+    const testFiles: string[] = (
+      await hre.run(TASK_TEST_GET_TEST_FILES, { testFiles: [] })
+    ).filter(
+      (file: string) =>
+        !ignore.some((pattern) => file.split("\\").join("/").includes(pattern))
+    );
+
+    const recorder = createGasRecorder(hre.network.provider);
+    hre.config.mocha.reporter = createGasReporter(recorder);
+    const failures = await hre.run(TASK_TEST, { testFiles });
+    recorder.stop();
+
+    if (failures > 0) {
+      throw new Error(`${failures} tests failed, no gas snapshot was taken`);
+    }
+
+    const current = recorder.getSnapshot();
+    const baseline = readGasSnapshot(snapshotPath);
+    if (baseline === undefined && check) {
+      throw new Error(`No gas snapshot at ${snapshotPath}, run gas:snapshot`);
+    }
+
+    const diffs =
+      baseline === undefined
+        ? []
+        : compareGasSnapshots(baseline, current, threshold);
+    const regressions = diffs.filter(({ isRegression }) => isRegression);
+
+    if (baseline !== undefined) {
+      console.log(
+        diffs.length === 0
+          ? "\nGas usage is unchanged"
+          : `\nGas changes against ${snapshotPath}:`
+      );
+      diffs.forEach((diff) => console.log(formatGasDiff(diff)));
+    }
+
+    if (check) {
+      if (regressions.length > 0) {
+        throw new Error(
+          `${regressions.length} gas regressions above ${threshold}%`
+        );
+      }
+      console.log(`No gas regressions above ${threshold}%`);
+      return;
+    }
+
+    writeGasSnapshot(snapshotPath, current);
+    console.log(`Gas snapshot saved to ${snapshotPath}`);
+  });
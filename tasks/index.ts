@@ -0,0 +1,14 @@
+import "./deploy";
+import "./verifyState";
+import "./nft";
+import "./erc20";
+import "./catalog";
+import "./market";
+import "./events";
+import "./devnet";
+import "./gas";
+import "./metadata";
+import "./merkle";
+import "./voucher";
+import "./indexer";
+import "./api";
@@ -0,0 +1,83 @@
+import { task, types } from "hardhat/config";
+import {
+  DEFAULT_CONFIRMATIONS,
+  DEFAULT_INDEXER_DB_PATH,
+  createIndexer,
+  getIndexerDeployments,
+  openIndexerStore,
+} from "./utils";
+
+task(
+  "indexer:run",
+  "Indexes the events of the deployed contracts to a SQLite database"
+)
+  .addOptionalParam(
+    "db",
+    "Path of the SQLite database",
+    DEFAULT_INDEXER_DB_PATH
+  )
+  .addOptionalParam(
+    "confirmations",
+    "Blocks rewound when a reorg is detected",
+    DEFAULT_CONFIRMATIONS,
+    types.int
+  )
+  .addOptionalParam(
+    "interval",
+    "Seconds between two syncs when following the chain",
+    5,
+    types.int
+  )
+  .addOptionalParam(
+    "chunkSize",
+    "Number of blocks per getLogs request",
+    2000,
+    types.int
+  )
+  .addFlag("once", "Backfill up to the latest block and exit")
+  .setAction(async (taskArgs, hre) => {
+    const { ethers } = hre;
+    const { db, confirmations, interval, chunkSize, once } = taskArgs;
+
+    if (chunkSize < 1) throw new Error("chunkSize must be greater than 0");
+    if (confirmations < 1) {
+      throw new Error("confirmations must be greater than 0");
+    }
+
+    const { contracts, startBlock } = await getIndexerDeployments(hre);
+    const names = Object.keys(contracts);
+
+    const store = await openIndexerStore(db);
+    const indexer = createIndexer({
+      store,
+      provider: ethers.provider,
+      contracts,
+      startBlock,
+      confirmations,
+      chunkSize,
+      log: console.log,
+    });
+
+    console.log(`Indexing ${names.join(", ")} to ${db}`);
+
+    let stopped = once;
+    process.once("SIGINT", () => {
+      stopped = true;
+    });
+
+    try {
+      do {
+        const { fromBlock, toBlock, events } = await indexer.sync();
+        if (fromBlock <= toBlock) {
+          console.log(
+            `Indexed blocks ${fromBlock} to ${toBlock}: ${events} events`
+          );
+        }
+        if (!stopped) {
+          await new Promise((resolve) => setTimeout(resolve, interval * 1000));
+        }
+      } while (!stopped);
+    } finally {
+      store.close();
+    }
+  });
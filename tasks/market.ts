@@ -0,0 +1,302 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { ERC20 } from "../typechain-types/@openzeppelin/contracts/token/ERC20";
+import type { MyTokenMarket } from "../typechain-types/contracts/marketplace";
+import {
+  OFFER_STATUSES,
+  confirm,
+  formatTimestamp,
+  getDeployedContract,
+  getOfferStatus,
+  getSigner,
+  parseExpiration,
+  printTransactionEvents,
+} from "./utils";
+
+//function to get the marketplace connected to the task account
+const getMarket = async (
+  hre: HardhatRuntimeEnvironment,
+  account?: string
+): Promise<MyTokenMarket> => {
+  const MarketPlace = await getDeployedContract<MyTokenMarket>(
+    hre,
+    "MyTokenMarket"
+  );
+  return MarketPlace.connect(await getSigner(hre, account));
+};
+
+//function to get an existing offer, throws when it does not exist
+const getOffer = async (MarketPlace: MyTokenMarket, offerId: number) => {
+  const offer = await MarketPlace.offers(offerId);
+
+  if (offer.offerID.isZero()) {
+    throw new Error(`Offer ${offerId} does not exist`);
+  }
+
+  return offer;
+};
+
+//function to get the ERC20 token of an offer
+const getToken = async (hre: HardhatRuntimeEnvironment, address: string) =>
+  (await hre.ethers.getContractAt("ERC20", address)) as unknown as ERC20;
+
+task("market:list", "Lists the MyTokenMarket offers")
+  .addOptionalParam("status", `Filter by status: ${OFFER_STATUSES.join(", ")}`)
+  .addOptionalParam("seller", "Filter by seller address")
+  .setAction(async ({ status, seller }, hre) => {
+    const { ethers } = hre;
+
+    if (status !== undefined && !OFFER_STATUSES.includes(status)) {
+      throw new Error(`Unknown status "${status}"`);
+    }
+
+    const MarketPlace = await getMarket(hre);
+    const offersCount = (await MarketPlace.offersCount()).toNumber();
+    const { timestamp } = await ethers.provider.getBlock("latest");
+    const tokens = new Map<string, { symbol: string; decimals: number }>();
+
+    console.log(`${offersCount} offers`);
+
+    for (let offerId = 1; offerId <= offersCount; offerId++) {
+      const offer = await MarketPlace.offers(offerId);
+      const offerStatus = getOfferStatus(offer, timestamp);
+
+      if (status !== undefined && offerStatus !== status) continue;
+      if (
+        seller !== undefined &&
+        offer.seller.toLowerCase() !== seller.toLowerCase()
+      ) {
+        continue;
+      }
+
+      let token = tokens.get(offer.token);
+      if (token === undefined) {
+        const Token = await getToken(hre, offer.token);
+        const [symbol, decimals] = await Promise.all([
+          Token.symbol(),
+          Token.decimals(),
+        ]);
+        token = { symbol, decimals };
+        tokens.set(offer.token, token);
+      }
+
+      console.log(
+        `#${offerId} [${offerStatus}] ${ethers.utils.formatUnits(
+          offer.amount,
+          token.decimals
+        )} ${token.symbol} at ${ethers.utils.formatEther(
+          offer.price
+        )} ETH/token, seller ${offer.seller}, expires ${formatTimestamp(
+          offer.expirationDate
+        )}`
+      );
+    }
+  });
+
+task("market:create", "Creates a MyTokenMarket offer, approving the tokens")
+  .addParam("token", "Address of the offered ERC20 token")
+  .addParam("amount", "Amount of offered tokens, e.g. 100.5")
+  .addParam("price", "Price of a single token in ETH")
+  .addOptionalParam("expiresIn", "Offer duration, e.g. 3600, 12h, 7d")
+  .addOptionalParam("expiration", "Offer expiration date, e.g. 2030-01-01")
+  .addOptionalParam("account", "Signer index or address")
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async (taskArgs, hre) => {
+    const { ethers } = hre;
+    const MarketPlace = await getMarket(hre, taskArgs.account);
+    const seller = await MarketPlace.signer.getAddress();
+    const Token = (await getToken(hre, taskArgs.token)).connect(
+      MarketPlace.signer
+    );
+
+    const [symbol, decimals] = await Promise.all([
+      Token.symbol(),
+      Token.decimals(),
+    ]);
+    const amount = ethers.utils.parseUnits(taskArgs.amount, decimals);
+    const price = ethers.utils.parseEther(taskArgs.price);
+    const expirationDate = await parseExpiration(
+      hre,
+      taskArgs.expiresIn,
+      taskArgs.expiration
+    );
+
+    if (amount.lte(0) || price.lte(0)) {
+      throw new Error("Amount and price must be greater than 0");
+    }
+    const balance = await Token.balanceOf(seller);
+    if (balance.lt(amount)) {
+      throw new Error(
+        `Insufficient balance: ${ethers.utils.formatUnits(
+          balance,
+          decimals
+        )} ${symbol}`
+      );
+    }
+
+    console.log(
+      `Offer ${taskArgs.amount} ${symbol} at ${
+        taskArgs.price
+      } ETH/token, expires ${formatTimestamp(expirationDate)}`
+    );
+    if (!taskArgs.yes && !(await confirm("Send the transactions?"))) {
+      console.log("Aborted");
+      return;
+    }
+
+    const allowance = await Token.allowance(seller, MarketPlace.address);
+    if (allowance.lt(amount)) {
+      await printTransactionEvents(
+        Token,
+        await Token.approve(MarketPlace.address, amount)
+      );
+    }
+
+    await printTransactionEvents(
+      MarketPlace,
+      await MarketPlace.createOffer(
+        Token.address,
+        amount,
+        price,
+        expirationDate
+      )
+    );
+  });
+
+task("market:buy", "Buys tokens from a MyTokenMarket offer")
+  .addPositionalParam("offerId", "The offer id", undefined, types.int)
+  .addPositionalParam(
+    "amount",
+    "Number of whole tokens to buy",
+    undefined,
+    types.int
+  )
+  .addOptionalParam("account", "Signer index or address")
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ offerId, amount, account, yes }, hre) => {
+    const { ethers } = hre;
+    const MarketPlace = await getMarket(hre, account);
+    const buyer = await MarketPlace.signer.getAddress();
+    const offer = await getOffer(MarketPlace, offerId);
+    const { timestamp } = await ethers.provider.getBlock("latest");
+    const status = getOfferStatus(offer, timestamp);
+
+    if (status !== "active") throw new Error(`Offer ${offerId} is ${status}`);
+    if (offer.seller === buyer) throw new Error("Offer does belong to you");
+    if (amount < 1) throw new Error("Amount must be greater than 0");
+    // the contract sells whole tokens of 10^18 units whatever the decimals
+    if (offer.amount.lt(ethers.utils.parseEther(String(amount)))) {
+      const decimals = await (await getToken(hre, offer.token)).decimals();
+      throw new Error(
+        `Offer has only ${ethers.utils.formatUnits(
+          offer.amount,
+          decimals
+        )} tokens left`
+      );
+    }
+
+    const value = offer.price.mul(amount);
+    console.log(
+      `Buy ${amount} tokens for ${ethers.utils.formatEther(value)} ETH`
+    );
+    if (!yes && !(await confirm("Send the transaction?"))) {
+      console.log("Aborted");
+      return;
+    }
+
+    await printTransactionEvents(
+      MarketPlace,
+      await MarketPlace.buyTokens(offerId, { value })
+    );
+  });
+
+task("market:toggle", "Activates or deactivates a MyTokenMarket offer")
+  .addPositionalParam("offerId", "The offer id", undefined, types.int)
+  .addPositionalParam(
+    "active",
+    "Whether the offer is active",
+    undefined,
+    types.boolean
+  )
+  .addOptionalParam("account", "Signer index or address")
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ offerId, active, account, yes }, hre) => {
+    const MarketPlace = await getMarket(hre, account);
+    const offer = await getOffer(MarketPlace, offerId);
+
+    console.log(`isActive: ${offer.isActive} -> ${active}`);
+    if (!yes && !(await confirm("Send the transaction?"))) {
+      console.log("Aborted");
+      return;
+    }
+
+    await printTransactionEvents(
+      MarketPlace,
+      await MarketPlace.toggleOfferIsActive(offerId, active)
+    );
+  });
+
+task("market:reprice", "Changes the price of a MyTokenMarket offer")
+  .addPositionalParam("offerId", "The offer id", undefined, types.int)
+  .addPositionalParam("price", "The new price of a single token in ETH")
+  .addOptionalParam("account", "Signer index or address")
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ offerId, price, account, yes }, hre) => {
+    const { ethers } = hre;
+    const MarketPlace = await getMarket(hre, account);
+    const offer = await getOffer(MarketPlace, offerId);
+    const newPrice = ethers.utils.parseEther(price);
+
+    if (newPrice.lte(0)) throw new Error("Price must be greater than 0");
+
+    console.log(
+      `price: ${ethers.utils.formatEther(offer.price)} ETH -> ${price} ETH`
+    );
+    if (!yes && !(await confirm("Send the transaction?"))) {
+      console.log("Aborted");
+      return;
+    }
+
+    await printTransactionEvents(
+      MarketPlace,
+      await MarketPlace.changeOfferPrice(offerId, newPrice)
+    );
+  });
+
+task("market:extend", "Changes the expiration date of a MyTokenMarket offer")
+  .addPositionalParam("offerId", "The offer id", undefined, types.int)
+  .addOptionalParam("expiresIn", "New duration from now, e.g. 3600, 12h, 7d")
+  .addOptionalParam("expiration", "New expiration date, e.g. 2030-01-01")
+  .addOptionalParam("account", "Signer index or address")
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async (taskArgs, hre) => {
+    const MarketPlace = await getMarket(hre, taskArgs.account);
+    const offer = await getOffer(MarketPlace, taskArgs.offerId);
+    const expirationDate = await parseExpiration(
+      hre,
+      taskArgs.expiresIn,
+      taskArgs.expiration
+    );
+
+    console.log(
+      `expirationDate: ${formatTimestamp(
+        offer.expirationDate
+      )} -> ${formatTimestamp(expirationDate)}`
+    );
+    // changeOfferExpirationDate stores the new date in the offer price
+    console.warn(
+      "Warning: the deployed MyTokenMarket writes the new date into the offer price"
+    );
+    if (!taskArgs.yes && !(await confirm("Send the transaction?"))) {
+      console.log("Aborted");
+      return;
+    }
+
+    await printTransactionEvents(
+      MarketPlace,
+      await MarketPlace.changeOfferExpirationDate(
+        taskArgs.offerId,
+        expirationDate
+      )
+    );
+  });
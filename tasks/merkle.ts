@@ -0,0 +1,72 @@
+import { task, types } from "hardhat/config";
+import {
+  MERKLE_LEAF_ENCODINGS,
+  MerkleLeafEncoding,
+  buildMerkleTree,
+  checkMerkleTree,
+  getMerkleEntry,
+  readMerkleCsv,
+  readMerkleTree,
+  verifyMerkleProof,
+  writeMerkleTree,
+} from "./utils";
+
+task(
+  "merkle:build",
+  "Builds an allowlist Merkle tree with the proofs from a CSV"
+)
+  .addPositionalParam("file", "CSV of wallets: address[,value...]")
+  .addPositionalParam("output", "Path of the tree JSON to write")
+  .addOptionalParam(
+    "encoding",
+    `Leaf values of the contract: ${Object.keys(MERKLE_LEAF_ENCODINGS).join(
+      ", "
+    )}`,
+    "erc20",
+    types.string
+  )
+  .setAction(async ({ file, output, encoding }) => {
+    if (!(encoding in MERKLE_LEAF_ENCODINGS)) {
+      throw new Error(`Unknown encoding "${encoding}"`);
+    }
+
+    const tree = buildMerkleTree(
+      encoding as MerkleLeafEncoding,
+      readMerkleCsv(file, encoding)
+    );
+    writeMerkleTree(output, tree);
+
+    console.log(
+      `Built a tree of ${Object.keys(tree.entries).length} wallets in ${output}`
+    );
+    console.log(`Root: ${tree.root}`);
+  });
+
+task("merkle:verify", "Verifies the proofs of an allowlist tree offline")
+  .addPositionalParam("file", "Path of the tree JSON")
+  .addOptionalPositionalParam(
+    "address",
+    "Wallet to verify, defaults to every wallet of the tree"
+  )
+  .setAction(async ({ file, address }) => {
+    const tree = readMerkleTree(file);
+
+    if (address === undefined) {
+      checkMerkleTree(file, tree);
+      console.log(
+        `All ${Object.keys(tree.entries).length} proofs match root ${tree.root}`
+      );
+      return;
+    }
+
+    const entry = getMerkleEntry(tree, address);
+    if (entry === undefined) {
+      throw new Error(`${address} is not in the tree ${file}`);
+    }
+    if (!verifyMerkleProof(tree.root, entry.leaf, entry.proof)) {
+      throw new Error(`Proof of ${address} does not match root ${tree.root}`);
+    }
+
+    console.log(`${address} is allowlisted (${entry.values.join(", ")})`);
+    console.log(`Proof: ${JSON.stringify(entry.proof)}`);
+  });
@@ -0,0 +1,224 @@
+import http from "http";
+import path from "path";
+import { task, types } from "hardhat/config";
+import type { My1155Token } from "../typechain-types/contracts/erc1155";
+import type { MyNFT } from "../typechain-types/contracts/nft";
+import {
+  DEFAULT_CATALOG_PATH,
+  DEFAULT_METADATA_DIR,
+  DEFAULT_SERVER_PORT,
+  DEFAULT_TRAITS_PATH,
+  MetadataServerOptions,
+  assertDevnet,
+  assertSignerIsOwner,
+  buildCatalogMetadata,
+  buildNftMetadata,
+  createMetadataHandler,
+  getContractParams,
+  getDeployedContract,
+  getParamsPath,
+  getServerBaseURIs,
+  loadDeployParams,
+  printTransactionEvents,
+  readCatalog,
+  readTraitsCsv,
+  writeMetadataFiles,
+} from "./utils";
+
+//function to check a failed call is a contract revert, not a node error
+const isRevert = (error: unknown): boolean =>
+  (error as { code?: string }).code === "CALL_EXCEPTION" ||
+  /revert/i.test(String((error as Error).message));
+
+task("metadata:nft", "Generates the MyNFT metadata files from a traits CSV")
+  .addOptionalPositionalParam(
+    "traits",
+    "Path to the traits CSV",
+    DEFAULT_TRAITS_PATH
+  )
+  .addOptionalParam(
+    "output",
+    "Directory to write, defaults to metadata/MyNFT",
+    path.join(DEFAULT_METADATA_DIR, "MyNFT")
+  )
+  .addOptionalParam(
+    "params",
+    "Path to the deploy params file, defaults to config/<network>.json"
+  )
+  .addOptionalParam("name", "Collection name, defaults to the MyNFT name")
+  .addOptionalParam(
+    "description",
+    "Description of the tokens without one in the CSV",
+    ""
+  )
+  .addOptionalParam(
+    "imageBaseUri",
+    "Image base URI of the tokens without an image, <uri><tokenId>.png"
+  )
+  .setAction(async (taskArgs, hre) => {
+    const { traits, output } = taskArgs;
+    const params = loadDeployParams(
+      taskArgs.params ?? getParamsPath(hre.network.name),
+      ["MyNFT"]
+    );
+    const { name, maxSupply, baseURI } = getContractParams(params, "MyNFT");
+
+    const rows = readTraitsCsv(traits);
+    const outOfSupply = rows.filter(({ tokenId }) => tokenId > maxSupply);
+    if (outOfSupply.length > 0) {
+      throw new Error(
+        `Token ids above the MyNFT maxSupply ${maxSupply}: ${outOfSupply
+          .map(({ tokenId }) => tokenId)
+          .join(", ")}`
+      );
+    }
+    if (rows.length < maxSupply) {
+      console.warn(
+        `Warning: ${rows.length} tokens in ${traits}, maxSupply is ${maxSupply}`
+      );
+    }
+    if (
+      rows.some(({ image }) => image === undefined) &&
+      !taskArgs.imageBaseUri
+    ) {
+      throw new Error("Set --image-base-uri for the tokens without an image");
+    }
+
+    const files = writeMetadataFiles(
+      output,
+      "erc721",
+      buildNftMetadata(rows, {
+        collectionName: taskArgs.name ?? name,
+        description: taskArgs.description,
+        imageBaseURI: taskArgs.imageBaseUri,
+      })
+    );
+
+    console.log(`Wrote ${files.length} MyNFT metadata files to ${output}`);
+    console.log(
+      `tokenURI(${rows[0].tokenId}) requests ${baseURI}${rows[0].tokenId}`
+    );
+  });
+
+task(
+  "metadata:items",
+  "Generates the My1155Token metadata files from the catalog"
+)
+  .addOptionalPositionalParam(
+    "catalog",
+    "Path to the catalog file",
+    DEFAULT_CATALOG_PATH
+  )
+  .addOptionalParam(
+    "output",
+    "Directory to write, defaults to metadata/My1155Token",
+    path.join(DEFAULT_METADATA_DIR, "My1155Token")
+  )
+  .addOptionalParam(
+    "params",
+    "Path to the deploy params file, defaults to config/<network>.json"
+  )
+  .setAction(async (taskArgs, hre) => {
+    const { catalog, output } = taskArgs;
+    const params = loadDeployParams(
+      taskArgs.params ?? getParamsPath(hre.network.name),
+      ["My1155Token"]
+    );
+    const { baseURI } = getContractParams(params, "My1155Token");
+
+    const items = readCatalog(catalog);
+    const files = writeMetadataFiles(
+      output,
+      "erc1155",
+      buildCatalogMetadata(items)
+    );
+
+    console.log(
+      `Wrote ${files.length} My1155Token metadata files to ${output}`
+    );
+    console.log(`uri(${items[0].id}) requests ${baseURI}${items[0].id}.json`);
+  });
+
+task("metadata:serve", "Serves the generated metadata and images over HTTP")
+  .addOptionalParam("port", "Port to listen on", DEFAULT_SERVER_PORT, types.int)
+  .addOptionalParam("host", "Host to listen on", "127.0.0.1")
+  .addOptionalParam(
+    "dir",
+    "Directory with the MyNFT, My1155Token and images folders",
+    DEFAULT_METADATA_DIR
+  )
+  .addFlag(
+    "checkExists",
+    "Return 404 for tokens that do not exist on the deployed contracts"
+  )
+  .addFlag(
+    "setBaseUris",
+    "Point the deployed contracts base URIs at the server, devnet only"
+  )
+  .setAction(async (taskArgs, hre) => {
+    const { port, host, dir, checkExists, setBaseUris } = taskArgs;
+    const serverUrl = `http://${host}:${port}`;
+    const baseURIs = getServerBaseURIs(serverUrl);
+
+    const getContracts = async () => ({
+      NFT: await getDeployedContract<MyNFT>(hre, "MyNFT"),
+      Token1155: await getDeployedContract<My1155Token>(hre, "My1155Token"),
+    });
+
+    if (setBaseUris) {
+      await assertDevnet(hre, "--set-base-uris");
+      const { NFT, Token1155 } = await getContracts();
+      await assertSignerIsOwner(NFT);
+      await assertSignerIsOwner(Token1155);
+
+      await printTransactionEvents(NFT, await NFT.setBaseURI(baseURIs.MyNFT));
+      await printTransactionEvents(
+        Token1155,
+        await Token1155.setURI(baseURIs.My1155Token)
+      );
+    }
+
+    let tokenExists: MetadataServerOptions["tokenExists"];
+    if (checkExists) {
+      const { NFT, Token1155 } = await getContracts();
+
+      // MyNFT has no public exists, ownerOf reverts for unminted or burned ids
+      tokenExists = async (route: "nft" | "items", tokenId: string) => {
+        if (route === "items") return Token1155.exists(tokenId);
+
+        try {
+          await NFT.ownerOf(tokenId);
+          return true;
+        } catch (error) {
+          if (isRevert(error)) return false;
+          throw error;
+        }
+      };
+    }
+
+    const server = http.createServer(
+      createMetadataHandler({
+        dirs: {
+          nft: path.join(dir, "MyNFT"),
+          items: path.join(dir, "My1155Token"),
+          images: path.join(dir, "images"),
+        },
+        tokenExists,
+      })
+    );
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, resolve);
+    });
+
+    console.log(`Serving ${dir} on ${serverUrl}`);
+    console.log(`  MyNFT baseURI:       ${baseURIs.MyNFT}`);
+    console.log(`  My1155Token baseURI: ${baseURIs.My1155Token}`);
+    console.log(`  images:              ${baseURIs.images}`);
+    if (checkExists) console.log("  unknown tokens return 404");
+
+    // runs until Ctrl+C
+    await new Promise<void>((resolve) =>
+      process.once("SIGINT", () => server.close(() => resolve()))
+    );
+  });
@@ -0,0 +1,250 @@
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { MyNFT } from "../typechain-types/contracts/nft";
+import {
+  assertSignerIsOwner,
+  confirmChange,
+  getDeployedContract,
+  getDeployment,
+  printTransactionEvents,
+  readMerkleTree,
+} from "./utils";
+
+//function to count all minted tokens, burned ones included
+const getMintedCount = async (
+  hre: HardhatRuntimeEnvironment,
+  Token: MyNFT
+): Promise<number> => {
+  const { blockNumber } = getDeployment(hre.network.name, "MyNFT");
+  const mints = await Token.queryFilter(
+    Token.filters.Transfer(hre.ethers.constants.AddressZero),
+    blockNumber
+  );
+
+  return mints.length;
+};
+
+task("nft:toggle-sale", "Enables or disables the MyNFT sale")
+  .addPositionalParam(
+    "enabled",
+    "Whether the sale is enabled",
+    undefined,
+    types.boolean
+  )
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ enabled, yes }, hre) => {
+    const Token = await getDeployedContract<MyNFT>(hre, "MyNFT");
+    await assertSignerIsOwner(Token);
+    const current = await Token.isMintEnabled();
+
+    if (current === enabled) {
+      console.log(`isMintEnabled is already ${enabled}`);
+      return;
+    }
+    if (!(await confirmChange("isMintEnabled", current, enabled, yes))) return;
+
+    await printTransactionEvents(
+      Token,
+      await Token.toggleIsSaleEnabled(enabled)
+    );
+  });
+
+task("nft:toggle-presale", "Enables or disables the MyNFT presale")
+  .addPositionalParam(
+    "enabled",
+    "Whether the presale is enabled",
+    undefined,
+    types.boolean
+  )
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ enabled, yes }, hre) => {
+    const Token = await getDeployedContract<MyNFT>(hre, "MyNFT");
+    await assertSignerIsOwner(Token);
+    const current = await Token.isPresaleEnabled();
+
+    if (current === enabled) {
+      console.log(`isPresaleEnabled is already ${enabled}`);
+      return;
+    }
+    if (
+      enabled &&
+      (await Token.presaleMerkleRoot()) === hre.ethers.constants.HashZero
+    ) {
+      throw new Error(
+        'Presale allowlist is not set, run "nft:set-presale" first'
+      );
+    }
+    if (!(await confirmChange("isPresaleEnabled", current, enabled, yes))) {
+      return;
+    }
+
+    await printTransactionEvents(
+      Token,
+      await Token.toggleIsPresaleEnabled(enabled)
+    );
+    if (enabled && (await Token.isMintEnabled())) {
+      console.log("isMintEnabled is on, the presale stays closed");
+    }
+  });
+
+task("nft:set-presale", "Sets the MyNFT presale allowlist and price")
+  .addPositionalParam("file", "Path of the nft tree JSON built by merkle:build")
+  .addPositionalParam("price", "Presale price in ETH")
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ file, price, yes }, hre) => {
+    const { formatEther, parseEther } = hre.ethers.utils;
+    const Token = await getDeployedContract<MyNFT>(hre, "MyNFT");
+    await assertSignerIsOwner(Token);
+
+    const tree = readMerkleTree(file, "nft");
+    const presalePrice = parseEther(price);
+    const [currentRoot, currentPrice] = await Promise.all([
+      Token.presaleMerkleRoot(),
+      Token.presalePrice(),
+    ]);
+
+    if (currentRoot === tree.root && currentPrice.eq(presalePrice)) {
+      console.log(`Presale is already ${tree.root} at ${price} ETH`);
+      return;
+    }
+    if (
+      !(await confirmChange(
+        "presale",
+        `${currentRoot} at ${formatEther(currentPrice)} ETH`,
+        `${tree.root} at ${formatEther(presalePrice)} ETH`,
+        yes
+      ))
+    ) {
+      return;
+    }
+
+    await printTransactionEvents(
+      Token,
+      await Token.setPresale(tree.root, presalePrice)
+    );
+  });
+
+task(
+  "nft:set-voucher-signer",
+  "Changes the address signing MyNFT mint vouchers"
+)
+  .addPositionalParam(
+    "signer",
+    "The new voucher signer, the zero address disables the vouchers"
+  )
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ signer, yes }, hre) => {
+    const Token = await getDeployedContract<MyNFT>(hre, "MyNFT");
+    await assertSignerIsOwner(Token);
+
+    if (!hre.ethers.utils.isAddress(signer)) {
+      throw new Error(`${signer} is not a valid address`);
+    }
+
+    const voucherSigner = hre.ethers.utils.getAddress(signer);
+    const current = await Token.voucherSigner();
+    if (current === voucherSigner) {
+      console.log(`voucherSigner is already ${voucherSigner}`);
+      return;
+    }
+    // vouchers signed by the current signer stop being valid
+    if (!(await confirmChange("voucherSigner", current, voucherSigner, yes))) {
+      return;
+    }
+
+    await printTransactionEvents(
+      Token,
+      await Token.setVoucherSigner(voucherSigner)
+    );
+  });
+
+task("nft:set-max-supply", "Changes the MyNFT max supply")
+  .addPositionalParam("maxSupply", "The new max supply", undefined, types.int)
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ maxSupply, yes }, hre) => {
+    const Token = await getDeployedContract<MyNFT>(hre, "MyNFT");
+    await assertSignerIsOwner(Token);
+    const minted = await getMintedCount(hre, Token);
+
+    if (maxSupply < minted) {
+      throw new Error(
+        `Max supply ${maxSupply} is lower than the ${minted} already minted tokens`
+      );
+    }
+
+    const current = await Token.maxSupply();
+    if (!(await confirmChange("maxSupply", current, maxSupply, yes))) return;
+
+    await printTransactionEvents(Token, await Token.setMaxSupply(maxSupply));
+  });
+
+task("nft:set-limit-per-user", "Changes the MyNFT mint limit per wallet")
+  .addPositionalParam(
+    "limitPerUser",
+    "The new limit per wallet",
+    undefined,
+    types.int
+  )
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ limitPerUser, yes }, hre) => {
+    const Token = await getDeployedContract<MyNFT>(hre, "MyNFT");
+    await assertSignerIsOwner(Token);
+    const maxSupply = await Token.maxSupply();
+
+    if (limitPerUser < 1) {
+      throw new Error("Limit per user must be greater than 0");
+    }
+    if (maxSupply.lt(limitPerUser)) {
+      throw new Error(
+        `Limit per user ${limitPerUser} is greater than the max supply ${maxSupply}`
+      );
+    }
+
+    const current = await Token.limitPerUser();
+    if (!(await confirmChange("limitPerUser", current, limitPerUser, yes))) {
+      return;
+    }
+
+    await printTransactionEvents(
+      Token,
+      await Token.setLimitPerUser(limitPerUser)
+    );
+  });
+
+task("nft:set-base-uri", "Changes the MyNFT base URI")
+  .addPositionalParam("baseUri", "The new base URI, ending with a slash")
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ baseUri, yes }, hre) => {
+    const Token = await getDeployedContract<MyNFT>(hre, "MyNFT");
+    await assertSignerIsOwner(Token);
+
+    // token URIs are built as baseURI + tokenId
+    if (!baseUri.endsWith("/")) {
+      throw new Error(`Base URI must end with a slash: ${baseUri}`);
+    }
+
+    const current = await Token.baseURI();
+    if (!(await confirmChange("baseURI", current, baseUri, yes))) return;
+
+    await printTransactionEvents(Token, await Token.setBaseURI(baseUri));
+  });
+
+task("nft:withdraw", "Withdraws the MyNFT sale funds to the owner")
+  .addFlag("yes", "Skip the confirmation")
+  .setAction(async ({ yes }, hre) => {
+    const { ethers } = hre;
+    const Token = await getDeployedContract<MyNFT>(hre, "MyNFT");
+    await assertSignerIsOwner(Token);
+    const balance = await ethers.provider.getBalance(Token.address);
+
+    if (balance.isZero()) {
+      throw new Error("There are no funds to be withdraw");
+    }
+
+    const current = `${ethers.utils.formatEther(balance)} ETH`;
+    if (!(await confirmChange("contract balance", current, "0 ETH", yes))) {
+      return;
+    }
+
+    await printTransactionEvents(Token, await Token.withdrawFunds());
+  });
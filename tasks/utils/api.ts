@@ -0,0 +1,418 @@
+import { BigNumber, constants, utils } from "ethers";
+import type { IncomingMessage, ServerResponse } from "http";
+import type { Database } from "sql.js";
+import type { My1155Token, MyNFT } from "../../typechain-types";
+import { queryRows, toPriceKey } from "./indexerStore";
+import { OFFER_STATUSES, OfferStatus, getOfferStatus } from "./market";
+
+export const DEFAULT_API_PORT = 8070;
+
+export const DEFAULT_PAGE_SIZE = 20;
+
+export const MAX_PAGE_SIZE = 100;
+
+export const API_ROUTES = {
+  offers: /^\/offers$/,
+  offer: /^\/offers\/(\d+)$/,
+  nft: /^\/nft\/(0x[0-9a-fA-F]{40})$/,
+  items: /^\/1155\/(\d+)$/,
+};
+
+export type ApiRoute = keyof typeof API_ROUTES;
+
+export interface OfferFilters {
+  seller?: string;
+  token?: string;
+  status?: OfferStatus;
+  // prices in wei
+  minPrice?: BigNumber;
+  maxPrice?: BigNumber;
+  page: number;
+  pageSize: number;
+}
+
+// uint256 values are decimal strings, as stored by the indexer
+export interface ApiOffer {
+  offerId: number;
+  seller: string;
+  token: string;
+  amount: string;
+  price: string;
+  expirationDate: number;
+  isActive: boolean;
+  status: OfferStatus;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface ApiPurchase {
+  buyer: string;
+  amount: string;
+  paidAmount: string;
+  blockNumber: number;
+  transactionHash: string;
+  timestamp: number;
+}
+
+export interface OffersPage {
+  offers: ApiOffer[];
+  page: number;
+  pageSize: number;
+  total: number;
+}
+
+export interface ApiOptions {
+  db: Database;
+  // on-chain reads, the routes of a missing contract return 404
+  contracts: { MyNFT?: MyNFT; My1155Token?: My1155Token };
+  // current unix timestamp of the chain, the wall clock by default
+  getTimestamp?: () => Promise<number>;
+  log?: (line: string) => void;
+}
+
+interface OfferRow {
+  offer_id: number;
+  seller: string;
+  token: string;
+  amount: string;
+  price: string;
+  expiration_date: number;
+  is_active: number;
+  block_number: number;
+  transaction_hash: string;
+  timestamp: number;
+}
+
+// error answered with its status code and message
+class ApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+  }
+}
+
+//function to convert an indexed offer row to the API format
+const toApiOffer = (row: OfferRow, timestamp: number): ApiOffer => {
+  const isActive = row.is_active === 1;
+
+  return {
+    offerId: row.offer_id,
+    seller: row.seller,
+    token: row.token,
+    amount: row.amount,
+    price: row.price,
+    expirationDate: row.expiration_date,
+    isActive,
+    status: getOfferStatus(
+      { isActive, expirationDate: BigNumber.from(row.expiration_date) },
+      timestamp
+    ),
+    blockNumber: row.block_number,
+    transactionHash: row.transaction_hash,
+    timestamp: row.timestamp,
+  };
+};
+
+//function to parse an address query parameter
+const parseAddressParam = (name: string, value: string | null) => {
+  if (value === null) return undefined;
+  if (!utils.isAddress(value)) {
+    throw new ApiError(400, `${name} must be an address`);
+  }
+  return utils.getAddress(value);
+};
+
+//function to parse a wei amount query parameter
+const parseWeiParam = (name: string, value: string | null) => {
+  if (value === null) return undefined;
+  if (!/^\d+$/.test(value)) {
+    throw new ApiError(400, `${name} must be an amount in wei`);
+  }
+  return BigNumber.from(value);
+};
+
+//function to parse a positive integer query parameter
+const parseIntegerParam = (
+  name: string,
+  value: string | null,
+  defaultValue: number,
+  max = Number.MAX_SAFE_INTEGER
+) => {
+  if (value === null) return defaultValue;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1 || parsed > max) {
+    throw new ApiError(400, `${name} must be an integer from 1 to ${max}`);
+  }
+  return parsed;
+};
+
+//function to parse the filters of GET /offers
+export const parseOfferFilters = (query: URLSearchParams): OfferFilters => {
+  const status = query.get("status");
+  if (status !== null && !OFFER_STATUSES.includes(status as OfferStatus)) {
+    throw new ApiError(400, `status must be ${OFFER_STATUSES.join(", ")}`);
+  }
+
+  return {
+    seller: parseAddressParam("seller", query.get("seller")),
+    token: parseAddressParam("token", query.get("token")),
+    status: (status ?? undefined) as OfferStatus | undefined,
+    minPrice: parseWeiParam("minPrice", query.get("minPrice")),
+    maxPrice: parseWeiParam("maxPrice", query.get("maxPrice")),
+    page: parseIntegerParam("page", query.get("page"), 1),
+    pageSize: parseIntegerParam(
+      "pageSize",
+      query.get("pageSize"),
+      DEFAULT_PAGE_SIZE,
+      MAX_PAGE_SIZE
+    ),
+  };
+};
+
+// conditions of the offer statuses at a timestamp, as in getOfferStatus
+const STATUS_CONDITIONS: Record<OfferStatus, string> = {
+  active: "is_active = 1 AND expiration_date > ?",
+  inactive: "is_active = 0",
+  expired: "is_active = 1 AND expiration_date <= ?",
+};
+
+//function to query a page of the indexed offers, the uint256 prices are
+//compared by their zero-padded price_key
+export const queryOffers = (
+  db: Database,
+  filters: OfferFilters,
+  timestamp: number
+): OffersPage => {
+  const { seller, token, status, minPrice, maxPrice, page, pageSize } = filters;
+  const conditions: string[] = [];
+  const params: Array<string | number> = [];
+
+  if (seller !== undefined) {
+    conditions.push("seller = ?");
+    params.push(seller);
+  }
+  if (token !== undefined) {
+    conditions.push("token = ?");
+    params.push(token);
+  }
+  if (minPrice !== undefined) {
+    conditions.push("price_key >= ?");
+    params.push(toPriceKey(minPrice.toString()));
+  }
+  if (maxPrice !== undefined) {
+    conditions.push("price_key <= ?");
+    params.push(toPriceKey(maxPrice.toString()));
+  }
+  if (status !== undefined) {
+    conditions.push(STATUS_CONDITIONS[status]);
+    if (status !== "inactive") params.push(timestamp);
+  }
+
+  const where =
+    conditions.length > 0 ? `WHERE ${conditions.join(" AND ")}` : "";
+  const [{ total }] = queryRows<{ total: number }>(
+    db,
+    `SELECT COUNT(*) AS total FROM offers ${where}`,
+    params
+  );
+  const rows = queryRows<OfferRow>(
+    db,
+    `SELECT * FROM offers ${where} ORDER BY offer_id LIMIT ? OFFSET ?`,
+    [...params, pageSize, (page - 1) * pageSize]
+  );
+
+  return {
+    offers: rows.map((row) => toApiOffer(row, timestamp)),
+    page,
+    pageSize,
+    total,
+  };
+};
+
+//function to get an indexed offer with its purchases, undefined when missing
+export const getOfferWithPurchases = (
+  db: Database,
+  offerId: number,
+  timestamp: number
+): (ApiOffer & { purchases: ApiPurchase[] }) | undefined => {
+  const [row] = queryRows<OfferRow>(
+    db,
+    "SELECT * FROM offers WHERE offer_id = ?",
+    [offerId]
+  );
+  if (row === undefined) return undefined;
+
+  const purchases = queryRows<{
+    buyer: string;
+    amount: string;
+    paid_amount: string;
+    block_number: number;
+    transaction_hash: string;
+    timestamp: number;
+  }>(
+    db,
+    "SELECT * FROM purchases WHERE contract = 'MyTokenMarket' AND offer_id = ? ORDER BY block_number, log_index",
+    [offerId]
+  );
+
+  return {
+    ...toApiOffer(row, timestamp),
+    purchases: purchases.map((purchase) => ({
+      buyer: purchase.buyer,
+      amount: purchase.amount,
+      paidAmount: purchase.paid_amount,
+      blockNumber: purchase.block_number,
+      transactionHash: purchase.transaction_hash,
+      timestamp: purchase.timestamp,
+    })),
+  };
+};
+
+//function to get the balances of a My1155Token id from the indexed transfers
+export const get1155Holders = (
+  db: Database,
+  tokenId: string
+): Array<{ address: string; balance: string }> => {
+  const balances = new Map<string, BigNumber>();
+  const transfers = queryRows<{
+    from_address: string;
+    to_address: string;
+    amount: string;
+  }>(
+    db,
+    "SELECT from_address, to_address, amount FROM transfers WHERE contract = 'My1155Token' AND token_id = ?",
+    [tokenId]
+  );
+
+  for (const { from_address: from, to_address: to, amount } of transfers) {
+    const add = (address: string, value: BigNumber) =>
+      balances.set(
+        address,
+        (balances.get(address) ?? constants.Zero).add(value)
+      );
+    add(from, BigNumber.from(amount).mul(-1));
+    add(to, BigNumber.from(amount));
+  }
+
+  return [...balances.entries()]
+    .filter(
+      ([address, balance]) => address !== constants.AddressZero && balance.gt(0)
+    )
+    .sort(([, a], [, b]) => (b.gt(a) ? 1 : b.lt(a) ? -1 : 0))
+    .map(([address, balance]) => ({ address, balance: balance.toString() }));
+};
+
+//function to match a request path with an API route
+export const parseApiRequest = (
+  pathname: string
+): { route: ApiRoute; param?: string } | undefined => {
+  for (const route of Object.keys(API_ROUTES) as ApiRoute[]) {
+    const match = API_ROUTES[route].exec(pathname);
+    if (match !== null) return { route, param: match[1] };
+  }
+};
+
+//function to send a JSON response
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+};
+
+//function to create the request handler of the read API:
+//GET /offers, /offers/:id, /nft/:owner and /1155/:id
+export const createApiHandler =
+  ({
+    db,
+    contracts,
+    getTimestamp = async () => Math.floor(Date.now() / 1000),
+    log = console.log,
+  }: ApiOptions) =>
+  async (request: IncomingMessage, response: ServerResponse) => {
+    const url = new URL(request.url ?? "/", "http://localhost");
+    const finish = (status: number) =>
+      log(`${request.method} ${request.url} ${status}`);
+    response.setHeader("Access-Control-Allow-Origin", "*");
+
+    if (request.method !== "GET") {
+      sendJson(response, 405, { error: "Method not allowed" });
+      return finish(405);
+    }
+    const parsed = parseApiRequest(url.pathname);
+    if (parsed === undefined) {
+      sendJson(response, 404, { error: "Not found" });
+      return finish(404);
+    }
+
+    const { route, param = "" } = parsed;
+    const { MyNFT: NFT, My1155Token: Token1155 } = contracts;
+    try {
+      let body: unknown;
+
+      switch (route) {
+        case "offers":
+          body = queryOffers(
+            db,
+            parseOfferFilters(url.searchParams),
+            await getTimestamp()
+          );
+          break;
+
+        case "offer":
+          body = getOfferWithPurchases(db, Number(param), await getTimestamp());
+          if (body === undefined) {
+            throw new ApiError(404, `Offer ${param} does not exist`);
+          }
+          break;
+
+        case "nft": {
+          if (NFT === undefined)
+            throw new ApiError(404, "MyNFT is not deployed");
+          const owner = utils.getAddress(param);
+          const balance = (await NFT.balanceOf(owner)).toNumber();
+          const tokens = await Promise.all(
+            Array.from({ length: balance }, async (_, index) => {
+              const tokenId = await NFT.tokenOfOwnerByIndex(owner, index);
+              return {
+                tokenId: tokenId.toString(),
+                tokenURI: await NFT.tokenURI(tokenId),
+              };
+            })
+          );
+          body = { owner, balance, tokens };
+          break;
+        }
+
+        case "items": {
+          if (Token1155 === undefined) {
+            throw new ApiError(404, "My1155Token is not deployed");
+          }
+          if (!(await Token1155.exists(param))) {
+            throw new ApiError(404, `Token ${param} does not exist`);
+          }
+          const [totalSupply, price, uri] = await Promise.all([
+            Token1155.totalSupply(param),
+            Token1155.tokenPrice(param),
+            Token1155.uri(param),
+          ]);
+          body = {
+            tokenId: param,
+            totalSupply: totalSupply.toString(),
+            price: price.toString(),
+            uri,
+            holders: get1155Holders(db, param),
+          };
+          break;
+        }
+      }
+
+      sendJson(response, 200, body);
+      finish(200);
+    } catch (error) {
+      if (error instanceof ApiError) {
+        sendJson(response, error.status, { error: error.message });
+        return finish(error.status);
+      }
+      sendJson(response, 502, { error: "Cannot read the chain" });
+      log(`${request.method} ${request.url} 502 ${(error as Error).message}`);
+    }
+  };
@@ -0,0 +1,88 @@
+import fs from "fs";
+import path from "path";
+import { BigNumber, utils } from "ethers";
+
+export const DEFAULT_CATALOG_PATH = path.join(
+  __dirname,
+  "..",
+  "..",
+  "config",
+  "catalog.json"
+);
+
+export interface CatalogAttribute {
+  trait_type: string;
+  value: string | number;
+  display_type?: string;
+}
+
+export interface CatalogMetadata {
+  name: string;
+  description: string;
+  image: string;
+  attributes?: CatalogAttribute[];
+}
+
+export interface CatalogItem {
+  id: number;
+  amount: number;
+  price: BigNumber;
+  metadata?: CatalogMetadata;
+}
+
+//function to read and validate the My1155Token catalog file
+export const readCatalog = (file: string): CatalogItem[] => {
+  const raw = JSON.parse(fs.readFileSync(file, "utf8"));
+  const rawItems = raw?.items;
+
+  if (!Array.isArray(rawItems)) {
+    throw new Error(`Catalog ${file} must have an "items" array`);
+  }
+  if (rawItems.length === 0) throw new Error(`Catalog ${file} has no items`);
+
+  const errors: string[] = [];
+  const ids = new Set<number>();
+
+  const items = rawItems.map((item, index): CatalogItem => {
+    const location = `items[${index}]`;
+    let price = BigNumber.from(0);
+
+    if (!Number.isInteger(item.id) || item.id < 0) {
+      errors.push(`${location}.id must be a non-negative integer`);
+    } else if (ids.has(item.id)) {
+      errors.push(`${location}.id ${item.id} is duplicated`);
+    }
+    ids.add(item.id);
+
+    if (!Number.isInteger(item.amount) || item.amount < 1) {
+      errors.push(`${location}.amount must be an integer greater than 0`);
+    }
+
+    try {
+      price = utils.parseEther(String(item.price));
+    } catch (error) {
+      // reported below
+    }
+    if (price.lte(0)) {
+      errors.push(`${location}.price must be an ETH amount greater than 0`);
+    }
+
+    if (item.metadata !== undefined) {
+      for (const key of ["name", "description", "image"]) {
+        if (typeof item.metadata[key] !== "string") {
+          errors.push(`${location}.metadata.${key} must be a string`);
+        }
+      }
+    }
+
+    return { id: item.id, amount: item.amount, price, metadata: item.metadata };
+  });
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid catalog ${file}:\n${errors.map((e) => `  - ${e}`).join("\n")}`
+    );
+  }
+
+  return items;
+};
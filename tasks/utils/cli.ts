@@ -0,0 +1,84 @@
+import readline from "readline";
+import { BigNumber } from "ethers";
+import type { Contract, ContractTransaction } from "ethers";
+
+//function to ask the user for a yes/no confirmation
+export const confirm = async (question: string): Promise<boolean> => {
+  if (!process.stdin.isTTY) {
+    throw new Error("Cannot ask for confirmation, rerun the task with --yes");
+  }
+
+  const rl = readline.createInterface({
+    input: process.stdin,
+    output: process.stdout,
+  });
+  const answer = await new Promise<string>((resolve) =>
+    rl.question(`${question} [y/N] `, resolve)
+  );
+  rl.close();
+
+  return ["y", "yes"].includes(answer.trim().toLowerCase());
+};
+
+//function to print a current and a new value, then confirm the change
+export const confirmChange = async (
+  label: string,
+  currentValue: unknown,
+  newValue: unknown,
+  yes = false
+): Promise<boolean> => {
+  console.log(`${label}: ${String(currentValue)} -> ${String(newValue)}`);
+
+  if (yes) return true;
+  if (await confirm("Send the transaction?")) return true;
+
+  console.log("Aborted");
+  return false;
+};
+
+//function to check the task signer owns the contract before sending anything
+export const assertSignerIsOwner = async (
+  contract: Contract & { owner(): Promise<string> }
+) => {
+  const [owner, signer] = await Promise.all([
+    contract.owner(),
+    contract.signer.getAddress(),
+  ]);
+
+  if (owner !== signer) {
+    throw new Error(`Signer ${signer} is not the owner (${owner})`);
+  }
+};
+
+//function to format a decoded event argument
+const formatEventArg = (value: unknown): string => {
+  if (BigNumber.isBigNumber(value)) return value.toString();
+  if (Array.isArray(value)) return `[${value.map(formatEventArg).join(", ")}]`;
+  return String(value);
+};
+
+//function to wait for a transaction and print the events emitted by the contract
+export const printTransactionEvents = async (
+  contract: Contract,
+  transaction: ContractTransaction
+) => {
+  const receipt = await transaction.wait();
+  console.log(`Transaction: ${receipt.transactionHash}`);
+
+  const events = receipt.logs
+    .filter((log) => log.address === contract.address)
+    .map((log) => contract.interface.parseLog(log));
+
+  if (events.length === 0) {
+    console.log("No events emitted");
+  }
+
+  for (const event of events) {
+    const args = event.eventFragment.inputs.map(
+      (input, i) => `${input.name}: ${formatEventArg(event.args[i])}`
+    );
+    console.log(`${event.name}(${args.join(", ")})`);
+  }
+
+  return receipt;
+};
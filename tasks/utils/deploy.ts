@@ -0,0 +1,205 @@
+import type { Contract, ContractTransaction, Signer } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  DeploymentManifest,
+  hashAbi,
+  isSameArgs,
+  serializeArgs,
+  writeManifest,
+} from "./manifest";
+import type { DryRun } from "./dryRun";
+
+export const DEPLOYABLE_CONTRACTS = [
+  "MyERC20",
+  "MyNFT",
+  "My1155Token",
+  "MyTokenMarket",
+] as const;
+
+export type DeployableContract = typeof DEPLOYABLE_CONTRACTS[number];
+
+//function to parse comma separated contract names of the deploy task
+export const parseContractNames = (value: string): DeployableContract[] => {
+  const names = value
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name.length > 0);
+
+  for (const name of names) {
+    if (!DEPLOYABLE_CONTRACTS.includes(name as DeployableContract)) {
+      throw new Error(
+        `Unknown contract "${name}", expected one of: ${DEPLOYABLE_CONTRACTS.join(
+          ", "
+        )}`
+      );
+    }
+  }
+
+  return names as DeployableContract[];
+};
+
+//function to zero the immutable values of a runtime code, they are set by the
+//constructor (e.g. the EIP712 domain of MyNFT) so they differ from the artifact
+const maskImmutables = (
+  code: string,
+  references: Record<string, { start: number; length: number }[]>
+): string => {
+  let masked = code.toLowerCase();
+
+  for (const { start, length } of Object.values(references).flat()) {
+    const from = 2 + start * 2;
+    masked =
+      masked.slice(0, from) +
+      "0".repeat(length * 2) +
+      masked.slice(from + length * 2);
+  }
+
+  return masked;
+};
+
+//function to check if the on-chain code matches the compiled artifact
+export const isDeployedCodeMatching = async (
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  address: string
+): Promise<boolean> => {
+  const { sourceName, deployedBytecode } = await hre.artifacts.readArtifact(
+    contractName
+  );
+  const buildInfo = await hre.artifacts.getBuildInfo(
+    `${sourceName}:${contractName}`
+  );
+  const references =
+    buildInfo?.output.contracts[sourceName][contractName].evm.deployedBytecode
+      .immutableReferences ?? {};
+  const code = await hre.ethers.provider.getCode(address);
+
+  return (
+    code.length === deployedBytecode.length &&
+    maskImmutables(code, references) ===
+      maskImmutables(deployedBytecode, references)
+  );
+};
+
+//function to deploy a contract and save its record in the manifest
+export const deployAndRecord = async <T extends Contract>(
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest,
+  contractName: string,
+  args: unknown[],
+  deployer: Signer
+): Promise<T> => {
+  const { ethers } = hre;
+
+  console.log(`Starting deploy ${contractName}, please wait...`);
+
+  const initialBalance = await deployer.getBalance();
+  const Contract = await ethers.getContractFactory(contractName, deployer);
+  const contract = await Contract.deploy(...args);
+  const receipt = await contract.deployTransaction.wait();
+  const afterDeployBalance = await deployer.getBalance();
+
+  const { abi } = await hre.artifacts.readArtifact(contractName);
+
+  // a fresh deploy drops the wiring steps of the previous one
+  manifest.contracts[contractName] = {
+    address: contract.address,
+    transactionHash: receipt.transactionHash,
+    blockNumber: receipt.blockNumber,
+    args: serializeArgs(args),
+    abiHash: hashAbi(abi),
+  };
+  writeManifest(manifest);
+
+  console.log(
+    `Deploy contract cost: ${ethers.utils.formatEther(
+      initialBalance.sub(afterDeployBalance)
+    )} ETH`
+  );
+  console.log(`${contractName} deployed to:`, contract.address);
+
+  return contract as T;
+};
+
+export interface DeployOptions {
+  // redeploy even when the manifest contract is up to date
+  force?: boolean;
+  // only estimate gas, nothing is sent and the manifest is not updated
+  dryRun?: DryRun;
+}
+
+//function to reuse a contract from the manifest or deploy it when missing or outdated
+export const deployOrReuse = async <T extends Contract>(
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest,
+  contractName: string,
+  args: unknown[],
+  deployer: Signer,
+  { force = false, dryRun }: DeployOptions = {}
+): Promise<T> => {
+  const record = manifest.contracts[contractName];
+
+  if (record !== undefined && !force) {
+    if (!(await isDeployedCodeMatching(hre, contractName, record.address))) {
+      console.log(
+        `${contractName} at ${record.address} does not match the compiled artifact, redeploying`
+      );
+    } else if (!isSameArgs(args, record.args)) {
+      console.log(
+        `${contractName} at ${record.address} was deployed with different args, redeploying`
+      );
+    } else {
+      console.log(
+        `${contractName} already deployed to: ${record.address}, skipping`
+      );
+      return (await hre.ethers.getContractAt(
+        contractName,
+        record.address,
+        deployer
+      )) as unknown as T;
+    }
+  }
+
+  if (dryRun !== undefined) {
+    return (await dryRun.estimateDeploy(contractName, args, deployer)) as T;
+  }
+
+  return deployAndRecord<T>(hre, manifest, contractName, args, deployer);
+};
+
+//function to call a contract method once, completed steps are skipped on rerun
+export const runStep = async (
+  manifest: DeploymentManifest,
+  contractName: string,
+  contract: Contract,
+  method: string,
+  args: unknown[],
+  { dryRun }: DeployOptions = {}
+) => {
+  const record = manifest.contracts[contractName];
+  const completed = record?.steps?.[method];
+
+  if (completed !== undefined && isSameArgs(args, completed.args)) {
+    console.log(`${contractName}.${method} already done, skipping`);
+    return;
+  }
+
+  if (dryRun !== undefined) {
+    await dryRun.estimateStep(contractName, contract, method, args);
+    return;
+  }
+
+  console.log(`Running ${contractName}.${method}, please wait...`);
+  const transaction: ContractTransaction = await contract[method](...args);
+  const receipt = await transaction.wait();
+
+  record.steps = {
+    ...record.steps,
+    [method]: {
+      transactionHash: receipt.transactionHash,
+      blockNumber: receipt.blockNumber,
+      args: serializeArgs(args),
+    },
+  };
+  writeManifest(manifest);
+};
@@ -0,0 +1,164 @@
+import { BigNumber, Contract, Signer, utils } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+export interface GasEstimate {
+  contractName: string;
+  action: string;
+  // undefined for a call to a contract only deployed by the dry run, on a
+  // network without evm_snapshot
+  gas?: BigNumber;
+}
+
+// collects gas estimates of a deploy without keeping any transaction: on
+// networks with evm_snapshot (hardhat, local nodes) the deploy runs for real
+// and is reverted by finish, on the others nothing is sent
+export class DryRun {
+  estimates: GasEstimate[] = [];
+
+  // addresses of contracts that would be deployed by this run
+  private simulated = new Set<string>();
+  private nonce?: number;
+  private snapshotId?: string;
+  private isSnapshotSupported?: boolean;
+
+  constructor(private hre: HardhatRuntimeEnvironment) {}
+
+  //function to estimate a deploy, returns the deployed contract on a
+  //snapshot network, otherwise the contract at its predicted address
+  async estimateDeploy(
+    contractName: string,
+    args: unknown[],
+    deployer: Signer
+  ): Promise<Contract> {
+    const factory = await this.hre.ethers.getContractFactory(
+      contractName,
+      deployer
+    );
+
+    const gas = await deployer.estimateGas(
+      factory.getDeployTransaction(...args)
+    );
+    this.estimates.push({ contractName, action: "deploy", gas });
+
+    if (await this.takeSnapshot()) {
+      const contract = await factory.deploy(...args);
+      return contract.deployed();
+    }
+
+    const address = utils.getContractAddress({
+      from: await deployer.getAddress(),
+      nonce: await this.useNonce(deployer),
+    });
+    this.simulated.add(address);
+
+    return factory.attach(address);
+  }
+
+  //function to estimate a wiring call of a deployed or a simulated contract
+  async estimateStep(
+    contractName: string,
+    contract: Contract,
+    method: string,
+    args: unknown[]
+  ) {
+    if (this.simulated.has(contract.address)) {
+      this.estimates.push({ contractName, action: method });
+      return;
+    }
+
+    const gas: BigNumber = await contract.estimateGas[method](...args);
+    this.estimates.push({ contractName, action: method, gas });
+
+    if (await this.takeSnapshot()) {
+      await (await contract[method](...args)).wait();
+    } else {
+      // the call takes a nonce the same way it would on chain
+      await this.useNonce(contract.signer);
+    }
+  }
+
+  //function to revert the transactions sent by the dry run
+  async finish() {
+    if (this.snapshotId !== undefined) {
+      await this.hre.network.provider.send("evm_revert", [this.snapshotId]);
+      this.snapshotId = undefined;
+    }
+  }
+
+  //function to take a snapshot before the first transaction, returns whether
+  //the network supports them
+  private async takeSnapshot(): Promise<boolean> {
+    if (this.isSnapshotSupported === undefined) {
+      try {
+        this.snapshotId = await this.hre.network.provider.send(
+          "evm_snapshot",
+          []
+        );
+        this.isSnapshotSupported = true;
+      } catch (error) {
+        this.isSnapshotSupported = false;
+      }
+    }
+    return this.isSnapshotSupported;
+  }
+
+  //function to track the deployer nonce, used to predict contract addresses
+  private async useNonce(signer: Signer): Promise<number> {
+    if (this.nonce === undefined) {
+      this.nonce = await signer.getTransactionCount();
+    }
+    return this.nonce++;
+  }
+}
+
+//function to print the estimates table and the total cost in ETH
+export const printGasEstimates = (
+  estimates: GasEstimate[],
+  gasPrice: BigNumber
+): BigNumber => {
+  const rows = estimates.map(({ contractName, action, gas }) => [
+    contractName,
+    action,
+    gas?.toString() ?? "n/a",
+    gas === undefined ? "n/a" : utils.formatEther(gas.mul(gasPrice)),
+  ]);
+  const totalGas = estimates.reduce(
+    (total, { gas }) => (gas === undefined ? total : total.add(gas)),
+    BigNumber.from(0)
+  );
+  const totalCost = totalGas.mul(gasPrice);
+
+  const header = ["Contract", "Action", "Gas", "Cost (ETH)"];
+  const footer = [
+    "Total",
+    "",
+    totalGas.toString(),
+    utils.formatEther(totalCost),
+  ];
+  const widths = header.map((title, i) =>
+    Math.max(title.length, ...[...rows, footer].map((row) => row[i].length))
+  );
+  const printRow = (row: string[]) =>
+    console.log(row.map((cell, i) => cell.padEnd(widths[i])).join(" | "));
+  const separator = widths.map((width) => "-".repeat(width)).join("-|-");
+
+  console.log(
+    `\nGas price: ${utils.formatUnits(
+      gasPrice,
+      "gwei"
+    )} gwei (dry run, nothing was kept)\n`
+  );
+  printRow(header);
+  console.log(separator);
+  rows.forEach(printRow);
+  console.log(separator);
+  printRow(footer);
+
+  if (estimates.some(({ gas }) => gas === undefined)) {
+    console.log(
+      "\nn/a: calls to contracts deployed by this run are only estimated on networks with evm_snapshot"
+    );
+  }
+
+  return totalCost;
+};
@@ -0,0 +1,186 @@
+import path from "path";
+import type { providers, utils } from "ethers";
+import {
+  ERC20MockToken__factory,
+  My1155Token__factory,
+  MyERC20__factory,
+  MyNFT__factory,
+  MyTokenMarket__factory,
+} from "../../typechain-types";
+import { serializeArgs } from "./manifest";
+
+export const EXPORT_FORMATS = ["csv", "jsonl"] as const;
+
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+// columns written before the decoded event args
+export const CSV_BASE_COLUMNS = [
+  "blockNumber",
+  "timestamp",
+  "date",
+  "transactionHash",
+  "logIndex",
+  "event",
+];
+
+const CONTRACT_INTERFACES: Record<string, () => utils.Interface> = {
+  ERC20MockToken: () => ERC20MockToken__factory.createInterface(),
+  My1155Token: () => My1155Token__factory.createInterface(),
+  MyERC20: () => MyERC20__factory.createInterface(),
+  MyNFT: () => MyNFT__factory.createInterface(),
+  MyTokenMarket: () => MyTokenMarket__factory.createInterface(),
+};
+
+export interface ExportedEvent {
+  blockNumber: number;
+  timestamp: number;
+  date: string;
+  transactionHash: string;
+  logIndex: number;
+  event: string;
+  args: Record<string, unknown>;
+}
+
+//function to get the typechain interface of a manifest contract
+export const getContractInterface = (contractName: string): utils.Interface => {
+  const createInterface = CONTRACT_INTERFACES[contractName];
+
+  if (createInterface === undefined) {
+    throw new Error(
+      `Unknown contract ${contractName}, use one of: ${Object.keys(
+        CONTRACT_INTERFACES
+      ).join(", ")}`
+    );
+  }
+
+  return createInterface();
+};
+
+//function to get the event fragments to export, all of them when no names are given
+export const getEventFragments = (
+  contractInterface: utils.Interface,
+  names?: string
+): utils.EventFragment[] => {
+  if (names === undefined) return Object.values(contractInterface.events);
+
+  return names
+    .split(",")
+    .map((name) => name.trim())
+    .filter((name) => name !== "")
+    .map((name) => {
+      try {
+        return contractInterface.getEvent(name);
+      } catch (error) {
+        throw new Error(`Unknown event ${name}`);
+      }
+    });
+};
+
+//function to get the export format from the option or the output file extension
+export const getExportFormat = (
+  output: string,
+  format?: string
+): ExportFormat => {
+  const value = format ?? path.extname(output).slice(1).toLowerCase();
+
+  if (!(EXPORT_FORMATS as readonly string[]).includes(value)) {
+    throw new Error(
+      `Unknown export format "${value}", use one of: ${EXPORT_FORMATS.join(
+        ", "
+      )}`
+    );
+  }
+
+  return value as ExportFormat;
+};
+
+//function to fetch logs by block chunks, splitting a chunk the node refuses
+export const getLogsInChunks = async (
+  provider: providers.Provider,
+  filter: providers.Filter,
+  fromBlock: number,
+  toBlock: number,
+  chunkSize: number,
+  onChunk: (logs: providers.Log[], toBlock: number) => Promise<void>
+) => {
+  let start = fromBlock;
+  let size = chunkSize;
+
+  while (start <= toBlock) {
+    const end = Math.min(start + size - 1, toBlock);
+    let logs: providers.Log[];
+
+    try {
+      logs = await provider.getLogs({
+        ...filter,
+        fromBlock: start,
+        toBlock: end,
+      });
+    } catch (error) {
+      if (end === start) throw error;
+      size = Math.ceil((end - start + 1) / 2);
+      continue;
+    }
+
+    await onChunk(logs, end);
+    start = end + 1;
+    size = chunkSize;
+  }
+};
+
+//function to decode a log into the exported event
+export const decodeEvent = (
+  contractInterface: utils.Interface,
+  log: providers.Log,
+  timestamp: number
+): ExportedEvent => {
+  const event = contractInterface.parseLog(log);
+  const args: Record<string, unknown> = {};
+
+  event.eventFragment.inputs.forEach((input, i) => {
+    [args[input.name]] = serializeArgs([event.args[i]]);
+  });
+
+  return {
+    blockNumber: log.blockNumber,
+    timestamp,
+    date: new Date(timestamp * 1000).toISOString(),
+    transactionHash: log.transactionHash,
+    logIndex: log.logIndex,
+    event: event.name,
+    args,
+  };
+};
+
+//function to get the CSV header, one column per distinct event arg name
+export const getCsvColumns = (fragments: utils.EventFragment[]): string[] => {
+  const argNames = new Set<string>();
+  fragments.forEach(({ inputs }) =>
+    inputs.forEach(({ name }) => argNames.add(name))
+  );
+
+  return [...CSV_BASE_COLUMNS, ...argNames];
+};
+
+//function to escape a CSV value
+const toCsvValue = (value: unknown): string => {
+  if (value === undefined || value === null) return "";
+
+  const text =
+    typeof value === "object" ? JSON.stringify(value) : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+//function to format an exported event as a CSV row or a JSONL line
+export const formatEvent = (
+  event: ExportedEvent,
+  format: ExportFormat,
+  columns: string[]
+): string => {
+  if (format === "jsonl") return JSON.stringify(event);
+
+  const { args, ...fields } = event;
+  const values: Record<string, unknown> = { ...args, ...fields };
+
+  return columns.map((column) => toCsvValue(values[column])).join(",");
+};
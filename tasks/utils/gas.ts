@@ -0,0 +1,268 @@
+import fs from "fs";
+import Mocha from "mocha";
+import type { utils } from "ethers";
+import type { EthereumProvider } from "hardhat/types";
+import {
+  ERC20MockToken__factory,
+  My1155Token__factory,
+  MyERC20__factory,
+  MyNFT__factory,
+  MyTokenMarket__factory,
+} from "../../typechain-types";
+
+export const GAS_SNAPSHOT_PATH = "gas-snapshot.json";
+
+// property and invariant tests send random transactions, so their gas changes every run
+export const GAS_SNAPSHOT_IGNORE = ["Fuzz.test.ts", "test/invariants/"];
+
+const GAS_CONTRACTS: Record<
+  string,
+  { bytecode: string; createInterface: () => utils.Interface }
+> = {
+  ERC20MockToken: ERC20MockToken__factory,
+  My1155Token: My1155Token__factory,
+  MyERC20: MyERC20__factory,
+  MyNFT: MyNFT__factory,
+  MyTokenMarket: MyTokenMarket__factory,
+};
+
+export interface GasStats {
+  calls: number;
+  min: number;
+  max: number;
+  avg: number;
+}
+
+export interface GasSnapshot {
+  // gas of the successful transactions per contract function, fixtures included
+  functions: Record<string, GasStats>;
+  // gas of the successful transactions sent by each test body
+  tests: Record<string, number>;
+}
+
+export interface GasDiff {
+  section: keyof GasSnapshot;
+  name: string;
+  baseline?: number;
+  current?: number;
+  // change in percent, undefined for added or removed entries
+  change?: number;
+  isRegression: boolean;
+}
+
+export interface GasRecorder {
+  startTest: (title: string) => void;
+  endTest: () => void;
+  setInHook: (inHook: boolean) => void;
+  getSnapshot: () => GasSnapshot;
+  stop: () => void;
+}
+
+interface TransactionRequest {
+  to?: string;
+  data?: string;
+}
+
+interface TransactionReceipt {
+  status: string;
+  gasUsed: string;
+  contractAddress: string | null;
+}
+
+//function to sort the keys of a record, so the snapshot diffs stay small
+const sortKeys = <T>(record: Record<string, T>): Record<string, T> =>
+  Object.fromEntries(
+    Object.entries(record).sort(([a], [b]) => a.localeCompare(b))
+  );
+
+//function to name the contract function of a transaction, undefined for unknown
+//contracts and plain ETH transfers
+const getFunctionName = (
+  request: TransactionRequest,
+  receipt: TransactionReceipt,
+  contracts: Map<string, string>
+): string | undefined => {
+  const data = request.data ?? "0x";
+
+  if (request.to === undefined) {
+    const name = Object.keys(GAS_CONTRACTS).find((contractName) =>
+      data.startsWith(GAS_CONTRACTS[contractName].bytecode)
+    );
+    if (name === undefined || receipt.contractAddress === null) return;
+
+    contracts.set(receipt.contractAddress.toLowerCase(), name);
+    return `${name}.deploy`;
+  }
+
+  const name = contracts.get(request.to.toLowerCase());
+  if (name === undefined || data.length < 10) return;
+
+  try {
+    const fragment = GAS_CONTRACTS[name]
+      .createInterface()
+      .getFunction(data.slice(0, 10));
+    return `${name}.${fragment.name}`;
+  } catch (error) {
+    return `${name}.${data.slice(0, 10)}`;
+  }
+};
+
+//function to record the gas of the transactions sent through the provider
+export const createGasRecorder = (provider: EthereumProvider): GasRecorder => {
+  const send = provider.send.bind(provider);
+  const contracts = new Map<string, string>();
+  const functions: Record<string, number[]> = {};
+  const tests: Record<string, number> = {};
+  let currentTest: string | undefined;
+  let inHook = false;
+
+  provider.send = async (method: string, params?: unknown[]) => {
+    const result = await send(method, params);
+    if (method !== "eth_sendTransaction" || params === undefined) return result;
+
+    const request = params[0] as TransactionRequest;
+    const receipt: TransactionReceipt = await send(
+      "eth_getTransactionReceipt",
+      [result]
+    );
+    if (receipt === null || receipt.status !== "0x1") return result;
+
+    const gasUsed = parseInt(receipt.gasUsed, 16);
+    const name = getFunctionName(request, receipt, contracts);
+    if (name !== undefined) {
+      functions[name] = [...(functions[name] ?? []), gasUsed];
+    }
+    if (currentTest !== undefined && !inHook) {
+      tests[currentTest] = (tests[currentTest] ?? 0) + gasUsed;
+    }
+
+    return result;
+  };
+
+  return {
+    startTest: (title) => (currentTest = title),
+    endTest: () => (currentTest = undefined),
+    setInHook: (value) => (inHook = value),
+    getSnapshot: () => ({
+      functions: sortKeys(
+        Object.fromEntries(
+          Object.entries(functions).map(([name, gas]) => [
+            name,
+            {
+              calls: gas.length,
+              min: Math.min(...gas),
+              max: Math.max(...gas),
+              avg: Math.round(gas.reduce((a, b) => a + b, 0) / gas.length),
+            },
+          ])
+        )
+      ),
+      tests: sortKeys(tests),
+    }),
+    stop: () => {
+      provider.send = send;
+    },
+  };
+};
+
+//function to create a spec reporter telling the recorder which test is running
+export const createGasReporter = (recorder: GasRecorder) => {
+  const { EVENT_TEST_BEGIN, EVENT_TEST_END, EVENT_HOOK_BEGIN, EVENT_HOOK_END } =
+    Mocha.Runner.constants;
+
+  return class GasReporter extends Mocha.reporters.Spec {
+    constructor(runner: Mocha.Runner, options?: Mocha.MochaOptions) {
+      super(runner, options);
+
+      runner.on(EVENT_TEST_BEGIN, (test) =>
+        recorder.startTest(test.fullTitle())
+      );
+      runner.on(EVENT_TEST_END, () => recorder.endTest());
+      runner.on(EVENT_HOOK_BEGIN, () => recorder.setInHook(true));
+      runner.on(EVENT_HOOK_END, () => recorder.setInHook(false));
+    }
+  };
+};
+
+//function to read a gas snapshot, undefined when the file does not exist
+export const readGasSnapshot = (path: string): GasSnapshot | undefined => {
+  if (!fs.existsSync(path)) return undefined;
+
+  return JSON.parse(fs.readFileSync(path, "utf8"));
+};
+
+//function to write a gas snapshot
+export const writeGasSnapshot = (path: string, snapshot: GasSnapshot) => {
+  fs.writeFileSync(path, `${JSON.stringify(snapshot, null, 2)}\n`);
+};
+
+//function to get the changed, added and removed entries of two snapshots, a
+//test total increase above the threshold percent is a regression, function
+//averages are reported only since new tests calling a function change them
+export const compareGasSnapshots = (
+  baseline: GasSnapshot,
+  current: GasSnapshot,
+  threshold: number
+): GasDiff[] => {
+  const sections: Record<
+    keyof GasSnapshot,
+    (snapshot: GasSnapshot, name: string) => number | undefined
+  > = {
+    functions: (snapshot, name) => snapshot.functions[name]?.avg,
+    tests: (snapshot, name) => snapshot.tests[name],
+  };
+  const diffs: GasDiff[] = [];
+
+  for (const section of Object.keys(sections) as (keyof GasSnapshot)[]) {
+    const getGas = sections[section];
+    const names = new Set([
+      ...Object.keys(baseline[section]),
+      ...Object.keys(current[section]),
+    ]);
+
+    for (const name of Array.from(names).sort()) {
+      const before = getGas(baseline, name);
+      const after = getGas(current, name);
+      if (before === after) continue;
+
+      const change =
+        before === undefined || after === undefined || before === 0
+          ? undefined
+          : ((after - before) / before) * 100;
+      diffs.push({
+        section,
+        name,
+        baseline: before,
+        current: after,
+        change,
+        isRegression:
+          section === "tests" && change !== undefined && change > threshold,
+      });
+    }
+  }
+
+  return diffs;
+};
+
+//function to format a gas diff as a report line
+export const formatGasDiff = ({
+  section,
+  name,
+  baseline,
+  current,
+  change,
+  isRegression,
+}: GasDiff): string => {
+  const label = section === "functions" ? `${name} (avg)` : name;
+
+  if (baseline === undefined) return `  + ${label}: ${current}`;
+  if (current === undefined) return `  - ${label}: ${baseline}`;
+
+  const percent =
+    change === undefined
+      ? ""
+      : ` (${change > 0 ? "+" : ""}${change.toFixed(2)}%)`;
+  return `  ${
+    isRegression ? "!" : "~"
+  } ${label}: ${baseline} -> ${current}${percent}`;
+};
@@ -0,0 +1,19 @@
+export * from "./api";
+export * from "./catalog";
+export * from "./cli";
+export * from "./deploy";
+export * from "./dryRun";
+export * from "./events";
+export * from "./gas";
+export * from "./indexer";
+export * from "./indexerStore";
+export * from "./manifest";
+export * from "./market";
+export * from "./merkle";
+export * from "./metadata";
+export * from "./params";
+export * from "./seed";
+export * from "./server";
+export * from "./verify";
+export * from "./voucher";
+export * from "./whitelist";
@@ -0,0 +1,542 @@
+import { BigNumber, constants } from "ethers";
+import type { Contract, EventFilter, providers } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { Database } from "sql.js";
+import type {
+  My1155Token,
+  MyERC20,
+  MyNFT,
+  MyTokenMarket,
+} from "../../typechain-types";
+import { ExportedEvent, decodeEvent, getLogsInChunks } from "./events";
+import {
+  INDEXED_TABLES,
+  IndexerStore,
+  getIndexerState,
+  queryRows,
+  setIndexerState,
+  toPriceKey,
+} from "./indexerStore";
+import { getDeployedContract, readManifest } from "./manifest";
+
+export const DEFAULT_CONFIRMATIONS = 12;
+
+// events indexed per contract, the topics come from the typechain filters
+export const INDEXED_EVENTS = {
+  MyERC20: ["Transfer", "PurchaseTokens", "PurchaseByERC20", "UpdateWhitelist"],
+  MyNFT: ["Transfer"],
+  My1155Token: ["TransferSingle", "TransferBatch", "BuyTokens"],
+  MyTokenMarket: [
+    "CreateOffer",
+    "PurchaseTokens",
+    "ToggleOffer",
+    "ChangeOfferPrice",
+    "ChangeOfferExpirationDate",
+  ],
+};
+
+export type IndexedContractName = keyof typeof INDEXED_EVENTS;
+
+export interface IndexerContracts {
+  MyERC20?: MyERC20;
+  MyNFT?: MyNFT;
+  My1155Token?: My1155Token;
+  MyTokenMarket?: MyTokenMarket;
+}
+
+export interface IndexerOptions {
+  store: IndexerStore;
+  provider: providers.Provider;
+  contracts: IndexerContracts;
+  // first block to index, usually the first deploy block
+  startBlock: number;
+  // depth of the reorgs handled: on a hash mismatch the indexer rewinds that
+  // many blocks, until a block it indexed is still on the chain
+  confirmations?: number;
+  chunkSize?: number;
+  log?: (line: string) => void;
+}
+
+export interface SyncResult {
+  fromBlock: number;
+  toBlock: number;
+  events: number;
+  // last block kept when a reorg was detected
+  rewoundTo?: number;
+}
+
+export interface Indexer {
+  // indexes the blocks from the last indexed one to the chain head
+  sync: () => Promise<SyncResult>;
+  getLastBlock: () => number | undefined;
+}
+
+interface IndexedEvent extends ExportedEvent {
+  contract: IndexedContractName;
+  address: string;
+}
+
+type EventHandler = (db: Database, event: IndexedEvent) => void;
+
+// MyTokenMarket.buyTokens removes purchased * 10**18 from the offer amount
+const MARKET_AMOUNT_UNIT = constants.WeiPerEther;
+
+//function to get the columns shared by the rows of a log
+const getLogColumns = ({
+  blockNumber,
+  logIndex,
+  transactionHash,
+  timestamp,
+  contract,
+}: IndexedEvent) => [
+  blockNumber,
+  logIndex,
+  transactionHash,
+  timestamp,
+  contract,
+];
+
+//function to insert a transfer, and a mint when it comes from the zero address
+const insertTransfer = (
+  db: Database,
+  event: IndexedEvent,
+  batchIndex: number,
+  from: string,
+  to: string,
+  tokenId: string | null,
+  amount: string
+) => {
+  const [blockNumber, logIndex, ...columns] = getLogColumns(event);
+
+  db.run("INSERT INTO transfers VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)", [
+    blockNumber,
+    logIndex,
+    batchIndex,
+    ...columns,
+    from,
+    to,
+    tokenId,
+    amount,
+  ]);
+  if (from === constants.AddressZero) {
+    db.run("INSERT INTO mints VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)", [
+      blockNumber,
+      logIndex,
+      batchIndex,
+      ...columns,
+      to,
+      tokenId,
+      amount,
+    ]);
+  }
+};
+
+//function to insert a purchase
+const insertPurchase = (
+  db: Database,
+  event: IndexedEvent,
+  purchase: {
+    buyer: string;
+    offerId?: string;
+    tokenId?: string;
+    amount: string;
+    paidAmount: string;
+    paymentToken?: string;
+  }
+) => {
+  db.run("INSERT INTO purchases VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)", [
+    ...getLogColumns(event),
+    purchase.buyer,
+    purchase.offerId ?? null,
+    purchase.tokenId ?? null,
+    purchase.amount,
+    purchase.paidAmount,
+    purchase.paymentToken ?? null,
+  ]);
+};
+
+// handlers writing the normalized tables, by contract and event name
+const EVENT_HANDLERS: Record<string, EventHandler> = {
+  "MyERC20.Transfer": (db, event) => {
+    const { from, to, value } = event.args as Record<string, string>;
+    insertTransfer(db, event, 0, from, to, null, value);
+  },
+  "MyERC20.PurchaseTokens": (db, event) => {
+    const { buyer, amount, paidAmount } = event.args as Record<string, string>;
+    insertPurchase(db, event, { buyer, amount, paidAmount });
+  },
+  "MyERC20.PurchaseByERC20": (db, event) => {
+    const { buyer, amount, paidAmount, paymentToken } = event.args as Record<
+      string,
+      string
+    >;
+    insertPurchase(db, event, { buyer, amount, paidAmount, paymentToken });
+  },
+  "MyERC20.UpdateWhitelist": (db, event) => {
+    const { wallet, isWhitelisted } = event.args as {
+      wallet: string;
+      isWhitelisted: boolean;
+    };
+    db.run("INSERT INTO whitelist_changes VALUES (?, ?, ?, ?, ?, ?, ?)", [
+      ...getLogColumns(event),
+      wallet,
+      isWhitelisted ? 1 : 0,
+    ]);
+  },
+  "MyNFT.Transfer": (db, event) => {
+    const { from, to, tokenId } = event.args as Record<string, string>;
+    insertTransfer(db, event, 0, from, to, tokenId, "1");
+  },
+  "My1155Token.TransferSingle": (db, event) => {
+    const { from, to, id, value } = event.args as Record<string, string>;
+    insertTransfer(db, event, 0, from, to, id, value);
+  },
+  "My1155Token.TransferBatch": (db, event) => {
+    const { from, to, ids, values } = event.args as {
+      from: string;
+      to: string;
+      ids: string[];
+      values: string[];
+    };
+    ids.forEach((id, i) =>
+      insertTransfer(db, event, i, from, to, id, values[i])
+    );
+  },
+  "My1155Token.BuyTokens": (db, event) => {
+    const { sender, tokenId, amount, value } = event.args as Record<
+      string,
+      string
+    >;
+    insertPurchase(db, event, {
+      buyer: sender,
+      tokenId,
+      amount,
+      paidAmount: value,
+    });
+  },
+  "MyTokenMarket.CreateOffer": (db, event) => {
+    const { offerID, seller, token, amount, price, expirationDate } =
+      event.args as Record<string, string>;
+    db.run(
+      "INSERT INTO offers (offer_id, seller, token, amount, price, expiration_date, is_active, block_number, transaction_hash, timestamp, price_key) VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?)",
+      [
+        offerID,
+        seller,
+        token,
+        amount,
+        price,
+        expirationDate,
+        event.blockNumber,
+        event.transactionHash,
+        event.timestamp,
+        toPriceKey(price),
+      ]
+    );
+  },
+  "MyTokenMarket.PurchaseTokens": (db, event) => {
+    const { offerID, buyer, amount, paidAmount } = event.args as Record<
+      string,
+      string
+    >;
+    insertPurchase(db, event, { buyer, offerId: offerID, amount, paidAmount });
+
+    const [offer] = queryRows<{ amount: string }>(
+      db,
+      "SELECT amount FROM offers WHERE offer_id = ?",
+      [offerID]
+    );
+    if (offer === undefined) return;
+    db.run("UPDATE offers SET amount = ? WHERE offer_id = ?", [
+      BigNumber.from(offer.amount)
+        .sub(BigNumber.from(amount).mul(MARKET_AMOUNT_UNIT))
+        .toString(),
+      offerID,
+    ]);
+  },
+  "MyTokenMarket.ToggleOffer": (db, event) => {
+    const { offerID, isActive } = event.args as {
+      offerID: string;
+      isActive: boolean;
+    };
+    db.run("UPDATE offers SET is_active = ? WHERE offer_id = ?", [
+      isActive ? 1 : 0,
+      offerID,
+    ]);
+  },
+  "MyTokenMarket.ChangeOfferPrice": (db, event) => {
+    const { offerID, price } = event.args as Record<string, string>;
+    db.run("UPDATE offers SET price = ?, price_key = ? WHERE offer_id = ?", [
+      price,
+      toPriceKey(price),
+      offerID,
+    ]);
+  },
+  "MyTokenMarket.ChangeOfferExpirationDate": (db, event) => {
+    const { offerID, expirationDate } = event.args as Record<string, string>;
+    // MyTokenMarket.changeOfferExpirationDate writes the new date to the price
+    db.run("UPDATE offers SET price = ?, price_key = ? WHERE offer_id = ?", [
+      expirationDate,
+      toPriceKey(expirationDate),
+      offerID,
+    ]);
+  },
+};
+
+//function to run writes in a transaction, rolled back when one fails
+const runTransaction = (db: Database, write: () => void) => {
+  db.run("BEGIN");
+  try {
+    write();
+    db.run("COMMIT");
+  } catch (error) {
+    db.run("ROLLBACK");
+    throw error;
+  }
+};
+
+//function to store the raw event and write its normalized rows
+const applyEvent = (db: Database, event: IndexedEvent) => {
+  db.run("INSERT INTO events VALUES (?, ?, ?, ?, ?, ?, ?, ?)", [
+    event.blockNumber,
+    event.logIndex,
+    event.transactionHash,
+    event.timestamp,
+    event.contract,
+    event.address,
+    event.event,
+    JSON.stringify(event.args),
+  ]);
+  EVENT_HANDLERS[`${event.contract}.${event.event}`]?.(db, event);
+};
+
+//function to delete everything indexed after a block, the offers are mutable
+//so they are rebuilt from the kept MyTokenMarket events
+const rewind = (db: Database, lastBlock: number) => {
+  for (const table of INDEXED_TABLES) {
+    db.run(`DELETE FROM ${table} WHERE block_number > ?`, [lastBlock]);
+  }
+  db.run("DELETE FROM blocks WHERE number > ?", [lastBlock]);
+
+  const marketEvents = queryRows<{
+    block_number: number;
+    log_index: number;
+    transaction_hash: string;
+    timestamp: number;
+    address: string;
+    event: string;
+    args: string;
+  }>(
+    db,
+    "SELECT * FROM events WHERE contract = 'MyTokenMarket' ORDER BY block_number, log_index"
+  );
+  db.run("DELETE FROM offers");
+  db.run("DELETE FROM purchases WHERE contract = 'MyTokenMarket'");
+  db.run("DELETE FROM events WHERE contract = 'MyTokenMarket'");
+
+  marketEvents.forEach((row) =>
+    applyEvent(db, {
+      contract: "MyTokenMarket",
+      address: row.address,
+      blockNumber: row.block_number,
+      logIndex: row.log_index,
+      transactionHash: row.transaction_hash,
+      timestamp: row.timestamp,
+      date: new Date(row.timestamp * 1000).toISOString(),
+      event: row.event,
+      args: JSON.parse(row.args),
+    })
+  );
+  setIndexerState(db, "lastBlock", String(lastBlock));
+};
+
+//function to get the address and the typechain event topics of each contract
+const getContractFilters = (contracts: IndexerContracts) =>
+  (Object.keys(INDEXED_EVENTS) as IndexedContractName[])
+    .filter((name) => contracts[name] !== undefined)
+    .map((name) => {
+      const contract = contracts[name] as Contract;
+      const filters = contract.filters as Record<string, () => EventFilter>;
+
+      return {
+        name,
+        contract,
+        filter: {
+          address: contract.address,
+          topics: [
+            INDEXED_EVENTS[name].map(
+              (event) => (filters[event]().topics as string[])[0]
+            ),
+          ],
+        },
+      };
+    });
+
+//function to get the indexed contracts deployed on the network of the manifest
+//and the block of the first deploy
+export const getIndexerDeployments = async (
+  hre: HardhatRuntimeEnvironment
+): Promise<{ contracts: IndexerContracts; startBlock: number }> => {
+  const { network } = hre;
+  const deployments = readManifest(network.name).contracts;
+  const names = (Object.keys(INDEXED_EVENTS) as IndexedContractName[]).filter(
+    (name) => deployments[name] !== undefined
+  );
+  if (names.length === 0) {
+    throw new Error(
+      `No contract is deployed on ${network.name}, run "hardhat deploy --network ${network.name}" first`
+    );
+  }
+
+  const contracts: IndexerContracts = {};
+  for (const name of names) {
+    Object.assign(contracts, { [name]: await getDeployedContract(hre, name) });
+  }
+
+  return {
+    contracts,
+    startBlock: Math.min(...names.map((name) => deployments[name].blockNumber)),
+  };
+};
+
+//function to create an indexer writing the events of the contracts to the store
+export const createIndexer = ({
+  store,
+  provider,
+  contracts,
+  startBlock,
+  confirmations = DEFAULT_CONFIRMATIONS,
+  chunkSize = 2000,
+  log = () => undefined,
+}: IndexerOptions): Indexer => {
+  const { db } = store;
+  const contractFilters = getContractFilters(contracts);
+  const interfaces = Object.fromEntries(
+    contractFilters.map(({ name, contract }) => [name, contract.interface])
+  );
+  const addresses = JSON.stringify(
+    Object.fromEntries(
+      contractFilters.map(({ name, contract }) => [name, contract.address])
+    )
+  );
+
+  const storedAddresses = getIndexerState(db, "contracts");
+  if (storedAddresses !== undefined && storedAddresses !== addresses) {
+    throw new Error(
+      `The store indexes other contracts (${storedAddresses}), use a new database`
+    );
+  }
+  setIndexerState(db, "contracts", addresses);
+
+  const getLastBlock = (): number | undefined => {
+    const value = getIndexerState(db, "lastBlock");
+    return value === undefined ? undefined : Number(value);
+  };
+
+  // highest block with a stored hash at or below a block
+  const getCheckpoint = (blockNumber: number) =>
+    queryRows<{ number: number; hash: string }>(
+      db,
+      "SELECT number, hash FROM blocks WHERE number <= ? ORDER BY number DESC LIMIT 1",
+      [blockNumber]
+    )[0];
+
+  //function to find the last indexed block still on the chain, going back a
+  //confirmation window on every mismatch
+  const findSafeBlock = async (lastBlock: number): Promise<number> => {
+    let checkpoint = getCheckpoint(lastBlock);
+
+    while (checkpoint !== undefined) {
+      const block = await provider.getBlock(checkpoint.number);
+      if (block?.hash === checkpoint.hash) return checkpoint.number;
+      checkpoint = getCheckpoint(checkpoint.number - confirmations);
+    }
+
+    return startBlock - 1;
+  };
+
+  //function to index a range of blocks in one transaction
+  const indexRange = async (fromBlock: number, toBlock: number) => {
+    const logs: Array<{ name: IndexedContractName; log: providers.Log }> = [];
+
+    for (const { name, filter } of contractFilters) {
+      await getLogsInChunks(
+        provider,
+        filter,
+        fromBlock,
+        toBlock,
+        chunkSize,
+        async (chunk) => {
+          chunk.forEach((entry) => logs.push({ name, log: entry }));
+        }
+      );
+    }
+    logs.sort(
+      (a, b) =>
+        a.log.blockNumber - b.log.blockNumber || a.log.logIndex - b.log.logIndex
+    );
+
+    // hashes of the blocks with events and of the range end, for reorg checks
+    const blocks = new Map<number, { hash: string; timestamp: number }>();
+    const getBlock = async (blockNumber: number) => {
+      if (!blocks.has(blockNumber)) {
+        const { hash, timestamp } = await provider.getBlock(blockNumber);
+        blocks.set(blockNumber, { hash, timestamp });
+      }
+      return blocks.get(blockNumber) as { hash: string; timestamp: number };
+    };
+
+    const events: IndexedEvent[] = [];
+    for (const { name, log: entry } of logs) {
+      const { timestamp } = await getBlock(entry.blockNumber);
+      events.push({
+        ...decodeEvent(interfaces[name], entry, timestamp),
+        contract: name,
+        address: entry.address,
+      });
+    }
+    await getBlock(toBlock);
+
+    runTransaction(db, () => {
+      events.forEach((event) => applyEvent(db, event));
+      blocks.forEach(({ hash, timestamp }, blockNumber) =>
+        db.run("INSERT OR REPLACE INTO blocks VALUES (?, ?, ?)", [
+          blockNumber,
+          hash,
+          timestamp,
+        ])
+      );
+      setIndexerState(db, "lastBlock", String(toBlock));
+    });
+
+    return events.length;
+  };
+
+  const sync = async (): Promise<SyncResult> => {
+    const head = await provider.getBlockNumber();
+    const lastBlock = getLastBlock();
+    let rewoundTo: number | undefined;
+
+    if (lastBlock !== undefined) {
+      const safeBlock = await findSafeBlock(lastBlock);
+      if (safeBlock < lastBlock) {
+        runTransaction(db, () => rewind(db, safeBlock));
+        rewoundTo = safeBlock;
+        log(`Reorg detected, rewound from block ${lastBlock} to ${safeBlock}`);
+      }
+    }
+
+    const fromBlock = (getLastBlock() ?? startBlock - 1) + 1;
+    let events = 0;
+
+    for (let start = fromBlock; start <= head; start += chunkSize) {
+      const end = Math.min(start + chunkSize - 1, head);
+      events += await indexRange(start, end);
+      log(`  block ${end}: ${events} events`);
+    }
+    store.save();
+
+    return { fromBlock, toBlock: head, events, rewoundTo };
+  };
+
+  return { sync, getLastBlock };
+};
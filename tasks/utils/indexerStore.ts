@@ -0,0 +1,183 @@
+import fs from "fs";
+import initSqlJs from "sql.js";
+import type { BindParams, Database } from "sql.js";
+
+export const DEFAULT_INDEXER_DB_PATH = "indexer.sqlite";
+
+// digits of the largest uint256
+const UINT256_DIGITS = 78;
+
+// token amounts and prices are uint256, they are stored as decimal strings,
+// the offer prices also zero-padded in price_key so SQLite can compare them
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS indexer_state (
+    key TEXT PRIMARY KEY,
+    value TEXT NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS blocks (
+    number INTEGER PRIMARY KEY,
+    hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL
+  );
+  CREATE TABLE IF NOT EXISTS events (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    address TEXT NOT NULL,
+    event TEXT NOT NULL,
+    args TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE TABLE IF NOT EXISTS offers (
+    offer_id INTEGER PRIMARY KEY,
+    seller TEXT NOT NULL,
+    token TEXT NOT NULL,
+    amount TEXT NOT NULL,
+    price TEXT NOT NULL,
+    expiration_date INTEGER NOT NULL,
+    is_active INTEGER NOT NULL,
+    block_number INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    price_key TEXT NOT NULL
+  );
+  CREATE INDEX IF NOT EXISTS offers_seller ON offers (seller);
+  CREATE INDEX IF NOT EXISTS offers_token ON offers (token);
+  CREATE INDEX IF NOT EXISTS offers_price_key ON offers (price_key);
+  CREATE TABLE IF NOT EXISTS purchases (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    buyer TEXT NOT NULL,
+    offer_id INTEGER,
+    token_id TEXT,
+    amount TEXT NOT NULL,
+    paid_amount TEXT NOT NULL,
+    payment_token TEXT,
+    PRIMARY KEY (block_number, log_index)
+  );
+  CREATE INDEX IF NOT EXISTS purchases_offer ON purchases (offer_id);
+  CREATE INDEX IF NOT EXISTS purchases_buyer ON purchases (buyer);
+  CREATE TABLE IF NOT EXISTS mints (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    batch_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    recipient TEXT NOT NULL,
+    token_id TEXT,
+    amount TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index, batch_index)
+  );
+  CREATE TABLE IF NOT EXISTS transfers (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    batch_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    from_address TEXT NOT NULL,
+    to_address TEXT NOT NULL,
+    token_id TEXT,
+    amount TEXT NOT NULL,
+    PRIMARY KEY (block_number, log_index, batch_index)
+  );
+  CREATE INDEX IF NOT EXISTS transfers_from ON transfers (from_address);
+  CREATE INDEX IF NOT EXISTS transfers_to ON transfers (to_address);
+  CREATE TABLE IF NOT EXISTS whitelist_changes (
+    block_number INTEGER NOT NULL,
+    log_index INTEGER NOT NULL,
+    transaction_hash TEXT NOT NULL,
+    timestamp INTEGER NOT NULL,
+    contract TEXT NOT NULL,
+    wallet TEXT NOT NULL,
+    is_whitelisted INTEGER NOT NULL,
+    PRIMARY KEY (block_number, log_index)
+  );
+`;
+
+// tables holding one row per log, rewound by block number
+export const INDEXED_TABLES = [
+  "events",
+  "purchases",
+  "mints",
+  "transfers",
+  "whitelist_changes",
+];
+
+export interface IndexerStore {
+  db: Database;
+  // undefined for an in-memory store
+  file?: string;
+  save: () => void;
+  close: () => void;
+}
+
+//function to zero-pad a uint256 decimal string to a fixed width, so the text
+//order of the padded values is their numeric order
+export const toPriceKey = (price: string): string =>
+  price.padStart(UINT256_DIGITS, "0");
+
+//function to open the SQLite store, loading the file when it exists
+export const openIndexerStore = async (
+  file?: string
+): Promise<IndexerStore> => {
+  const SQL = await initSqlJs();
+  const db =
+    file !== undefined && fs.existsSync(file)
+      ? new SQL.Database(fs.readFileSync(file))
+      : new SQL.Database();
+  db.run(SCHEMA);
+
+  return {
+    db,
+    file,
+    // sql.js keeps the database in memory, the file is rewritten on save
+    save: () => {
+      if (file !== undefined) fs.writeFileSync(file, db.export());
+    },
+    close: () => db.close(),
+  };
+};
+
+//function to run a query and get the rows as objects
+export const queryRows = <T = Record<string, unknown>>(
+  db: Database,
+  sql: string,
+  params?: BindParams
+): T[] => {
+  const statement = db.prepare(sql, params);
+  const rows: T[] = [];
+
+  try {
+    while (statement.step()) rows.push(statement.getAsObject() as unknown as T);
+  } finally {
+    statement.free();
+  }
+
+  return rows;
+};
+
+//function to read a value of the indexer state
+export const getIndexerState = (
+  db: Database,
+  key: string
+): string | undefined =>
+  queryRows<{ value: string }>(
+    db,
+    "SELECT value FROM indexer_state WHERE key = ?",
+    [key]
+  )[0]?.value;
+
+//function to write a value of the indexer state
+export const setIndexerState = (db: Database, key: string, value: string) => {
+  db.run(
+    "INSERT INTO indexer_state (key, value) VALUES (?, ?) ON CONFLICT (key) DO UPDATE SET value = excluded.value",
+    [key, value]
+  );
+};
@@ -0,0 +1,100 @@
+import fs from "fs";
+import path from "path";
+import { BigNumber, Contract, utils } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+
+export const DEPLOYMENTS_DIR = path.join(__dirname, "..", "..", "deployments");
+
+export interface StepRecord {
+  transactionHash: string;
+  blockNumber: number;
+  args: unknown[];
+}
+
+export interface DeploymentRecord {
+  address: string;
+  transactionHash: string;
+  blockNumber: number;
+  args: unknown[];
+  abiHash: string;
+  // wiring steps completed after the deploy, e.g. "updateWhitelist"
+  steps?: Record<string, StepRecord>;
+}
+
+export interface DeploymentManifest {
+  network: string;
+  chainId: number;
+  contracts: Record<string, DeploymentRecord>;
+}
+
+//function to get the manifest file path of a network
+export const getManifestPath = (network: string): string =>
+  path.join(DEPLOYMENTS_DIR, `${network}.json`);
+
+//function to read the network manifest, returns an empty one when not exists
+export const readManifest = (
+  network: string,
+  chainId = 0
+): DeploymentManifest => {
+  const manifestPath = getManifestPath(network);
+
+  if (!fs.existsSync(manifestPath)) {
+    return { network, chainId, contracts: {} };
+  }
+
+  return JSON.parse(fs.readFileSync(manifestPath, "utf8"));
+};
+
+//function to save the manifest to deployments/<network>.json
+export const writeManifest = (manifest: DeploymentManifest) => {
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  fs.writeFileSync(
+    getManifestPath(manifest.network),
+    `${JSON.stringify(manifest, null, 2)}\n`
+  );
+};
+
+//function to get the deployment record of a contract, throws when missing
+export const getDeployment = (
+  network: string,
+  contractName: string
+): DeploymentRecord => {
+  const deployment = readManifest(network).contracts[contractName];
+
+  if (deployment === undefined) {
+    throw new Error(
+      `${contractName} is not deployed on ${network}, run "hardhat deploy --network ${network}" first`
+    );
+  }
+
+  return deployment;
+};
+
+//function to get a contract instance at the address saved in the manifest
+export const getDeployedContract = async <T extends Contract>(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string
+): Promise<T> => {
+  const { address } = getDeployment(hre.network.name, contractName);
+
+  return (await hre.ethers.getContractAt(
+    contractName,
+    address
+  )) as unknown as T;
+};
+
+//function to hash the ABI, used to detect interface changes between deploys
+export const hashAbi = (abi: unknown[]): string =>
+  utils.keccak256(utils.toUtf8Bytes(JSON.stringify(abi)));
+
+//function to compare args with the ones saved in the manifest
+export const isSameArgs = (args: unknown[], recordedArgs: unknown[]) =>
+  JSON.stringify(serializeArgs(args)) === JSON.stringify(recordedArgs);
+
+//function to convert constructor args to JSON friendly values
+export const serializeArgs = (args: unknown[]): unknown[] =>
+  args.map((arg) => {
+    if (BigNumber.isBigNumber(arg)) return arg.toString();
+    if (Array.isArray(arg)) return serializeArgs(arg);
+    return arg;
+  });
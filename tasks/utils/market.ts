@@ -0,0 +1,81 @@
+import type { BigNumber } from "ethers";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+
+export type OfferStatus = "active" | "expired" | "inactive";
+
+export const OFFER_STATUSES: OfferStatus[] = ["active", "expired", "inactive"];
+
+const DURATION_UNITS: Record<string, number> = {
+  s: 1,
+  m: 60,
+  h: 60 * 60,
+  d: 24 * 60 * 60,
+  w: 7 * 24 * 60 * 60,
+};
+
+//function to get the status of an offer at the given timestamp
+export const getOfferStatus = (
+  offer: { isActive: boolean; expirationDate: BigNumber },
+  timestamp: number
+): OfferStatus => {
+  if (!offer.isActive) return "inactive";
+  if (offer.expirationDate.lte(timestamp)) return "expired";
+  return "active";
+};
+
+//function to parse durations like "3600", "30m", "12h", "7d" or "2w" into seconds
+export const parseDuration = (value: string): number => {
+  const match = /^(\d+)([smhdw]?)$/.exec(value.trim());
+
+  if (match === null) {
+    throw new Error(`Invalid duration "${value}", use e.g. 3600, 30m, 12h, 7d`);
+  }
+
+  return Number(match[1]) * DURATION_UNITS[match[2] || "s"];
+};
+
+//function to get the expiration timestamp from a duration or a date
+export const parseExpiration = async (
+  hre: HardhatRuntimeEnvironment,
+  expiresIn?: string,
+  expiration?: string
+): Promise<number> => {
+  if (expiration !== undefined) {
+    const date = new Date(expiration).getTime();
+    if (Number.isNaN(date)) throw new Error(`Invalid date "${expiration}"`);
+    return Math.floor(date / 1000);
+  }
+  if (expiresIn === undefined) {
+    throw new Error("Either --expires-in or --expiration is required");
+  }
+
+  const { timestamp } = await hre.ethers.provider.getBlock("latest");
+  return timestamp + parseDuration(expiresIn);
+};
+
+//function to get a signer by its index or address, defaults to the first one
+export const getSigner = async (
+  hre: HardhatRuntimeEnvironment,
+  account?: string
+): Promise<SignerWithAddress> => {
+  const signers = await hre.ethers.getSigners();
+
+  if (account === undefined) return signers[0];
+
+  const signer = /^\d+$/.test(account)
+    ? signers[Number(account)]
+    : signers.find(
+        ({ address }) => address.toLowerCase() === account.toLowerCase()
+      );
+
+  if (signer === undefined) {
+    throw new Error(`Account ${account} is not available on this network`);
+  }
+
+  return signer;
+};
+
+//function to format a unix timestamp as an ISO date
+export const formatTimestamp = (timestamp: BigNumber | number): string =>
+  new Date(Number(timestamp.toString()) * 1000).toISOString();
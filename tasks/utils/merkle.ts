@@ -0,0 +1,228 @@
+import fs from "fs";
+import { utils } from "ethers";
+
+// ABI types of the values hashed into a leaf, the wallet address comes first
+export const MERKLE_LEAF_ENCODINGS = {
+  erc20: ["address"],
+  // MyNFT presale: wallet and its presale limit
+  nft: ["address", "uint256"],
+};
+
+export type MerkleLeafEncoding = keyof typeof MERKLE_LEAF_ENCODINGS;
+
+export interface MerkleEntry {
+  // leaf values in the order of the encoding, the address included
+  values: string[];
+  leaf: string;
+  proof: string[];
+}
+
+export interface MerkleTree {
+  encoding: MerkleLeafEncoding;
+  types: string[];
+  root: string;
+  // entries by checksummed wallet address
+  entries: Record<string, MerkleEntry>;
+}
+
+//function to hash leaf values like the contracts:
+//keccak256(bytes.concat(keccak256(abi.encode(values))))
+export const getMerkleLeaf = (types: string[], values: string[]): string =>
+  utils.keccak256(utils.keccak256(utils.defaultAbiCoder.encode(types, values)));
+
+//function to hash two nodes in sorted order, as MerkleProof.verify does
+const hashPair = (a: string, b: string): string =>
+  utils.keccak256(
+    utils.concat(a.toLowerCase() < b.toLowerCase() ? [a, b] : [b, a])
+  );
+
+//function to check a proof against a root offline
+export const verifyMerkleProof = (
+  root: string,
+  leaf: string,
+  proof: string[]
+): boolean => proof.reduce(hashPair, leaf).toLowerCase() === root.toLowerCase();
+
+//function to read allowlist CSV lines: address[,value...] with one value per
+//encoding type after the address
+export const readMerkleCsv = (
+  file: string,
+  encoding: MerkleLeafEncoding
+): string[][] => {
+  const types = MERKLE_LEAF_ENCODINGS[encoding];
+  const errors: string[] = [];
+  const addresses = new Set<string>();
+
+  const rows = fs
+    .readFileSync(file, "utf8")
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line.length > 0 && !line.startsWith("#"))
+    .map(({ line, lineNumber }) => ({
+      cells: line.split(",").map((cell) => cell.trim()),
+      location: `line ${lineNumber}`,
+    }))
+    // skip the optional header
+    .filter(({ cells }, index) => !(index === 0 && cells[0] === "address"))
+    .map(({ cells, location }) => {
+      const [address] = cells;
+
+      if (cells.length !== types.length) {
+        errors.push(
+          `${location}: expected ${types.length} values (${types.join(", ")})`
+        );
+        return cells;
+      }
+      if (!utils.isAddress(address)) {
+        errors.push(`${location}: "${address}" is not a valid address`);
+        return cells;
+      }
+
+      try {
+        utils.defaultAbiCoder.encode(types, cells);
+      } catch (error) {
+        errors.push(`${location}: values must be ${types.join(", ")}`);
+        return cells;
+      }
+
+      const checksummed = utils.getAddress(address);
+      if (addresses.has(checksummed)) {
+        errors.push(`${location}: ${checksummed} is listed twice`);
+      }
+      addresses.add(checksummed);
+
+      return [checksummed, ...cells.slice(1)];
+    });
+
+  if (errors.length === 0 && rows.length === 0) {
+    errors.push("no wallets listed");
+  }
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid allowlist ${file}:\n${errors.map((e) => `  - ${e}`).join("\n")}`
+    );
+  }
+
+  return rows;
+};
+
+//function to build the tree of the rows, leaves are sorted and an odd node is
+//moved up to the next layer unchanged
+export const buildMerkleTree = (
+  encoding: MerkleLeafEncoding,
+  rows: string[][]
+): MerkleTree => {
+  if (rows.length === 0) throw new Error("Cannot build a tree without leaves");
+
+  const types = MERKLE_LEAF_ENCODINGS[encoding];
+  const leaves = rows
+    .map((values) => ({
+      address: utils.getAddress(values[0]),
+      values,
+      leaf: getMerkleLeaf(types, values),
+    }))
+    .sort((a, b) => (a.leaf.toLowerCase() < b.leaf.toLowerCase() ? -1 : 1));
+
+  const layers = [leaves.map(({ leaf }) => leaf)];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next: string[] = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(
+        i + 1 < layer.length ? hashPair(layer[i], layer[i + 1]) : layer[i]
+      );
+    }
+    layers.push(next);
+  }
+
+  const entries: Record<string, MerkleEntry> = {};
+  leaves.forEach(({ address, values, leaf }, index) => {
+    if (entries[address] !== undefined) {
+      throw new Error(`${address} is listed twice`);
+    }
+
+    const proof: string[] = [];
+    let position = index;
+    for (const layer of layers.slice(0, -1)) {
+      const sibling = position ^ 1;
+      if (sibling < layer.length) proof.push(layer[sibling]);
+      position = Math.floor(position / 2);
+    }
+    entries[address] = { values, leaf, proof };
+  });
+
+  return {
+    encoding,
+    types,
+    root: layers[layers.length - 1][0],
+    entries: Object.fromEntries(
+      Object.entries(entries).sort(([a], [b]) => a.localeCompare(b))
+    ),
+  };
+};
+
+//function to get the entry of a wallet, undefined when it is not in the tree
+export const getMerkleEntry = (
+  tree: MerkleTree,
+  address: string
+): MerkleEntry | undefined => tree.entries[utils.getAddress(address)];
+
+//function to check every entry of a tree, returns the problems found
+export const validateMerkleTree = (tree: MerkleTree): string[] =>
+  Object.entries(tree.entries).reduce<string[]>(
+    (errors, [address, { values, leaf, proof }]) => {
+      if (utils.getAddress(values[0]) !== address) {
+        return [...errors, `${address}: values are for ${values[0]}`];
+      }
+      if (getMerkleLeaf(tree.types, values) !== leaf) {
+        return [...errors, `${address}: leaf does not match the values`];
+      }
+      if (!verifyMerkleProof(tree.root, leaf, proof)) {
+        return [...errors, `${address}: proof does not match the root`];
+      }
+      return errors;
+    },
+    []
+  );
+
+//function to throw the invalid entries of a tree read from a file
+export const checkMerkleTree = (file: string, tree: MerkleTree) => {
+  const errors = validateMerkleTree(tree);
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid tree ${file}:\n${errors.map((e) => `  - ${e}`).join("\n")}`
+    );
+  }
+};
+
+//function to read a tree JSON file, when the encoding of the contract is given
+//the tree must use it and every proof must match the root
+export const readMerkleTree = (
+  file: string,
+  encoding?: MerkleLeafEncoding
+): MerkleTree => {
+  const tree: MerkleTree = JSON.parse(fs.readFileSync(file, "utf8"));
+
+  if (!(tree.encoding in MERKLE_LEAF_ENCODINGS)) {
+    throw new Error(`Tree ${file} has an unknown encoding "${tree.encoding}"`);
+  }
+  if (tree.types.join(",") !== MERKLE_LEAF_ENCODINGS[tree.encoding].join(",")) {
+    throw new Error(
+      `Tree ${file} types do not match the ${tree.encoding} leaves`
+    );
+  }
+
+  if (encoding === undefined) return tree;
+
+  if (tree.encoding !== encoding) {
+    throw new Error(`Tree ${file} is not an ${encoding} allowlist`);
+  }
+  checkMerkleTree(file, tree);
+
+  return tree;
+};
+
+//function to write a tree JSON file
+export const writeMerkleTree = (file: string, tree: MerkleTree) => {
+  fs.writeFileSync(file, `${JSON.stringify(tree, null, 2)}\n`);
+};
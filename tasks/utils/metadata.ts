@@ -0,0 +1,293 @@
+import fs from "fs";
+import path from "path";
+import type { CatalogAttribute, CatalogItem, CatalogMetadata } from "./catalog";
+
+export const DEFAULT_METADATA_DIR = path.join(
+  __dirname,
+  "..",
+  "..",
+  "metadata"
+);
+
+export const DEFAULT_TRAITS_PATH = path.join(
+  __dirname,
+  "..",
+  "..",
+  "config",
+  "traits.csv"
+);
+
+export const METADATA_STANDARDS = ["erc721", "erc1155"] as const;
+
+export type MetadataStandard = typeof METADATA_STANDARDS[number];
+
+// OpenSea attribute display types, all but "string" need a numeric value
+export const DISPLAY_TYPES = [
+  "number",
+  "boost_number",
+  "boost_percentage",
+  "date",
+];
+
+// traits CSV columns that are not attributes
+const TRAITS_FIELDS = ["tokenId", "name", "description", "image"];
+
+export interface TraitsRow {
+  tokenId: number;
+  name?: string;
+  description?: string;
+  image?: string;
+  attributes: CatalogAttribute[];
+}
+
+export interface NftMetadataOptions {
+  collectionName: string;
+  description: string;
+  imageBaseURI?: string;
+}
+
+//function to split CSV content into rows of cells, quoted cells can hold
+//commas, quotes ("") and line breaks
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let isQuoted = false;
+
+  for (let i = 0; i < content.length; i++) {
+    const char = content[i];
+
+    if (isQuoted) {
+      if (char === '"' && content[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        isQuoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      isQuoted = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && content[i + 1] === "\n") i++;
+      rows.push([...row, cell]);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+  rows.push([...row, cell]);
+
+  return rows.filter((cells) => cells.some((value) => value.trim() !== ""));
+};
+
+//function to read an attribute cell, numbers are kept as numbers
+const parseAttributeValue = (value: string): string | number =>
+  value !== "" && !isNaN(Number(value)) ? Number(value) : value;
+
+//function to read and validate a traits CSV: tokenId[,name][,description][,image]
+//and one column per trait, empty cells leave the trait out
+export const readTraitsCsv = (file: string): TraitsRow[] => {
+  const [header, ...lines] = parseCsvRows(fs.readFileSync(file, "utf8"));
+  const columns = (header ?? []).map((column) => column.trim());
+
+  if (!columns.includes("tokenId")) {
+    throw new Error(`Traits ${file} must have a "tokenId" column`);
+  }
+  if (lines.length === 0) throw new Error(`Traits ${file} has no tokens`);
+
+  const errors: string[] = [];
+  const ids = new Set<number>();
+
+  const rows = lines.map((cells, index): TraitsRow => {
+    const location = `row ${index + 2}`;
+    const values: Record<string, string> = {};
+    columns.forEach((column, i) => (values[column] = (cells[i] ?? "").trim()));
+
+    const tokenId = Number(values.tokenId);
+    if (!Number.isInteger(tokenId) || tokenId < 1) {
+      errors.push(`${location}: tokenId must be an integer greater than 0`);
+    } else if (ids.has(tokenId)) {
+      errors.push(`${location}: tokenId ${tokenId} is duplicated`);
+    }
+    ids.add(tokenId);
+    if (cells.length > columns.length) {
+      errors.push(`${location}: has more cells than the header`);
+    }
+
+    return {
+      tokenId,
+      name: values.name || undefined,
+      description: values.description || undefined,
+      image: values.image || undefined,
+      attributes: columns
+        .filter((column) => !TRAITS_FIELDS.includes(column))
+        .filter((column) => values[column] !== "")
+        .map((column) => ({
+          trait_type: column,
+          value: parseAttributeValue(values[column]),
+        })),
+    };
+  });
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid traits ${file}:\n${errors.map((e) => `  - ${e}`).join("\n")}`
+    );
+  }
+
+  return rows.sort((a, b) => a.tokenId - b.tokenId);
+};
+
+//function to build the MyNFT metadata of every traits row
+export const buildNftMetadata = (
+  rows: TraitsRow[],
+  { collectionName, description, imageBaseURI }: NftMetadataOptions
+): Array<[number, CatalogMetadata]> =>
+  rows.map(
+    ({ tokenId, name, description: rowDescription, image, attributes }) => [
+      tokenId,
+      {
+        name: name ?? `${collectionName} #${tokenId}`,
+        description: rowDescription ?? description,
+        image: image ?? `${imageBaseURI ?? ""}${tokenId}.png`,
+        attributes,
+      },
+    ]
+  );
+
+//function to get the metadata of every My1155Token catalog item
+export const buildCatalogMetadata = (
+  items: CatalogItem[]
+): Array<[number, CatalogMetadata]> => {
+  const missing = items.filter(({ metadata }) => metadata === undefined);
+
+  if (missing.length > 0) {
+    throw new Error(
+      `Catalog items without metadata: ${missing
+        .map(({ id }) => id)
+        .join(", ")}`
+    );
+  }
+
+  return items.map(({ id, metadata }) => [id, metadata as CatalogMetadata]);
+};
+
+//function to check a value is an absolute URI (https, ipfs, ar, data...)
+const isUri = (value: string): boolean => {
+  try {
+    return new URL(value).protocol.length > 1;
+  } catch (error) {
+    return false;
+  }
+};
+
+//function to validate token metadata against the ERC-721 or ERC-1155 metadata
+//JSON schema and the OpenSea attributes, returns the problems found
+export const validateMetadata = (
+  metadata: CatalogMetadata,
+  standard: MetadataStandard
+): string[] => {
+  const errors: string[] = [];
+  const raw = metadata as unknown as Record<string, unknown>;
+
+  for (const key of ["name", "image"]) {
+    const value = raw[key];
+    if (typeof value !== "string" || value.trim() === "") {
+      errors.push(`${key} must be a non-empty string`);
+    }
+  }
+  if (typeof raw.description !== "string") {
+    errors.push("description must be a string");
+  }
+  if (typeof raw.image === "string" && !isUri(raw.image)) {
+    errors.push(`image "${raw.image}" must be an absolute URI`);
+  }
+  if (
+    standard === "erc1155" &&
+    raw.decimals !== undefined &&
+    !(
+      typeof raw.decimals === "number" &&
+      Number.isInteger(raw.decimals) &&
+      raw.decimals >= 0
+    )
+  ) {
+    errors.push("decimals must be a non-negative integer");
+  }
+
+  if (raw.attributes === undefined) return errors;
+  if (!Array.isArray(raw.attributes)) {
+    return [...errors, "attributes must be an array"];
+  }
+
+  raw.attributes.forEach((attribute: unknown, index) => {
+    const location = `attributes[${index}]`;
+    const {
+      trait_type: traitType,
+      value,
+      display_type: displayType,
+    } = (attribute ?? {}) as Record<string, unknown>;
+
+    if (typeof traitType !== "string" || traitType === "") {
+      errors.push(`${location}.trait_type must be a non-empty string`);
+    }
+    if (typeof value !== "string" && typeof value !== "number") {
+      errors.push(`${location}.value must be a string or a number`);
+    }
+    if (displayType !== undefined) {
+      if (
+        typeof displayType !== "string" ||
+        !DISPLAY_TYPES.includes(displayType)
+      ) {
+        errors.push(
+          `${location}.display_type must be one of: ${DISPLAY_TYPES.join(", ")}`
+        );
+      } else if (typeof value !== "number") {
+        errors.push(`${location}.value must be a number for ${displayType}`);
+      }
+    }
+  });
+
+  return errors;
+};
+
+//function to get the file name the contract URI resolves to: MyNFT requests
+//baseURI + tokenId and My1155Token baseURI + id + ".json"
+export const getMetadataFileName = (
+  standard: MetadataStandard,
+  tokenId: number
+): string => (standard === "erc721" ? `${tokenId}` : `${tokenId}.json`);
+
+//function to validate all the metadata then write one file per token
+export const writeMetadataFiles = (
+  dir: string,
+  standard: MetadataStandard,
+  entries: Array<[number, CatalogMetadata]>
+): string[] => {
+  const errors: string[] = [];
+  entries.forEach(([tokenId, metadata]) =>
+    validateMetadata(metadata, standard).forEach((error) =>
+      errors.push(`token ${tokenId}: ${error}`)
+    )
+  );
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid ${standard} metadata:\n${errors
+        .map((e) => `  - ${e}`)
+        .join("\n")}`
+    );
+  }
+
+  fs.mkdirSync(dir, { recursive: true });
+
+  return entries.map(([tokenId, metadata]) => {
+    const file = path.join(dir, getMetadataFileName(standard, tokenId));
+    fs.writeFileSync(file, `${JSON.stringify(metadata, null, 2)}\n`);
+    return file;
+  });
+};
@@ -0,0 +1,273 @@
+import fs from "fs";
+import path from "path";
+import { BigNumber, utils } from "ethers";
+import type { DeployableContract } from "./deploy";
+
+export const PARAMS_DIR = path.join(__dirname, "..", "..", "config");
+
+export const MAX_FEE_PERCENTAGE = 100;
+
+export interface MyERC20Params {
+  name: string;
+  symbol: string;
+  initMintAmount: number;
+  tokenPrice: BigNumber;
+  erc20TokenPrice: BigNumber;
+  paymentToken?: string;
+  buyLimit: number;
+  isWhitelistedSale: boolean;
+  whitelist: string[];
+}
+
+export interface MyNFTParams {
+  name: string;
+  symbol: string;
+  mintPrice: BigNumber;
+  maxSupply: number;
+  limitPerUser: number;
+  isMintEnabled: boolean;
+  baseURI: string;
+}
+
+export interface My1155TokenParams {
+  baseURI: string;
+}
+
+export interface MyTokenMarketParams {
+  feePercentage: number;
+}
+
+export interface DeployParams {
+  MyERC20?: MyERC20Params;
+  MyNFT?: MyNFTParams;
+  My1155Token?: My1155TokenParams;
+  MyTokenMarket?: MyTokenMarketParams;
+}
+
+//function to get the params file path of a network
+export const getParamsPath = (network: string): string =>
+  path.join(PARAMS_DIR, `${network}.json`);
+
+type RawSection = Record<string, unknown>;
+
+class ParamsValidator {
+  errors: string[] = [];
+
+  constructor(private section: string, private raw: RawSection) {}
+
+  private fail(key: string, message: string) {
+    this.errors.push(`${this.section}.${key} ${message}`);
+  }
+
+  string(key: string): string {
+    const value = this.raw[key];
+    if (typeof value !== "string" || value.length === 0) {
+      this.fail(key, "must be a non-empty string");
+      return "";
+    }
+    return value;
+  }
+
+  boolean(key: string): boolean {
+    const value = this.raw[key];
+    if (typeof value !== "boolean") {
+      this.fail(key, "must be a boolean");
+      return false;
+    }
+    return value;
+  }
+
+  integer(key: string, min = 1, max = Number.MAX_SAFE_INTEGER): number {
+    const value = this.raw[key];
+    if (
+      typeof value !== "number" ||
+      !Number.isInteger(value) ||
+      value < min ||
+      value > max
+    ) {
+      this.fail(key, `must be an integer between ${min} and ${max}`);
+      return 0;
+    }
+    return value;
+  }
+
+  // prices are written in ETH, e.g. "0.5"
+  price(key: string): BigNumber {
+    const value = this.raw[key];
+    try {
+      const price = utils.parseEther(String(value));
+      if (price.gt(0)) return price;
+    } catch (error) {
+      // reported below
+    }
+    this.fail(key, "must be an ETH amount greater than 0");
+    return BigNumber.from(0);
+  }
+
+  address(key: string, optional = false): string | undefined {
+    const value = this.raw[key];
+    if (optional && (value === undefined || value === null)) return undefined;
+    if (typeof value !== "string" || !utils.isAddress(value)) {
+      this.fail(key, "must be a valid address");
+      return undefined;
+    }
+    return utils.getAddress(value);
+  }
+
+  addresses(key: string): string[] {
+    const value = this.raw[key] ?? [];
+    if (!Array.isArray(value)) {
+      this.fail(key, "must be an array of addresses");
+      return [];
+    }
+    return value.filter((address, index) => {
+      if (typeof address !== "string" || !utils.isAddress(address)) {
+        this.fail(`${key}[${index}]`, `"${address}" is not a valid address`);
+        return false;
+      }
+      return true;
+    });
+  }
+
+  check(condition: boolean, key: string, message: string) {
+    if (!condition) this.fail(key, message);
+  }
+}
+
+const parseMyERC20 = (v: ParamsValidator): MyERC20Params => {
+  const isWhitelistedSale = v.boolean("isWhitelistedSale");
+  const whitelist = v.addresses("whitelist");
+
+  v.check(
+    !isWhitelistedSale || whitelist.length > 0,
+    "whitelist",
+    "must not be empty when isWhitelistedSale is true"
+  );
+  v.check(
+    isWhitelistedSale || whitelist.length === 0,
+    "whitelist",
+    "must be empty when isWhitelistedSale is false"
+  );
+
+  return {
+    name: v.string("name"),
+    symbol: v.string("symbol"),
+    initMintAmount: v.integer("initMintAmount"),
+    tokenPrice: v.price("tokenPrice"),
+    erc20TokenPrice: v.price("erc20TokenPrice"),
+    paymentToken: v.address("paymentToken", true),
+    buyLimit: v.integer("buyLimit"),
+    isWhitelistedSale,
+    whitelist: whitelist.map((address) => utils.getAddress(address)),
+  };
+};
+
+const parseMyNFT = (v: ParamsValidator): MyNFTParams => {
+  const maxSupply = v.integer("maxSupply");
+  const limitPerUser = v.integer("limitPerUser");
+
+  v.check(
+    limitPerUser <= maxSupply,
+    "limitPerUser",
+    "must not be greater than maxSupply"
+  );
+
+  return {
+    name: v.string("name"),
+    symbol: v.string("symbol"),
+    mintPrice: v.price("mintPrice"),
+    maxSupply,
+    limitPerUser,
+    isMintEnabled: v.boolean("isMintEnabled"),
+    baseURI: v.string("baseURI"),
+  };
+};
+
+const parseMy1155Token = (v: ParamsValidator): My1155TokenParams => ({
+  baseURI: v.string("baseURI"),
+});
+
+const parseMyTokenMarket = (v: ParamsValidator): MyTokenMarketParams => ({
+  feePercentage: v.integer("feePercentage", 1, MAX_FEE_PERCENTAGE),
+});
+
+type ParamsParsers = {
+  [K in DeployableContract]: (
+    v: ParamsValidator
+  ) => NonNullable<DeployParams[K]>;
+};
+
+const parsers: ParamsParsers = {
+  MyERC20: parseMyERC20,
+  MyNFT: parseMyNFT,
+  My1155Token: parseMy1155Token,
+  MyTokenMarket: parseMyTokenMarket,
+};
+
+//function to parse the section of a contract into its params
+const parseSection = <K extends DeployableContract>(
+  params: DeployParams,
+  contractName: K,
+  validator: ParamsValidator
+) => {
+  params[contractName] = parsers[contractName](validator);
+};
+
+//function to validate raw params of the given contracts, throws listing every problem
+export const validateDeployParams = (
+  raw: Record<string, unknown>,
+  contractNames: readonly DeployableContract[]
+): DeployParams => {
+  const params: DeployParams = {};
+  const errors: string[] = [];
+
+  for (const contractName of contractNames) {
+    const section = raw[contractName];
+
+    if (typeof section !== "object" || section === null) {
+      errors.push(`${contractName} params are missing`);
+      continue;
+    }
+
+    const validator = new ParamsValidator(contractName, section as RawSection);
+    parseSection(params, contractName, validator);
+    errors.push(...validator.errors);
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid deploy params:\n${errors.map((e) => `  - ${e}`).join("\n")}`
+    );
+  }
+
+  return params;
+};
+
+//function to load and validate the deploy params file
+export const loadDeployParams = (
+  paramsPath: string,
+  contractNames: readonly DeployableContract[]
+): DeployParams => {
+  if (!fs.existsSync(paramsPath)) {
+    throw new Error(`Deploy params file not found: ${paramsPath}`);
+  }
+
+  return validateDeployParams(
+    JSON.parse(fs.readFileSync(paramsPath, "utf8")),
+    contractNames
+  );
+};
+
+//function to get the validated params of a contract
+export const getContractParams = <K extends DeployableContract>(
+  params: DeployParams,
+  contractName: K
+): NonNullable<DeployParams[K]> => {
+  const section = params[contractName];
+
+  if (section === undefined) {
+    throw new Error(`${contractName} params are missing`);
+  }
+
+  return section as NonNullable<DeployParams[K]>;
+};
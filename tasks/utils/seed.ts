@@ -0,0 +1,65 @@
+import path from "path";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import { DEPLOYMENTS_DIR } from "./manifest";
+
+// chain id of the hardhat network and of "hardhat node"
+export const DEVNET_CHAIN_ID = 31337;
+
+// signer index and description of every named devnet account
+export const SEED_ROLES = {
+  owner: {
+    index: 0,
+    description: "Deployer, owner of all the contracts and market fee account",
+  },
+  seller: {
+    index: 1,
+    description: "Holds ERC20MockToken and created the market offers",
+  },
+  buyer: {
+    index: 2,
+    description: "Whitelisted, bought from the active offer and an 1155 item",
+  },
+  collector: {
+    index: 3,
+    description: "Whitelisted, holds MyNFT tokens and 1155 items",
+  },
+  guest: {
+    index: 4,
+    description: "Funded only, not whitelisted and without tokens",
+  },
+} as const;
+
+export type SeedRole = keyof typeof SEED_ROLES;
+
+export interface SeedAccount {
+  address: string;
+  description: string;
+}
+
+export interface DevnetSeed {
+  network: string;
+  chainId: number;
+  contracts: Record<string, string>;
+  accounts: Record<string, SeedAccount>;
+  nfts: Record<string, number[]>;
+  items: Record<string, Record<string, number>>;
+  offers: { active: number[]; inactive: number[]; expired: number[] };
+}
+
+//function to get the default path of the seed summary of a network
+export const getSeedPath = (network: string): string =>
+  path.join(DEPLOYMENTS_DIR, `${network}.seed.json`);
+
+//function to make sure the seed is never sent to a public network
+export const assertDevnet = async (
+  hre: HardhatRuntimeEnvironment,
+  action = "devnet:seed"
+) => {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+
+  if (chainId !== DEVNET_CHAIN_ID) {
+    throw new Error(
+      `${action} only runs on a local hardhat node, ${hre.network.name} has chain id ${chainId}`
+    );
+  }
+};
@@ -0,0 +1,122 @@
+import fs from "fs";
+import path from "path";
+import type { IncomingMessage, ServerResponse } from "http";
+
+export const DEFAULT_SERVER_PORT = 8080;
+
+export const IMAGE_CONTENT_TYPES: Record<string, string> = {
+  ".gif": "image/gif",
+  ".jpeg": "image/jpeg",
+  ".jpg": "image/jpeg",
+  ".png": "image/png",
+  ".svg": "image/svg+xml",
+  ".webp": "image/webp",
+};
+
+// MyNFT requests baseURI + tokenId, My1155Token baseURI + id + ".json"
+export const METADATA_ROUTES = {
+  nft: /^\/nft\/(\d+)$/,
+  items: /^\/items\/(\d+)\.json$/,
+  // image names cannot start with a dot, so ".." never leaves the images dir
+  images: /^\/images\/(\w[\w.-]*)$/,
+};
+
+export type MetadataRoute = keyof typeof METADATA_ROUTES;
+
+export interface MetadataRequest {
+  route: MetadataRoute;
+  // token id for nft and items, file name for images
+  name: string;
+}
+
+export interface MetadataServerOptions {
+  dirs: Record<MetadataRoute, string>;
+  // resolves false when the token does not exist on chain
+  tokenExists?: (route: "nft" | "items", tokenId: string) => Promise<boolean>;
+  log?: (line: string) => void;
+}
+
+//function to match a request path with a metadata route
+export const parseMetadataRequest = (
+  url: string
+): MetadataRequest | undefined => {
+  const pathname = url.split("?")[0];
+
+  for (const route of Object.keys(METADATA_ROUTES) as MetadataRoute[]) {
+    const match = METADATA_ROUTES[route].exec(pathname);
+    if (match !== null) return { route, name: match[1] };
+  }
+};
+
+//function to get the base URIs to set on the contracts for a server URL
+export const getServerBaseURIs = (serverUrl: string) => ({
+  MyNFT: `${serverUrl}/nft/`,
+  My1155Token: `${serverUrl}/items/`,
+  images: `${serverUrl}/images/`,
+});
+
+//function to send a JSON error response
+const sendError = (response: ServerResponse, status: number, error: string) => {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify({ error }));
+};
+
+//function to create the request handler serving the generated metadata and images
+export const createMetadataHandler =
+  ({ dirs, tokenExists, log = console.log }: MetadataServerOptions) =>
+  async (request: IncomingMessage, response: ServerResponse) => {
+    const url = request.url ?? "/";
+    const parsed = parseMetadataRequest(url);
+    response.setHeader("Access-Control-Allow-Origin", "*");
+
+    const finish = (status: number) =>
+      log(`${request.method} ${url} ${status}`);
+
+    if (request.method !== "GET" && request.method !== "HEAD") {
+      sendError(response, 405, "Method not allowed");
+      return finish(405);
+    }
+    if (parsed === undefined) {
+      sendError(response, 404, "Not found");
+      return finish(404);
+    }
+
+    const { route, name } = parsed;
+    try {
+      if (
+        route !== "images" &&
+        tokenExists !== undefined &&
+        !(await tokenExists(route, name))
+      ) {
+        sendError(response, 404, `Token ${name} does not exist`);
+        return finish(404);
+      }
+    } catch (error) {
+      sendError(response, 502, "Cannot read the token from the chain");
+      return finish(502);
+    }
+
+    const fileName = route === "items" ? `${name}.json` : name;
+    const filePath = path.join(dirs[route], fileName);
+    const contentType =
+      route === "images"
+        ? IMAGE_CONTENT_TYPES[path.extname(name).toLowerCase()]
+        : "application/json";
+
+    if (
+      contentType === undefined ||
+      !fs.existsSync(filePath) ||
+      !fs.statSync(filePath).isFile()
+    ) {
+      sendError(response, 404, `No ${route} file ${fileName}`);
+      return finish(404);
+    }
+
+    response.writeHead(200, { "Content-Type": contentType });
+    if (request.method === "HEAD") {
+      response.end();
+    } else {
+      fs.createReadStream(filePath).pipe(response);
+    }
+    finish(200);
+  };
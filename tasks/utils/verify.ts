@@ -0,0 +1,53 @@
+import { BigNumber, utils } from "ethers";
+
+export interface StateCheck {
+  getter: string;
+  expected: unknown;
+  actual: unknown;
+}
+
+//function to build a getter check
+export const stateCheck = (
+  getter: string,
+  expected: unknown,
+  actual: unknown
+): StateCheck => ({ getter, expected, actual });
+
+//function to normalize values returned by getters before comparing them
+export const normalizeValue = (value: unknown): string => {
+  if (BigNumber.isBigNumber(value)) return value.toString();
+  if (typeof value === "string" && utils.isAddress(value)) {
+    return utils.getAddress(value);
+  }
+  return String(value);
+};
+
+//function to check if a getter returned the expected value
+export const isCheckPassed = ({ expected, actual }: StateCheck): boolean =>
+  normalizeValue(expected) === normalizeValue(actual);
+
+//function to print the checks of a contract, returns the number of failed ones
+export const printStateChecks = (
+  contractName: string,
+  address: string,
+  checks: StateCheck[]
+): number => {
+  let failed = 0;
+
+  console.log(`\n${contractName} (${address})`);
+
+  for (const check of checks) {
+    if (isCheckPassed(check)) {
+      console.log(`  ✔ ${check.getter}: ${normalizeValue(check.actual)}`);
+    } else {
+      failed++;
+      console.log(
+        `  ✘ ${check.getter}: expected ${normalizeValue(
+          check.expected
+        )}, actual ${normalizeValue(check.actual)}`
+      );
+    }
+  }
+
+  return failed;
+};
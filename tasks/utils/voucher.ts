@@ -0,0 +1,252 @@
+import crypto from "crypto";
+import { BigNumber, BigNumberish, Wallet, utils } from "ethers";
+import type { IncomingMessage, ServerResponse } from "http";
+
+export const DEFAULT_VOUCHER_PORT = 8090;
+
+// EIP-712 version of the MyNFT domain, the name is the token name
+export const VOUCHER_DOMAIN_VERSION = "1";
+
+// must match MINT_VOUCHER_TYPEHASH of MyNFT
+export const MINT_VOUCHER_TYPES = {
+  MintVoucher: [
+    { name: "recipient", type: "address" },
+    { name: "quantity", type: "uint256" },
+    { name: "price", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+  ],
+};
+
+// EIP-712 domain, ethers does not export its type from the root package
+export type VoucherDomain = Parameters<typeof utils.verifyTypedData>[0];
+
+export interface MintVoucher {
+  recipient: string;
+  quantity: BigNumberish;
+  price: BigNumberish;
+  // unix timestamp in seconds
+  expiry: BigNumberish;
+  nonce: BigNumberish;
+}
+
+export interface SignedMintVoucher {
+  // numbers as decimal strings, ready to be sent as JSON
+  voucher: Record<keyof MintVoucher, string>;
+  signature: string;
+}
+
+// a signer able to sign typed data, like a Wallet or a hardhat signer
+export interface VoucherSigner {
+  getAddress: () => Promise<string>;
+  _signTypedData: Wallet["_signTypedData"];
+}
+
+export interface VoucherServiceOptions {
+  signer: VoucherSigner;
+  domain: VoucherDomain;
+  // price of one token in wei
+  unitPrice: BigNumberish;
+  // seconds a voucher stays valid
+  validity: number;
+  // tokens signed to a recipient over all its vouchers, counted in memory
+  // since the service started
+  maxQuantity: number;
+  // checksummed wallets allowed to request vouchers
+  allowlist: Set<string>;
+  // origin allowed to call the service from a browser, none by default
+  corsOrigin?: string;
+  // current unix timestamp of the chain, the wall clock by default
+  getTimestamp?: () => Promise<number>;
+  log?: (line: string) => void;
+}
+
+// largest body accepted by the signing service
+const MAX_REQUEST_SIZE = 1024;
+
+//function to get the EIP-712 domain of a MyNFT deployment
+export const getVoucherDomain = (
+  name: string,
+  chainId: number,
+  verifyingContract: string
+): VoucherDomain => ({
+  name,
+  version: VOUCHER_DOMAIN_VERSION,
+  chainId,
+  verifyingContract,
+});
+
+//function to get a random 256 bits nonce, so vouchers need no shared counter
+export const createVoucherNonce = (): string =>
+  BigNumber.from(crypto.randomBytes(32)).toString();
+
+//function to convert the voucher numbers to decimal strings
+const normalizeVoucher = (
+  voucher: MintVoucher
+): Record<keyof MintVoucher, string> => ({
+  recipient: utils.getAddress(voucher.recipient),
+  quantity: BigNumber.from(voucher.quantity).toString(),
+  price: BigNumber.from(voucher.price).toString(),
+  expiry: BigNumber.from(voucher.expiry).toString(),
+  nonce: BigNumber.from(voucher.nonce).toString(),
+});
+
+//function to sign a voucher with the EIP-712 typed data of MyNFT
+export const signMintVoucher = async (
+  signer: VoucherSigner,
+  domain: VoucherDomain,
+  voucher: MintVoucher
+): Promise<SignedMintVoucher> => {
+  const normalized = normalizeVoucher(voucher);
+
+  return {
+    voucher: normalized,
+    signature: await signer._signTypedData(
+      domain,
+      MINT_VOUCHER_TYPES,
+      normalized
+    ),
+  };
+};
+
+//function to recover the address that signed a voucher offline
+export const recoverVoucherSigner = (
+  domain: VoucherDomain,
+  voucher: MintVoucher,
+  signature: string
+): string =>
+  utils.verifyTypedData(
+    domain,
+    MINT_VOUCHER_TYPES,
+    normalizeVoucher(voucher),
+    signature
+  );
+
+//function to send a JSON response
+const sendJson = (response: ServerResponse, status: number, body: unknown) => {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(JSON.stringify(body));
+};
+
+//function to read a small JSON request body
+const readJsonBody = (request: IncomingMessage): Promise<unknown> =>
+  new Promise((resolve, reject) => {
+    let body = "";
+    let isTooLarge = false;
+    request.on("data", (chunk) => {
+      // the rest of a too large body is drained, so the 400 reaches the client
+      if (isTooLarge) return;
+      body += chunk;
+      if (body.length > MAX_REQUEST_SIZE) {
+        isTooLarge = true;
+        reject(new Error("Request body is too large"));
+      }
+    });
+    request.on("end", () => {
+      try {
+        resolve(JSON.parse(body));
+      } catch (error) {
+        reject(new Error("Request body must be JSON"));
+      }
+    });
+    request.on("error", reject);
+  });
+
+//function to create the request handler of the signing service:
+//POST /vouchers {"recipient", "quantity"} returns a SignedMintVoucher
+export const createVoucherHandler = ({
+  signer,
+  domain,
+  unitPrice,
+  validity,
+  maxQuantity,
+  allowlist,
+  corsOrigin,
+  getTimestamp = async () => Math.floor(Date.now() / 1000),
+  log = console.log,
+}: VoucherServiceOptions) => {
+  // tokens signed to each recipient, MyNFT does not count redeemed vouchers
+  // against limitPerUser so the service enforces its own limit
+  const signedQuantities = new Map<string, number>();
+
+  return async (request: IncomingMessage, response: ServerResponse) => {
+    const url = request.url ?? "/";
+    const finish = (status: number, detail = "") =>
+      log(`${request.method} ${url} ${status}${detail}`);
+    if (corsOrigin !== undefined) {
+      response.setHeader("Access-Control-Allow-Origin", corsOrigin);
+    }
+
+    if (url.split("?")[0] !== "/vouchers") {
+      sendJson(response, 404, { error: "Not found" });
+      return finish(404);
+    }
+    if (request.method !== "POST") {
+      sendJson(response, 405, { error: "Method not allowed" });
+      return finish(405);
+    }
+
+    let body: { recipient?: unknown; quantity?: unknown };
+    try {
+      body = ((await readJsonBody(request)) ?? {}) as typeof body;
+    } catch (error) {
+      sendJson(response, 400, { error: (error as Error).message });
+      return finish(400);
+    }
+
+    const { recipient, quantity = 1 } = body;
+    if (typeof recipient !== "string" || !utils.isAddress(recipient)) {
+      sendJson(response, 400, { error: "recipient must be an address" });
+      return finish(400);
+    }
+    if (
+      typeof quantity !== "number" ||
+      !Number.isInteger(quantity) ||
+      quantity < 1 ||
+      quantity > maxQuantity
+    ) {
+      sendJson(response, 400, {
+        error: `quantity must be an integer from 1 to ${maxQuantity}`,
+      });
+      return finish(400);
+    }
+    const wallet = utils.getAddress(recipient);
+    if (!allowlist.has(wallet)) {
+      sendJson(response, 403, { error: `${wallet} is not allowlisted` });
+      return finish(403);
+    }
+    const signedQuantity = signedQuantities.get(wallet) ?? 0;
+    if (signedQuantity + quantity > maxQuantity) {
+      sendJson(response, 403, {
+        error: `${wallet} can get ${
+          maxQuantity - signedQuantity
+        } more tokens, limit is ${maxQuantity}`,
+      });
+      return finish(403);
+    }
+    // reserved before signing, so concurrent requests cannot exceed the limit
+    signedQuantities.set(wallet, signedQuantity + quantity);
+
+    let signed: SignedMintVoucher;
+    try {
+      signed = await signMintVoucher(signer, domain, {
+        recipient,
+        quantity,
+        price: BigNumber.from(unitPrice).mul(quantity),
+        expiry: (await getTimestamp()) + validity,
+        nonce: createVoucherNonce(),
+      });
+    } catch (error) {
+      // the reservation is released for a voucher that was not signed
+      signedQuantities.set(
+        wallet,
+        (signedQuantities.get(wallet) ?? 0) - quantity
+      );
+      sendJson(response, 500, { error: "Cannot sign the voucher" });
+      return finish(500, ` ${(error as Error).message}`);
+    }
+
+    sendJson(response, 200, signed);
+    finish(200, ` ${signed.voucher.recipient} x${quantity}`);
+  };
+};
@@ -0,0 +1,104 @@
+import fs from "fs";
+import path from "path";
+import { utils } from "ethers";
+
+export interface WalletEntry {
+  address: string;
+  whitelisted: boolean;
+}
+
+// raw address, raw whitelisted status and the row location for errors
+type WalletRow = [unknown, unknown, string];
+
+//function to parse the whitelisted column, wallets are whitelisted by default
+const parseWhitelisted = (value: unknown, location: string): boolean => {
+  if (value === undefined || value === "") return true;
+  if (typeof value === "boolean") return value;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  throw new Error(`${location}: whitelisted must be true or false`);
+};
+
+//function to read wallets from CSV lines: address[,whitelisted]
+const parseCsv = (content: string): WalletRow[] =>
+  content
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: line.trim(), lineNumber: index + 1 }))
+    .filter(({ line }) => line.length > 0 && !line.startsWith("#"))
+    .map(({ line, lineNumber }): WalletRow => {
+      const [address, whitelisted] = line.split(",").map((cell) => cell.trim());
+      return [address, whitelisted?.toLowerCase(), `line ${lineNumber}`];
+    })
+    // skip the optional header
+    .filter(([address], index) => !(index === 0 && address === "address"));
+
+//function to read wallets from JSON: an array of addresses or of entries
+const parseJson = (content: string): WalletRow[] => {
+  const list = JSON.parse(content);
+  if (!Array.isArray(list)) throw new Error("JSON list must be an array");
+
+  return list.map(
+    (item, index): WalletRow =>
+      typeof item === "object" && item !== null
+        ? [item.address, item.whitelisted, `item ${index}`]
+        : [item, undefined, `item ${index}`]
+  );
+};
+
+//function to read a CSV or JSON wallet list, addresses are checksummed and deduped
+export const readWalletList = (file: string): WalletEntry[] => {
+  const content = fs.readFileSync(file, "utf8");
+  const rows =
+    path.extname(file).toLowerCase() === ".json"
+      ? parseJson(content)
+      : parseCsv(content);
+
+  const errors: string[] = [];
+  const entries = new Map<string, WalletEntry>();
+
+  for (const [address, whitelisted, location] of rows) {
+    if (typeof address !== "string" || !utils.isAddress(address)) {
+      errors.push(`${location}: "${address}" is not a valid address`);
+      continue;
+    }
+
+    try {
+      const entry = {
+        address: utils.getAddress(address),
+        whitelisted: parseWhitelisted(whitelisted, location),
+      };
+      const duplicate = entries.get(entry.address);
+
+      if (
+        duplicate !== undefined &&
+        duplicate.whitelisted !== entry.whitelisted
+      ) {
+        errors.push(
+          `${location}: ${entry.address} is listed twice with different status`
+        );
+      }
+      entries.set(entry.address, entry);
+    } catch (error) {
+      errors.push((error as Error).message);
+    }
+  }
+
+  if (errors.length > 0) {
+    throw new Error(
+      `Invalid wallet list ${file}:\n${errors
+        .map((e) => `  - ${e}`)
+        .join("\n")}`
+    );
+  }
+
+  return [...entries.values()];
+};
+
+//function to split a list into chunks of the given size
+export const chunk = <T>(items: T[], size: number): T[][] => {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    chunks.push(items.slice(i, i + size));
+  }
+  return chunks;
+};
@@ -0,0 +1,210 @@
+import { task } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { My1155Token } from "../typechain-types/contracts/erc1155";
+import type { MyTokenMarket } from "../typechain-types/contracts/marketplace";
+import type { MyNFT } from "../typechain-types/contracts/nft";
+import type { MyERC20 } from "../typechain-types/contracts/tokens";
+import {
+  DEPLOYABLE_CONTRACTS,
+  DeployableContract,
+  DeploymentManifest,
+  StateCheck,
+  stateCheck,
+  getContractParams,
+  getDeployedContract,
+  getParamsPath,
+  loadDeployParams,
+  parseContractNames,
+  printStateChecks,
+  readManifest,
+} from "./utils";
+
+//function to get the sender of the deploy transaction, the expected initial owner
+const getDeployer = async (
+  hre: HardhatRuntimeEnvironment,
+  manifest: DeploymentManifest,
+  contractName: string
+): Promise<string> => {
+  const { transactionHash } = manifest.contracts[contractName];
+  const transaction = await hre.ethers.provider.getTransaction(transactionHash);
+
+  return transaction.from;
+};
+
+task(
+  "verify-state",
+  "Compares the deployed contracts state with the deploy params"
+)
+  .addOptionalParam(
+    "contracts",
+    "Comma separated list of contracts to verify, defaults to all deployed ones"
+  )
+  .addOptionalParam(
+    "params",
+    "Path to the deploy params file, defaults to config/<network>.json"
+  )
+  .addOptionalParam(
+    "owner",
+    "Expected owner of the contracts, defaults to the deployer"
+  )
+  .setAction(async ({ contracts, params: paramsPath, owner }, hre) => {
+    const { network } = hre;
+    const manifest = readManifest(network.name);
+
+    const contractNames: DeployableContract[] =
+      contracts !== undefined
+        ? parseContractNames(contracts)
+        : DEPLOYABLE_CONTRACTS.filter((name) => name in manifest.contracts);
+
+    if (contractNames.length === 0) {
+      throw new Error(`No contracts deployed on ${network.name}`);
+    }
+    const missing = contractNames.filter(
+      (name) => !(name in manifest.contracts)
+    );
+    if (missing.length > 0) {
+      throw new Error(
+        `${missing.join(", ")} not deployed on ${
+          network.name
+        }, run "hardhat deploy --network ${network.name}" first`
+      );
+    }
+
+    const params = loadDeployParams(
+      paramsPath ?? getParamsPath(network.name),
+      contractNames
+    );
+
+    let failed = 0;
+
+    for (const contractName of contractNames) {
+      const deployer = await getDeployer(hre, manifest, contractName);
+      const expectedOwner = owner ?? deployer;
+      let checks: StateCheck[] = [];
+
+      switch (contractName) {
+        case "MyERC20": {
+          const expected = getContractParams(params, contractName);
+          const Token = await getDeployedContract<MyERC20>(hre, contractName);
+          const paymentToken =
+            expected.paymentToken ?? manifest.contracts.ERC20MockToken?.address;
+
+          checks = [
+            stateCheck("owner", expectedOwner, await Token.owner()),
+            stateCheck("name", expected.name, await Token.name()),
+            stateCheck("symbol", expected.symbol, await Token.symbol()),
+            stateCheck(
+              "TOKEN_PRICE",
+              expected.tokenPrice,
+              await Token.TOKEN_PRICE()
+            ),
+            stateCheck(
+              "ERC_20_PAYMENT_TOKEN_PRICE",
+              expected.erc20TokenPrice,
+              await Token.ERC_20_PAYMENT_TOKEN_PRICE()
+            ),
+            stateCheck(
+              "PAYMENT_TOKEN",
+              paymentToken,
+              await Token.PAYMENT_TOKEN()
+            ),
+            stateCheck("BUY_LIMIT", expected.buyLimit, await Token.BUY_LIMIT()),
+            stateCheck(
+              "isWhitelistedSale",
+              expected.isWhitelistedSale,
+              await Token.isWhitelistedSale()
+            ),
+          ];
+
+          for (const wallet of expected.whitelist) {
+            checks.push(
+              stateCheck(
+                `isWhitelisted(${wallet})`,
+                true,
+                await Token.isWhitelisted(wallet)
+              )
+            );
+          }
+          break;
+        }
+        case "MyNFT": {
+          const expected = getContractParams(params, contractName);
+          const Token = await getDeployedContract<MyNFT>(hre, contractName);
+
+          checks = [
+            stateCheck("owner", expectedOwner, await Token.owner()),
+            stateCheck("name", expected.name, await Token.name()),
+            stateCheck("symbol", expected.symbol, await Token.symbol()),
+            stateCheck(
+              "mintPrice",
+              expected.mintPrice,
+              await Token.mintPrice()
+            ),
+            stateCheck(
+              "maxSupply",
+              expected.maxSupply,
+              await Token.maxSupply()
+            ),
+            stateCheck(
+              "limitPerUser",
+              expected.limitPerUser,
+              await Token.limitPerUser()
+            ),
+            stateCheck(
+              "isMintEnabled",
+              expected.isMintEnabled,
+              await Token.isMintEnabled()
+            ),
+            stateCheck("baseURI", expected.baseURI, await Token.baseURI()),
+          ];
+          break;
+        }
+        case "My1155Token": {
+          const expected = getContractParams(params, contractName);
+          const Token = await getDeployedContract<My1155Token>(
+            hre,
+            contractName
+          );
+
+          checks = [
+            stateCheck("owner", expectedOwner, await Token.owner()),
+            stateCheck("baseURI", expected.baseURI, await Token.baseURI()),
+          ];
+          break;
+        }
+        case "MyTokenMarket": {
+          const expected = getContractParams(params, contractName);
+          const MarketPlace = await getDeployedContract<MyTokenMarket>(
+            hre,
+            contractName
+          );
+
+          checks = [
+            stateCheck("owner", expectedOwner, await MarketPlace.owner()),
+            stateCheck(
+              "feePercentage",
+              expected.feePercentage,
+              await MarketPlace.feePercentage()
+            ),
+            // the constructor sets the fee account to the deployer, it does
+            // not follow an ownership transfer
+            stateCheck("feeAccount", deployer, await MarketPlace.feeAccount()),
+          ];
+          break;
+        }
+      }
+
+      failed += printStateChecks(
+        contractName,
+        manifest.contracts[contractName].address,
+        checks
+      );
+    }
+
+    if (failed > 0) {
+      console.log(`\n${failed} state check(s) failed`);
+      process.exitCode = 1;
+    } else {
+      console.log("\nAll state checks passed");
+    }
+  });
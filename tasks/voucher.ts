@@ -0,0 +1,181 @@
+import fs from "fs";
+import http from "http";
+import { task, types } from "hardhat/config";
+import type { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { MyNFT } from "../typechain-types/contracts/nft";
+import {
+  DEFAULT_VOUCHER_PORT,
+  VoucherSigner,
+  createVoucherHandler,
+  createVoucherNonce,
+  getDeployedContract,
+  getVoucherDomain,
+  readWalletList,
+  signMintVoucher,
+} from "./utils";
+
+// seconds a voucher stays valid by default
+const DEFAULT_VOUCHER_VALIDITY = 3600;
+
+//function to get the voucher signer: VOUCHER_SIGNER_KEY when set, otherwise
+//the first account of the network
+const getVoucherSigner = async (
+  hre: HardhatRuntimeEnvironment
+): Promise<VoucherSigner> => {
+  const key = process.env.VOUCHER_SIGNER_KEY;
+  if (key !== undefined && key !== "") {
+    return new hre.ethers.Wallet(key, hre.ethers.provider);
+  }
+
+  const [signer] = await hre.ethers.getSigners();
+  return signer;
+};
+
+//function to get MyNFT, its EIP-712 domain and the signer, warning when the
+//signer is not the voucher signer of the contract
+const getVoucherContext = async (hre: HardhatRuntimeEnvironment) => {
+  const Token = await getDeployedContract<MyNFT>(hre, "MyNFT");
+  const signer = await getVoucherSigner(hre);
+  const [name, { chainId }, signerAddress, voucherSigner] = await Promise.all([
+    Token.name(),
+    hre.ethers.provider.getNetwork(),
+    signer.getAddress(),
+    Token.voucherSigner(),
+  ]);
+
+  if (signerAddress !== voucherSigner) {
+    console.log(
+      `Warning: ${signerAddress} is not the MyNFT voucher signer (${voucherSigner}), run "nft:set-voucher-signer"`
+    );
+  }
+
+  return {
+    Token,
+    signer,
+    signerAddress,
+    domain: getVoucherDomain(name, chainId, Token.address),
+  };
+};
+
+task("voucher:sign", "Signs a MyNFT mint voucher")
+  .addPositionalParam("recipient", "Address receiving the tokens")
+  .addOptionalPositionalParam("quantity", "Tokens to mint", 1, types.int)
+  .addOptionalParam(
+    "price",
+    "Total price in ETH, defaults to the mint price times the quantity"
+  )
+  .addOptionalParam(
+    "validity",
+    "Seconds the voucher stays valid",
+    DEFAULT_VOUCHER_VALIDITY,
+    types.int
+  )
+  .addOptionalParam("nonce", "Voucher nonce, random by default")
+  .addOptionalParam("output", "Path to save the signed voucher JSON")
+  .setAction(async (taskArgs, hre) => {
+    const { recipient, quantity, validity, output } = taskArgs;
+    const { Token, signer, domain } = await getVoucherContext(hre);
+    const { timestamp } = await hre.ethers.provider.getBlock("latest");
+
+    if (quantity < 1) throw new Error("Quantity must be greater than 0");
+
+    const signed = await signMintVoucher(signer, domain, {
+      recipient,
+      quantity,
+      price:
+        taskArgs.price === undefined
+          ? (await Token.mintPrice()).mul(quantity)
+          : hre.ethers.utils.parseEther(taskArgs.price),
+      expiry: timestamp + validity,
+      nonce: taskArgs.nonce ?? createVoucherNonce(),
+    });
+
+    const json = `${JSON.stringify(signed, null, 2)}\n`;
+    if (output !== undefined) {
+      fs.writeFileSync(output, json);
+      console.log(`Voucher saved to ${output}`);
+    } else {
+      console.log(json);
+    }
+  });
+
+task("voucher:serve", "Runs a local service signing MyNFT mint vouchers")
+  .addOptionalParam(
+    "port",
+    "Port to listen on",
+    DEFAULT_VOUCHER_PORT,
+    types.int
+  )
+  .addOptionalParam("host", "Host to listen on", "127.0.0.1")
+  .addOptionalParam(
+    "price",
+    "Price of one token in ETH, defaults to the mint price"
+  )
+  .addOptionalParam(
+    "validity",
+    "Seconds a voucher stays valid",
+    DEFAULT_VOUCHER_VALIDITY,
+    types.int
+  )
+  .addOptionalParam(
+    "maxQuantity",
+    "Max tokens signed to a wallet, defaults to the limit per user",
+    undefined,
+    types.int
+  )
+  .addParam("allowlist", "CSV or JSON wallet list allowed to request vouchers")
+  .addOptionalParam(
+    "corsOrigin",
+    "Origin allowed to request vouchers from a browser"
+  )
+  .setAction(async (taskArgs, hre) => {
+    const { port, host, validity, corsOrigin } = taskArgs;
+    const { Token, signer, signerAddress, domain } = await getVoucherContext(
+      hre
+    );
+    const unitPrice =
+      taskArgs.price === undefined
+        ? await Token.mintPrice()
+        : hre.ethers.utils.parseEther(taskArgs.price);
+    const maxQuantity =
+      taskArgs.maxQuantity ?? (await Token.limitPerUser()).toNumber();
+    const allowlist = new Set(
+      readWalletList(taskArgs.allowlist)
+        .filter(({ whitelisted }) => whitelisted)
+        .map(({ address }) => address)
+    );
+    if (allowlist.size === 0) throw new Error("The allowlist has no wallets");
+
+    const server = http.createServer(
+      createVoucherHandler({
+        signer,
+        domain,
+        unitPrice,
+        validity,
+        maxQuantity,
+        allowlist,
+        corsOrigin,
+        // vouchers expire against the chain time, which devnets can move
+        getTimestamp: async () =>
+          (await hre.ethers.provider.getBlock("latest")).timestamp,
+      })
+    );
+    await new Promise<void>((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(port, host, resolve);
+    });
+
+    console.log(`Signing MyNFT vouchers on http://${host}:${port}/vouchers`);
+    console.log(`  signer:       ${signerAddress}`);
+    console.log(
+      `  unit price:   ${hre.ethers.utils.formatEther(unitPrice)} ETH`
+    );
+    console.log(`  max quantity: ${maxQuantity} per wallet`);
+    console.log(`  validity:     ${validity}s`);
+    console.log(`  allowlist:    ${allowlist.size} wallets`);
+
+    // runs until Ctrl+C
+    await new Promise<void>((resolve) =>
+      process.once("SIGINT", () => server.close(() => resolve()))
+    );
+  });
@@ -1,7 +1,9 @@
 import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import type { My1155Token } from "../../typechain-types/contracts/erc1155";
 import {
-  deployContract,
+  loadFixture,
+  my1155TokenFixture,
+  my1155TokenParams,
   parseEther,
   fromEther,
   getEthBalanceHelper,
@@ -13,7 +15,7 @@ let deployer: SignerWithAddress;
 let buyer1: SignerWithAddress;
 let Token: My1155Token;
 
-const baseURI = "https://token-cdn-domain/";
+const { baseURI } = my1155TokenParams;
 const tokenPriceInWei = parseEther(0.1);
 
 // for minting
@@ -44,15 +46,7 @@ const tokenPrices = tokensData.map((token) => token.price);
 
 describe("My1155Token Tests", () => {
   beforeEach(async () => {
-    [deployer, buyer1] = await ethers.getSigners();
-
-    const params = [baseURI];
-
-    Token = (await deployContract(
-      "My1155Token",
-      params,
-      deployer
-    )) as My1155Token;
+    ({ deployer, buyer1, Token } = await loadFixture(my1155TokenFixture));
   });
 
   describe("Deploy Tests", () => {
@@ -249,11 +243,14 @@ describe("My1155Token Tests", () => {
       expect(buyerBalanceBefore).to.equal(0);
       expect(tokenBalanceBefore).to.equal(0);
 
-      await expect(
-        Token.connect(buyer1).buyToken(tokenIds[0], buyAmount, {
+      const buyTokenTx = await Token.connect(buyer1).buyToken(
+        tokenIds[0],
+        buyAmount,
+        {
           value: parseEther(payValue),
-        })
-      )
+        }
+      );
+      await expect(buyTokenTx)
         .to.emit(Token, "BuyTokens")
         .withArgs(
           buyer1.address,
@@ -263,19 +260,18 @@ describe("My1155Token Tests", () => {
           `${baseURI}${tokenIds[0]}.json`
         );
 
-      const ownerBalanceAfter = await Token.balanceOf(
-        deployer.address,
-        tokenIds[0]
-      );
-      const buyerBalanceAfter = await Token.balanceOf(
-        buyer1.address,
-        tokenIds[0]
-      );
-      const tokenBalanceAfter = await getEthBalanceHelper(Token.address);
-
-      expect(ownerBalanceAfter).to.equal(tokenAmounts[0] - buyAmount);
-      expect(buyerBalanceAfter).to.equal(buyAmount);
-      expect(tokenBalanceAfter).to.equal(parseEther(payValue));
+      await expect(buyTokenTx).to.changeBalances([
+        {
+          account: deployer,
+          tokens: [{ token: Token, id: tokenIds[0], change: -buyAmount }],
+        },
+        {
+          account: buyer1,
+          eth: parseEther(payValue).mul(-1),
+          tokens: [{ token: Token, id: tokenIds[0], change: buyAmount }],
+        },
+        { account: Token, eth: parseEther(payValue) },
+      ]);
     });
 
     it("Should revert buy token when values is invalid", async () => {
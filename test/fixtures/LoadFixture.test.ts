@@ -0,0 +1,72 @@
+import type { ERC20MockToken } from "../../typechain-types/contracts/mock";
+import { deployContract, loadFixture } from "../utils";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+
+const runs = { parent: 0, child: 0, other: 0 };
+
+//function to deploy the token of the fixtures
+const deployToken = async () => {
+  const [deployer] = await ethers.getSigners();
+  const Token = (await deployContract(
+    "ERC20MockToken",
+    [],
+    deployer
+  )) as ERC20MockToken;
+
+  return { deployer, Token };
+};
+
+const parentFixture = async () => {
+  runs.parent++;
+  return deployToken();
+};
+
+const otherFixture = async () => {
+  runs.other++;
+  return deployToken();
+};
+
+const childFixture = async () => {
+  runs.child++;
+  const parent = await loadFixture(parentFixture);
+  await parent.Token.mint(parent.deployer.address, 100);
+
+  return parent;
+};
+
+describe("Load Fixture Tests", () => {
+  it("Should run the fixtures once and revert to their snapshots", async () => {
+    const { deployer, Token } = await loadFixture(childFixture);
+    await Token.mint(deployer.address, 50);
+
+    expect(await loadFixture(childFixture)).to.include({ Token });
+    expect(await Token.balanceOf(deployer.address)).to.equal(100);
+    expect(await loadFixture(parentFixture)).to.include({ Token });
+    expect(await Token.balanceOf(deployer.address)).to.equal(0);
+    expect(runs).to.deep.equal({ parent: 1, child: 1, other: 0 });
+  });
+
+  it("Should run a child fixture again after its parent is loaded", async () => {
+    const { deployer, Token } = await loadFixture(childFixture);
+    expect(await Token.balanceOf(deployer.address)).to.equal(100);
+
+    await loadFixture(parentFixture);
+    await loadFixture(childFixture);
+    await loadFixture(childFixture);
+
+    expect(await Token.balanceOf(deployer.address)).to.equal(100);
+    expect(runs).to.deep.equal({ parent: 1, child: 3, other: 0 });
+  });
+
+  it("Should run a fixture again when its snapshot was reverted", async () => {
+    const snapshotId = await ethers.provider.send("evm_snapshot", []);
+    await loadFixture(otherFixture);
+    await ethers.provider.send("evm_revert", [snapshotId]);
+
+    const { Token } = await loadFixture(otherFixture);
+
+    expect(await ethers.provider.getCode(Token.address)).to.not.equal("0x");
+    expect(runs).to.deep.equal({ parent: 1, child: 3, other: 2 });
+  });
+});
@@ -0,0 +1,347 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import type { My1155Token } from "../../typechain-types/contracts/erc1155";
+import type { MyTokenMarket } from "../../typechain-types/contracts/marketplace";
+import type { ERC20MockToken } from "../../typechain-types/contracts/mock";
+import type { MyNFT } from "../../typechain-types/contracts/nft";
+import type { MyERC20 } from "../../typechain-types/contracts/tokens";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Indexer, createIndexer } from "../../tasks/utils/indexer";
+import {
+  IndexerStore,
+  getIndexerState,
+  openIndexerStore,
+  queryRows,
+} from "../../tasks/utils/indexerStore";
+import {
+  activeOfferParams,
+  advanceBlock,
+  allContractsFixture,
+  loadFixture,
+  myNFTParams,
+  parseEther,
+} from "../utils";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+
+let deployer: SignerWithAddress;
+let seller: SignerWithAddress;
+let buyer: SignerWithAddress;
+let PaymentToken: ERC20MockToken;
+let ERC20Token: MyERC20;
+let NFT: MyNFT;
+let Token1155: My1155Token;
+let MarketPlace: MyTokenMarket;
+let store: IndexerStore;
+let startBlock: number;
+
+const confirmations = 2;
+
+//function to create an indexer of all the fixture contracts
+const createTestIndexer = (indexerStore = store): Indexer =>
+  createIndexer({
+    store: indexerStore,
+    provider: ethers.provider,
+    contracts: {
+      MyERC20: ERC20Token,
+      MyNFT: NFT,
+      My1155Token: Token1155,
+      MyTokenMarket: MarketPlace,
+    },
+    startBlock,
+    confirmations,
+  });
+
+//function to read the rows of a query on the test store
+const getRows = (sql: string) => queryRows(store.db, sql);
+
+//function to create a market offer of the payment token by the seller
+const createOffer = async (amount = activeOfferParams.amount) => {
+  const { price, expirationDate } = activeOfferParams;
+  await PaymentToken.connect(seller).mint(seller.address, amount);
+  await PaymentToken.connect(seller).approve(MarketPlace.address, amount);
+  await MarketPlace.connect(seller).createOffer(
+    PaymentToken.address,
+    amount,
+    price,
+    expirationDate
+  );
+};
+
+describe("Indexer Tests", () => {
+  beforeEach(async () => {
+    ({
+      deployer,
+      users: [seller, buyer],
+      PaymentToken,
+      ERC20Token,
+      NFT,
+      Token1155,
+      MarketPlace,
+    } = await loadFixture(allContractsFixture));
+    startBlock = (await PaymentToken.deployTransaction.wait()).blockNumber;
+    store = await openIndexerStore();
+  });
+
+  afterEach(() => {
+    store.close();
+  });
+
+  describe("Backfill Tests", () => {
+    it("Should index the deploy mints up to the chain head", async () => {
+      const head = await ethers.provider.getBlockNumber();
+      const result = await createTestIndexer().sync();
+
+      expect(result).to.deep.equal({
+        fromBlock: startBlock,
+        toBlock: head,
+        events: 1,
+        rewoundTo: undefined,
+      });
+      expect(getIndexerState(store.db, "lastBlock")).to.equal(String(head));
+      expect(
+        getRows("SELECT contract, recipient, amount FROM mints")
+      ).to.deep.equal([
+        { contract: "MyERC20", recipient: deployer.address, amount: "1000" },
+      ]);
+    });
+
+    it("Should write the normalized tables of every contract", async () => {
+      const users = [seller.address, buyer.address];
+      await ERC20Token.connect(deployer).updateWhitelist(users, true);
+      await ERC20Token.connect(buyer).buyTokens({ value: parseEther(1) });
+
+      await NFT.connect(deployer).toggleIsSaleEnabled(true);
+      await NFT.connect(buyer).purchaseToken({ value: myNFTParams.mintPrice });
+
+      await Token1155.connect(deployer).mintBatch(
+        [1, 2],
+        [10, 20],
+        [parseEther(0.1), parseEther(0.2)],
+        "0x"
+      );
+      await Token1155.connect(deployer).setApprovalForAll(buyer.address, true);
+      await Token1155.connect(buyer).buyToken(1, 2, {
+        value: parseEther(0.2),
+      });
+
+      await createOffer();
+      await MarketPlace.connect(buyer).buyTokens(1, { value: parseEther(3) });
+      await MarketPlace.connect(seller).toggleOfferIsActive(1, false);
+
+      await createTestIndexer().sync();
+
+      expect(
+        getRows(
+          "SELECT wallet, is_whitelisted FROM whitelist_changes ORDER BY log_index"
+        )
+      ).to.deep.equal([
+        { wallet: seller.address, is_whitelisted: 1 },
+        { wallet: buyer.address, is_whitelisted: 1 },
+      ]);
+      expect(
+        getRows(
+          "SELECT contract, buyer, offer_id, token_id, amount, paid_amount FROM purchases ORDER BY block_number"
+        )
+      ).to.deep.equal([
+        {
+          contract: "MyERC20",
+          buyer: buyer.address,
+          offer_id: null,
+          token_id: null,
+          amount: "2",
+          paid_amount: parseEther(1).toString(),
+        },
+        {
+          contract: "My1155Token",
+          buyer: buyer.address,
+          offer_id: null,
+          token_id: "1",
+          amount: "2",
+          paid_amount: parseEther(0.2).toString(),
+        },
+        {
+          contract: "MyTokenMarket",
+          buyer: buyer.address,
+          offer_id: 1,
+          token_id: null,
+          amount: "3",
+          paid_amount: parseEther(3).toString(),
+        },
+      ]);
+      expect(
+        getRows(
+          "SELECT contract, recipient, token_id, amount FROM mints ORDER BY block_number, batch_index"
+        )
+      ).to.deep.equal([
+        {
+          contract: "MyERC20",
+          recipient: deployer.address,
+          token_id: null,
+          amount: "1000",
+        },
+        {
+          contract: "MyERC20",
+          recipient: buyer.address,
+          token_id: null,
+          amount: "2",
+        },
+        {
+          contract: "MyNFT",
+          recipient: buyer.address,
+          token_id: "1",
+          amount: "1",
+        },
+        {
+          contract: "My1155Token",
+          recipient: deployer.address,
+          token_id: "1",
+          amount: "10",
+        },
+        {
+          contract: "My1155Token",
+          recipient: deployer.address,
+          token_id: "2",
+          amount: "20",
+        },
+      ]);
+      expect(
+        getRows(
+          "SELECT from_address, to_address, token_id, amount FROM transfers WHERE contract = 'My1155Token' ORDER BY block_number, batch_index"
+        ).slice(-1)
+      ).to.deep.equal([
+        {
+          from_address: deployer.address,
+          to_address: buyer.address,
+          token_id: "1",
+          amount: "2",
+        },
+      ]);
+
+      const [offer] = getRows("SELECT * FROM offers");
+      const onChain = await MarketPlace.offers(1);
+      expect(offer).to.include({
+        offer_id: 1,
+        seller: seller.address,
+        token: PaymentToken.address,
+        amount: onChain.amount.toString(),
+        price: onChain.price.toString(),
+        expiration_date: onChain.expirationDate.toNumber(),
+        is_active: 0,
+      });
+    });
+  });
+
+  describe("Follow Tests", () => {
+    it("Should index only the new blocks on the next sync", async () => {
+      const indexer = createTestIndexer();
+      const { toBlock } = await indexer.sync();
+
+      await createOffer();
+      await MarketPlace.connect(seller).changeOfferPrice(1, parseEther(2));
+      const head = await ethers.provider.getBlockNumber();
+
+      expect(await indexer.sync()).to.deep.equal({
+        fromBlock: toBlock + 1,
+        toBlock: head,
+        events: 2,
+        rewoundTo: undefined,
+      });
+      expect(indexer.getLastBlock()).to.equal(head);
+      expect(getRows("SELECT price FROM offers")).to.deep.equal([
+        { price: parseEther(2).toString() },
+      ]);
+
+      expect(await indexer.sync()).to.deep.include({
+        fromBlock: head + 1,
+        toBlock: head,
+        events: 0,
+      });
+    });
+
+    it("Should resume from the last block saved to the database file", async () => {
+      const file = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")),
+        "indexer.sqlite"
+      );
+      const fileStore = await openIndexerStore(file);
+      const { toBlock } = await createTestIndexer(fileStore).sync();
+      fileStore.close();
+
+      await createOffer();
+
+      const reopened = await openIndexerStore(file);
+      const result = await createTestIndexer(reopened).sync();
+      reopened.close();
+      fs.rmSync(path.dirname(file), { recursive: true, force: true });
+
+      expect(result).to.deep.include({ fromBlock: toBlock + 1, events: 1 });
+    });
+
+    it("Should revert when the database indexes other contracts", async () => {
+      await createTestIndexer().sync();
+
+      expect(() =>
+        createIndexer({
+          store,
+          provider: ethers.provider,
+          contracts: { MyERC20: ERC20Token },
+          startBlock,
+        })
+      ).to.throw("The store indexes other contracts");
+    });
+  });
+
+  describe("Reorg Tests", () => {
+    it("Should rewind the blocks replaced by a reorg", async () => {
+      await createOffer();
+      const indexer = createTestIndexer();
+      await indexer.sync();
+      const forkBlock = await ethers.provider.getBlockNumber();
+      const snapshotId = await ethers.provider.send("evm_snapshot", []);
+
+      // the branch indexed before the reorg
+      await MarketPlace.connect(buyer).buyTokens(1, { value: parseEther(3) });
+      await MarketPlace.connect(seller).toggleOfferIsActive(1, false);
+      await ERC20Token.connect(deployer).updateWhitelist([buyer.address], true);
+      await indexer.sync();
+      expect(getRows("SELECT * FROM purchases")).to.have.length(1);
+
+      // the branch replacing it, longer so the chain head moves forward
+      await ethers.provider.send("evm_revert", [snapshotId]);
+      await MarketPlace.connect(seller).changeOfferPrice(1, parseEther(2));
+      await ERC20Token.connect(deployer).updateWhitelist(
+        [seller.address],
+        true
+      );
+      for (let i = 0; i < confirmations + 2; i++) await advanceBlock();
+
+      const { rewoundTo } = await indexer.sync();
+
+      expect(rewoundTo).to.be.lessThanOrEqual(forkBlock);
+      expect(getRows("SELECT * FROM purchases")).to.deep.equal([]);
+      expect(
+        getRows("SELECT wallet, is_whitelisted FROM whitelist_changes")
+      ).to.deep.equal([{ wallet: seller.address, is_whitelisted: 1 }]);
+
+      const onChain = await MarketPlace.offers(1);
+      expect(
+        getRows("SELECT amount, price, is_active FROM offers")
+      ).to.deep.equal([
+        {
+          amount: onChain.amount.toString(),
+          price: parseEther(2).toString(),
+          is_active: 1,
+        },
+      ]);
+
+      const { number, hash } = await ethers.provider.getBlock("latest");
+      expect(
+        queryRows(store.db, "SELECT hash FROM blocks WHERE number = ?", [
+          number,
+        ])
+      ).to.deep.equal([{ hash }]);
+    });
+  });
+});
@@ -0,0 +1,308 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import type { My1155Token } from "../../typechain-types/contracts/erc1155";
+import type { MyTokenMarket } from "../../typechain-types/contracts/marketplace";
+import type { ERC20MockToken } from "../../typechain-types/contracts/mock";
+import type { MyNFT } from "../../typechain-types/contracts/nft";
+import type { AddressInfo } from "net";
+import http from "http";
+import {
+  ApiOffer,
+  ApiPurchase,
+  OffersPage,
+  createApiHandler,
+} from "../../tasks/utils/api";
+import { createIndexer } from "../../tasks/utils/indexer";
+import { IndexerStore, openIndexerStore } from "../../tasks/utils/indexerStore";
+import {
+  allContractsFixture,
+  duration,
+  increaseTime,
+  loadFixture,
+  myNFTParams,
+  parseEther,
+} from "../utils";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+
+let deployer: SignerWithAddress;
+let seller: SignerWithAddress;
+let seller2: SignerWithAddress;
+let buyer: SignerWithAddress;
+let PaymentToken: ERC20MockToken;
+let NFT: MyNFT;
+let Token1155: My1155Token;
+let MarketPlace: MyTokenMarket;
+let store: IndexerStore;
+let server: http.Server;
+let baseUrl: string;
+
+//function to send a request to the API and parse the JSON response
+const request = <T = { error: string }>(
+  path: string,
+  method = "GET"
+): Promise<{ status: number; body: T }> =>
+  new Promise((resolve, reject) => {
+    http
+      .request(`${baseUrl}${path}`, { method }, (response) => {
+        let data = "";
+        response.on("data", (chunk) => (data += chunk));
+        response.on("end", () =>
+          resolve({ status: response.statusCode ?? 0, body: JSON.parse(data) })
+        );
+      })
+      .on("error", reject)
+      .end();
+  });
+
+//function to create an offer of the payment token expiring after some seconds
+const createOffer = async (
+  offerSeller: SignerWithAddress,
+  price: number,
+  expiresIn: number
+) => {
+  const amount = parseEther(100);
+  const { timestamp } = await ethers.provider.getBlock("latest");
+  await PaymentToken.connect(offerSeller).mint(offerSeller.address, amount);
+  await PaymentToken.connect(offerSeller).approve(MarketPlace.address, amount);
+  await MarketPlace.connect(offerSeller).createOffer(
+    PaymentToken.address,
+    amount,
+    parseEther(price),
+    timestamp + expiresIn
+  );
+};
+
+describe("Read API Tests", () => {
+  beforeEach(async () => {
+    ({
+      deployer,
+      users: [seller, seller2, buyer],
+      PaymentToken,
+      NFT,
+      Token1155,
+      MarketPlace,
+    } = await loadFixture(allContractsFixture));
+
+    // offer 1 active, 2 inactive, 3 expired
+    await createOffer(seller, 1, duration.weeks(1).toNumber());
+    await createOffer(seller, 2, duration.weeks(1).toNumber());
+    await createOffer(seller2, 3, duration.hours(1).toNumber());
+    await MarketPlace.connect(seller).toggleOfferIsActive(2, false);
+    await MarketPlace.connect(buyer).buyTokens(1, { value: parseEther(2) });
+    await MarketPlace.connect(buyer).buyTokens(1, { value: parseEther(3) });
+    await increaseTime(duration.hours(2));
+
+    await NFT.connect(deployer).toggleIsSaleEnabled(true);
+    await NFT.connect(buyer).purchaseToken({ value: myNFTParams.mintPrice });
+    await NFT.connect(buyer).purchaseToken({ value: myNFTParams.mintPrice });
+
+    await Token1155.connect(deployer).mint(1, 10, parseEther(0.1), "0x");
+    await Token1155.connect(deployer).setApprovalForAll(buyer.address, true);
+    await Token1155.connect(buyer).buyToken(1, 4, { value: parseEther(0.4) });
+
+    store = await openIndexerStore();
+    const contracts = { MyNFT: NFT, My1155Token: Token1155 };
+    await createIndexer({
+      store,
+      provider: ethers.provider,
+      contracts: { ...contracts, MyTokenMarket: MarketPlace },
+      startBlock: (await MarketPlace.deployTransaction.wait()).blockNumber,
+    }).sync();
+
+    server = http.createServer(
+      createApiHandler({
+        db: store.db,
+        contracts,
+        getTimestamp: async () =>
+          (await ethers.provider.getBlock("latest")).timestamp,
+        log: () => undefined,
+      })
+    );
+    await new Promise<void>((resolve) =>
+      server.listen(0, "127.0.0.1", resolve)
+    );
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+    store.close();
+  });
+
+  describe("Offers Tests", () => {
+    it("Should list the indexed offers with their status", async () => {
+      const { status, body } = await request<OffersPage>("/offers");
+
+      expect(status).to.equal(200);
+      expect(body).to.deep.include({ page: 1, pageSize: 20, total: 3 });
+      expect(
+        body.offers.map(({ offerId, status }) => [offerId, status])
+      ).to.deep.equal([
+        [1, "active"],
+        [2, "inactive"],
+        [3, "expired"],
+      ]);
+
+      const onChain = await MarketPlace.offers(1);
+      expect(body.offers[0]).to.include({
+        seller: seller.address,
+        token: PaymentToken.address,
+        amount: onChain.amount.toString(),
+        price: onChain.price.toString(),
+        expirationDate: onChain.expirationDate.toNumber(),
+        isActive: true,
+      });
+    });
+
+    it("Should filter the offers by seller, token, status and price", async () => {
+      const getOfferIds = async (query: string) =>
+        (await request<OffersPage>(`/offers?${query}`)).body.offers.map(
+          ({ offerId }) => offerId
+        );
+
+      expect(await getOfferIds(`seller=${seller.address}`)).to.deep.equal([
+        1, 2,
+      ]);
+      expect(
+        await getOfferIds(`seller=${seller2.address.toLowerCase()}`)
+      ).to.deep.equal([3]);
+      expect(await getOfferIds(`token=${PaymentToken.address}`)).to.deep.equal([
+        1, 2, 3,
+      ]);
+      expect(await getOfferIds(`token=${NFT.address}`)).to.deep.equal([]);
+      expect(await getOfferIds("status=active")).to.deep.equal([1]);
+      expect(await getOfferIds("status=inactive")).to.deep.equal([2]);
+      expect(await getOfferIds("status=expired")).to.deep.equal([3]);
+      expect(
+        await getOfferIds(`minPrice=${parseEther(2)}&maxPrice=${parseEther(3)}`)
+      ).to.deep.equal([2, 3]);
+      expect(
+        await getOfferIds(`seller=${seller.address}&maxPrice=${parseEther(1)}`)
+      ).to.deep.equal([1]);
+      // prices of different lengths compare by value, not as text
+      expect(await getOfferIds("minPrice=999")).to.deep.equal([1, 2, 3]);
+      expect(
+        await getOfferIds(`maxPrice=${parseEther(1).sub(1)}`)
+      ).to.deep.equal([]);
+    });
+
+    it("Should paginate the offers", async () => {
+      const { body } = await request<OffersPage>("/offers?page=2&pageSize=2");
+
+      expect(body).to.deep.include({ page: 2, pageSize: 2, total: 3 });
+      expect(body.offers.map(({ offerId }) => offerId)).to.deep.equal([3]);
+      expect(
+        (await request<OffersPage>("/offers?page=3&pageSize=2")).body.offers
+      ).to.deep.equal([]);
+      expect(
+        (await request<OffersPage>("/offers?status=expired&pageSize=1")).body
+      ).to.deep.include({ total: 1 });
+    });
+
+    it("Should reject invalid filters", async () => {
+      for (const query of [
+        "seller=0x123",
+        "status=sold",
+        "minPrice=1.5",
+        "page=0",
+        "pageSize=101",
+      ]) {
+        const { status, body } = await request(`/offers?${query}`);
+        expect(status, query).to.equal(400);
+        expect(body.error).to.be.a("string");
+      }
+    });
+
+    it("Should get an offer with its purchase history", async () => {
+      const { status, body } = await request<
+        ApiOffer & { purchases: ApiPurchase[] }
+      >("/offers/1");
+
+      expect(status).to.equal(200);
+      expect(body).to.include({ offerId: 1, status: "active" });
+      expect(
+        body.purchases.map(({ buyer, amount, paidAmount }) => ({
+          buyer,
+          amount,
+          paidAmount,
+        }))
+      ).to.deep.equal([
+        {
+          buyer: buyer.address,
+          amount: "2",
+          paidAmount: "2000000000000000000",
+        },
+        {
+          buyer: buyer.address,
+          amount: "3",
+          paidAmount: "3000000000000000000",
+        },
+      ]);
+      expect(
+        (await request<{ purchases: ApiPurchase[] }>("/offers/2")).body
+          .purchases
+      ).to.deep.equal([]);
+    });
+
+    it("Should return 404 for a missing offer", async () => {
+      const { status, body } = await request("/offers/4");
+
+      expect(status).to.equal(404);
+      expect(body).to.deep.equal({ error: "Offer 4 does not exist" });
+    });
+  });
+
+  describe("Token Tests", () => {
+    it("Should list the MyNFT tokens of an owner", async () => {
+      const { status, body } = await request(
+        `/nft/${buyer.address.toLowerCase()}`
+      );
+
+      expect(status).to.equal(200);
+      expect(body).to.deep.equal({
+        owner: buyer.address,
+        balance: 2,
+        tokens: [
+          { tokenId: "1", tokenURI: await NFT.tokenURI(1) },
+          { tokenId: "2", tokenURI: await NFT.tokenURI(2) },
+        ],
+      });
+      expect((await request(`/nft/${seller.address}`)).body).to.deep.equal({
+        owner: seller.address,
+        balance: 0,
+        tokens: [],
+      });
+    });
+
+    it("Should get a My1155Token id with its supply, price and holders", async () => {
+      const { status, body } = await request("/1155/1");
+
+      expect(status).to.equal(200);
+      expect(body).to.deep.equal({
+        tokenId: "1",
+        totalSupply: "10",
+        price: parseEther(0.1).toString(),
+        uri: await Token1155.uri(1),
+        holders: [
+          { address: deployer.address, balance: "6" },
+          { address: buyer.address, balance: "4" },
+        ],
+      });
+    });
+
+    it("Should return 404 for a missing My1155Token id", async () => {
+      const { status, body } = await request("/1155/7");
+
+      expect(status).to.equal(404);
+      expect(body).to.deep.equal({ error: "Token 7 does not exist" });
+    });
+  });
+
+  describe("Routing Tests", () => {
+    it("Should return 404 for an unknown route and 405 for other methods", async () => {
+      expect((await request("/offers/abc")).status).to.equal(404);
+      expect((await request("/nft/0x123")).status).to.equal(404);
+      expect((await request("/offers", "POST")).status).to.equal(405);
+    });
+  });
+});
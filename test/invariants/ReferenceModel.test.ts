@@ -0,0 +1,10 @@
+import { checkStateful, referenceModelSpec } from "../utils";
+
+describe("Contracts Reference Model Invariants", () => {
+  it("Should keep balances and supplies in line with the reference model", async function () {
+    // the run count is set by INVARIANT_RUNS, each run replays up to 30 steps
+    this.timeout(0);
+
+    await checkStateful(referenceModelSpec);
+  });
+});
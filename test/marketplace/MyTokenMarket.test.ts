@@ -3,11 +3,13 @@ import type { MyTokenMarket } from "../../typechain-types/contracts/marketplace"
 import type { ERC20MockToken } from "../../typechain-types/contracts/mock";
 import {
   deployContract,
+  loadFixture,
+  marketFixture,
+  marketWithOfferFixture,
+  myTokenMarketParams,
   parseEther,
   fromEther,
   calcPurchasedTokens,
-  getEthBalanceHelper,
-  calcGasCostHelper,
   calcFeeFromTransaction,
   createTimestampInSeconds,
   addWeeks,
@@ -23,25 +25,13 @@ let buyer: SignerWithAddress;
 let MarketPlace: MyTokenMarket;
 let OfferedToken: ERC20MockToken;
 
-const feePercentage = 10;
+const { feePercentage } = myTokenMarketParams;
 
 describe("MyTokenMarket Tests", () => {
   beforeEach(async () => {
-    [deployer, seller, buyer] = await ethers.getSigners();
-
-    const params = [feePercentage];
-
-    MarketPlace = (await deployContract(
-      "MyTokenMarket",
-      params,
-      deployer
-    )) as MyTokenMarket;
-
-    OfferedToken = (await deployContract(
-      "ERC20MockToken",
-      [],
-      seller
-    )) as ERC20MockToken;
+    ({ deployer, seller, buyer, MarketPlace, OfferedToken } = await loadFixture(
+      marketFixture
+    ));
   });
 
   describe("MyTokenMarket Deploy Test", () => {
@@ -220,11 +210,6 @@ describe("MyTokenMarket Tests", () => {
 
       it("Should be able to buy amount of tokens from offer", async () => {
         expect(await OfferedToken.balanceOf(buyer.address)).to.equal(0);
-        const initSellerBalance = await getEthBalanceHelper(seller.address);
-        const initBuyerBalance = await getEthBalanceHelper(buyer.address);
-        const initFeeAccountBalance = await getEthBalanceHelper(
-          await MarketPlace.feeAccount()
-        );
 
         const createOfferTx = await MarketPlace.connect(seller).createOffer(
           OfferedToken.address,
@@ -263,45 +248,43 @@ describe("MyTokenMarket Tests", () => {
           parseEther(fromEther(offeredTokensAmount) - purchasedTokensAmount)
         );
 
-        const gasUsedToCreateOffer = await calcGasCostHelper(createOfferTx);
-        const gasUsedToBuyTokens = await calcGasCostHelper(buyTokenTx);
-
         const transactionFee = calcFeeFromTransaction(
           tokensPrice,
           purchasedTokensAmount,
           feePercentage
         );
 
-        const afterSellerBalance = await getEthBalanceHelper(seller.address);
-        const afterBuyerBalance = await getEthBalanceHelper(buyer.address);
-        const afterFeeAccountBalance = await getEthBalanceHelper(
-          await MarketPlace.feeAccount()
-        );
-
-        expect(afterBuyerBalance).to.equal(
-          initBuyerBalance.sub(gasUsedToBuyTokens).sub(paidAmount)
-        );
-        expect(afterSellerBalance).to.equal(
-          initSellerBalance
-            .add(paidAmount)
-            .sub(gasUsedToCreateOffer.add(transactionFee))
-        );
-        expect(afterFeeAccountBalance).to.equal(
-          initFeeAccountBalance.add(transactionFee)
-        );
+        await expect(createOfferTx).to.changeBalances([
+          {
+            account: seller,
+            eth: 0,
+            tokens: [
+              { token: OfferedToken, change: offeredTokensAmount.mul(-1) },
+            ],
+          },
+          {
+            account: MarketPlace,
+            tokens: [{ token: OfferedToken, change: offeredTokensAmount }],
+          },
+        ]);
+        await expect(buyTokenTx).to.changeBalances([
+          {
+            account: buyer,
+            eth: paidAmount.mul(-1),
+            tokens: [{ token: OfferedToken, change: purchasedTokensAmount }],
+          },
+          { account: seller, eth: paidAmount.sub(transactionFee) },
+          { account: await MarketPlace.feeAccount(), eth: transactionFee },
+          {
+            account: MarketPlace,
+            tokens: [{ token: OfferedToken, change: -purchasedTokensAmount }],
+          },
+        ]);
       });
 
       describe("Buy Tokens Reverted Tests", () => {
         beforeEach(async () => {
-          expect(await MarketPlace.offersCount()).to.equal(0);
-          expect(
-            await MarketPlace.connect(seller).createOffer(
-              OfferedToken.address,
-              offeredTokensAmount,
-              tokensPrice,
-              expirationDate
-            )
-          );
+          ({ MarketPlace } = await loadFixture(marketWithOfferFixture));
           expect(await MarketPlace.offersCount()).to.equal(1);
         });
 
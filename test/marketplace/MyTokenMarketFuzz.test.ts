@@ -0,0 +1,150 @@
+import { BigNumber } from "ethers";
+import {
+  PropertyFailure,
+  bigNumber,
+  checkProperty,
+  constant,
+  getEthBalanceHelper,
+  integer,
+  latestBlockTimestamp,
+  loadFixture,
+  marketFixture,
+  myTokenMarketParams,
+  oneOf,
+  parseEther,
+  record,
+} from "../utils";
+import { expect } from "chai";
+
+interface PurchaseCase {
+  feePercentage: number;
+  price: BigNumber;
+  tokens: number;
+  remainder: BigNumber;
+  offerTokens: number;
+  offerDust: BigNumber;
+}
+
+// fields shrink in this order, tokens before the offer amount bounded by them
+const purchaseCases = record<PurchaseCase>({
+  feePercentage: integer(1, 100),
+  price: bigNumber(1, parseEther(1)),
+  tokens: integer(0, 1000),
+  // most purchases should send an exact multiple of the price
+  remainder: oneOf(constant(BigNumber.from(0)), bigNumber(0, parseEther(1))),
+  offerTokens: integer(1, 1_000_000),
+  offerDust: bigNumber(0, parseEther(1).sub(1)),
+});
+
+const oneToken = parseEther(1);
+
+//function to get the expected purchase of a case
+const getExpectedPurchase = (purchase: PurchaseCase) => {
+  const offerAmount = oneToken
+    .mul(purchase.offerTokens)
+    .add(purchase.offerDust);
+  // a remainder bigger than the price would buy more tokens
+  const extra = purchase.remainder.mod(purchase.price);
+  const value = purchase.price.mul(purchase.tokens).add(extra);
+
+  let revertReason: string | undefined;
+  if (oneToken.mul(purchase.tokens).gt(offerAmount)) {
+    revertReason = "Insufficient sale amount";
+  } else if (!extra.isZero()) {
+    revertReason = "Insufficient value";
+  }
+
+  return { offerAmount, value, revertReason };
+};
+
+//function to create the offer of a case and send the purchase
+const runPurchase = async (purchase: PurchaseCase) => {
+  const { deployer, seller, buyer, MarketPlace, OfferedToken } =
+    await loadFixture(marketFixture);
+  const { offerAmount, value, revertReason } = getExpectedPurchase(purchase);
+
+  if (purchase.feePercentage !== myTokenMarketParams.feePercentage) {
+    await MarketPlace.changeFeePercentage(purchase.feePercentage);
+  }
+  await OfferedToken.connect(seller).mint(seller.address, offerAmount);
+  await OfferedToken.connect(seller).approve(MarketPlace.address, offerAmount);
+  await MarketPlace.connect(seller).createOffer(
+    OfferedToken.address,
+    offerAmount,
+    purchase.price,
+    (await latestBlockTimestamp()) + 24 * 60 * 60
+  );
+
+  const sellerBalance = await getEthBalanceHelper(seller.address);
+  const feeAccountBalance = await getEthBalanceHelper(deployer.address);
+  const buyTx = MarketPlace.connect(buyer).buyTokens(1, { value });
+
+  if (revertReason !== undefined) {
+    await expect(buyTx).to.be.revertedWith(revertReason);
+    return undefined;
+  }
+
+  await expect(buyTx)
+    .to.emit(MarketPlace, "PurchaseTokens")
+    .withArgs(1, buyer.address, purchase.tokens, value);
+
+  return {
+    value,
+    offerAmount,
+    sellerPayout: (await getEthBalanceHelper(seller.address)).sub(
+      sellerBalance
+    ),
+    fee: (await getEthBalanceHelper(deployer.address)).sub(feeAccountBalance),
+    marketEthBalance: await getEthBalanceHelper(MarketPlace.address),
+    remainingOffer: (await MarketPlace.offers(1)).amount,
+    marketTokenBalance: await OfferedToken.balanceOf(MarketPlace.address),
+    deliveredTokens: await OfferedToken.balanceOf(buyer.address),
+  };
+};
+
+describe("MyTokenMarket Purchase Properties", () => {
+  it("Should pay the seller and the fee account exactly the charged price", async () => {
+    await checkProperty(purchaseCases, async (purchase) => {
+      const result = await runPurchase(purchase);
+      if (result === undefined) return;
+
+      expect(result.sellerPayout.add(result.fee)).to.equal(result.value);
+      expect(result.fee).to.equal(
+        result.value.mul(purchase.feePercentage).div(100)
+      );
+      expect(result.marketEthBalance).to.equal(0);
+    });
+  });
+
+  it("Should deliver the tokens deducted from the offer, known to fail on whole token scaling", async () => {
+    // buyTokens deducts tokens * 10**18 from the offer but transfers only
+    // tokens base units, the harness must shrink that to a single token
+    const property = checkProperty(
+      purchaseCases,
+      async (purchase) => {
+        const result = await runPurchase(purchase);
+        if (result === undefined) return;
+
+        expect(result.offerAmount.sub(result.remainingOffer)).to.equal(
+          result.deliveredTokens
+        );
+        expect(result.marketTokenBalance).to.equal(result.remainingOffer);
+      },
+      { seed: 1 }
+    );
+
+    const failure = await property.then(
+      () => undefined,
+      (error) => error
+    );
+    expect(failure).to.be.instanceOf(PropertyFailure);
+
+    const { counterexample } = failure as PropertyFailure<PurchaseCase>;
+    expect(counterexample.feePercentage).to.equal(1);
+    expect(counterexample.price).to.equal(1);
+    expect(counterexample.tokens).to.equal(1);
+    expect(counterexample.remainder).to.equal(0);
+    expect(counterexample.offerTokens).to.equal(1);
+    expect(counterexample.offerDust).to.equal(0);
+  });
+});
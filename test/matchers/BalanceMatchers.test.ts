@@ -0,0 +1,126 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import type { My1155Token } from "../../typechain-types/contracts/erc1155";
+import type { ERC20MockToken } from "../../typechain-types/contracts/mock";
+import { allContractsFixture, expectRejection, loadFixture } from "../utils";
+import { expect } from "chai";
+
+const tokenId = 7;
+
+let deployer: SignerWithAddress;
+let seller: SignerWithAddress;
+let buyer: SignerWithAddress;
+let PaymentToken: ERC20MockToken;
+let Token1155: My1155Token;
+
+describe("Balance Matchers Tests", () => {
+  beforeEach(async () => {
+    ({
+      deployer,
+      users: [seller, buyer],
+      PaymentToken,
+      Token1155,
+    } = await loadFixture(allContractsFixture));
+  });
+
+  it("Should match the ETH, ERC20 and ERC1155 changes", async () => {
+    await expect(
+      PaymentToken.connect(buyer).mint(seller.address, 10)
+    ).to.changeBalances([
+      { account: buyer, eth: 0 },
+      { account: seller, tokens: [{ token: PaymentToken, change: 10 }] },
+    ]);
+
+    await Token1155.mint(tokenId, 100, 1, "0x");
+    await expect(
+      Token1155.safeTransferFrom(
+        deployer.address,
+        buyer.address,
+        tokenId,
+        5,
+        "0x"
+      )
+    ).to.changeBalances([
+      {
+        account: deployer,
+        tokens: [{ token: Token1155, id: tokenId, change: -5 }],
+      },
+      {
+        account: buyer.address,
+        tokens: [{ token: Token1155, id: tokenId, change: 5 }],
+      },
+    ]);
+  });
+
+  it("Should fail on a wrong ETH or ERC20 change", async () => {
+    const error = await expectRejection(
+      expect(
+        PaymentToken.connect(buyer).mint(seller.address, 10)
+      ).to.changeBalances([
+        { account: buyer, eth: -1 },
+        { account: seller, tokens: [{ token: PaymentToken, change: 11 }] },
+      ]),
+      "Expected the balance changes to match"
+    );
+
+    expect(error.message).to.include(
+      `${buyer.address} ETH balance changed by 0, expected -1\n` +
+        `${seller.address} token ${PaymentToken.address} balance changed by 10, expected 11`
+    );
+  });
+
+  it("Should fail on an account without the expected change", async () => {
+    await expectRejection(
+      expect(PaymentToken.mint(seller.address, 10)).to.changeBalances([
+        { account: seller, tokens: [{ token: PaymentToken, change: 10 }] },
+        { account: buyer, tokens: [{ token: PaymentToken, change: 10 }] },
+      ]),
+      `${buyer.address} token ${PaymentToken.address} balance changed by 0, expected 10`
+    );
+  });
+
+  it("Should fail on a wrong ERC1155 id or amount", async () => {
+    await Token1155.mint(tokenId, 100, 1, "0x");
+    const transaction = await Token1155.safeTransferFrom(
+      deployer.address,
+      buyer.address,
+      tokenId,
+      5,
+      "0x"
+    );
+
+    await expectRejection(
+      expect(transaction).to.changeBalances([
+        {
+          account: buyer,
+          tokens: [{ token: Token1155, id: tokenId + 1, change: 5 }],
+        },
+      ]),
+      `${buyer.address} token ${Token1155.address} id ${
+        tokenId + 1
+      } balance changed by 0, expected 5`
+    );
+    await expectRejection(
+      expect(transaction).to.changeBalances([
+        {
+          account: buyer,
+          tokens: [{ token: Token1155, id: tokenId, change: 4 }],
+        },
+      ]),
+      `${buyer.address} token ${Token1155.address} id ${tokenId} balance changed by 5, expected 4`
+    );
+  });
+
+  it("Should support the negated assertion", async () => {
+    const transaction = await PaymentToken.mint(seller.address, 10);
+
+    await expect(transaction).to.not.changeBalances([
+      { account: seller, tokens: [{ token: PaymentToken, change: 1 }] },
+    ]);
+    await expectRejection(
+      expect(transaction).to.not.changeBalances([
+        { account: seller, tokens: [{ token: PaymentToken, change: 10 }] },
+      ]),
+      "Expected the balance changes not to match"
+    );
+  });
+});
@@ -1,11 +1,22 @@
 import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
 import { MyNFT } from "../../typechain-types/contracts/nft";
 import {
-  deployContract,
+  loadFixture,
+  myNFTFixture,
+  myNFTParams,
   parseEther,
   getEthBalanceHelper,
-  calcGasCostHelper,
+  increaseTime,
+  duration,
 } from "../utils";
+import { MerkleTree, buildMerkleTree } from "../../tasks/utils/merkle";
+import {
+  MintVoucher,
+  VoucherDomain,
+  getVoucherDomain,
+  recoverVoucherSigner,
+  signMintVoucher,
+} from "../../tasks/utils/voucher";
 import { ethers } from "hardhat";
 import { expect } from "chai";
 
@@ -15,29 +26,20 @@ let buyer2: SignerWithAddress;
 let buyer3: SignerWithAddress;
 let Token: MyNFT;
 
-const name = "MyNFT";
-const symbol = "MNFT";
-const tokenPriceInWei = parseEther(0.1);
-const maxSupply = 3;
-const limitPerUser = 2;
-const isInitEnabled = false;
-const baseURI = "https://s3.test.com/snft-test/";
+const {
+  name,
+  symbol,
+  mintPrice: tokenPriceInWei,
+  maxSupply,
+  limitPerUser,
+  baseURI,
+} = myNFTParams;
 
 describe("MyNFT Token Tests", () => {
   beforeEach(async () => {
-    [deployer, buyer1, buyer2, buyer3] = await ethers.getSigners();
-
-    const params = [
-      name,
-      symbol,
-      tokenPriceInWei,
-      maxSupply,
-      limitPerUser,
-      isInitEnabled,
-      baseURI,
-    ];
-
-    Token = (await deployContract("MyNFT", params, deployer)) as MyNFT;
+    ({ deployer, buyer1, buyer2, buyer3, Token } = await loadFixture(
+      myNFTFixture
+    ));
   });
 
   describe("Deploy Tests", () => {
@@ -70,7 +72,6 @@ describe("MyNFT Token Tests", () => {
     });
 
     it("Should buy token by user and update balance", async () => {
-      const buyer1BalanceBefore = await getEthBalanceHelper(buyer1.address);
       expect(await Token.totalSupply()).to.equal(0);
 
       const buyTokenTx = await Token.connect(buyer1).purchaseToken({
@@ -85,11 +86,10 @@ describe("MyNFT Token Tests", () => {
       expect(await Token.ownerOf(1)).to.equal(buyer1.address);
       expect(await Token.tokenURI(1)).to.equal(`${baseURI}1`);
 
-      const txGasCost = await calcGasCostHelper(buyTokenTx);
-      const buyer1BalanceAfter = await getEthBalanceHelper(buyer1.address);
-      expect(buyer1BalanceAfter).to.equal(
-        buyer1BalanceBefore.sub(tokenPriceInWei).sub(txGasCost)
-      );
+      await expect(buyTokenTx).to.changeBalances([
+        { account: buyer1, eth: tokenPriceInWei.mul(-1) },
+        { account: Token, eth: tokenPriceInWei },
+      ]);
     });
 
     it("Should revert buy token when user exceed limit per wallet", async () => {
@@ -192,6 +192,317 @@ describe("MyNFT Token Tests", () => {
     });
   });
 
+  describe("Presale Tests", () => {
+    const presalePrice = parseEther(0.05);
+    let tree: MerkleTree;
+
+    //function to presale mint with the limit and proof of the buyer in the tree
+    const presalePurchase = (
+      buyer: SignerWithAddress,
+      value = presalePrice
+    ) => {
+      const { values, proof } = tree.entries[buyer.address];
+      return Token.connect(buyer).presalePurchaseToken(values[1], proof, {
+        value,
+      });
+    };
+
+    beforeEach(async () => {
+      tree = buildMerkleTree("nft", [
+        [buyer1.address, "2"],
+        [buyer2.address, "1"],
+      ]);
+
+      await Token.connect(deployer).setPresale(tree.root, presalePrice);
+      await Token.connect(deployer).toggleIsPresaleEnabled(true);
+      expect(await Token.isPresaleEnabled()).to.be.true;
+      expect(await Token.isMintEnabled()).to.be.false;
+    });
+
+    it("Should presale mint by allowlisted user at the presale price", async () => {
+      const buyTokenTx = await presalePurchase(buyer1);
+      await expect(buyTokenTx)
+        .to.emit(Token, "MintToken")
+        .withArgs(buyer1.address, 1, `${baseURI}1`);
+
+      expect(await Token.ownerOf(1)).to.equal(buyer1.address);
+      expect(await Token.presaleMintedWallets(buyer1.address)).to.equal(1);
+      expect(await Token.mintedWallets(buyer1.address)).to.equal(0);
+
+      await expect(buyTokenTx).to.changeBalances([
+        { account: buyer1, eth: presalePrice.mul(-1) },
+        { account: Token, eth: presalePrice },
+      ]);
+    });
+
+    it("Should revert presale mint when user exceed its presale limit", async () => {
+      await expect(presalePurchase(buyer2)).to.emit(Token, "MintToken");
+
+      await expect(presalePurchase(buyer2)).to.be.revertedWith(
+        "Exceeds presale tokens per wallet"
+      );
+
+      await expect(presalePurchase(buyer1)).to.emit(Token, "MintToken");
+      await expect(presalePurchase(buyer1)).to.emit(Token, "MintToken");
+      expect(await Token.totalSupply()).to.equal(3);
+    });
+
+    it("Should revert presale mint when user is not allowlisted or the limit is wrong", async () => {
+      const { proof } = tree.entries[buyer1.address];
+
+      await expect(
+        Token.connect(buyer3).presalePurchaseToken(2, proof, {
+          value: presalePrice,
+        })
+      ).to.be.revertedWith("User is not authorized to purchase");
+      await expect(
+        Token.connect(buyer1).presalePurchaseToken(3, proof, {
+          value: presalePrice,
+        })
+      ).to.be.revertedWith("User is not authorized to purchase");
+      expect(await Token.isPresaleAllowlisted(buyer1.address, 2, proof)).to.be
+        .true;
+
+      expect(await Token.totalSupply()).to.equal(0);
+    });
+
+    it("Should revert presale mint when user send wrong ETH value", async () => {
+      await expect(presalePurchase(buyer1, tokenPriceInWei)).to.be.revertedWith(
+        "Wrong transaction value"
+      );
+    });
+
+    it("Should revert presale mint when the presale is disabled or the public sale is open", async () => {
+      await Token.connect(deployer).toggleIsSaleEnabled(true);
+      await expect(presalePurchase(buyer1)).to.be.revertedWith(
+        "Presale not open"
+      );
+
+      await Token.connect(deployer).toggleIsSaleEnabled(false);
+      await Token.connect(deployer).toggleIsPresaleEnabled(false);
+      await expect(presalePurchase(buyer1)).to.be.revertedWith(
+        "Presale not open"
+      );
+    });
+
+    it("Should keep the public sale limit apart from the presale mints", async () => {
+      await expect(presalePurchase(buyer1)).to.emit(Token, "MintToken");
+      await Token.connect(deployer).toggleIsSaleEnabled(true);
+
+      await expect(
+        Token.connect(buyer1).purchaseToken({ value: tokenPriceInWei })
+      ).to.emit(Token, "MintToken");
+      await expect(
+        Token.connect(buyer1).purchaseToken({ value: tokenPriceInWei })
+      ).to.emit(Token, "MintToken");
+      expect(await Token.balanceOf(buyer1.address)).to.equal(3);
+    });
+
+    it("Should revert presale mint when tokens sold out", async () => {
+      await Token.connect(deployer).setMaxSupply(1);
+      await expect(presalePurchase(buyer1)).to.emit(Token, "MintToken");
+
+      await expect(presalePurchase(buyer2)).to.be.revertedWith(
+        "Tokens sold out"
+      );
+    });
+  });
+
+  describe("Voucher Tests", () => {
+    let domain: VoucherDomain;
+    let voucher: MintVoucher;
+
+    beforeEach(async () => {
+      const { chainId } = await ethers.provider.getNetwork();
+      const { timestamp } = await ethers.provider.getBlock("latest");
+      domain = getVoucherDomain(name, chainId, Token.address);
+      voucher = {
+        recipient: buyer1.address,
+        quantity: 2,
+        price: parseEther(0.15),
+        expiry: timestamp + 3600,
+        nonce: 1,
+      };
+
+      await Token.connect(deployer).setVoucherSigner(deployer.address);
+      expect(await Token.isMintEnabled()).to.be.false;
+    });
+
+    it("Should mint the voucher tokens to the recipient at the voucher price", async () => {
+      const { signature } = await signMintVoucher(deployer, domain, voucher);
+      expect(recoverVoucherSigner(domain, voucher, signature)).to.equal(
+        deployer.address
+      );
+      expect(await Token.recoverVoucherSigner(voucher, signature)).to.equal(
+        deployer.address
+      );
+
+      const redeemTx = await Token.connect(buyer2).redeemVoucher(
+        voucher,
+        signature,
+        { value: voucher.price }
+      );
+      await expect(redeemTx)
+        .to.emit(Token, "RedeemVoucher")
+        .withArgs(buyer2.address, buyer1.address, 1, 2);
+      await expect(redeemTx)
+        .to.emit(Token, "MintToken")
+        .withArgs(buyer1.address, 2, `${baseURI}2`);
+
+      expect(await Token.balanceOf(buyer1.address)).to.equal(2);
+      expect(await Token.usedVoucherNonces(1)).to.be.true;
+      expect(await Token.mintedWallets(buyer1.address)).to.equal(0);
+
+      await expect(redeemTx).to.changeBalances([
+        { account: buyer2, eth: parseEther(0.15).mul(-1) },
+        { account: Token, eth: parseEther(0.15) },
+      ]);
+    });
+
+    it("Should revert redeem voucher when the signature is invalid", async () => {
+      const { signature: buyerSignature } = await signMintVoucher(
+        buyer1,
+        domain,
+        voucher
+      );
+      await expect(
+        Token.connect(buyer1).redeemVoucher(voucher, buyerSignature, {
+          value: voucher.price,
+        })
+      ).to.be.revertedWith("Invalid voucher signature");
+
+      const { signature } = await signMintVoucher(deployer, domain, voucher);
+      await expect(
+        Token.connect(buyer1).redeemVoucher(
+          { ...voucher, quantity: 3 },
+          signature,
+          { value: voucher.price }
+        )
+      ).to.be.revertedWith("Invalid voucher signature");
+
+      const otherDomain = { ...domain, verifyingContract: buyer2.address };
+      const { signature: otherSignature } = await signMintVoucher(
+        deployer,
+        otherDomain,
+        voucher
+      );
+      await expect(
+        Token.connect(buyer1).redeemVoucher(voucher, otherSignature, {
+          value: voucher.price,
+        })
+      ).to.be.revertedWith("Invalid voucher signature");
+
+      await expect(
+        Token.connect(buyer1).redeemVoucher(voucher, "0x1234", {
+          value: voucher.price,
+        })
+      ).to.be.revertedWith("ECDSA: invalid signature length");
+
+      expect(await Token.totalSupply()).to.equal(0);
+    });
+
+    it("Should revert redeem voucher when the voucher is expired", async () => {
+      const { signature } = await signMintVoucher(deployer, domain, voucher);
+
+      await increaseTime(duration.hours(2));
+
+      await expect(
+        Token.connect(buyer1).redeemVoucher(voucher, signature, {
+          value: voucher.price,
+        })
+      ).to.be.revertedWith("Voucher expired");
+    });
+
+    it("Should revert redeem voucher when the voucher is already used", async () => {
+      const { signature } = await signMintVoucher(deployer, domain, {
+        ...voucher,
+        quantity: 1,
+      });
+      await Token.connect(buyer1).redeemVoucher(
+        { ...voucher, quantity: 1 },
+        signature,
+        { value: voucher.price }
+      );
+
+      await expect(
+        Token.connect(buyer1).redeemVoucher(
+          { ...voucher, quantity: 1 },
+          signature,
+          { value: voucher.price }
+        )
+      ).to.be.revertedWith("Voucher already used");
+
+      const { signature: sameNonceSignature } = await signMintVoucher(
+        deployer,
+        domain,
+        { ...voucher, recipient: buyer2.address }
+      );
+      await expect(
+        Token.connect(buyer2).redeemVoucher(
+          { ...voucher, recipient: buyer2.address },
+          sameNonceSignature,
+          { value: voucher.price }
+        )
+      ).to.be.revertedWith("Voucher already used");
+
+      expect(await Token.totalSupply()).to.equal(1);
+    });
+
+    it("Should revert redeem voucher when the value is wrong or the supply is exceeded", async () => {
+      const { signature } = await signMintVoucher(deployer, domain, voucher);
+      await expect(
+        Token.connect(buyer1).redeemVoucher(voucher, signature, {
+          value: tokenPriceInWei,
+        })
+      ).to.be.revertedWith("Wrong transaction value");
+
+      const bigVoucher = { ...voucher, quantity: maxSupply + 1 };
+      const { signature: bigSignature } = await signMintVoucher(
+        deployer,
+        domain,
+        bigVoucher
+      );
+      await expect(
+        Token.connect(buyer1).redeemVoucher(bigVoucher, bigSignature, {
+          value: voucher.price,
+        })
+      ).to.be.revertedWith("Tokens sold out");
+    });
+
+    it("Should reject the vouchers of the previous signer after a rotation", async () => {
+      const { signature } = await signMintVoucher(deployer, domain, voucher);
+
+      await Token.connect(deployer).setVoucherSigner(buyer3.address);
+      await expect(
+        Token.connect(buyer1).redeemVoucher(voucher, signature, {
+          value: voucher.price,
+        })
+      ).to.be.revertedWith("Invalid voucher signature");
+
+      const { signature: newSignature } = await signMintVoucher(
+        buyer3,
+        domain,
+        voucher
+      );
+      await expect(
+        Token.connect(buyer1).redeemVoucher(voucher, newSignature, {
+          value: voucher.price,
+        })
+      ).to.emit(Token, "RedeemVoucher");
+
+      await Token.connect(deployer).setVoucherSigner(
+        ethers.constants.AddressZero
+      );
+      await expect(
+        Token.connect(buyer1).redeemVoucher(
+          { ...voucher, nonce: 2 },
+          newSignature,
+          { value: voucher.price }
+        )
+      ).to.be.revertedWith("Invalid voucher signature");
+    });
+  });
+
   describe("Burn Tokens Tests", () => {
     beforeEach(async () => {
       await Token.connect(deployer).toggleIsSaleEnabled(true);
@@ -356,6 +667,65 @@ describe("MyNFT Token Tests", () => {
       expect(await Token.isMintEnabled()).to.be.false;
     });
 
+    it("Should toggle presale enabled by owner", async () => {
+      expect(await Token.isPresaleEnabled()).to.be.false;
+
+      await expect(Token.connect(deployer).toggleIsPresaleEnabled(true))
+        .to.emit(Token, "ToggleIsPresaleEnabled")
+        .withArgs(deployer.address, true);
+
+      expect(await Token.isPresaleEnabled()).to.be.true;
+
+      await expect(Token.connect(deployer).toggleIsPresaleEnabled(false))
+        .to.emit(Token, "ToggleIsPresaleEnabled")
+        .withArgs(deployer.address, false);
+
+      expect(await Token.isPresaleEnabled()).to.be.false;
+    });
+
+    it("Should set presale allowlist and price by owner", async () => {
+      const { root } = buildMerkleTree("nft", [[buyer1.address, "1"]]);
+      const presalePrice = parseEther(0.05);
+
+      await expect(Token.connect(deployer).setPresale(root, presalePrice))
+        .to.emit(Token, "SetPresale")
+        .withArgs(deployer.address, root, presalePrice);
+
+      expect(await Token.presaleMerkleRoot()).to.equal(root);
+      expect(await Token.presalePrice()).to.equal(presalePrice);
+    });
+
+    it("Should revert presale admin functions by non-owner", async () => {
+      await expect(
+        Token.connect(buyer1).toggleIsPresaleEnabled(true)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+      await expect(
+        Token.connect(buyer1).setPresale(ethers.constants.HashZero, 0)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+      expect(await Token.isPresaleEnabled()).to.be.false;
+    });
+
+    it("Should set voucher signer by owner", async () => {
+      expect(await Token.voucherSigner()).to.equal(
+        ethers.constants.AddressZero
+      );
+
+      await expect(Token.connect(deployer).setVoucherSigner(buyer3.address))
+        .to.emit(Token, "SetVoucherSigner")
+        .withArgs(deployer.address, buyer3.address);
+
+      expect(await Token.voucherSigner()).to.equal(buyer3.address);
+    });
+
+    it("Should revert set voucher signer by non-owner", async () => {
+      await expect(
+        Token.connect(buyer1).setVoucherSigner(buyer1.address)
+      ).to.be.revertedWith("Ownable: caller is not the owner");
+      expect(await Token.voucherSigner()).to.equal(
+        ethers.constants.AddressZero
+      );
+    });
+
     it("Should set max sale supply", async () => {
       expect(await Token.maxSupply()).to.equal(maxSupply);
 
@@ -426,9 +796,6 @@ describe("MyNFT Token Tests", () => {
 
       it("Should withdraw ETH by owner", async () => {
         const tokenBalanceBefore = await getEthBalanceHelper(Token.address);
-        const deployerBalanceBefore = await getEthBalanceHelper(
-          deployer.address
-        );
         expect(tokenBalanceBefore).to.equal(tokenPriceInWei.mul(2));
 
         const withdrawTx = await Token.connect(deployer).withdrawFunds();
@@ -436,15 +803,11 @@ describe("MyNFT Token Tests", () => {
           .to.emit(Token, "WithdrawFunds")
           .withArgs(deployer.address, tokenPriceInWei.mul(2));
 
-        const txGasCost = await calcGasCostHelper(withdrawTx);
-
+        await expect(withdrawTx).to.changeBalances([
+          { account: deployer, eth: tokenPriceInWei.mul(2) },
+          { account: Token, eth: tokenPriceInWei.mul(-2) },
+        ]);
         expect(await getEthBalanceHelper(Token.address)).to.equal(0);
-        const deployerBalanceAfter = await getEthBalanceHelper(
-          deployer.address
-        );
-        expect(deployerBalanceAfter).to.equal(
-          deployerBalanceBefore.add(tokenPriceInWei.mul(2)).sub(txGasCost)
-        );
       });
 
       it("Should revert withdraw ETH by non-owner", async () => {
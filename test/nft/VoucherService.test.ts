@@ -0,0 +1,184 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import { MyNFT } from "../../typechain-types/contracts/nft";
+import type { AddressInfo } from "net";
+import http from "http";
+import {
+  SignedMintVoucher,
+  createVoucherHandler,
+  getVoucherDomain,
+  recoverVoucherSigner,
+} from "../../tasks/utils/voucher";
+import { loadFixture, myNFTFixture, myNFTParams } from "../utils";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+
+const validity = 3600;
+const maxQuantity = 2;
+
+let deployer: SignerWithAddress;
+let buyer1: SignerWithAddress;
+let buyer2: SignerWithAddress;
+let Token: MyNFT;
+let server: http.Server;
+let baseUrl: string;
+
+//function to send a request to the signing service and parse the JSON response
+const request = <T = { error: string }>(
+  path: string,
+  method = "POST",
+  body?: string
+): Promise<{
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  body: T;
+}> =>
+  new Promise((resolve, reject) => {
+    http
+      .request(`${baseUrl}${path}`, { method }, (response) => {
+        let data = "";
+        response.on("data", (chunk) => (data += chunk));
+        response.on("end", () =>
+          resolve({
+            status: response.statusCode ?? 0,
+            headers: response.headers,
+            body: JSON.parse(data),
+          })
+        );
+      })
+      .on("error", reject)
+      .end(body);
+  });
+
+//function to request a voucher for a recipient
+const requestVoucher = <T = SignedMintVoucher>(
+  recipient: string,
+  quantity?: number
+) => request<T>("/vouchers", "POST", JSON.stringify({ recipient, quantity }));
+
+//function to start the signing service on a random port
+const startService = async (corsOrigin?: string) => {
+  const { chainId } = await ethers.provider.getNetwork();
+  server = http.createServer(
+    createVoucherHandler({
+      signer: deployer,
+      domain: getVoucherDomain(myNFTParams.name, chainId, Token.address),
+      unitPrice: myNFTParams.mintPrice,
+      validity,
+      maxQuantity,
+      allowlist: new Set([buyer1.address]),
+      corsOrigin,
+      getTimestamp: async () =>
+        (await ethers.provider.getBlock("latest")).timestamp,
+      log: () => undefined,
+    })
+  );
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+};
+
+describe("Voucher Service Tests", () => {
+  beforeEach(async () => {
+    ({ deployer, buyer1, buyer2, Token } = await loadFixture(myNFTFixture));
+    await Token.connect(deployer).setVoucherSigner(deployer.address);
+  });
+
+  afterEach(async () => {
+    await new Promise<void>((resolve) => server.close(() => resolve()));
+  });
+
+  it("Should sign a voucher that the recipient redeems on-chain", async () => {
+    await startService();
+    const { status, headers, body } = await requestVoucher(buyer1.address, 2);
+
+    expect(status).to.equal(200);
+    expect(headers).to.not.have.property("access-control-allow-origin");
+    const { timestamp } = await ethers.provider.getBlock("latest");
+    expect(body.voucher).to.include({
+      recipient: buyer1.address,
+      quantity: "2",
+      price: myNFTParams.mintPrice.mul(2).toString(),
+      expiry: String(timestamp + validity),
+    });
+    const { chainId } = await ethers.provider.getNetwork();
+    expect(
+      recoverVoucherSigner(
+        getVoucherDomain(myNFTParams.name, chainId, Token.address),
+        body.voucher,
+        body.signature
+      )
+    ).to.equal(deployer.address);
+
+    await expect(
+      Token.connect(buyer1).redeemVoucher(body.voucher, body.signature, {
+        value: body.voucher.price,
+      })
+    )
+      .to.emit(Token, "RedeemVoucher")
+      .withArgs(buyer1.address, buyer1.address, body.voucher.nonce, 2);
+    expect(await Token.balanceOf(buyer1.address)).to.equal(2);
+  });
+
+  it("Should answer 404 and 405 outside of POST /vouchers", async () => {
+    await startService();
+
+    expect(await request("/unknown")).to.deep.include({
+      status: 404,
+      body: { error: "Not found" },
+    });
+    expect(await request("/vouchers", "GET")).to.deep.include({
+      status: 405,
+      body: { error: "Method not allowed" },
+    });
+  });
+
+  it("Should answer 400 to invalid requests", async () => {
+    await startService();
+
+    for (const [body, error] of [
+      ["{", "Request body must be JSON"],
+      ["x".repeat(2000), "Request body is too large"],
+      [JSON.stringify({ recipient: "0x123" }), "recipient must be an address"],
+      [
+        JSON.stringify({ recipient: buyer1.address, quantity: 3 }),
+        `quantity must be an integer from 1 to ${maxQuantity}`,
+      ],
+      [
+        JSON.stringify({ recipient: buyer1.address, quantity: "1" }),
+        `quantity must be an integer from 1 to ${maxQuantity}`,
+      ],
+    ]) {
+      const response = await request("/vouchers", "POST", body);
+      expect(response).to.deep.include({ status: 400, body: { error } });
+    }
+  });
+
+  it("Should answer 403 to wallets out of the allowlist or over their limit", async () => {
+    await startService();
+
+    expect(await requestVoucher(buyer2.address)).to.deep.include({
+      status: 403,
+      body: { error: `${buyer2.address} is not allowlisted` },
+    });
+
+    expect((await requestVoucher(buyer1.address)).status).to.equal(200);
+    expect(
+      await requestVoucher(buyer1.address.toLowerCase(), 2)
+    ).to.deep.include({
+      status: 403,
+      body: {
+        error: `${buyer1.address} can get 1 more tokens, limit is ${maxQuantity}`,
+      },
+    });
+    expect((await requestVoucher(buyer1.address)).status).to.equal(200);
+    expect((await requestVoucher(buyer1.address)).status).to.equal(403);
+  });
+
+  it("Should allow the configured origin only", async () => {
+    await startService("http://localhost:3000");
+
+    const { headers } = await requestVoucher(buyer1.address);
+    expect(headers["access-control-allow-origin"]).to.equal(
+      "http://localhost:3000"
+    );
+  });
+});
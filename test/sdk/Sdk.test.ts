@@ -0,0 +1,401 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import type { My1155Token } from "../../typechain-types/contracts/erc1155";
+import type { MyTokenMarket } from "../../typechain-types/contracts/marketplace";
+import type { ERC20MockToken } from "../../typechain-types/contracts/mock";
+import type { MyNFT } from "../../typechain-types/contracts/nft";
+import type { MyERC20 } from "../../typechain-types/contracts/tokens";
+import {
+  BuyLimitError,
+  InsufficientBalanceError,
+  InsufficientOfferAmountError,
+  NftClient,
+  NotAuthorizedError,
+  NotEnoughTokensError,
+  OfferExpiredError,
+  OwnOfferError,
+  Sdk,
+  SoldOutError,
+  TokenNotFoundError,
+  WalletLimitError,
+} from "../../sdk";
+import { buildMerkleTree } from "../../tasks/utils/merkle";
+import {
+  allContractsFixture,
+  duration,
+  expectRejection,
+  loadFixture,
+  myERC20Params,
+  myNFTParams,
+  parseEther,
+} from "../utils";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+
+let deployer: SignerWithAddress;
+let seller: SignerWithAddress;
+let buyer: SignerWithAddress;
+let buyer2: SignerWithAddress;
+let PaymentToken: ERC20MockToken;
+let ERC20Token: MyERC20;
+let NFT: MyNFT;
+let Token1155: My1155Token;
+let MarketPlace: MyTokenMarket;
+
+//function to create an SDK of the fixture contracts for a signer
+const getSdk = (signer: SignerWithAddress) =>
+  new Sdk(
+    signer,
+    {
+      MyERC20: ERC20Token.address,
+      MyNFT: NFT.address,
+      My1155Token: Token1155.address,
+      MyTokenMarket: MarketPlace.address,
+    },
+    { MyNFT: 0 }
+  );
+
+//function to get the latest block timestamp
+const latestTimestamp = async () =>
+  (await ethers.provider.getBlock("latest")).timestamp;
+
+describe("SDK Tests", () => {
+  beforeEach(async () => {
+    ({
+      deployer,
+      users: [seller, buyer, buyer2],
+      PaymentToken,
+      ERC20Token,
+      NFT,
+      Token1155,
+      MarketPlace,
+    } = await loadFixture(allContractsFixture));
+  });
+
+  describe("Market Client Tests", () => {
+    beforeEach(async () => {
+      await PaymentToken.mint(seller.address, parseEther(100));
+    });
+
+    it("Should approve the tokens and list them in whole tokens and ETH", async () => {
+      const result = await getSdk(seller).market.list(
+        PaymentToken.address,
+        "100",
+        "0.01",
+        "7d"
+      );
+
+      expect(result.approvalHash).to.be.a("string");
+      expect(result).to.deep.include({
+        offerId: 1,
+        token: PaymentToken.address,
+        amount: parseEther(100),
+        price: parseEther(0.01),
+      });
+
+      const offer = await MarketPlace.offers(1);
+      expect(offer.amount).to.equal(parseEther(100));
+      expect(offer.price).to.equal(parseEther(0.01));
+      expect(offer.expirationDate).to.equal(result.expirationDate);
+      expect(result.expirationDate).to.be.closeTo(
+        (await latestTimestamp()) + duration.weeks(1).toNumber(),
+        5
+      );
+      expect(await PaymentToken.balanceOf(MarketPlace.address)).to.equal(
+        parseEther(100)
+      );
+    });
+
+    it("Should skip the approval when the allowance is enough", async () => {
+      await PaymentToken.connect(seller).approve(
+        MarketPlace.address,
+        parseEther(100)
+      );
+
+      const result = await getSdk(seller).market.list(
+        PaymentToken.address,
+        50,
+        parseEther(0.02),
+        3600
+      );
+
+      expect(result.approvalHash).to.equal(undefined);
+      expect(result.amount).to.equal(parseEther(50));
+      expect(result.price).to.equal(parseEther(0.02));
+    });
+
+    it("Should check the offer before sending a transaction", async () => {
+      const { market } = getSdk(seller);
+
+      const balanceError = await expectRejection(
+        market.list(PaymentToken.address, "101", "0.01", "7d"),
+        "Insufficient balance: 100.0 tokens available"
+      );
+      expect(balanceError).to.be.instanceOf(InsufficientBalanceError);
+      expect(balanceError).to.have.property("balance").equal(parseEther(100));
+      await expectRejection(
+        market.list(PaymentToken.address, "10", "0", "7d"),
+        "Amount and price must be greater than 0"
+      );
+      await expectRejection(
+        market.list(PaymentToken.address, "10", "0.01", 0),
+        "Expiration time must be in the future"
+      );
+      await expectRejection(
+        market.list(PaymentToken.address, "10", "0.01", "1y"),
+        'Invalid duration "1y"'
+      );
+
+      expect(await MarketPlace.offersCount()).to.equal(0);
+      expect(
+        await PaymentToken.allowance(seller.address, MarketPlace.address)
+      ).to.equal(0);
+    });
+
+    it("Should buy whole tokens of an offer at the offer price", async () => {
+      await getSdk(seller).market.list(
+        PaymentToken.address,
+        "100",
+        "0.01",
+        "7d"
+      );
+
+      const result = await getSdk(buyer).market.buy(1, 5);
+
+      expect(result).to.deep.include({
+        offerId: 1,
+        buyer: buyer.address,
+        amount: ethers.BigNumber.from(5),
+        paidAmount: parseEther(0.05),
+      });
+      expect((await MarketPlace.offers(1)).amount).to.equal(parseEther(95));
+    });
+
+    it("Should get an offer with its status", async () => {
+      const { market } = getSdk(seller);
+      await market.list(PaymentToken.address, "100", "0.01", "7d");
+      await MarketPlace.connect(seller).toggleOfferIsActive(1, false);
+
+      expect(await market.getOffer(1)).to.deep.include({
+        offerId: 1,
+        seller: seller.address,
+        isActive: false,
+        status: "inactive",
+      });
+      await expectRejection(market.getOffer(2), "Offer 2 does not exist");
+    });
+
+    it("Should check the purchase before sending a transaction", async () => {
+      await getSdk(seller).market.list(
+        PaymentToken.address,
+        "100",
+        "0.01",
+        "7d"
+      );
+      const { market } = getSdk(buyer);
+
+      expect(
+        await expectRejection(
+          getSdk(seller).market.buy(1, 1),
+          "Offer 1 belongs to you"
+        )
+      ).to.be.instanceOf(OwnOfferError);
+      await expectRejection(market.buy(1, 0), "Amount must be greater than 0");
+      expect(
+        await expectRejection(
+          market.buy(1, 101),
+          "Offer 1 has only 100.0 tokens left"
+        )
+      ).to.be.instanceOf(InsufficientOfferAmountError);
+      await ethers.provider.send("evm_increaseTime", [
+        duration.weeks(1).toNumber(),
+      ]);
+      await ethers.provider.send("evm_mine", []);
+      const expiredError = await expectRejection(
+        market.buy(1, 1),
+        "Offer 1 expired"
+      );
+      expect(expiredError).to.be.instanceOf(OfferExpiredError);
+      expect(expiredError).to.include({ offerId: 1, reason: "Offer expired" });
+    });
+  });
+
+  describe("NFT Client Tests", () => {
+    beforeEach(async () => {
+      await NFT.connect(deployer).toggleIsSaleEnabled(true);
+    });
+
+    it("Should mint tokens paying the mint price for each", async () => {
+      const result = await getSdk(buyer).nft.mint(2);
+
+      expect(result.tokenIds).to.deep.equal([
+        ethers.BigNumber.from(1),
+        ethers.BigNumber.from(2),
+      ]);
+      expect(result.paidAmount).to.equal(myNFTParams.mintPrice.mul(2));
+      expect(result.transactionHashes).to.have.length(2);
+      expect(await NFT.balanceOf(buyer.address)).to.equal(2);
+    });
+
+    it("Should check the whole quantity before the first mint", async () => {
+      await expectRejection(
+        getSdk(buyer).nft.mint(0),
+        "Quantity must be greater than 0"
+      );
+      const limitError = await expectRejection(
+        getSdk(buyer).nft.mint(3),
+        "Exceeds max tokens per wallet: 2 tokens left"
+      );
+      expect(limitError).to.be.instanceOf(WalletLimitError);
+      expect(limitError).to.have.property("remaining").equal(2);
+
+      await getSdk(buyer).nft.mint(2);
+      expect(
+        await expectRejection(
+          getSdk(buyer2).nft.mint(2),
+          "Tokens sold out: 1 tokens left"
+        )
+      ).to.be.instanceOf(SoldOutError);
+      expect(await NFT.balanceOf(buyer2.address)).to.equal(0);
+
+      await NFT.connect(deployer).toggleIsSaleEnabled(false);
+      await expectRejection(getSdk(buyer2).nft.mint(1), "Sales not open");
+    });
+
+    it("Should count the burned tokens towards the max supply", async () => {
+      await getSdk(buyer).nft.mint(2);
+      await NFT.connect(buyer).burn(1);
+      // one block per getLogs request, the mints are counted across the pages
+      expect(await new NftClient(NFT, 0, 1).getMintedCount()).to.equal(2);
+
+      await expectRejection(
+        getSdk(buyer2).nft.mint(2),
+        "Tokens sold out: 1 tokens left"
+      );
+      expect(await NFT.balanceOf(buyer2.address)).to.equal(0);
+
+      const { tokenIds } = await getSdk(buyer2).nft.mint(1);
+      expect(tokenIds).to.deep.equal([
+        ethers.BigNumber.from(myNFTParams.maxSupply),
+      ]);
+      await expectRejection(
+        getSdk(buyer2).nft.mint(1),
+        "Tokens sold out: 0 tokens left"
+      );
+    });
+  });
+
+  describe("Sale Client Tests", () => {
+    it("Should buy tokens with ETH at the token price", async () => {
+      const result = await getSdk(buyer).sale.buy(2);
+
+      expect(result).to.deep.include({
+        buyer: buyer.address,
+        amount: ethers.BigNumber.from(2),
+        paidAmount: myERC20Params.tokenPrice.mul(2),
+      });
+      expect(result.paymentToken).to.equal(undefined);
+      expect(await ERC20Token.balanceOf(buyer.address)).to.equal(2);
+    });
+
+    it("Should approve the payment token and buy with it", async () => {
+      const cost = myERC20Params.erc20TokenPrice.mul(3);
+      await PaymentToken.mint(buyer.address, cost);
+
+      const result = await getSdk(buyer).sale.buyWithToken(3);
+
+      expect(result.approvalHash).to.be.a("string");
+      expect(result).to.deep.include({
+        amount: ethers.BigNumber.from(3),
+        paidAmount: cost,
+        paymentToken: PaymentToken.address,
+      });
+      expect(await ERC20Token.balanceOf(buyer.address)).to.equal(3);
+      expect(await PaymentToken.balanceOf(buyer.address)).to.equal(0);
+    });
+
+    it("Should check the purchase before sending a transaction", async () => {
+      const { sale } = getSdk(buyer);
+
+      expect(
+        await expectRejection(
+          sale.buy(myERC20Params.buyLimit + 1),
+          `Purchase exceed tokens limit of ${myERC20Params.buyLimit}`
+        )
+      ).to.be.instanceOf(BuyLimitError);
+      await expectRejection(
+        sale.buyWithToken(1),
+        "You don`t have enough tokens"
+      );
+
+      await ERC20Token.connect(deployer).toggleIsWhitelistedSale();
+      const authorizationError = await expectRejection(
+        sale.buy(1),
+        "is not authorized to purchase"
+      );
+      expect(authorizationError).to.be.instanceOf(NotAuthorizedError);
+      expect(authorizationError).to.include({ account: buyer.address });
+    });
+
+    it("Should buy with a Merkle proof during a whitelisted sale", async () => {
+      const tree = buildMerkleTree("erc20", [[buyer.address]]);
+      await ERC20Token.connect(deployer).setMerkleRoot(tree.root);
+      await ERC20Token.connect(deployer).toggleIsWhitelistedSale();
+
+      const { proof } = tree.entries[buyer.address];
+      const result = await getSdk(buyer).sale.buy(1, proof);
+
+      expect(result.amount).to.equal(1);
+      await expectRejection(
+        getSdk(buyer2).sale.buy(1, proof),
+        `User ${buyer2.address} is not authorized to purchase`
+      );
+    });
+  });
+
+  describe("Items Client Tests", () => {
+    beforeEach(async () => {
+      await Token1155.connect(deployer).mint(1, 10, parseEther(0.1), "0x");
+    });
+
+    it("Should buy tokens at the token price", async () => {
+      await Token1155.connect(deployer).setApprovalForAll(buyer.address, true);
+
+      const result = await getSdk(buyer).items.buy(1, 3);
+
+      expect(result).to.deep.include({
+        buyer: buyer.address,
+        tokenId: ethers.BigNumber.from(1),
+        amount: ethers.BigNumber.from(3),
+        paidAmount: parseEther(0.3),
+      });
+      expect(await Token1155.balanceOf(buyer.address, 1)).to.equal(3);
+    });
+
+    it("Should check the purchase before sending a transaction", async () => {
+      const { items } = getSdk(buyer);
+
+      expect(
+        await expectRejection(items.buy(2, 1), "Token 2 does not exist")
+      ).to.be.instanceOf(TokenNotFoundError);
+      expect(
+        await expectRejection(items.buy(1, 11), "Not enough tokens")
+      ).to.be.instanceOf(NotEnoughTokensError);
+      await expectRejection(
+        items.buy(1, 1),
+        "ERC1155: caller is not token owner nor approved"
+      );
+    });
+  });
+
+  describe("Sdk Tests", () => {
+    it("Should reject the clients of contracts without an address", async () => {
+      const sdk = new Sdk(buyer, { MyNFT: NFT.address }, { MyNFT: 0 });
+
+      expect(sdk.nft.contract.address).to.equal(NFT.address);
+      expect(() => sdk.market).to.throw("MyTokenMarket address is not set");
+      expect(() => new Sdk(buyer, { MyNFT: NFT.address }).nft).to.throw(
+        "MyNFT deploy block is not set"
+      );
+    });
+  });
+});
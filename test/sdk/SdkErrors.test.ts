@@ -0,0 +1,155 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import type { MyTokenMarket } from "../../typechain-types/contracts/marketplace";
+import type { ERC20MockToken } from "../../typechain-types/contracts/mock";
+import type { MyNFT } from "../../typechain-types/contracts/nft";
+import type { MyERC20 } from "../../typechain-types/contracts/tokens";
+import {
+  ContractError,
+  NotOfferSellerError,
+  NotOwnerError,
+  OfferNotFoundError,
+  SaleNotOpenError,
+  decodeContractError,
+  decodeRevertReason,
+  withContractErrors,
+} from "../../sdk";
+import {
+  allContractsFixture,
+  expectRejection,
+  loadFixture,
+  parseEther,
+} from "../utils";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+
+let deployer: SignerWithAddress;
+let seller: SignerWithAddress;
+let buyer: SignerWithAddress;
+let PaymentToken: ERC20MockToken;
+let ERC20Token: MyERC20;
+let NFT: MyNFT;
+let MarketPlace: MyTokenMarket;
+
+//function to encode the revert data of a require reason string
+const encodeReason = (reason: string) =>
+  ethers.utils.hexConcat([
+    "0x08c379a0",
+    ethers.utils.defaultAbiCoder.encode(["string"], [reason]),
+  ]);
+
+describe("SDK Errors Tests", () => {
+  beforeEach(async () => {
+    ({
+      deployer,
+      users: [seller, buyer],
+      PaymentToken,
+      ERC20Token,
+      NFT,
+      MarketPlace,
+    } = await loadFixture(allContractsFixture));
+  });
+
+  it("Should decode the revert of a static call with the context fields", async () => {
+    const error = await expectRejection(
+      withContractErrors(
+        () => MarketPlace.connect(buyer).callStatic.buyTokens(5),
+        { offerId: 5 }
+      ),
+      "Offer 5 does not exist"
+    );
+
+    expect(error).to.be.instanceOf(OfferNotFoundError);
+    expect(error).to.include({
+      name: "OfferNotFoundError",
+      reason: "Offer does not exist",
+      offerId: 5,
+    });
+  });
+
+  it("Should decode the revert of estimateGas", async () => {
+    const error = await expectRejection(
+      withContractErrors(() =>
+        NFT.connect(buyer).estimateGas.purchaseToken({ value: 1 })
+      ),
+      "Sales not open"
+    );
+
+    expect(error).to.be.instanceOf(SaleNotOpenError);
+  });
+
+  it("Should decode the revert of a sent transaction", async () => {
+    await PaymentToken.mint(seller.address, parseEther(10));
+    await PaymentToken.connect(seller).approve(
+      MarketPlace.address,
+      parseEther(10)
+    );
+    const { timestamp } = await ethers.provider.getBlock("latest");
+    await MarketPlace.connect(seller).createOffer(
+      PaymentToken.address,
+      parseEther(10),
+      parseEther(0.01),
+      timestamp + 3600
+    );
+
+    const error = await expectRejection(
+      withContractErrors(
+        () =>
+          MarketPlace.connect(buyer).changeOfferPrice(1, 1, {
+            gasLimit: 100000,
+          }),
+        { offerId: 1 }
+      ),
+      "Only seller can change price of offer 1"
+    );
+    expect(error).to.be.instanceOf(NotOfferSellerError);
+
+    expect(
+      await expectRejection(
+        withContractErrors(() => ERC20Token.connect(buyer).withdrawFunds()),
+        "Ownable: caller is not the owner"
+      )
+    ).to.be.instanceOf(NotOwnerError);
+  });
+
+  it("Should keep the reason of unknown reverts and rethrow other errors", async () => {
+    const error = await expectRejection(
+      withContractErrors(() =>
+        PaymentToken.connect(buyer).transfer(deployer.address, 1)
+      ),
+      "ERC20: transfer amount exceeds balance"
+    );
+    expect(error.constructor).to.equal(ContractError);
+
+    const networkError = new Error("could not detect network");
+    expect(
+      await expectRejection(
+        withContractErrors(() => Promise.reject(networkError)),
+        "could not detect network"
+      )
+    ).to.equal(networkError);
+    expect(decodeContractError(networkError)).to.equal(undefined);
+  });
+
+  it("Should decode the revert data of JSON-RPC responses and panics", async () => {
+    const body = JSON.stringify({
+      jsonrpc: "2.0",
+      id: 1,
+      error: { code: 3, data: encodeReason("Offer expired") },
+    });
+    const panic = ethers.utils.hexConcat([
+      "0x4e487b71",
+      ethers.utils.defaultAbiCoder.encode(["uint256"], [0x11]),
+    ]);
+
+    expect(decodeRevertReason({ error: { body } })).to.equal("Offer expired");
+    expect(decodeRevertReason({ error: { data: { data: panic } } })).to.equal(
+      "Panic(0x11)"
+    );
+    expect(
+      decodeRevertReason({
+        message:
+          "VM Exception while processing transaction: reverted with reason string 'Tokens sold out'",
+      })
+    ).to.equal("Tokens sold out");
+  });
+});
@@ -0,0 +1,52 @@
+import { readCatalog } from "../../tasks/utils/catalog";
+import { parseEther, writeTempFile } from "../utils";
+import { expect } from "chai";
+
+//function to write a catalog file with the given items
+const writeCatalog = (items: unknown) =>
+  writeTempFile("catalog.json", JSON.stringify({ items }));
+
+const metadata = { name: "Sword", description: "A sword", image: "ipfs://a" };
+
+describe("Catalog Tests", () => {
+  it("Should read the items with their ETH prices", () => {
+    const file = writeCatalog([
+      { id: 0, amount: 10, price: "0.05", metadata },
+      { id: 3, amount: 1, price: 2 },
+    ]);
+
+    expect(readCatalog(file)).to.deep.equal([
+      { id: 0, amount: 10, price: parseEther(0.05), metadata },
+      { id: 3, amount: 1, price: parseEther(2), metadata: undefined },
+    ]);
+  });
+
+  it("Should reject catalogs without items", () => {
+    expect(() => readCatalog(writeTempFile("catalog.json", "{}"))).to.throw(
+      'must have an "items" array'
+    );
+    expect(() => readCatalog(writeCatalog([]))).to.throw("has no items");
+  });
+
+  it("Should list every invalid item", () => {
+    const file = writeCatalog([
+      { id: 1, amount: 0, price: "0.1" },
+      { id: 1, amount: 1, price: "free" },
+      { id: -1, amount: 1.5, price: "0", metadata: { name: "Shield" } },
+    ]);
+
+    expect(() => readCatalog(file)).to.throw(
+      [
+        `Invalid catalog ${file}:`,
+        "  - items[0].amount must be an integer greater than 0",
+        "  - items[1].id 1 is duplicated",
+        "  - items[1].price must be an ETH amount greater than 0",
+        "  - items[2].id must be a non-negative integer",
+        "  - items[2].amount must be an integer greater than 0",
+        "  - items[2].price must be an ETH amount greater than 0",
+        "  - items[2].metadata.description must be a string",
+        "  - items[2].metadata.image must be a string",
+      ].join("\n")
+    );
+  });
+});
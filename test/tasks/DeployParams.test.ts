@@ -0,0 +1,85 @@
+import fs from "fs";
+import {
+  getParamsPath,
+  loadDeployParams,
+  validateDeployParams,
+} from "../../tasks/utils/params";
+import { DEPLOYABLE_CONTRACTS } from "../../tasks/utils/deploy";
+import { parseEther } from "../utils";
+import { expect } from "chai";
+
+//function to read the raw params of the hardhat network
+const readRawParams = () =>
+  JSON.parse(fs.readFileSync(getParamsPath("hardhat"), "utf8"));
+
+describe("Deploy Params Tests", () => {
+  it("Should parse the params of the hardhat network", () => {
+    const params = loadDeployParams(
+      getParamsPath("hardhat"),
+      DEPLOYABLE_CONTRACTS
+    );
+
+    expect(params.MyERC20).to.deep.include({
+      initMintAmount: 1000,
+      tokenPrice: parseEther(0.5),
+      paymentToken: undefined,
+      whitelist: [],
+    });
+    expect(params.MyNFT?.mintPrice).to.equal(parseEther(0.1));
+    expect(params.MyTokenMarket).to.deep.equal({ feePercentage: 10 });
+  });
+
+  it("Should validate the requested contracts only", () => {
+    const raw = readRawParams();
+    delete raw.MyNFT;
+
+    expect(validateDeployParams(raw, ["MyTokenMarket"])).to.have.keys(
+      "MyTokenMarket"
+    );
+    expect(() => validateDeployParams(raw, ["MyNFT"])).to.throw(
+      "MyNFT params are missing"
+    );
+  });
+
+  it("Should list every invalid value", () => {
+    const raw = readRawParams();
+    raw.MyERC20.tokenPrice = "0";
+    raw.MyERC20.buyLimit = 1.5;
+    raw.MyERC20.whitelist = ["0x123"];
+    raw.MyNFT.limitPerUser = 5;
+    raw.MyNFT.isMintEnabled = "true";
+    raw.MyTokenMarket.feePercentage = 101;
+
+    expect(() => validateDeployParams(raw, DEPLOYABLE_CONTRACTS)).to.throw(
+      [
+        "Invalid deploy params:",
+        '  - MyERC20.whitelist[0] "0x123" is not a valid address',
+        "  - MyERC20.tokenPrice must be an ETH amount greater than 0",
+        "  - MyERC20.buyLimit must be an integer between 1 and 9007199254740991",
+        "  - MyNFT.limitPerUser must not be greater than maxSupply",
+        "  - MyNFT.isMintEnabled must be a boolean",
+        "  - MyTokenMarket.feePercentage must be an integer between 1 and 100",
+      ].join("\n")
+    );
+  });
+
+  it("Should check the whitelist against the whitelisted sale", () => {
+    const raw = readRawParams();
+    raw.MyERC20.isWhitelistedSale = true;
+
+    expect(() => validateDeployParams(raw, ["MyERC20"])).to.throw(
+      "MyERC20.whitelist must not be empty when isWhitelistedSale is true"
+    );
+
+    const address = "0x70997970c51812dc3a010c7d01b50e0d17dc79c8";
+    raw.MyERC20.whitelist = [address];
+    raw.MyERC20.paymentToken = address;
+    const { MyERC20 } = validateDeployParams(raw, ["MyERC20"]);
+    expect(MyERC20?.whitelist).to.deep.equal([
+      "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+    ]);
+    expect(MyERC20?.paymentToken).to.equal(
+      "0x70997970C51812dc3A010C7d01b50e0d17dc79C8"
+    );
+  });
+});
@@ -0,0 +1,146 @@
+import type { providers } from "ethers";
+import {
+  ExportedEvent,
+  formatEvent,
+  getCsvColumns,
+  getContractInterface,
+  getEventFragments,
+  getLogsInChunks,
+} from "../../tasks/utils/events";
+import { expectRejection } from "../utils";
+import { expect } from "chai";
+
+//function to create a provider with one log per block that rejects
+//getLogs requests over more than maxBlocks blocks
+const createStubProvider = (maxBlocks: number) => {
+  const requests: Array<[number, number]> = [];
+  const provider = {
+    getLogs: async ({ fromBlock, toBlock }: providers.Filter) => {
+      const from = Number(fromBlock);
+      const to = Number(toBlock);
+      requests.push([from, to]);
+      if (to - from + 1 > maxBlocks) {
+        throw new Error("query returned more than 10000 results");
+      }
+      return Array.from({ length: to - from + 1 }, (_, i) => ({
+        blockNumber: from + i,
+      }));
+    },
+  } as unknown as providers.Provider;
+
+  return { provider, requests };
+};
+
+const event: ExportedEvent = {
+  blockNumber: 7,
+  timestamp: 1700000000,
+  date: "2023-11-14T22:13:20.000Z",
+  transactionHash: "0xabc",
+  logIndex: 2,
+  event: "BatchMintToken",
+  args: {
+    sender: "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+    tokenIds: ["1", "2"],
+    tokenURIs: ['https://a/1.json,"b"', "line\nbreak"],
+    data: null,
+  },
+};
+
+describe("Event Export Tests", () => {
+  it("Should fetch the logs in chunks and halve the rejected ones", async () => {
+    const { provider, requests } = createStubProvider(3);
+    const chunks: Array<[number[], number]> = [];
+
+    await getLogsInChunks(provider, {}, 1, 10, 8, async (logs, toBlock) => {
+      chunks.push([logs.map(({ blockNumber }) => blockNumber), toBlock]);
+    });
+
+    expect(chunks).to.deep.equal([
+      [[1, 2], 2],
+      [[3, 4], 4],
+      [[5, 6, 7], 7],
+      [[8, 9, 10], 10],
+    ]);
+    expect(requests).to.deep.equal([
+      [1, 8],
+      [1, 4],
+      [1, 2],
+      [3, 10],
+      [3, 6],
+      [3, 4],
+      [5, 10],
+      [5, 7],
+      [8, 10],
+    ]);
+  });
+
+  it("Should throw when the node rejects a single block", async () => {
+    const { provider, requests } = createStubProvider(0);
+
+    await expectRejection(
+      getLogsInChunks(provider, {}, 5, 6, 2, async () => undefined),
+      "query returned more than 10000 results"
+    );
+    expect(requests).to.deep.equal([
+      [5, 6],
+      [5, 5],
+    ]);
+  });
+
+  it("Should escape the CSV values of the event args", () => {
+    const columns = [
+      "blockNumber",
+      "event",
+      "sender",
+      "tokenIds",
+      "tokenURIs",
+      "data",
+      "missing",
+    ];
+
+    expect(formatEvent(event, "csv", columns)).to.equal(
+      [
+        "7",
+        "BatchMintToken",
+        "0x70997970C51812dc3A010C7d01b50e0d17dc79C8",
+        '"[""1"",""2""]"',
+        '"[""https://a/1.json,\\""b\\"""",""line\\nbreak""]"',
+        "",
+        "",
+      ].join(",")
+    );
+    expect(JSON.parse(formatEvent(event, "jsonl", columns))).to.deep.equal(
+      event
+    );
+  });
+
+  it("Should get one CSV column per distinct event arg", () => {
+    const contractInterface = getContractInterface("My1155Token");
+    const fragments = getEventFragments(
+      contractInterface,
+      "MintToken, BatchMintToken"
+    );
+
+    expect(getCsvColumns(fragments)).to.deep.equal([
+      "blockNumber",
+      "timestamp",
+      "date",
+      "transactionHash",
+      "logIndex",
+      "event",
+      "sender",
+      "tokenId",
+      "amount",
+      "price",
+      "tokenURI",
+      "data",
+      "tokenIds",
+      "amounts",
+      "prices",
+      "tokenURIs",
+    ]);
+    expect(() => getEventFragments(contractInterface, "Unknown")).to.throw(
+      "Unknown event Unknown"
+    );
+  });
+});
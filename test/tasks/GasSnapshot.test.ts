@@ -0,0 +1,76 @@
+import {
+  GasSnapshot,
+  compareGasSnapshots,
+  formatGasDiff,
+} from "../../tasks/utils/gas";
+import { expect } from "chai";
+
+//function to get the gas stats of a function called once
+const stats = (gas: number) => ({ calls: 1, min: gas, max: gas, avg: gas });
+
+const baseline: GasSnapshot = {
+  functions: {
+    "MyNFT.purchaseToken": stats(100000),
+    "MyNFT.burn": stats(30000),
+  },
+  tests: {
+    "Should buy": 100000,
+    "Should burn": 30000,
+    "Should transfer": 50000,
+  },
+};
+
+const current: GasSnapshot = {
+  functions: {
+    "MyNFT.purchaseToken": stats(150000),
+    "MyNFT.redeemVoucher": stats(300000),
+  },
+  tests: {
+    "Should buy": 100500,
+    "Should burn": 31000,
+    "Should transfer": 40000,
+    "Should redeem": 300000,
+  },
+};
+
+describe("Gas Snapshot Tests", () => {
+  it("Should flag the test total increases above the threshold only", () => {
+    const diffs = compareGasSnapshots(baseline, current, 1);
+
+    expect(
+      diffs.map(({ section, name, isRegression }) => [
+        section,
+        name,
+        isRegression,
+      ])
+    ).to.deep.equal([
+      ["functions", "MyNFT.burn", false],
+      ["functions", "MyNFT.purchaseToken", false],
+      ["functions", "MyNFT.redeemVoucher", false],
+      ["tests", "Should burn", true],
+      ["tests", "Should buy", false],
+      ["tests", "Should redeem", false],
+      ["tests", "Should transfer", false],
+    ]);
+    expect(
+      compareGasSnapshots(baseline, current, 5).filter(
+        ({ isRegression }) => isRegression
+      )
+    ).to.deep.equal([]);
+  });
+
+  it("Should report the changed, added and removed entries", () => {
+    expect(
+      compareGasSnapshots(baseline, current, 1).map(formatGasDiff)
+    ).to.deep.equal([
+      "  - MyNFT.burn (avg): 30000",
+      "  ~ MyNFT.purchaseToken (avg): 100000 -> 150000 (+50.00%)",
+      "  + MyNFT.redeemVoucher (avg): 300000",
+      "  ! Should burn: 30000 -> 31000 (+3.33%)",
+      "  ~ Should buy: 100000 -> 100500 (+0.50%)",
+      "  + Should redeem: 300000",
+      "  ~ Should transfer: 50000 -> 40000 (-20.00%)",
+    ]);
+    expect(compareGasSnapshots(baseline, baseline, 1)).to.deep.equal([]);
+  });
+});
@@ -0,0 +1,58 @@
+import hre, { ethers } from "hardhat";
+import { isDeployedCodeMatching } from "../../tasks/utils/deploy";
+import { hashAbi, isSameArgs, serializeArgs } from "../../tasks/utils/manifest";
+import {
+  allContractsFixture,
+  loadFixture,
+  marketFixture,
+  parseEther,
+} from "../utils";
+import { expect } from "chai";
+
+describe("Deployment Manifest Tests", () => {
+  it("Should match the on-chain code with the compiled artifact", async () => {
+    const { deployer, MarketPlace, OfferedToken } = await loadFixture(
+      marketFixture
+    );
+
+    expect(
+      await isDeployedCodeMatching(hre, "MyTokenMarket", MarketPlace.address)
+    ).to.equal(true);
+    expect(
+      await isDeployedCodeMatching(hre, "MyTokenMarket", OfferedToken.address)
+    ).to.equal(false);
+    expect(
+      await isDeployedCodeMatching(hre, "MyTokenMarket", deployer.address)
+    ).to.equal(false);
+  });
+
+  it("Should match the code of a contract with immutables", async () => {
+    const { NFT, MarketPlace } = await loadFixture(allContractsFixture);
+
+    expect(await isDeployedCodeMatching(hre, "MyNFT", NFT.address)).to.equal(
+      true
+    );
+    expect(
+      await isDeployedCodeMatching(hre, "MyNFT", MarketPlace.address)
+    ).to.equal(false);
+  });
+
+  it("Should compare the args with the recorded JSON values", () => {
+    const args = [parseEther(1), [ethers.BigNumber.from(2), "0xabc"], true];
+    const recordedArgs = ["1000000000000000000", ["2", "0xabc"], true];
+
+    expect(serializeArgs(args)).to.deep.equal(recordedArgs);
+    expect(isSameArgs(args, recordedArgs)).to.equal(true);
+    expect(
+      isSameArgs([parseEther(2), ["2", "0xabc"], true], recordedArgs)
+    ).to.equal(false);
+    expect(isSameArgs(args.slice(0, 2), recordedArgs)).to.equal(false);
+  });
+
+  it("Should change the ABI hash when the interface changes", async () => {
+    const { abi } = await hre.artifacts.readArtifact("MyTokenMarket");
+
+    expect(hashAbi(abi)).to.equal(hashAbi(JSON.parse(JSON.stringify(abi))));
+    expect(hashAbi(abi)).to.not.equal(hashAbi(abi.slice(1)));
+  });
+});
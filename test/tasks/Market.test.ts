@@ -0,0 +1,61 @@
+import hre, { ethers } from "hardhat";
+import {
+  getOfferStatus,
+  parseDuration,
+  parseExpiration,
+} from "../../tasks/utils/market";
+import { duration, expectRejection, latestBlockTimestamp } from "../utils";
+import { expect } from "chai";
+
+describe("Market Task Tests", () => {
+  it("Should parse durations in every unit", () => {
+    expect(parseDuration("3600")).to.equal(duration.hours(1));
+    expect(parseDuration(" 45s ")).to.equal(45);
+    expect(parseDuration("30m")).to.equal(duration.minutes(30));
+    expect(parseDuration("12h")).to.equal(duration.hours(12));
+    expect(parseDuration("7d")).to.equal(duration.days(7));
+    expect(parseDuration("2w")).to.equal(duration.weeks(2));
+  });
+
+  it("Should reject invalid durations", () => {
+    for (const value of ["", "1.5h", "-1d", "2y", "d", "1 d"]) {
+      expect(() => parseDuration(value)).to.throw(
+        `Invalid duration "${value}"`
+      );
+    }
+  });
+
+  it("Should get the expiration from a duration or a date", async () => {
+    const timestamp = await latestBlockTimestamp();
+
+    expect(await parseExpiration(hre, "1h")).to.equal(
+      duration.hours(1).add(timestamp)
+    );
+    expect(await parseExpiration(hre, "1h", "2030-01-01T00:00:00Z")).to.equal(
+      1893456000
+    );
+
+    await expectRejection(
+      parseExpiration(hre, undefined, "soon"),
+      'Invalid date "soon"'
+    );
+    await expectRejection(
+      parseExpiration(hre),
+      "Either --expires-in or --expiration is required"
+    );
+  });
+
+  it("Should get the offer status at a timestamp", () => {
+    const expirationDate = ethers.BigNumber.from(1000);
+
+    expect(getOfferStatus({ isActive: true, expirationDate }, 999)).to.equal(
+      "active"
+    );
+    expect(getOfferStatus({ isActive: true, expirationDate }, 1000)).to.equal(
+      "expired"
+    );
+    expect(getOfferStatus({ isActive: false, expirationDate }, 0)).to.equal(
+      "inactive"
+    );
+  });
+});
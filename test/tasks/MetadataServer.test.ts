@@ -0,0 +1,179 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { Writable } from "stream";
+import type { IncomingMessage, ServerResponse } from "http";
+import {
+  MetadataRoute,
+  MetadataServerOptions,
+  createMetadataHandler,
+  parseMetadataRequest,
+} from "../../tasks/utils/server";
+import { expect } from "chai";
+
+let root: string;
+let dirs: Record<MetadataRoute, string>;
+
+//function to call the handler with a fake request, resolves once the response ends
+const request = async (
+  options: Partial<MetadataServerOptions>,
+  url: string,
+  method = "GET"
+) => {
+  const chunks: Buffer[] = [];
+  const headers: Record<string, unknown> = {};
+  let status = 0;
+
+  const response = new Writable({
+    write(chunk, _encoding, callback) {
+      chunks.push(Buffer.from(chunk));
+      callback();
+    },
+  });
+  Object.assign(response, {
+    setHeader: (name: string, value: unknown) =>
+      (headers[name.toLowerCase()] = value),
+    writeHead: (code: number, values: Record<string, unknown> = {}) => {
+      status = code;
+      Object.entries(values).forEach(
+        ([name, value]) => (headers[name.toLowerCase()] = value)
+      );
+      return response;
+    },
+  });
+  const finished = new Promise((resolve) => response.on("finish", resolve));
+
+  await createMetadataHandler({ dirs, log: () => undefined, ...options })(
+    { method, url } as IncomingMessage,
+    response as unknown as ServerResponse
+  );
+  await finished;
+
+  return { status, headers, body: Buffer.concat(chunks).toString() };
+};
+
+describe("Metadata Server Tests", () => {
+  beforeEach(() => {
+    root = fs.mkdtempSync(path.join(os.tmpdir(), "metadata-"));
+    dirs = {
+      nft: path.join(root, "MyNFT"),
+      items: path.join(root, "My1155Token"),
+      images: path.join(root, "images"),
+    };
+    Object.values(dirs).forEach((dir) => fs.mkdirSync(dir));
+    fs.writeFileSync(path.join(dirs.nft, "1"), '{"name":"NFT 1"}');
+    fs.writeFileSync(path.join(dirs.items, "2.json"), '{"name":"Item 2"}');
+    fs.writeFileSync(path.join(dirs.images, "1.png"), "png");
+    fs.writeFileSync(path.join(root, "secret.png"), "secret");
+  });
+
+  afterEach(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  it("Should match the request paths with the routes", () => {
+    expect(parseMetadataRequest("/nft/1?x=1")).to.deep.equal({
+      route: "nft",
+      name: "1",
+    });
+    expect(parseMetadataRequest("/items/2.json")).to.deep.equal({
+      route: "items",
+      name: "2",
+    });
+    expect(parseMetadataRequest("/images/cat_1.v2.png")).to.deep.equal({
+      route: "images",
+      name: "cat_1.v2.png",
+    });
+
+    for (const url of [
+      "/items/2",
+      "/nft/abc",
+      "/images/..",
+      "/images/.hidden.png",
+      "/images/../secret.png",
+      "/images/..%2Fsecret.png",
+    ]) {
+      expect(parseMetadataRequest(url), url).to.equal(undefined);
+    }
+  });
+
+  it("Should serve the metadata and the images", async () => {
+    expect(await request({}, "/nft/1")).to.deep.include({
+      status: 200,
+      body: '{"name":"NFT 1"}',
+    });
+    expect(await request({}, "/items/2.json")).to.deep.include({
+      status: 200,
+      body: '{"name":"Item 2"}',
+    });
+
+    const image = await request({}, "/images/1.png");
+    expect(image).to.deep.include({ status: 200, body: "png" });
+    expect(image.headers).to.include({
+      "content-type": "image/png",
+      "access-control-allow-origin": "*",
+    });
+    expect(await request({}, "/images/1.png", "HEAD")).to.deep.include({
+      status: 200,
+      body: "",
+    });
+  });
+
+  it("Should answer 404 outside of the generated files", async () => {
+    for (const url of [
+      "/",
+      "/images/..",
+      "/images/../secret.png",
+      "/nft/2",
+      "/images/2.png",
+    ]) {
+      expect((await request({}, url)).status, url).to.equal(404);
+    }
+
+    fs.writeFileSync(path.join(dirs.images, "notes.txt"), "text");
+    expect(await request({}, "/images/notes.txt")).to.deep.include({
+      status: 404,
+      body: JSON.stringify({ error: "No images file notes.txt" }),
+    });
+  });
+
+  it("Should check the token on chain before serving it", async () => {
+    const tokenExists = async (route: string, tokenId: string) =>
+      route === "nft" && tokenId === "1";
+
+    expect((await request({ tokenExists }, "/nft/1")).status).to.equal(200);
+    expect(await request({ tokenExists }, "/items/2.json")).to.deep.include({
+      status: 404,
+      body: JSON.stringify({ error: "Token 2 does not exist" }),
+    });
+
+    const failing = async () => {
+      throw new Error("could not detect network");
+    };
+    expect(await request({ tokenExists: failing }, "/nft/1")).to.deep.include({
+      status: 502,
+      body: JSON.stringify({ error: "Cannot read the token from the chain" }),
+    });
+    expect(
+      (await request({ tokenExists: failing }, "/images/1.png")).status
+    ).to.equal(200);
+  });
+
+  it("Should allow GET and HEAD only", async () => {
+    const lines: string[] = [];
+
+    for (const method of ["POST", "PUT", "DELETE"]) {
+      expect(
+        await request({ log: (line) => lines.push(line) }, "/nft/1", method)
+      ).to.deep.include({
+        status: 405,
+        body: JSON.stringify({ error: "Method not allowed" }),
+      });
+    }
+    expect(lines).to.deep.equal([
+      "POST /nft/1 405",
+      "PUT /nft/1 405",
+      "DELETE /nft/1 405",
+    ]);
+  });
+});
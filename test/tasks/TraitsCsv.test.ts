@@ -0,0 +1,63 @@
+import { readTraitsCsv } from "../../tasks/utils/metadata";
+import { writeTempFile } from "../utils";
+import { expect } from "chai";
+
+describe("Traits CSV Tests", () => {
+  it("Should read the fields and the traits of each token", () => {
+    const file = writeTempFile(
+      "traits.csv",
+      [
+        "tokenId,name,description,Color,Level",
+        '1,"Ape, the first","Says ""hi""",Red,5',
+        '2,,"two',
+        'lines",,0.5',
+        "",
+      ].join("\r\n")
+    );
+
+    expect(readTraitsCsv(file)).to.deep.equal([
+      {
+        tokenId: 1,
+        name: "Ape, the first",
+        description: 'Says "hi"',
+        image: undefined,
+        attributes: [
+          { trait_type: "Color", value: "Red" },
+          { trait_type: "Level", value: 5 },
+        ],
+      },
+      {
+        tokenId: 2,
+        name: undefined,
+        description: "two\r\nlines",
+        image: undefined,
+        attributes: [{ trait_type: "Level", value: 0.5 }],
+      },
+    ]);
+  });
+
+  it("Should reject files without a tokenId column or tokens", () => {
+    expect(() =>
+      readTraitsCsv(writeTempFile("traits.csv", "id,Color\n1,Red"))
+    ).to.throw('must have a "tokenId" column');
+    expect(() =>
+      readTraitsCsv(writeTempFile("traits.csv", "tokenId,Color\n"))
+    ).to.throw("has no tokens");
+  });
+
+  it("Should list every invalid row", () => {
+    const file = writeTempFile(
+      "traits.csv",
+      ["tokenId,Color", "0,Red", "1,Blue", "1,Green", "2,Red,extra"].join("\n")
+    );
+
+    expect(() => readTraitsCsv(file)).to.throw(
+      [
+        `Invalid traits ${file}:`,
+        "  - row 2: tokenId must be an integer greater than 0",
+        "  - row 4: tokenId 1 is duplicated",
+        "  - row 5: has more cells than the header",
+      ].join("\n")
+    );
+  });
+});
@@ -0,0 +1,58 @@
+import { readWalletList } from "../../tasks/utils/whitelist";
+import { writeTempFile } from "../utils";
+import { expect } from "chai";
+
+const wallet1 = "0x70997970C51812dc3A010C7d01b50e0d17dc79C8";
+const wallet2 = "0x3C44CdDdB6a900fa2b585dd299e03d12FA4293BC";
+
+describe("Wallet List Tests", () => {
+  it("Should read a CSV list with a header, comments and blank lines", () => {
+    const file = writeTempFile(
+      "wallets.csv",
+      [
+        "address,whitelisted",
+        "# team wallets",
+        wallet1.toLowerCase(),
+        "",
+        `${wallet2}, FALSE`,
+        `${wallet1},true`,
+      ].join("\r\n")
+    );
+
+    expect(readWalletList(file)).to.deep.equal([
+      { address: wallet1, whitelisted: true },
+      { address: wallet2, whitelisted: false },
+    ]);
+  });
+
+  it("Should read a JSON list of addresses and entries", () => {
+    const file = writeTempFile(
+      "wallets.JSON",
+      JSON.stringify([wallet1, { address: wallet2, whitelisted: false }])
+    );
+
+    expect(readWalletList(file)).to.deep.equal([
+      { address: wallet1, whitelisted: true },
+      { address: wallet2, whitelisted: false },
+    ]);
+  });
+
+  it("Should list every invalid row", () => {
+    const file = writeTempFile(
+      "wallets.csv",
+      ["0x123", `${wallet1},yes`, wallet2, `${wallet2},false`].join("\n")
+    );
+
+    expect(() => readWalletList(file)).to.throw(
+      [
+        `Invalid wallet list ${file}:`,
+        '  - line 1: "0x123" is not a valid address',
+        "  - line 2: whitelisted must be true or false",
+        `  - line 4: ${wallet2} is listed twice with different status`,
+      ].join("\n")
+    );
+    expect(() => readWalletList(writeTempFile("wallets.json", "{}"))).to.throw(
+      "JSON list must be an array"
+    );
+  });
+});
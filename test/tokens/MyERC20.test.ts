@@ -3,10 +3,18 @@ import type { MyERC20 } from "../../typechain-types/contracts/tokens";
 import type { ERC20MockToken } from "../../typechain-types/contracts/mock";
 import {
   deployContract,
+  loadFixture,
+  myERC20Fixture,
+  myERC20Params,
   parseEther,
   fromEther,
   calcPurchasedTokens,
 } from "../utils";
+import {
+  MerkleTree,
+  buildMerkleTree,
+  verifyMerkleProof,
+} from "../../tasks/utils/merkle";
 import { ethers } from "hardhat";
 import { expect } from "chai";
 import { BigNumber } from "ethers";
@@ -16,37 +24,21 @@ let user1: SignerWithAddress;
 let user2: SignerWithAddress;
 let Token: MyERC20;
 
-const name = "MyERC20";
-const symbol = "MRC";
-const initMintAmount = 1000;
-const initTokenPrice = parseEther(0.5);
-const initERC20TokenPrice = parseEther(0.5);
+const {
+  name,
+  symbol,
+  initMintAmount,
+  tokenPrice: initTokenPrice,
+  erc20TokenPrice: initERC20TokenPrice,
+  buyLimit: initBuyLimit,
+} = myERC20Params;
 let PaymentToken: ERC20MockToken;
-const initBuyLimit = 10;
-const iSWhitelisted = false;
 
 describe("MyERC20 Tests", () => {
   beforeEach(async () => {
-    [deployer, user1, user2] = await ethers.getSigners();
-
-    PaymentToken = (await deployContract(
-      "ERC20MockToken",
-      [],
-      deployer
-    )) as ERC20MockToken;
-
-    const params = [
-      name,
-      symbol,
-      initMintAmount,
-      initTokenPrice,
-      initERC20TokenPrice,
-      PaymentToken.address,
-      initBuyLimit,
-      iSWhitelisted,
-    ];
-
-    Token = (await deployContract(name, params, deployer)) as MyERC20;
+    ({ deployer, user1, user2, PaymentToken, Token } = await loadFixture(
+      myERC20Fixture
+    ));
   });
 
   describe("Deploy Tests", () => {
@@ -379,6 +371,162 @@ describe("MyERC20 Tests", () => {
           expect(await PaymentToken.balanceOf(Token.address)).to.equal(0);
         });
       });
+
+      describe("Merkle Allowlist Sale", () => {
+        let tree: MerkleTree;
+        const getProof = (address: string) => tree.entries[address].proof;
+
+        beforeEach(async () => {
+          const [, , , user3] = await ethers.getSigners();
+          tree = buildMerkleTree("erc20", [
+            [user1.address],
+            [deployer.address],
+            [user3.address],
+          ]);
+
+          await Token.connect(deployer).setMerkleRoot(tree.root);
+          await Token.connect(deployer).toggleIsWhitelistedSale();
+          expect(await Token.isWhitelistedSale()).to.equal(true);
+        });
+
+        it("Should verify the proofs of the tree on and off chain", async () => {
+          for (const [address, { leaf, proof }] of Object.entries(
+            tree.entries
+          )) {
+            expect(verifyMerkleProof(tree.root, leaf, proof)).to.equal(true);
+            expect(await Token.isAllowlisted(address, proof)).to.equal(true);
+          }
+
+          expect(
+            await Token.isAllowlisted(user2.address, getProof(user1.address))
+          ).to.equal(false);
+          expect(await Token.isAllowlisted(user1.address, [])).to.equal(false);
+        });
+
+        it("Should buy tokens with a valid proof and update the balance", async () => {
+          const ethAmount = parseEther(5);
+          expect(await Token.isWhitelisted(user1.address)).to.equal(false);
+
+          const purchasedTokensAmount = calcPurchasedTokens(
+            ethAmount,
+            decimals,
+            tokenPrice
+          );
+
+          await expect(
+            Token.connect(user1).buyTokensWithProof(getProof(user1.address), {
+              value: ethAmount,
+            })
+          )
+            .to.be.emit(Token, "PurchaseTokens")
+            .withArgs(user1.address, purchasedTokensAmount, ethAmount);
+
+          expect(Number(await Token.balanceOf(user1.address))).to.equal(
+            purchasedTokensAmount
+          );
+        });
+
+        it("Should revert buy tokens when the proof is invalid or of another wallet", async () => {
+          const ethAmount = parseEther(5);
+
+          await expect(
+            Token.connect(user2).buyTokensWithProof(getProof(user1.address), {
+              value: ethAmount,
+            })
+          ).to.be.revertedWith("User is not authorized to purchase");
+          await expect(
+            Token.connect(user2).buyTokensWithProof([], { value: ethAmount })
+          ).to.be.revertedWith("User is not authorized to purchase");
+
+          expect(await Token.balanceOf(user2.address)).to.equal(0);
+        });
+
+        it("Should buy tokens with proof when whitelisted or when the sale is public", async () => {
+          const ethAmount = parseEther(1);
+
+          await Token.connect(deployer).updateWhitelist([user2.address], true);
+          await expect(
+            Token.connect(user2).buyTokensWithProof([], { value: ethAmount })
+          ).to.be.emit(Token, "PurchaseTokens");
+
+          await Token.connect(deployer).updateWhitelist([user2.address], false);
+          await Token.connect(deployer).toggleIsWhitelistedSale();
+          await expect(
+            Token.connect(user2).buyTokensWithProof([], { value: ethAmount })
+          ).to.be.emit(Token, "PurchaseTokens");
+        });
+
+        it("Should revert buy tokens with proof when buyer exceed buy limit", async () => {
+          const buyLimit = await Token.BUY_LIMIT();
+          const ethAmount = tokenPrice.mul(buyLimit.add(1));
+
+          await expect(
+            Token.connect(user1).buyTokensWithProof(getProof(user1.address), {
+              value: ethAmount,
+            })
+          ).to.be.revertedWith("Purchase exceed tokens limit");
+        });
+
+        it("Should buy tokens by ERC20 with a valid proof and update the balance", async () => {
+          const payByERC20Amount = parseEther(1);
+          await PaymentToken.connect(user1).mint(
+            user1.address,
+            parseEther(100)
+          );
+          await PaymentToken.connect(user1).approve(
+            Token.address,
+            payByERC20Amount
+          );
+
+          const purchasedTokensAmount = calcPurchasedTokens(
+            payByERC20Amount,
+            decimals,
+            erc20TokenPrice
+          );
+
+          await expect(
+            Token.connect(user1).buyTokenByERC20WithProof(
+              payByERC20Amount,
+              getProof(user1.address)
+            )
+          )
+            .to.be.emit(Token, "PurchaseByERC20")
+            .withArgs(
+              user1.address,
+              purchasedTokensAmount,
+              payByERC20Amount,
+              PaymentToken.address
+            );
+
+          expect(Number(await Token.balanceOf(user1.address))).to.equal(
+            purchasedTokensAmount
+          );
+          expect(await PaymentToken.balanceOf(Token.address)).to.equal(
+            payByERC20Amount
+          );
+        });
+
+        it("Should revert buy tokens by ERC20 when the proof is invalid", async () => {
+          const payByERC20Amount = parseEther(1);
+          await PaymentToken.connect(user2).mint(
+            user2.address,
+            parseEther(100)
+          );
+          await PaymentToken.connect(user2).approve(
+            Token.address,
+            payByERC20Amount
+          );
+
+          await expect(
+            Token.connect(user2).buyTokenByERC20WithProof(
+              payByERC20Amount,
+              getProof(user1.address)
+            )
+          ).to.be.revertedWith("User is not authorized to purchase");
+
+          expect(await PaymentToken.balanceOf(Token.address)).to.equal(0);
+        });
+      });
     });
 
     describe("Mint Tests", () => {
@@ -521,7 +669,11 @@ describe("MyERC20 Tests", () => {
           expect(await Token.isWhitelisted(user1.address)).to.equal(true);
           expect(await Token.isWhitelisted(user2.address)).to.equal(true);
 
-          await Token.connect(deployer).updateWhitelist([user2.address], false);
+          await expect(
+            Token.connect(deployer).updateWhitelist([user2.address], false)
+          )
+            .to.be.emit(Token, "UpdateWhitelist")
+            .withArgs(deployer.address, user2.address, false);
           expect(await Token.isWhitelisted(user2.address)).to.equal(false);
         });
 
@@ -532,6 +684,25 @@ describe("MyERC20 Tests", () => {
           ).to.be.revertedWith("Ownable: caller is not the owner");
           expect(await Token.isWhitelisted(user2.address)).to.equal(false);
         });
+
+        it("Should set the Merkle root by owner", async () => {
+          const { root } = buildMerkleTree("erc20", [[user1.address]]);
+          expect(await Token.merkleRoot()).to.equal(ethers.constants.HashZero);
+
+          await expect(Token.connect(deployer).setMerkleRoot(root))
+            .to.be.emit(Token, "SetMerkleRoot")
+            .withArgs(deployer.address, root);
+          expect(await Token.merkleRoot()).to.equal(root);
+          expect(await Token.isAllowlisted(user1.address, [])).to.equal(true);
+        });
+
+        it("Should revert set Merkle root when the caller is not the owner", async () => {
+          const { root } = buildMerkleTree("erc20", [[user1.address]]);
+          await expect(
+            Token.connect(user1).setMerkleRoot(root)
+          ).to.be.revertedWith("Ownable: caller is not the owner");
+          expect(await Token.merkleRoot()).to.equal(ethers.constants.HashZero);
+        });
       });
 
       describe("Withdraw Tests", () => {
@@ -0,0 +1,144 @@
+import chai from "chai";
+import { BigNumber, BigNumberish, ContractTransaction, Signer } from "ethers";
+import { ethers } from "hardhat";
+
+const BALANCE_ABI = [
+  "function balanceOf(address account) view returns (uint256)",
+  "function balanceOf(address account, uint256 id) view returns (uint256)",
+];
+
+export type BalanceAccount = Signer | { address: string } | string;
+
+export interface TokenBalanceChange {
+  // an ERC20 token, or an ERC1155 token when the id is set
+  token: { address: string };
+  id?: BigNumberish;
+  change: BigNumberish;
+}
+
+export interface BalanceChange {
+  account: BalanceAccount;
+  // the gas paid by the transaction sender is left out of its change
+  eth?: BigNumberish;
+  tokens?: TokenBalanceChange[];
+}
+
+export type BalanceChangeTransaction =
+  | ContractTransaction
+  | Promise<ContractTransaction>
+  | (() => Promise<ContractTransaction>);
+
+declare global {
+  // eslint-disable-next-line @typescript-eslint/no-namespace
+  export namespace Chai {
+    interface Assertion {
+      changeBalances(changes: BalanceChange[]): Promise<void> & Assertion;
+    }
+  }
+}
+
+//function to get the address of a signer, contract or address
+const getAddress = async (account: BalanceAccount): Promise<string> => {
+  if (typeof account === "string") return ethers.utils.getAddress(account);
+  if (account instanceof Signer) return account.getAddress();
+  return account.address;
+};
+
+//function to read an ETH, ERC20 or ERC1155 balance at a block
+const getBalance = (
+  address: string,
+  blockTag: number,
+  token?: TokenBalanceChange
+): Promise<BigNumber> => {
+  if (token === undefined) {
+    return ethers.provider.getBalance(address, blockTag);
+  }
+
+  const contract = new ethers.Contract(
+    token.token.address,
+    BALANCE_ABI,
+    ethers.provider
+  );
+  return token.id === undefined
+    ? contract["balanceOf(address)"](address, { blockTag })
+    : contract["balanceOf(address,uint256)"](address, token.id, { blockTag });
+};
+
+//function to compare the balances before and after the transaction block,
+//returns a message for every change that does not match
+export const getBalanceChangeMismatches = async (
+  transaction: BalanceChangeTransaction,
+  changes: BalanceChange[]
+): Promise<string[]> => {
+  const sent = await (typeof transaction === "function"
+    ? transaction()
+    : transaction);
+  const receipt = await sent.wait();
+  const gasCost = receipt.gasUsed.mul(receipt.effectiveGasPrice);
+  const mismatches: string[] = [];
+
+  for (const { account, eth, tokens = [] } of changes) {
+    const address = await getAddress(account);
+    const expected: {
+      asset: string;
+      change: BigNumberish;
+      token?: TokenBalanceChange;
+    }[] = [
+      ...(eth === undefined ? [] : [{ asset: "ETH", change: eth }]),
+      ...tokens.map((token) => ({
+        asset:
+          token.id === undefined
+            ? `token ${token.token.address}`
+            : `token ${token.token.address} id ${token.id}`,
+        change: token.change,
+        token,
+      })),
+    ];
+
+    for (const { asset, change, token } of expected) {
+      const before = await getBalance(address, receipt.blockNumber - 1, token);
+      let actual = (await getBalance(address, receipt.blockNumber, token)).sub(
+        before
+      );
+      if (token === undefined && address === receipt.from) {
+        actual = actual.add(gasCost);
+      }
+
+      if (!actual.eq(change)) {
+        mismatches.push(
+          `${address} ${asset} balance changed by ${actual}, expected ${change}`
+        );
+      }
+    }
+  }
+
+  return mismatches;
+};
+
+//chai plugin adding the changeBalances assertion, all the changes are
+//checked against the block of the transaction
+export const balanceMatchers: Chai.ChaiPlugin = ({ Assertion }) => {
+  Assertion.addMethod(
+    "changeBalances",
+    function (this: Chai.AssertionStatic, changes: BalanceChange[]) {
+      const promise = getBalanceChangeMismatches(this._obj, changes).then(
+        (mismatches) =>
+          this.assert(
+            mismatches.length === 0,
+            `Expected the balance changes to match:\n${mismatches.join("\n")}`,
+            "Expected the balance changes not to match",
+            [],
+            mismatches,
+            false
+          )
+      );
+
+      return Object.assign(this, {
+        then: promise.then.bind(promise),
+        catch: promise.catch.bind(promise),
+      });
+    }
+  );
+};
+
+chai.use(balanceMatchers);
@@ -0,0 +1,194 @@
+import type { My1155Token } from "../../typechain-types/contracts/erc1155";
+import type { MyTokenMarket } from "../../typechain-types/contracts/marketplace";
+import type { ERC20MockToken } from "../../typechain-types/contracts/mock";
+import type { MyNFT } from "../../typechain-types/contracts/nft";
+import type { MyERC20 } from "../../typechain-types/contracts/tokens";
+import { ethers } from "hardhat";
+import { deployContract } from "./deployContract";
+import { addWeeks, createTimestampInSeconds, parseEther } from "./testHelpers";
+
+export type Fixture<T> = () => Promise<T>;
+
+interface FixtureSnapshot {
+  fixture: Fixture<unknown>;
+  snapshotId: string;
+  result: unknown;
+}
+
+// snapshots in the order they were taken, reverting to one drops the later ones
+let snapshots: FixtureSnapshot[] = [];
+
+const takeSnapshot = (): Promise<string> =>
+  ethers.provider.send("evm_snapshot", []);
+
+//function to run a fixture once, next loads revert the chain to its snapshot
+//fixtures can load other fixtures to build on top of their state, loading a
+//parent fixture drops the snapshots of its children, they run again next time
+export const loadFixture = async <T>(fixture: Fixture<T>): Promise<T> => {
+  const index = snapshots.findIndex((snapshot) => snapshot.fixture === fixture);
+
+  if (index !== -1) {
+    const snapshot = snapshots[index];
+    snapshots = snapshots.slice(0, index);
+
+    if (await ethers.provider.send("evm_revert", [snapshot.snapshotId])) {
+      snapshots.push({ ...snapshot, snapshotId: await takeSnapshot() });
+      return snapshot.result as T;
+    }
+  }
+
+  const result = await fixture();
+  snapshots.push({ fixture, snapshotId: await takeSnapshot(), result });
+
+  return result;
+};
+
+export const myERC20Params = {
+  name: "MyERC20",
+  symbol: "MRC",
+  initMintAmount: 1000,
+  tokenPrice: parseEther(0.5),
+  erc20TokenPrice: parseEther(0.5),
+  buyLimit: 10,
+  isWhitelistedSale: false,
+};
+
+export const myNFTParams = {
+  name: "MyNFT",
+  symbol: "MNFT",
+  mintPrice: parseEther(0.1),
+  maxSupply: 3,
+  limitPerUser: 2,
+  isMintEnabled: false,
+  baseURI: "https://s3.test.com/snft-test/",
+};
+
+export const my1155TokenParams = {
+  baseURI: "https://token-cdn-domain/",
+};
+
+export const myTokenMarketParams = {
+  feePercentage: 10,
+};
+
+// the offer created by marketWithOfferFixture
+export const activeOfferParams = {
+  amount: parseEther(1000),
+  price: parseEther(1),
+  expirationDate: createTimestampInSeconds(addWeeks(1)),
+};
+
+export const myERC20Fixture = async () => {
+  const [deployer, user1, user2] = await ethers.getSigners();
+
+  const PaymentToken = (await deployContract(
+    "ERC20MockToken",
+    [],
+    deployer
+  )) as ERC20MockToken;
+
+  const Token = (await deployContract(
+    "MyERC20",
+    [
+      myERC20Params.name,
+      myERC20Params.symbol,
+      myERC20Params.initMintAmount,
+      myERC20Params.tokenPrice,
+      myERC20Params.erc20TokenPrice,
+      PaymentToken.address,
+      myERC20Params.buyLimit,
+      myERC20Params.isWhitelistedSale,
+    ],
+    deployer
+  )) as MyERC20;
+
+  return { deployer, user1, user2, PaymentToken, Token };
+};
+
+export const myNFTFixture = async () => {
+  const [deployer, buyer1, buyer2, buyer3] = await ethers.getSigners();
+
+  const Token = (await deployContract(
+    "MyNFT",
+    [
+      myNFTParams.name,
+      myNFTParams.symbol,
+      myNFTParams.mintPrice,
+      myNFTParams.maxSupply,
+      myNFTParams.limitPerUser,
+      myNFTParams.isMintEnabled,
+      myNFTParams.baseURI,
+    ],
+    deployer
+  )) as MyNFT;
+
+  return { deployer, buyer1, buyer2, buyer3, Token };
+};
+
+export const my1155TokenFixture = async () => {
+  const [deployer, buyer1] = await ethers.getSigners();
+
+  const Token = (await deployContract(
+    "My1155Token",
+    [my1155TokenParams.baseURI],
+    deployer
+  )) as My1155Token;
+
+  return { deployer, buyer1, Token };
+};
+
+export const marketFixture = async () => {
+  const [deployer, seller, buyer] = await ethers.getSigners();
+
+  const MarketPlace = (await deployContract(
+    "MyTokenMarket",
+    [myTokenMarketParams.feePercentage],
+    deployer
+  )) as MyTokenMarket;
+
+  const OfferedToken = (await deployContract(
+    "ERC20MockToken",
+    [],
+    seller
+  )) as ERC20MockToken;
+
+  return { deployer, seller, buyer, MarketPlace, OfferedToken };
+};
+
+//market with one active offer of all the seller tokens
+export const marketWithOfferFixture = async () => {
+  const market = await loadFixture(marketFixture);
+  const { seller, MarketPlace, OfferedToken } = market;
+  const { amount, price, expirationDate } = activeOfferParams;
+
+  await OfferedToken.connect(seller).mint(seller.address, amount);
+  await OfferedToken.connect(seller).approve(MarketPlace.address, amount);
+  await MarketPlace.connect(seller).createOffer(
+    OfferedToken.address,
+    amount,
+    price,
+    expirationDate
+  );
+
+  return { ...market, offerId: 1 };
+};
+
+//all the contracts side by side, the fixtures are called directly because
+//loading one reverts the chain to a snapshot without the others
+export const allContractsFixture = async () => {
+  const [deployer, ...users] = await ethers.getSigners();
+  const { PaymentToken, Token: ERC20Token } = await myERC20Fixture();
+  const { Token: NFT } = await myNFTFixture();
+  const { Token: Token1155 } = await my1155TokenFixture();
+  const { MarketPlace } = await marketFixture();
+
+  return {
+    deployer,
+    users: users.slice(0, 3),
+    PaymentToken,
+    ERC20Token,
+    NFT,
+    Token1155,
+    MarketPlace,
+  };
+};
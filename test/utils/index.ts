@@ -1,3 +1,7 @@
+export * from "./balanceMatchers";
 export * from "./deployContract";
+export * from "./fixtures";
+export * from "./propertyTesting";
+export * from "./referenceModel";
 export * from "./testHelpers";
 export * from "./time";
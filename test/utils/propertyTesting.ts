@@ -0,0 +1,292 @@
+import { BigNumber } from "ethers";
+
+export type Random = () => number;
+
+export interface Arbitrary<T> {
+  generate: (random: Random) => T;
+  // smaller candidates first, the harness keeps the first one still failing
+  shrink: (value: T) => T[];
+}
+
+export interface PropertyOptions {
+  runs?: number;
+  seed?: number;
+  maxShrinks?: number;
+}
+
+export interface StatefulOptions extends PropertyOptions {
+  steps?: number;
+}
+
+export interface StatefulSpec<Action, Model, System> {
+  actions: Arbitrary<Action>;
+  // deploys or loads the system and builds the model of its initial state
+  setup: () => Promise<{ model: Model; system: System }>;
+  // sends the action and applies the expected effects to the model
+  run: (action: Action, model: Model, system: System) => Promise<void>;
+  // asserts the system state matches the model
+  check: (model: Model, system: System) => Promise<void>;
+}
+
+export class PropertyFailure<T> extends Error {
+  constructor(
+    readonly counterexample: T,
+    readonly original: T,
+    readonly seed: number,
+    readonly shrinks: number,
+    readonly cause: unknown
+  ) {
+    super(
+      `Property failed with seed ${seed} after ${shrinks} shrinks\n` +
+        `Counterexample: ${formatValue(counterexample)}\n` +
+        `Original: ${formatValue(original)}\n` +
+        `Error: ${cause instanceof Error ? cause.message : String(cause)}`
+    );
+    this.name = "PropertyFailure";
+  }
+}
+
+//function to print generated values with BigNumbers as strings
+const formatValue = (value: unknown): string =>
+  JSON.stringify(value, (_key, item) =>
+    item?.type === "BigNumber" ? BigNumber.from(item).toString() : item
+  );
+
+//function to create a seeded random generator (mulberry32)
+export const createRandom = (seed: number): Random => {
+  let state = seed >>> 0;
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+//function to get the candidates between min and value, halving the distance
+const halvingCandidates = (min: BigNumber, value: BigNumber): BigNumber[] => {
+  const candidates: BigNumber[] = [];
+
+  if (value.eq(min)) return candidates;
+  candidates.push(min);
+
+  let distance = value.sub(min).div(2);
+  while (distance.gt(0)) {
+    candidates.push(value.sub(distance));
+    distance = distance.div(2);
+  }
+  if (!value.sub(1).eq(min)) candidates.push(value.sub(1));
+
+  return candidates;
+};
+
+//arbitrary of BigNumbers in [min, max], log-uniform to hit small and large values
+export const bigNumber = (
+  min: BigNumber | number,
+  max: BigNumber | number
+): Arbitrary<BigNumber> => {
+  const lower = BigNumber.from(min);
+  const range = BigNumber.from(max).sub(lower);
+  const bits = range.toHexString().length * 4;
+
+  return {
+    generate: (random) => {
+      const length = Math.floor(random() * bits) + 1;
+      let value = BigNumber.from(0);
+      for (let i = 0; i < length; i++) {
+        value = value.mul(2).add(random() < 0.5 ? 0 : 1);
+      }
+      return lower.add(value.mod(range.add(1)));
+    },
+    shrink: (value) => halvingCandidates(lower, value),
+  };
+};
+
+//arbitrary of integers in [min, max]
+export const integer = (min: number, max: number): Arbitrary<number> => {
+  const values = bigNumber(min, max);
+
+  return {
+    generate: (random) => values.generate(random).toNumber(),
+    shrink: (value) =>
+      values.shrink(BigNumber.from(value)).map((item) => item.toNumber()),
+  };
+};
+
+//arbitrary of a single value
+export const constant = <T>(value: T): Arbitrary<T> => ({
+  generate: () => value,
+  shrink: () => [],
+});
+
+//arbitrary picking one of the given arbitraries at random
+export const oneOf = <T>(...arbitraries: Arbitrary<T>[]): Arbitrary<T> => ({
+  generate: (random) =>
+    arbitraries[Math.floor(random() * arbitraries.length)].generate(random),
+  shrink: (value) =>
+    arbitraries.reduce<T[]>(
+      (candidates, arbitrary) => candidates.concat(arbitrary.shrink(value)),
+      []
+    ),
+});
+
+//arbitrary of arrays, shrinking by removing halves, then single items
+export const array = <T>(
+  item: Arbitrary<T>,
+  minLength: number,
+  maxLength: number
+): Arbitrary<T[]> => {
+  const lengths = integer(minLength, maxLength);
+
+  return {
+    generate: (random) =>
+      Array.from({ length: lengths.generate(random) }, () =>
+        item.generate(random)
+      ),
+    shrink: (value) => {
+      const candidates: T[][] = [];
+      const half = Math.floor(value.length / 2);
+
+      if (half > 0 && value.length - half >= minLength) {
+        candidates.push(value.slice(half), value.slice(0, value.length - half));
+      }
+      if (value.length > minLength) {
+        value.forEach((_, i) =>
+          candidates.push([...value.slice(0, i), ...value.slice(i + 1)])
+        );
+      }
+      value.forEach((element, i) =>
+        item
+          .shrink(element)
+          .forEach((smaller) =>
+            candidates.push([
+              ...value.slice(0, i),
+              smaller,
+              ...value.slice(i + 1),
+            ])
+          )
+      );
+
+      return candidates;
+    },
+  };
+};
+
+//arbitrary of objects, shrinking one field at a time
+export const record = <T>(fields: {
+  [K in keyof T]: Arbitrary<T[K]>;
+}): Arbitrary<T> => {
+  const keys = Object.keys(fields) as Array<keyof T>;
+
+  return {
+    generate: (random) => {
+      const value = {} as T;
+      keys.forEach((key) => (value[key] = fields[key].generate(random)));
+      return value;
+    },
+    shrink: (value) =>
+      keys.reduce<T[]>(
+        (candidates, key) =>
+          candidates.concat(
+            fields[key]
+              .shrink(value[key])
+              .map((item) => ({ ...value, [key]: item }))
+          ),
+        []
+      ),
+  };
+};
+
+//function to run the property against the value, returns the thrown error
+const findError = async <T>(
+  property: (value: T) => Promise<void>,
+  value: T
+): Promise<unknown> => {
+  try {
+    await property(value);
+    return undefined;
+  } catch (error) {
+    return error ?? new Error("Property threw a falsy value");
+  }
+};
+
+//function to check an async property on random values, a failing value is shrunk
+//to a minimal counterexample and thrown as PropertyFailure
+export const checkProperty = async <T>(
+  arbitrary: Arbitrary<T>,
+  property: (value: T) => Promise<void>,
+  options: PropertyOptions = {}
+) => {
+  const runs = options.runs ?? Number(process.env.FUZZ_RUNS ?? 20);
+  const seed =
+    options.seed ??
+    Number(process.env.FUZZ_SEED ?? Math.floor(Math.random() * 2 ** 32));
+  const maxShrinks = options.maxShrinks ?? 500;
+  const random = createRandom(seed);
+
+  for (let run = 0; run < runs; run++) {
+    const original = arbitrary.generate(random);
+    let error = await findError(property, original);
+    if (error === undefined) continue;
+
+    let counterexample = original;
+    let shrinks = 0;
+    let attempts = 0;
+    let isShrunk = true;
+
+    while (isShrunk && attempts < maxShrinks) {
+      isShrunk = false;
+
+      for (const candidate of arbitrary.shrink(counterexample)) {
+        if (++attempts > maxShrinks) break;
+
+        const candidateError = await findError(property, candidate);
+        if (candidateError !== undefined) {
+          counterexample = candidate;
+          error = candidateError;
+          shrinks++;
+          isShrunk = true;
+          break;
+        }
+      }
+    }
+
+    throw new PropertyFailure(counterexample, original, seed, shrinks, error);
+  }
+};
+
+//function to run random action sequences against a system and its model,
+//the model must match the system after every step
+export const checkStateful = async <Action, Model, System>(
+  spec: StatefulSpec<Action, Model, System>,
+  options: StatefulOptions = {}
+) => {
+  const sequences = array(spec.actions, 1, options.steps ?? 30);
+
+  await checkProperty(
+    sequences,
+    async (actions) => {
+      const { model, system } = await spec.setup();
+
+      for (const [step, action] of actions.entries()) {
+        try {
+          await spec.run(action, model, system);
+          await spec.check(model, system);
+        } catch (error) {
+          throw new Error(
+            `Step ${step + 1} ${formatValue(action)}: ${
+              error instanceof Error ? error.message : String(error)
+            }`
+          );
+        }
+      }
+    },
+    {
+      runs: Number(process.env.INVARIANT_RUNS ?? 5),
+      maxShrinks: 100,
+      ...options,
+    }
+  );
+};
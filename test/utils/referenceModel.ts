@@ -0,0 +1,789 @@
+import type { SignerWithAddress } from "@nomiclabs/hardhat-ethers/signers";
+import type { My1155Token } from "../../typechain-types/contracts/erc1155";
+import type { MyTokenMarket } from "../../typechain-types/contracts/marketplace";
+import type { MyNFT } from "../../typechain-types/contracts/nft";
+import type { MyERC20 } from "../../typechain-types/contracts/tokens";
+import { BigNumber, ContractTransaction } from "ethers";
+import { ethers } from "hardhat";
+import { expect } from "chai";
+import { allContractsFixture, loadFixture } from "./fixtures";
+import {
+  Arbitrary,
+  StatefulSpec,
+  bigNumber,
+  integer,
+  record,
+} from "./propertyTesting";
+import { parseEther } from "./testHelpers";
+import { duration, increaseTime, latestBlockTimestamp } from "./time";
+
+// actor 0 is the owner of all the contracts, 1-3 are users
+const USER = integer(1, 3);
+const ANY_ACTOR = integer(0, 3);
+const TOKEN_IDS = integer(1, 6);
+const ITEM_IDS = integer(1, 2);
+const OFFER_IDS = integer(1, 3);
+const BOOLEAN = integer(0, 1);
+const ONE_TOKEN = parseEther(1);
+
+// generated actions with their relative weight
+const ACTIONS = {
+  "erc20.buy": [record({ actor: USER, tenths: integer(1, 60) }), 2],
+  "erc20.mint": [record({ to: USER, tokens: integer(1, 1000) }), 3],
+  "erc20.transfer": [
+    record({
+      from: ANY_ACTOR,
+      to: ANY_ACTOR,
+      amount: bigNumber(1, parseEther(100)),
+    }),
+    2,
+  ],
+  "erc20.burn": [
+    record({ actor: ANY_ACTOR, amount: bigNumber(1, parseEther(100)) }),
+    1,
+  ],
+  "erc20.withdraw": [record({}), 1],
+  "nft.toggle": [record({ enabled: BOOLEAN }), 1],
+  "nft.setMaxSupply": [record({ maxSupply: integer(0, 6) }), 1],
+  "nft.purchase": [record({ actor: USER }), 3],
+  "nft.transfer": [
+    record({ from: ANY_ACTOR, to: ANY_ACTOR, tokenId: TOKEN_IDS }),
+    2,
+  ],
+  "nft.burn": [record({ actor: ANY_ACTOR, tokenId: TOKEN_IDS }), 1],
+  "nft.withdraw": [record({}), 1],
+  "erc1155.mint": [
+    record({
+      id: ITEM_IDS,
+      amount: integer(1, 100),
+      price: bigNumber(0, parseEther(0.01)),
+    }),
+    2,
+  ],
+  "erc1155.buy": [
+    record({ actor: USER, id: ITEM_IDS, amount: integer(0, 10) }),
+    3,
+  ],
+  "erc1155.transfer": [
+    record({
+      from: ANY_ACTOR,
+      to: ANY_ACTOR,
+      id: ITEM_IDS,
+      amount: integer(1, 20),
+    }),
+    2,
+  ],
+  "erc1155.burn": [
+    record({ actor: ANY_ACTOR, id: ITEM_IDS, amount: integer(1, 20) }),
+    1,
+  ],
+  "erc1155.withdraw": [record({}), 1],
+  "market.create": [
+    record({
+      seller: USER,
+      tokens: integer(1, 50),
+      price: bigNumber(1, parseEther(0.01)),
+      hours: integer(1, 72),
+    }),
+    3,
+  ],
+  "market.buy": [
+    record({ buyer: USER, offerId: OFFER_IDS, tokens: integer(0, 5) }),
+    4,
+  ],
+  "market.toggle": [
+    record({ actor: ANY_ACTOR, offerId: OFFER_IDS, active: BOOLEAN }),
+    1,
+  ],
+  "market.reprice": [
+    record({
+      actor: ANY_ACTOR,
+      offerId: OFFER_IDS,
+      price: bigNumber(1, parseEther(0.01)),
+    }),
+    1,
+  ],
+  time: [record({ hours: integer(1, 72) }), 2],
+} as const;
+
+type ActionType = keyof typeof ACTIONS;
+
+type ActionFields<K extends ActionType> =
+  typeof ACTIONS[K][0] extends Arbitrary<infer T> ? T : never;
+
+export type ModelAction = {
+  [K in ActionType]: { type: K } & ActionFields<K>;
+}[ActionType];
+
+export interface ModelOffer {
+  seller: string;
+  amount: BigNumber;
+  price: BigNumber;
+  expirationDate: number;
+  isActive: boolean;
+}
+
+export interface ReferenceModel {
+  eth: Record<string, BigNumber>;
+  erc20: {
+    balances: Record<string, BigNumber>;
+    totalSupply: BigNumber;
+    tokenPrice: BigNumber;
+    buyLimit: BigNumber;
+  };
+  nft: {
+    isMintEnabled: boolean;
+    maxSupply: number;
+    limitPerUser: number;
+    mintPrice: BigNumber;
+    counter: number;
+    owners: Record<number, string>;
+    minted: Record<string, number>;
+  };
+  erc1155: {
+    balances: Record<number, Record<string, number>>;
+    supply: Record<number, number>;
+    prices: Record<number, BigNumber>;
+  };
+  market: {
+    feePercentage: number;
+    offers: Record<number, ModelOffer>;
+    offersCount: number;
+  };
+}
+
+export interface ModelSystem {
+  actors: SignerWithAddress[];
+  ERC20Token: MyERC20;
+  NFT: MyNFT;
+  Token1155: My1155Token;
+  MarketPlace: MyTokenMarket;
+}
+
+//arbitrary of the actions sent by the reference model harness
+export const modelActions: Arbitrary<ModelAction> = {
+  generate: (random) => {
+    const types = Object.keys(ACTIONS) as ActionType[];
+    const total = types.reduce((sum, type) => sum + ACTIONS[type][1], 0);
+    let pick = random() * total;
+    const type =
+      types.find((item) => (pick -= ACTIONS[item][1]) < 0) ??
+      types[types.length - 1];
+
+    return {
+      type,
+      ...(ACTIONS[type][0] as Arbitrary<object>).generate(random),
+    } as ModelAction;
+  },
+  shrink: ({ type, ...fields }) =>
+    (ACTIONS[type][0] as Arbitrary<object>)
+      .shrink(fields)
+      .map((smaller) => ({ type, ...smaller } as ModelAction)),
+};
+
+//function to get a model value defaulting to 0
+const valueOf = (values: Record<string, BigNumber>, key: string) =>
+  values[key] ?? BigNumber.from(0);
+
+//function to move ETH between two model accounts
+const moveEth = (
+  model: ReferenceModel,
+  from: string,
+  to: string,
+  value: BigNumber
+) => {
+  model.eth[from] = valueOf(model.eth, from).sub(value);
+  model.eth[to] = valueOf(model.eth, to).add(value);
+};
+
+//function to wait for a transaction and charge its gas to the sender
+const send = async (
+  model: ReferenceModel,
+  sender: SignerWithAddress,
+  transaction: Promise<ContractTransaction>
+) => {
+  const receipt = await (await transaction).wait();
+  model.eth[sender.address] = valueOf(model.eth, sender.address).sub(
+    receipt.gasUsed.mul(receipt.effectiveGasPrice)
+  );
+};
+
+//function to check a transaction the model expects to revert
+const expectRevert = async (
+  model: ReferenceModel,
+  transaction: Promise<ContractTransaction>,
+  reason: string
+) => {
+  await expect(transaction).to.be.revertedWith(reason);
+
+  // hardhat mines reverted transactions, their gas is still paid
+  const { transactions } = await ethers.provider.getBlock("latest");
+  const receipt = await ethers.provider.getTransactionReceipt(transactions[0]);
+  if (receipt.status === 0) {
+    model.eth[receipt.from] = valueOf(model.eth, receipt.from).sub(
+      receipt.gasUsed.mul(receipt.effectiveGasPrice)
+    );
+  }
+};
+
+//function to build the model from the freshly deployed contracts
+export const setupReferenceModel = async () => {
+  const { deployer, users, ERC20Token, NFT, Token1155, MarketPlace } =
+    await loadFixture(allContractsFixture);
+  const actors = [deployer, ...users];
+  const accounts = [
+    ...actors.map(({ address }) => address),
+    ERC20Token.address,
+    NFT.address,
+    Token1155.address,
+    MarketPlace.address,
+  ];
+
+  const model: ReferenceModel = {
+    eth: {},
+    erc20: {
+      balances: {},
+      totalSupply: await ERC20Token.totalSupply(),
+      tokenPrice: await ERC20Token.TOKEN_PRICE(),
+      buyLimit: await ERC20Token.BUY_LIMIT(),
+    },
+    nft: {
+      isMintEnabled: await NFT.isMintEnabled(),
+      maxSupply: (await NFT.maxSupply()).toNumber(),
+      limitPerUser: (await NFT.limitPerUser()).toNumber(),
+      mintPrice: await NFT.mintPrice(),
+      counter: 0,
+      owners: {},
+      minted: {},
+    },
+    erc1155: { balances: { 1: {}, 2: {} }, supply: {}, prices: {} },
+    market: {
+      feePercentage: (await MarketPlace.feePercentage()).toNumber(),
+      offers: {},
+      offersCount: 0,
+    },
+  };
+
+  for (const address of accounts) {
+    model.eth[address] = await ethers.provider.getBalance(address);
+    model.erc20.balances[address] = await ERC20Token.balanceOf(address);
+  }
+
+  // buyToken transfers the items from the owner
+  for (const user of users) {
+    await send(
+      model,
+      deployer,
+      Token1155.connect(deployer).setApprovalForAll(user.address, true)
+    );
+  }
+
+  return {
+    model,
+    system: { actors, ERC20Token, NFT, Token1155, MarketPlace },
+  };
+};
+
+//function to send an action and apply its expected effects to the model
+export const runModelAction = async (
+  action: ModelAction,
+  model: ReferenceModel,
+  system: ModelSystem
+) => {
+  const { actors, ERC20Token, NFT, Token1155, MarketPlace } = system;
+  const [owner] = actors;
+  const { erc20, nft, erc1155, market } = model;
+
+  switch (action.type) {
+    case "erc20.buy": {
+      const buyer = actors[action.actor];
+      const value = parseEther(0.1).mul(action.tenths);
+      const amount = value.div(erc20.tokenPrice);
+      const transaction = ERC20Token.connect(buyer).buyTokens({ value });
+
+      if (amount.gt(erc20.buyLimit)) {
+        return expectRevert(model, transaction, "Purchase exceed tokens limit");
+      }
+
+      await send(model, buyer, transaction);
+      moveEth(model, buyer.address, ERC20Token.address, value);
+      erc20.balances[buyer.address] = valueOf(
+        erc20.balances,
+        buyer.address
+      ).add(amount);
+      erc20.totalSupply = erc20.totalSupply.add(amount);
+      return;
+    }
+    case "erc20.mint": {
+      const to = actors[action.to].address;
+      const amount = ONE_TOKEN.mul(action.tokens);
+
+      await send(model, owner, ERC20Token.connect(owner).mint(to, amount));
+      erc20.balances[to] = valueOf(erc20.balances, to).add(amount);
+      erc20.totalSupply = erc20.totalSupply.add(amount);
+      return;
+    }
+    case "erc20.transfer": {
+      const from = actors[action.from];
+      const to = actors[action.to].address;
+      const transaction = ERC20Token.connect(from).transfer(to, action.amount);
+
+      if (valueOf(erc20.balances, from.address).lt(action.amount)) {
+        return expectRevert(
+          model,
+          transaction,
+          "ERC20: transfer amount exceeds balance"
+        );
+      }
+
+      await send(model, from, transaction);
+      erc20.balances[from.address] = erc20.balances[from.address].sub(
+        action.amount
+      );
+      erc20.balances[to] = valueOf(erc20.balances, to).add(action.amount);
+      return;
+    }
+    case "erc20.burn": {
+      const holder = actors[action.actor];
+      const transaction = ERC20Token.connect(holder).burn(action.amount);
+
+      if (valueOf(erc20.balances, holder.address).lt(action.amount)) {
+        return expectRevert(
+          model,
+          transaction,
+          "ERC20: burn amount exceeds balance"
+        );
+      }
+
+      await send(model, holder, transaction);
+      erc20.balances[holder.address] = erc20.balances[holder.address].sub(
+        action.amount
+      );
+      erc20.totalSupply = erc20.totalSupply.sub(action.amount);
+      return;
+    }
+    case "erc20.withdraw": {
+      const balance = valueOf(model.eth, ERC20Token.address);
+      const transaction = ERC20Token.connect(owner).withdrawFunds();
+
+      if (balance.isZero()) {
+        return expectRevert(
+          model,
+          transaction,
+          "There are no funds to be withdraw"
+        );
+      }
+
+      await send(model, owner, transaction);
+      moveEth(model, ERC20Token.address, owner.address, balance);
+      return;
+    }
+    case "nft.toggle": {
+      const enabled = action.enabled === 1;
+
+      await send(model, owner, NFT.connect(owner).toggleIsSaleEnabled(enabled));
+      nft.isMintEnabled = enabled;
+      return;
+    }
+    case "nft.setMaxSupply": {
+      await send(
+        model,
+        owner,
+        NFT.connect(owner).setMaxSupply(action.maxSupply)
+      );
+      nft.maxSupply = action.maxSupply;
+      return;
+    }
+    case "nft.purchase": {
+      const buyer = actors[action.actor];
+      const transaction = NFT.connect(buyer).purchaseToken({
+        value: nft.mintPrice,
+      });
+
+      if (!nft.isMintEnabled) {
+        return expectRevert(model, transaction, "Sales not open");
+      }
+      if (nft.counter >= nft.maxSupply) {
+        return expectRevert(model, transaction, "Tokens sold out");
+      }
+      if ((nft.minted[buyer.address] ?? 0) >= nft.limitPerUser) {
+        return expectRevert(
+          model,
+          transaction,
+          "Exceeds max tokens per wallet"
+        );
+      }
+
+      await send(model, buyer, transaction);
+      moveEth(model, buyer.address, NFT.address, nft.mintPrice);
+      nft.counter++;
+      nft.owners[nft.counter] = buyer.address;
+      nft.minted[buyer.address] = (nft.minted[buyer.address] ?? 0) + 1;
+      return;
+    }
+    case "nft.transfer":
+    case "nft.burn": {
+      const sender =
+        actors[action.type === "nft.burn" ? action.actor : action.from];
+      const to =
+        action.type === "nft.burn" ? undefined : actors[action.to].address;
+      const tokenOwner = nft.owners[action.tokenId];
+      const transaction =
+        to === undefined
+          ? NFT.connect(sender).burn(action.tokenId)
+          : NFT.connect(sender).transferFrom(
+              sender.address,
+              to,
+              action.tokenId
+            );
+
+      if (tokenOwner === undefined) {
+        return expectRevert(model, transaction, "ERC721: invalid token ID");
+      }
+      if (tokenOwner !== sender.address) {
+        return expectRevert(
+          model,
+          transaction,
+          "ERC721: caller is not token owner nor approved"
+        );
+      }
+
+      await send(model, sender, transaction);
+      if (to === undefined) {
+        delete nft.owners[action.tokenId];
+      } else {
+        nft.owners[action.tokenId] = to;
+      }
+      return;
+    }
+    case "nft.withdraw": {
+      const balance = valueOf(model.eth, NFT.address);
+      const transaction = NFT.connect(owner).withdrawFunds();
+
+      if (balance.isZero()) {
+        return expectRevert(
+          model,
+          transaction,
+          "There are no funds to be withdraw"
+        );
+      }
+
+      await send(model, owner, transaction);
+      moveEth(model, NFT.address, owner.address, balance);
+      return;
+    }
+    case "erc1155.mint": {
+      const { id, amount, price } = action;
+
+      await send(
+        model,
+        owner,
+        Token1155.connect(owner).mint(id, amount, price, "0x")
+      );
+      erc1155.balances[id][owner.address] =
+        (erc1155.balances[id][owner.address] ?? 0) + amount;
+      erc1155.supply[id] = (erc1155.supply[id] ?? 0) + amount;
+      erc1155.prices[id] = price;
+      return;
+    }
+    case "erc1155.buy": {
+      const { id, amount } = action;
+      const buyer = actors[action.actor];
+      const value = (erc1155.prices[id] ?? BigNumber.from(0)).mul(amount);
+      const transaction = Token1155.connect(buyer).buyToken(id, amount, {
+        value,
+      });
+
+      if (!erc1155.supply[id]) {
+        return expectRevert(model, transaction, "Token does not exist");
+      }
+      if ((erc1155.balances[id][owner.address] ?? 0) < amount) {
+        return expectRevert(model, transaction, "Not enough tokens");
+      }
+
+      await send(model, buyer, transaction);
+      moveEth(model, buyer.address, Token1155.address, value);
+      erc1155.balances[id][owner.address] -= amount;
+      erc1155.balances[id][buyer.address] =
+        (erc1155.balances[id][buyer.address] ?? 0) + amount;
+      return;
+    }
+    case "erc1155.transfer":
+    case "erc1155.burn": {
+      const { id, amount } = action;
+      const holder =
+        actors[action.type === "erc1155.burn" ? action.actor : action.from];
+      const to =
+        action.type === "erc1155.burn" ? undefined : actors[action.to].address;
+      const transaction =
+        to === undefined
+          ? Token1155.connect(holder).burn(holder.address, id, amount)
+          : Token1155.connect(holder).safeTransferFrom(
+              holder.address,
+              to,
+              id,
+              amount,
+              "0x"
+            );
+
+      // ERC1155Supply checks the supply before the balance on burns
+      if (to === undefined && (erc1155.supply[id] ?? 0) < amount) {
+        return expectRevert(
+          model,
+          transaction,
+          "ERC1155: burn amount exceeds totalSupply"
+        );
+      }
+      if ((erc1155.balances[id][holder.address] ?? 0) < amount) {
+        return expectRevert(
+          model,
+          transaction,
+          to === undefined
+            ? "ERC1155: burn amount exceeds balance"
+            : "ERC1155: insufficient balance for transfer"
+        );
+      }
+
+      await send(model, holder, transaction);
+      erc1155.balances[id][holder.address] -= amount;
+      if (to === undefined) {
+        erc1155.supply[id] -= amount;
+      } else {
+        erc1155.balances[id][to] = (erc1155.balances[id][to] ?? 0) + amount;
+      }
+      return;
+    }
+    case "erc1155.withdraw": {
+      const balance = valueOf(model.eth, Token1155.address);
+      const transaction = Token1155.connect(owner).withdrawFunds();
+
+      if (balance.isZero()) {
+        return expectRevert(
+          model,
+          transaction,
+          "There are no funds to be withdraw"
+        );
+      }
+
+      await send(model, owner, transaction);
+      moveEth(model, Token1155.address, owner.address, balance);
+      return;
+    }
+    case "market.create": {
+      const seller = actors[action.seller];
+      const amount = ONE_TOKEN.mul(action.tokens);
+      const expirationDate =
+        (await latestBlockTimestamp()) + action.hours * 60 * 60;
+
+      await send(
+        model,
+        seller,
+        ERC20Token.connect(seller).approve(MarketPlace.address, amount)
+      );
+      const transaction = MarketPlace.connect(seller).createOffer(
+        ERC20Token.address,
+        amount,
+        action.price,
+        expirationDate
+      );
+
+      if (valueOf(erc20.balances, seller.address).lt(amount)) {
+        return expectRevert(model, transaction, "Insufficient balance");
+      }
+
+      await send(model, seller, transaction);
+      erc20.balances[seller.address] =
+        erc20.balances[seller.address].sub(amount);
+      erc20.balances[MarketPlace.address] = valueOf(
+        erc20.balances,
+        MarketPlace.address
+      ).add(amount);
+      market.offers[++market.offersCount] = {
+        seller: seller.address,
+        amount,
+        price: action.price,
+        expirationDate,
+        isActive: true,
+      };
+      return;
+    }
+    case "market.buy": {
+      const buyer = actors[action.buyer];
+      const offer = market.offers[action.offerId];
+      const value = (offer?.price ?? BigNumber.from(0)).mul(action.tokens);
+      const deducted = ONE_TOKEN.mul(action.tokens);
+      const transaction = MarketPlace.connect(buyer).buyTokens(action.offerId, {
+        value,
+      });
+
+      if (offer === undefined) {
+        return expectRevert(model, transaction, "Offer does not exist");
+      }
+      if (!offer.isActive) {
+        return expectRevert(model, transaction, "Offer is not active");
+      }
+      if (offer.expirationDate <= (await latestBlockTimestamp()) + 1) {
+        return expectRevert(model, transaction, "Offer expired");
+      }
+      if (offer.seller === buyer.address) {
+        return expectRevert(model, transaction, "Offer does belong to you");
+      }
+      if (offer.amount.lt(deducted)) {
+        return expectRevert(model, transaction, "Insufficient sale amount");
+      }
+
+      await send(model, buyer, transaction);
+      const fee = value.mul(market.feePercentage).div(100);
+      moveEth(model, buyer.address, offer.seller, value.sub(fee));
+      moveEth(model, buyer.address, owner.address, fee);
+      // the offer is charged whole tokens but the buyer gets base units
+      offer.amount = offer.amount.sub(deducted);
+      erc20.balances[MarketPlace.address] = erc20.balances[
+        MarketPlace.address
+      ].sub(action.tokens);
+      erc20.balances[buyer.address] = valueOf(
+        erc20.balances,
+        buyer.address
+      ).add(action.tokens);
+      return;
+    }
+    case "market.toggle": {
+      const sender = actors[action.actor];
+      const offer = market.offers[action.offerId];
+      const transaction = MarketPlace.connect(sender).toggleOfferIsActive(
+        action.offerId,
+        action.active === 1
+      );
+
+      if (offer === undefined) {
+        return expectRevert(model, transaction, "Offer does not exist");
+      }
+      if (sender.address !== offer.seller && sender.address !== owner.address) {
+        return expectRevert(
+          model,
+          transaction,
+          "Only seller can toggle offer status"
+        );
+      }
+
+      await send(model, sender, transaction);
+      offer.isActive = action.active === 1;
+      return;
+    }
+    case "market.reprice": {
+      const sender = actors[action.actor];
+      const offer = market.offers[action.offerId];
+      const transaction = MarketPlace.connect(sender).changeOfferPrice(
+        action.offerId,
+        action.price
+      );
+
+      if (offer === undefined) {
+        return expectRevert(model, transaction, "Offer does not exist");
+      }
+      if (sender.address !== offer.seller) {
+        return expectRevert(model, transaction, "Only seller can change price");
+      }
+
+      await send(model, sender, transaction);
+      offer.price = action.price;
+      return;
+    }
+    case "time": {
+      await increaseTime(duration.hours(action.hours));
+      return;
+    }
+  }
+};
+
+//function to assert the contracts state matches the model
+export const checkReferenceModel = async (
+  model: ReferenceModel,
+  system: ModelSystem
+) => {
+  const { actors, ERC20Token, NFT, Token1155, MarketPlace } = system;
+  const { erc20, nft, erc1155, market } = model;
+
+  for (const [address, balance] of Object.entries(model.eth)) {
+    expect(
+      await ethers.provider.getBalance(address),
+      `ETH balance of ${address}`
+    ).to.equal(balance);
+  }
+
+  for (const [address, balance] of Object.entries(erc20.balances)) {
+    expect(
+      await ERC20Token.balanceOf(address),
+      `MyERC20 balance of ${address}`
+    ).to.equal(balance);
+  }
+  expect(await ERC20Token.totalSupply(), "MyERC20 totalSupply").to.equal(
+    erc20.totalSupply
+  );
+
+  const nftOwners = Object.entries(nft.owners);
+  expect(await NFT.totalSupply(), "MyNFT totalSupply").to.equal(
+    nftOwners.length
+  );
+  for (const [tokenId, tokenOwner] of nftOwners) {
+    expect(await NFT.ownerOf(tokenId), `MyNFT owner of ${tokenId}`).to.equal(
+      tokenOwner
+    );
+  }
+  for (const { address } of actors) {
+    expect(
+      await NFT.balanceOf(address),
+      `MyNFT balance of ${address}`
+    ).to.equal(
+      nftOwners.filter(([, tokenOwner]) => tokenOwner === address).length
+    );
+  }
+  expect(await NFT.isMintEnabled(), "MyNFT isMintEnabled").to.equal(
+    nft.isMintEnabled
+  );
+  expect(await NFT.maxSupply(), "MyNFT maxSupply").to.equal(nft.maxSupply);
+
+  for (const [id, balances] of Object.entries(erc1155.balances)) {
+    expect(
+      await Token1155.totalSupply(id),
+      `My1155Token totalSupply of ${id}`
+    ).to.equal(erc1155.supply[Number(id)] ?? 0);
+    expect(
+      await Token1155.tokenPrice(id),
+      `My1155Token price of ${id}`
+    ).to.equal(erc1155.prices[Number(id)] ?? 0);
+    for (const { address } of actors) {
+      expect(
+        await Token1155.balanceOf(address, id),
+        `My1155Token ${id} balance of ${address}`
+      ).to.equal(balances[address] ?? 0);
+    }
+  }
+
+  expect(await MarketPlace.offersCount(), "MyTokenMarket offersCount").to.equal(
+    market.offersCount
+  );
+  for (const [offerId, offer] of Object.entries(market.offers)) {
+    const onChain = await MarketPlace.offers(offerId);
+    expect(onChain.seller, `offer ${offerId} seller`).to.equal(offer.seller);
+    expect(onChain.amount, `offer ${offerId} amount`).to.equal(offer.amount);
+    expect(onChain.price, `offer ${offerId} price`).to.equal(offer.price);
+    expect(onChain.isActive, `offer ${offerId} isActive`).to.equal(
+      offer.isActive
+    );
+    expect(onChain.expirationDate, `offer ${offerId} expirationDate`).to.equal(
+      offer.expirationDate
+    );
+  }
+};
+
+export const referenceModelSpec: StatefulSpec<
+  ModelAction,
+  ReferenceModel,
+  ModelSystem
+> = {
+  actions: modelActions,
+  setup: setupReferenceModel,
+  run: runModelAction,
+  check: checkReferenceModel,
+};
@@ -1,5 +1,9 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
 import { ethers } from "hardhat";
 import { BigNumber, ContractTransaction } from "ethers";
+import { expect } from "chai";
 
 export const parseEther = (value: number): BigNumber =>
   ethers.utils.parseEther(value.toString());
@@ -55,3 +59,24 @@ export const addWeeks = (weeks: number, date = new Date()) => {
   date.setDate(date.getDate() + weeks * 7);
   return date.toLocaleDateString().split(".").reverse().join("-");
 };
+
+//function to await a promise expected to fail with a message, returns the error
+export const expectRejection = async (
+  promise: Promise<unknown>,
+  message: string
+): Promise<Error> => {
+  try {
+    await promise;
+  } catch (error) {
+    expect((error as Error).message).to.include(message);
+    return error as Error;
+  }
+  throw new Error(`Expected a rejection with "${message}"`);
+};
+
+//function to write an input file of a task to a new temporary directory
+export const writeTempFile = (name: string, content: string): string => {
+  const file = path.join(fs.mkdtempSync(path.join(os.tmpdir(), "test-")), name);
+  fs.writeFileSync(file, content);
+  return file;
+};
@@ -28,6 +28,30 @@ import type {
   PromiseOrValue,
 } from "../../common";
 
+export declare namespace MyNFT {
+  export type MintVoucherStruct = {
+    recipient: PromiseOrValue<string>;
+    quantity: PromiseOrValue<BigNumberish>;
+    price: PromiseOrValue<BigNumberish>;
+    expiry: PromiseOrValue<BigNumberish>;
+    nonce: PromiseOrValue<BigNumberish>;
+  };
+
+  export type MintVoucherStructOutput = [
+    string,
+    BigNumber,
+    BigNumber,
+    BigNumber,
+    BigNumber
+  ] & {
+    recipient: string;
+    quantity: BigNumber;
+    price: BigNumber;
+    expiry: BigNumber;
+    nonce: BigNumber;
+  };
+}
+
 export interface MyNFTInterface extends utils.Interface {
   functions: {
     "approve(address,uint256)": FunctionFragment;
@@ -37,6 +61,8 @@ export interface MyNFTInterface extends utils.Interface {
     "getApproved(uint256)": FunctionFragment;
     "isApprovedForAll(address,address)": FunctionFragment;
     "isMintEnabled()": FunctionFragment;
+    "isPresaleAllowlisted(address,uint256,bytes32[])": FunctionFragment;
+    "isPresaleEnabled()": FunctionFragment;
     "limitPerUser()": FunctionFragment;
     "maxSupply()": FunctionFragment;
     "mintPrice()": FunctionFragment;
@@ -44,7 +70,13 @@ export interface MyNFTInterface extends utils.Interface {
     "name()": FunctionFragment;
     "owner()": FunctionFragment;
     "ownerOf(uint256)": FunctionFragment;
+    "presaleMerkleRoot()": FunctionFragment;
+    "presaleMintedWallets(address)": FunctionFragment;
+    "presalePrice()": FunctionFragment;
+    "presalePurchaseToken(uint256,bytes32[])": FunctionFragment;
     "purchaseToken()": FunctionFragment;
+    "recoverVoucherSigner((address,uint256,uint256,uint256,uint256),bytes)": FunctionFragment;
+    "redeemVoucher((address,uint256,uint256,uint256,uint256),bytes)": FunctionFragment;
     "renounceOwnership()": FunctionFragment;
     "safeTransferFrom(address,address,uint256)": FunctionFragment;
     "safeTransferFrom(address,address,uint256,bytes)": FunctionFragment;
@@ -52,8 +84,11 @@ export interface MyNFTInterface extends utils.Interface {
     "setBaseURI(string)": FunctionFragment;
     "setLimitPerUser(uint256)": FunctionFragment;
     "setMaxSupply(uint256)": FunctionFragment;
+    "setPresale(bytes32,uint256)": FunctionFragment;
+    "setVoucherSigner(address)": FunctionFragment;
     "supportsInterface(bytes4)": FunctionFragment;
     "symbol()": FunctionFragment;
+    "toggleIsPresaleEnabled(bool)": FunctionFragment;
     "toggleIsSaleEnabled(bool)": FunctionFragment;
     "tokenByIndex(uint256)": FunctionFragment;
     "tokenOfOwnerByIndex(address,uint256)": FunctionFragment;
@@ -61,6 +96,8 @@ export interface MyNFTInterface extends utils.Interface {
     "totalSupply()": FunctionFragment;
     "transferFrom(address,address,uint256)": FunctionFragment;
     "transferOwnership(address)": FunctionFragment;
+    "usedVoucherNonces(uint256)": FunctionFragment;
+    "voucherSigner()": FunctionFragment;
     "withdrawFunds()": FunctionFragment;
   };
 
@@ -73,6 +110,8 @@ export interface MyNFTInterface extends utils.Interface {
       | "getApproved"
       | "isApprovedForAll"
       | "isMintEnabled"
+      | "isPresaleAllowlisted"
+      | "isPresaleEnabled"
       | "limitPerUser"
       | "maxSupply"
       | "mintPrice"
@@ -80,7 +119,13 @@ export interface MyNFTInterface extends utils.Interface {
       | "name"
       | "owner"
       | "ownerOf"
+      | "presaleMerkleRoot"
+      | "presaleMintedWallets"
+      | "presalePrice"
+      | "presalePurchaseToken"
       | "purchaseToken"
+      | "recoverVoucherSigner"
+      | "redeemVoucher"
       | "renounceOwnership"
       | "safeTransferFrom(address,address,uint256)"
       | "safeTransferFrom(address,address,uint256,bytes)"
@@ -88,8 +133,11 @@ export interface MyNFTInterface extends utils.Interface {
       | "setBaseURI"
       | "setLimitPerUser"
       | "setMaxSupply"
+      | "setPresale"
+      | "setVoucherSigner"
       | "supportsInterface"
       | "symbol"
+      | "toggleIsPresaleEnabled"
       | "toggleIsSaleEnabled"
       | "tokenByIndex"
       | "tokenOfOwnerByIndex"
@@ -97,6 +145,8 @@ export interface MyNFTInterface extends utils.Interface {
       | "totalSupply"
       | "transferFrom"
       | "transferOwnership"
+      | "usedVoucherNonces"
+      | "voucherSigner"
       | "withdrawFunds"
   ): FunctionFragment;
 
@@ -125,6 +175,18 @@ export interface MyNFTInterface extends utils.Interface {
     functionFragment: "isMintEnabled",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "isPresaleAllowlisted",
+    values: [
+      PromiseOrValue<string>,
+      PromiseOrValue<BigNumberish>,
+      PromiseOrValue<BytesLike>[]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isPresaleEnabled",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "limitPerUser",
     values?: undefined
@@ -141,10 +203,34 @@ export interface MyNFTInterface extends utils.Interface {
     functionFragment: "ownerOf",
     values: [PromiseOrValue<BigNumberish>]
   ): string;
+  encodeFunctionData(
+    functionFragment: "presaleMerkleRoot",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "presaleMintedWallets",
+    values: [PromiseOrValue<string>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "presalePrice",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "presalePurchaseToken",
+    values: [PromiseOrValue<BigNumberish>, PromiseOrValue<BytesLike>[]]
+  ): string;
   encodeFunctionData(
     functionFragment: "purchaseToken",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "recoverVoucherSigner",
+    values: [MyNFT.MintVoucherStruct, PromiseOrValue<BytesLike>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "redeemVoucher",
+    values: [MyNFT.MintVoucherStruct, PromiseOrValue<BytesLike>]
+  ): string;
   encodeFunctionData(
     functionFragment: "renounceOwnership",
     values?: undefined
@@ -182,11 +268,23 @@ export interface MyNFTInterface extends utils.Interface {
     functionFragment: "setMaxSupply",
     values: [PromiseOrValue<BigNumberish>]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setPresale",
+    values: [PromiseOrValue<BytesLike>, PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setVoucherSigner",
+    values: [PromiseOrValue<string>]
+  ): string;
   encodeFunctionData(
     functionFragment: "supportsInterface",
     values: [PromiseOrValue<BytesLike>]
   ): string;
   encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "toggleIsPresaleEnabled",
+    values: [PromiseOrValue<boolean>]
+  ): string;
   encodeFunctionData(
     functionFragment: "toggleIsSaleEnabled",
     values: [PromiseOrValue<boolean>]
@@ -219,6 +317,14 @@ export interface MyNFTInterface extends utils.Interface {
     functionFragment: "transferOwnership",
     values: [PromiseOrValue<string>]
   ): string;
+  encodeFunctionData(
+    functionFragment: "usedVoucherNonces",
+    values: [PromiseOrValue<BigNumberish>]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "voucherSigner",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "withdrawFunds",
     values?: undefined
@@ -240,6 +346,14 @@ export interface MyNFTInterface extends utils.Interface {
     functionFragment: "isMintEnabled",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "isPresaleAllowlisted",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "isPresaleEnabled",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "limitPerUser",
     data: BytesLike
@@ -253,10 +367,34 @@ export interface MyNFTInterface extends utils.Interface {
   decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "ownerOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "presaleMerkleRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "presaleMintedWallets",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "presalePrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "presalePurchaseToken",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "purchaseToken",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "recoverVoucherSigner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "redeemVoucher",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "renounceOwnership",
     data: BytesLike
@@ -282,11 +420,20 @@ export interface MyNFTInterface extends utils.Interface {
     functionFragment: "setMaxSupply",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "setPresale", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setVoucherSigner",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "supportsInterface",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "toggleIsPresaleEnabled",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "toggleIsSaleEnabled",
     data: BytesLike
@@ -312,6 +459,14 @@ export interface MyNFTInterface extends utils.Interface {
     functionFragment: "transferOwnership",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "usedVoucherNonces",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "voucherSigner",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "withdrawFunds",
     data: BytesLike
@@ -324,6 +479,10 @@ export interface MyNFTInterface extends utils.Interface {
     "ChangeMaxSupply(address,uint256)": EventFragment;
     "MintToken(address,uint256,string)": EventFragment;
     "OwnershipTransferred(address,address)": EventFragment;
+    "RedeemVoucher(address,address,uint256,uint256)": EventFragment;
+    "SetPresale(address,bytes32,uint256)": EventFragment;
+    "SetVoucherSigner(address,address)": EventFragment;
+    "ToggleIsPresaleEnabled(address,bool)": EventFragment;
     "ToggleIsSaleEnabled(address,bool)": EventFragment;
     "Transfer(address,address,uint256)": EventFragment;
     "WithdrawFunds(address,uint256)": EventFragment;
@@ -335,6 +494,10 @@ export interface MyNFTInterface extends utils.Interface {
   getEvent(nameOrSignatureOrTopic: "ChangeMaxSupply"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "MintToken"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "OwnershipTransferred"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RedeemVoucher"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetPresale"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetVoucherSigner"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ToggleIsPresaleEnabled"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "ToggleIsSaleEnabled"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "Transfer"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "WithdrawFunds"): EventFragment;
@@ -411,6 +574,55 @@ export type OwnershipTransferredEvent = TypedEvent<
 export type OwnershipTransferredEventFilter =
   TypedEventFilter<OwnershipTransferredEvent>;
 
+export interface RedeemVoucherEventObject {
+  sender: string;
+  recipient: string;
+  nonce: BigNumber;
+  quantity: BigNumber;
+}
+export type RedeemVoucherEvent = TypedEvent<
+  [string, string, BigNumber, BigNumber],
+  RedeemVoucherEventObject
+>;
+
+export type RedeemVoucherEventFilter = TypedEventFilter<RedeemVoucherEvent>;
+
+export interface SetPresaleEventObject {
+  sender: string;
+  merkleRoot: string;
+  presalePrice: BigNumber;
+}
+export type SetPresaleEvent = TypedEvent<
+  [string, string, BigNumber],
+  SetPresaleEventObject
+>;
+
+export type SetPresaleEventFilter = TypedEventFilter<SetPresaleEvent>;
+
+export interface SetVoucherSignerEventObject {
+  sender: string;
+  voucherSigner: string;
+}
+export type SetVoucherSignerEvent = TypedEvent<
+  [string, string],
+  SetVoucherSignerEventObject
+>;
+
+export type SetVoucherSignerEventFilter =
+  TypedEventFilter<SetVoucherSignerEvent>;
+
+export interface ToggleIsPresaleEnabledEventObject {
+  sender: string;
+  isPresaleEnabled: boolean;
+}
+export type ToggleIsPresaleEnabledEvent = TypedEvent<
+  [string, boolean],
+  ToggleIsPresaleEnabledEventObject
+>;
+
+export type ToggleIsPresaleEnabledEventFilter =
+  TypedEventFilter<ToggleIsPresaleEnabledEvent>;
+
 export interface ToggleIsSaleEnabledEventObject {
   sender: string;
   isSaleEnabled: boolean;
@@ -504,6 +716,15 @@ export interface MyNFT extends BaseContract {
 
     isMintEnabled(overrides?: CallOverrides): Promise<[boolean]>;
 
+    isPresaleAllowlisted(
+      _wallet: PromiseOrValue<string>,
+      _limit: PromiseOrValue<BigNumberish>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: CallOverrides
+    ): Promise<[boolean]>;
+
+    isPresaleEnabled(overrides?: CallOverrides): Promise<[boolean]>;
+
     limitPerUser(overrides?: CallOverrides): Promise<[BigNumber]>;
 
     maxSupply(overrides?: CallOverrides): Promise<[BigNumber]>;
@@ -524,10 +745,37 @@ export interface MyNFT extends BaseContract {
       overrides?: CallOverrides
     ): Promise<[string]>;
 
+    presaleMerkleRoot(overrides?: CallOverrides): Promise<[string]>;
+
+    presaleMintedWallets(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<[BigNumber]>;
+
+    presalePrice(overrides?: CallOverrides): Promise<[BigNumber]>;
+
+    presalePurchaseToken(
+      _limit: PromiseOrValue<BigNumberish>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
     purchaseToken(
       overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
     ): Promise<ContractTransaction>;
 
+    recoverVoucherSigner(
+      _voucher: MyNFT.MintVoucherStruct,
+      _signature: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<[string]>;
+
+    redeemVoucher(
+      _voucher: MyNFT.MintVoucherStruct,
+      _signature: PromiseOrValue<BytesLike>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
     renounceOwnership(
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<ContractTransaction>;
@@ -568,6 +816,17 @@ export interface MyNFT extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<ContractTransaction>;
 
+    setPresale(
+      _merkleRoot: PromiseOrValue<BytesLike>,
+      _presalePrice: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
+    setVoucherSigner(
+      _voucherSigner: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
     supportsInterface(
       _interfaceId: PromiseOrValue<BytesLike>,
       overrides?: CallOverrides
@@ -575,6 +834,11 @@ export interface MyNFT extends BaseContract {
 
     symbol(overrides?: CallOverrides): Promise<[string]>;
 
+    toggleIsPresaleEnabled(
+      _toggleIsPresaleEnabled: PromiseOrValue<boolean>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
     toggleIsSaleEnabled(
       _toggleIsSaleEnabled: PromiseOrValue<boolean>,
       overrides?: Overrides & { from?: PromiseOrValue<string> }
@@ -610,6 +874,13 @@ export interface MyNFT extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<ContractTransaction>;
 
+    usedVoucherNonces(
+      arg0: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<[boolean]>;
+
+    voucherSigner(overrides?: CallOverrides): Promise<[string]>;
+
     withdrawFunds(
       overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
     ): Promise<ContractTransaction>;
@@ -646,6 +917,15 @@ export interface MyNFT extends BaseContract {
 
   isMintEnabled(overrides?: CallOverrides): Promise<boolean>;
 
+  isPresaleAllowlisted(
+    _wallet: PromiseOrValue<string>,
+    _limit: PromiseOrValue<BigNumberish>,
+    _proof: PromiseOrValue<BytesLike>[],
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isPresaleEnabled(overrides?: CallOverrides): Promise<boolean>;
+
   limitPerUser(overrides?: CallOverrides): Promise<BigNumber>;
 
   maxSupply(overrides?: CallOverrides): Promise<BigNumber>;
@@ -666,10 +946,37 @@ export interface MyNFT extends BaseContract {
     overrides?: CallOverrides
   ): Promise<string>;
 
+  presaleMerkleRoot(overrides?: CallOverrides): Promise<string>;
+
+  presaleMintedWallets(
+    arg0: PromiseOrValue<string>,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  presalePrice(overrides?: CallOverrides): Promise<BigNumber>;
+
+  presalePurchaseToken(
+    _limit: PromiseOrValue<BigNumberish>,
+    _proof: PromiseOrValue<BytesLike>[],
+    overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
   purchaseToken(
     overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
   ): Promise<ContractTransaction>;
 
+  recoverVoucherSigner(
+    _voucher: MyNFT.MintVoucherStruct,
+    _signature: PromiseOrValue<BytesLike>,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  redeemVoucher(
+    _voucher: MyNFT.MintVoucherStruct,
+    _signature: PromiseOrValue<BytesLike>,
+    overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
   renounceOwnership(
     overrides?: Overrides & { from?: PromiseOrValue<string> }
   ): Promise<ContractTransaction>;
@@ -710,6 +1017,17 @@ export interface MyNFT extends BaseContract {
     overrides?: Overrides & { from?: PromiseOrValue<string> }
   ): Promise<ContractTransaction>;
 
+  setPresale(
+    _merkleRoot: PromiseOrValue<BytesLike>,
+    _presalePrice: PromiseOrValue<BigNumberish>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
+  setVoucherSigner(
+    _voucherSigner: PromiseOrValue<string>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
   supportsInterface(
     _interfaceId: PromiseOrValue<BytesLike>,
     overrides?: CallOverrides
@@ -717,6 +1035,11 @@ export interface MyNFT extends BaseContract {
 
   symbol(overrides?: CallOverrides): Promise<string>;
 
+  toggleIsPresaleEnabled(
+    _toggleIsPresaleEnabled: PromiseOrValue<boolean>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
   toggleIsSaleEnabled(
     _toggleIsSaleEnabled: PromiseOrValue<boolean>,
     overrides?: Overrides & { from?: PromiseOrValue<string> }
@@ -752,6 +1075,13 @@ export interface MyNFT extends BaseContract {
     overrides?: Overrides & { from?: PromiseOrValue<string> }
   ): Promise<ContractTransaction>;
 
+  usedVoucherNonces(
+    arg0: PromiseOrValue<BigNumberish>,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  voucherSigner(overrides?: CallOverrides): Promise<string>;
+
   withdrawFunds(
     overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
   ): Promise<ContractTransaction>;
@@ -788,6 +1118,15 @@ export interface MyNFT extends BaseContract {
 
     isMintEnabled(overrides?: CallOverrides): Promise<boolean>;
 
+    isPresaleAllowlisted(
+      _wallet: PromiseOrValue<string>,
+      _limit: PromiseOrValue<BigNumberish>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isPresaleEnabled(overrides?: CallOverrides): Promise<boolean>;
+
     limitPerUser(overrides?: CallOverrides): Promise<BigNumber>;
 
     maxSupply(overrides?: CallOverrides): Promise<BigNumber>;
@@ -808,8 +1147,35 @@ export interface MyNFT extends BaseContract {
       overrides?: CallOverrides
     ): Promise<string>;
 
+    presaleMerkleRoot(overrides?: CallOverrides): Promise<string>;
+
+    presaleMintedWallets(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    presalePrice(overrides?: CallOverrides): Promise<BigNumber>;
+
+    presalePurchaseToken(
+      _limit: PromiseOrValue<BigNumberish>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     purchaseToken(overrides?: CallOverrides): Promise<void>;
 
+    recoverVoucherSigner(
+      _voucher: MyNFT.MintVoucherStruct,
+      _signature: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    redeemVoucher(
+      _voucher: MyNFT.MintVoucherStruct,
+      _signature: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     renounceOwnership(overrides?: CallOverrides): Promise<void>;
 
     "safeTransferFrom(address,address,uint256)"(
@@ -848,6 +1214,17 @@ export interface MyNFT extends BaseContract {
       overrides?: CallOverrides
     ): Promise<void>;
 
+    setPresale(
+      _merkleRoot: PromiseOrValue<BytesLike>,
+      _presalePrice: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setVoucherSigner(
+      _voucherSigner: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     supportsInterface(
       _interfaceId: PromiseOrValue<BytesLike>,
       overrides?: CallOverrides
@@ -855,6 +1232,11 @@ export interface MyNFT extends BaseContract {
 
     symbol(overrides?: CallOverrides): Promise<string>;
 
+    toggleIsPresaleEnabled(
+      _toggleIsPresaleEnabled: PromiseOrValue<boolean>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     toggleIsSaleEnabled(
       _toggleIsSaleEnabled: PromiseOrValue<boolean>,
       overrides?: CallOverrides
@@ -890,6 +1272,13 @@ export interface MyNFT extends BaseContract {
       overrides?: CallOverrides
     ): Promise<void>;
 
+    usedVoucherNonces(
+      arg0: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    voucherSigner(overrides?: CallOverrides): Promise<string>;
+
     withdrawFunds(overrides?: CallOverrides): Promise<void>;
   };
 
@@ -954,6 +1343,48 @@ export interface MyNFT extends BaseContract {
       newOwner?: PromiseOrValue<string> | null
     ): OwnershipTransferredEventFilter;
 
+    "RedeemVoucher(address,address,uint256,uint256)"(
+      sender?: PromiseOrValue<string> | null,
+      recipient?: PromiseOrValue<string> | null,
+      nonce?: null,
+      quantity?: null
+    ): RedeemVoucherEventFilter;
+    RedeemVoucher(
+      sender?: PromiseOrValue<string> | null,
+      recipient?: PromiseOrValue<string> | null,
+      nonce?: null,
+      quantity?: null
+    ): RedeemVoucherEventFilter;
+
+    "SetPresale(address,bytes32,uint256)"(
+      sender?: PromiseOrValue<string> | null,
+      merkleRoot?: null,
+      presalePrice?: null
+    ): SetPresaleEventFilter;
+    SetPresale(
+      sender?: PromiseOrValue<string> | null,
+      merkleRoot?: null,
+      presalePrice?: null
+    ): SetPresaleEventFilter;
+
+    "SetVoucherSigner(address,address)"(
+      sender?: PromiseOrValue<string> | null,
+      voucherSigner?: null
+    ): SetVoucherSignerEventFilter;
+    SetVoucherSigner(
+      sender?: PromiseOrValue<string> | null,
+      voucherSigner?: null
+    ): SetVoucherSignerEventFilter;
+
+    "ToggleIsPresaleEnabled(address,bool)"(
+      sender?: PromiseOrValue<string> | null,
+      isPresaleEnabled?: null
+    ): ToggleIsPresaleEnabledEventFilter;
+    ToggleIsPresaleEnabled(
+      sender?: PromiseOrValue<string> | null,
+      isPresaleEnabled?: null
+    ): ToggleIsPresaleEnabledEventFilter;
+
     "ToggleIsSaleEnabled(address,bool)"(
       sender?: PromiseOrValue<string> | null,
       isSaleEnabled?: null
@@ -1016,6 +1447,15 @@ export interface MyNFT extends BaseContract {
 
     isMintEnabled(overrides?: CallOverrides): Promise<BigNumber>;
 
+    isPresaleAllowlisted(
+      _wallet: PromiseOrValue<string>,
+      _limit: PromiseOrValue<BigNumberish>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isPresaleEnabled(overrides?: CallOverrides): Promise<BigNumber>;
+
     limitPerUser(overrides?: CallOverrides): Promise<BigNumber>;
 
     maxSupply(overrides?: CallOverrides): Promise<BigNumber>;
@@ -1036,10 +1476,37 @@ export interface MyNFT extends BaseContract {
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    presaleMerkleRoot(overrides?: CallOverrides): Promise<BigNumber>;
+
+    presaleMintedWallets(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    presalePrice(overrides?: CallOverrides): Promise<BigNumber>;
+
+    presalePurchaseToken(
+      _limit: PromiseOrValue<BigNumberish>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
     purchaseToken(
       overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
     ): Promise<BigNumber>;
 
+    recoverVoucherSigner(
+      _voucher: MyNFT.MintVoucherStruct,
+      _signature: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    redeemVoucher(
+      _voucher: MyNFT.MintVoucherStruct,
+      _signature: PromiseOrValue<BytesLike>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
     renounceOwnership(
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<BigNumber>;
@@ -1080,6 +1547,17 @@ export interface MyNFT extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<BigNumber>;
 
+    setPresale(
+      _merkleRoot: PromiseOrValue<BytesLike>,
+      _presalePrice: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
+    setVoucherSigner(
+      _voucherSigner: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
     supportsInterface(
       _interfaceId: PromiseOrValue<BytesLike>,
       overrides?: CallOverrides
@@ -1087,6 +1565,11 @@ export interface MyNFT extends BaseContract {
 
     symbol(overrides?: CallOverrides): Promise<BigNumber>;
 
+    toggleIsPresaleEnabled(
+      _toggleIsPresaleEnabled: PromiseOrValue<boolean>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
     toggleIsSaleEnabled(
       _toggleIsSaleEnabled: PromiseOrValue<boolean>,
       overrides?: Overrides & { from?: PromiseOrValue<string> }
@@ -1122,6 +1605,13 @@ export interface MyNFT extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<BigNumber>;
 
+    usedVoucherNonces(
+      arg0: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    voucherSigner(overrides?: CallOverrides): Promise<BigNumber>;
+
     withdrawFunds(
       overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
     ): Promise<BigNumber>;
@@ -1159,6 +1649,15 @@ export interface MyNFT extends BaseContract {
 
     isMintEnabled(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
+    isPresaleAllowlisted(
+      _wallet: PromiseOrValue<string>,
+      _limit: PromiseOrValue<BigNumberish>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isPresaleEnabled(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
     limitPerUser(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
     maxSupply(overrides?: CallOverrides): Promise<PopulatedTransaction>;
@@ -1179,10 +1678,37 @@ export interface MyNFT extends BaseContract {
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    presaleMerkleRoot(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    presaleMintedWallets(
+      arg0: PromiseOrValue<string>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    presalePrice(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    presalePurchaseToken(
+      _limit: PromiseOrValue<BigNumberish>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
     purchaseToken(
       overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
     ): Promise<PopulatedTransaction>;
 
+    recoverVoucherSigner(
+      _voucher: MyNFT.MintVoucherStruct,
+      _signature: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    redeemVoucher(
+      _voucher: MyNFT.MintVoucherStruct,
+      _signature: PromiseOrValue<BytesLike>,
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
     renounceOwnership(
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<PopulatedTransaction>;
@@ -1223,6 +1749,17 @@ export interface MyNFT extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<PopulatedTransaction>;
 
+    setPresale(
+      _merkleRoot: PromiseOrValue<BytesLike>,
+      _presalePrice: PromiseOrValue<BigNumberish>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
+    setVoucherSigner(
+      _voucherSigner: PromiseOrValue<string>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
     supportsInterface(
       _interfaceId: PromiseOrValue<BytesLike>,
       overrides?: CallOverrides
@@ -1230,6 +1767,11 @@ export interface MyNFT extends BaseContract {
 
     symbol(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
+    toggleIsPresaleEnabled(
+      _toggleIsPresaleEnabled: PromiseOrValue<boolean>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
     toggleIsSaleEnabled(
       _toggleIsSaleEnabled: PromiseOrValue<boolean>,
       overrides?: Overrides & { from?: PromiseOrValue<string> }
@@ -1265,6 +1807,13 @@ export interface MyNFT extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<PopulatedTransaction>;
 
+    usedVoucherNonces(
+      arg0: PromiseOrValue<BigNumberish>,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    voucherSigner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
     withdrawFunds(
       overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
     ): Promise<PopulatedTransaction>;
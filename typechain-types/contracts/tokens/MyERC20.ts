@@ -40,17 +40,22 @@ export interface MyERC20Interface extends utils.Interface {
     "burn(uint256)": FunctionFragment;
     "burnFrom(address,uint256)": FunctionFragment;
     "buyTokenByERC20(uint256)": FunctionFragment;
+    "buyTokenByERC20WithProof(uint256,bytes32[])": FunctionFragment;
     "buyTokens()": FunctionFragment;
+    "buyTokensWithProof(bytes32[])": FunctionFragment;
     "changeTokenPriceAndLimit(uint256,uint256,uint256)": FunctionFragment;
     "decimals()": FunctionFragment;
     "decreaseAllowance(address,uint256)": FunctionFragment;
     "increaseAllowance(address,uint256)": FunctionFragment;
+    "isAllowlisted(address,bytes32[])": FunctionFragment;
     "isWhitelisted(address)": FunctionFragment;
     "isWhitelistedSale()": FunctionFragment;
+    "merkleRoot()": FunctionFragment;
     "mint(address,uint256)": FunctionFragment;
     "name()": FunctionFragment;
     "owner()": FunctionFragment;
     "renounceOwnership()": FunctionFragment;
+    "setMerkleRoot(bytes32)": FunctionFragment;
     "symbol()": FunctionFragment;
     "toggleIsWhitelistedSale()": FunctionFragment;
     "totalSupply()": FunctionFragment;
@@ -74,17 +79,22 @@ export interface MyERC20Interface extends utils.Interface {
       | "burn"
       | "burnFrom"
       | "buyTokenByERC20"
+      | "buyTokenByERC20WithProof"
       | "buyTokens"
+      | "buyTokensWithProof"
       | "changeTokenPriceAndLimit"
       | "decimals"
       | "decreaseAllowance"
       | "increaseAllowance"
+      | "isAllowlisted"
       | "isWhitelisted"
       | "isWhitelistedSale"
+      | "merkleRoot"
       | "mint"
       | "name"
       | "owner"
       | "renounceOwnership"
+      | "setMerkleRoot"
       | "symbol"
       | "toggleIsWhitelistedSale"
       | "totalSupply"
@@ -133,7 +143,15 @@ export interface MyERC20Interface extends utils.Interface {
     functionFragment: "buyTokenByERC20",
     values: [PromiseOrValue<BigNumberish>]
   ): string;
+  encodeFunctionData(
+    functionFragment: "buyTokenByERC20WithProof",
+    values: [PromiseOrValue<BigNumberish>, PromiseOrValue<BytesLike>[]]
+  ): string;
   encodeFunctionData(functionFragment: "buyTokens", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "buyTokensWithProof",
+    values: [PromiseOrValue<BytesLike>[]]
+  ): string;
   encodeFunctionData(
     functionFragment: "changeTokenPriceAndLimit",
     values: [
@@ -151,6 +169,10 @@ export interface MyERC20Interface extends utils.Interface {
     functionFragment: "increaseAllowance",
     values: [PromiseOrValue<string>, PromiseOrValue<BigNumberish>]
   ): string;
+  encodeFunctionData(
+    functionFragment: "isAllowlisted",
+    values: [PromiseOrValue<string>, PromiseOrValue<BytesLike>[]]
+  ): string;
   encodeFunctionData(
     functionFragment: "isWhitelisted",
     values: [PromiseOrValue<string>]
@@ -159,6 +181,10 @@ export interface MyERC20Interface extends utils.Interface {
     functionFragment: "isWhitelistedSale",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "merkleRoot",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "mint",
     values: [PromiseOrValue<string>, PromiseOrValue<BigNumberish>]
@@ -169,6 +195,10 @@ export interface MyERC20Interface extends utils.Interface {
     functionFragment: "renounceOwnership",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "setMerkleRoot",
+    values: [PromiseOrValue<BytesLike>]
+  ): string;
   encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "toggleIsWhitelistedSale",
@@ -229,7 +259,15 @@ export interface MyERC20Interface extends utils.Interface {
     functionFragment: "buyTokenByERC20",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "buyTokenByERC20WithProof",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "buyTokens", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "buyTokensWithProof",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "changeTokenPriceAndLimit",
     data: BytesLike
@@ -243,6 +281,10 @@ export interface MyERC20Interface extends utils.Interface {
     functionFragment: "increaseAllowance",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "isAllowlisted",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "isWhitelisted",
     data: BytesLike
@@ -251,6 +293,7 @@ export interface MyERC20Interface extends utils.Interface {
     functionFragment: "isWhitelistedSale",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "merkleRoot", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "mint", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
@@ -258,6 +301,10 @@ export interface MyERC20Interface extends utils.Interface {
     functionFragment: "renounceOwnership",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMerkleRoot",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "toggleIsWhitelistedSale",
@@ -296,7 +343,9 @@ export interface MyERC20Interface extends utils.Interface {
     "OwnershipTransferred(address,address)": EventFragment;
     "PurchaseByERC20(address,uint256,uint256,address)": EventFragment;
     "PurchaseTokens(address,uint256,uint256)": EventFragment;
+    "SetMerkleRoot(address,bytes32)": EventFragment;
     "Transfer(address,address,uint256)": EventFragment;
+    "UpdateWhitelist(address,address,bool)": EventFragment;
     "WithdrawERC20(address,uint256,address)": EventFragment;
     "WithdrawTokens(address,uint256)": EventFragment;
   };
@@ -307,7 +356,9 @@ export interface MyERC20Interface extends utils.Interface {
   getEvent(nameOrSignatureOrTopic: "OwnershipTransferred"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "PurchaseByERC20"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "PurchaseTokens"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SetMerkleRoot"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "Transfer"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "UpdateWhitelist"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "WithdrawERC20"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "WithdrawTokens"): EventFragment;
 }
@@ -383,6 +434,17 @@ export type PurchaseTokensEvent = TypedEvent<
 
 export type PurchaseTokensEventFilter = TypedEventFilter<PurchaseTokensEvent>;
 
+export interface SetMerkleRootEventObject {
+  sender: string;
+  merkleRoot: string;
+}
+export type SetMerkleRootEvent = TypedEvent<
+  [string, string],
+  SetMerkleRootEventObject
+>;
+
+export type SetMerkleRootEventFilter = TypedEventFilter<SetMerkleRootEvent>;
+
 export interface TransferEventObject {
   from: string;
   to: string;
@@ -395,6 +457,18 @@ export type TransferEvent = TypedEvent<
 
 export type TransferEventFilter = TypedEventFilter<TransferEvent>;
 
+export interface UpdateWhitelistEventObject {
+  sender: string;
+  wallet: string;
+  isWhitelisted: boolean;
+}
+export type UpdateWhitelistEvent = TypedEvent<
+  [string, string, boolean],
+  UpdateWhitelistEventObject
+>;
+
+export type UpdateWhitelistEventFilter = TypedEventFilter<UpdateWhitelistEvent>;
+
 export interface WithdrawERC20EventObject {
   sender: string;
   amount: BigNumber;
@@ -486,10 +560,21 @@ export interface MyERC20 extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<ContractTransaction>;
 
+    buyTokenByERC20WithProof(
+      _erc20Amount: PromiseOrValue<BigNumberish>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
     buyTokens(
       overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
     ): Promise<ContractTransaction>;
 
+    buyTokensWithProof(
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
     changeTokenPriceAndLimit(
       _newPrice: PromiseOrValue<BigNumberish>,
       _newERC20Price: PromiseOrValue<BigNumberish>,
@@ -511,6 +596,12 @@ export interface MyERC20 extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<ContractTransaction>;
 
+    isAllowlisted(
+      _wallet: PromiseOrValue<string>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: CallOverrides
+    ): Promise<[boolean]>;
+
     isWhitelisted(
       _wallet: PromiseOrValue<string>,
       overrides?: CallOverrides
@@ -518,6 +609,8 @@ export interface MyERC20 extends BaseContract {
 
     isWhitelistedSale(overrides?: CallOverrides): Promise<[boolean]>;
 
+    merkleRoot(overrides?: CallOverrides): Promise<[string]>;
+
     mint(
       _to: PromiseOrValue<string>,
       _amount: PromiseOrValue<BigNumberish>,
@@ -532,6 +625,11 @@ export interface MyERC20 extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<ContractTransaction>;
 
+    setMerkleRoot(
+      _merkleRoot: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<ContractTransaction>;
+
     symbol(overrides?: CallOverrides): Promise<[string]>;
 
     toggleIsWhitelistedSale(
@@ -614,10 +712,21 @@ export interface MyERC20 extends BaseContract {
     overrides?: Overrides & { from?: PromiseOrValue<string> }
   ): Promise<ContractTransaction>;
 
+  buyTokenByERC20WithProof(
+    _erc20Amount: PromiseOrValue<BigNumberish>,
+    _proof: PromiseOrValue<BytesLike>[],
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
   buyTokens(
     overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
   ): Promise<ContractTransaction>;
 
+  buyTokensWithProof(
+    _proof: PromiseOrValue<BytesLike>[],
+    overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
   changeTokenPriceAndLimit(
     _newPrice: PromiseOrValue<BigNumberish>,
     _newERC20Price: PromiseOrValue<BigNumberish>,
@@ -639,6 +748,12 @@ export interface MyERC20 extends BaseContract {
     overrides?: Overrides & { from?: PromiseOrValue<string> }
   ): Promise<ContractTransaction>;
 
+  isAllowlisted(
+    _wallet: PromiseOrValue<string>,
+    _proof: PromiseOrValue<BytesLike>[],
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
   isWhitelisted(
     _wallet: PromiseOrValue<string>,
     overrides?: CallOverrides
@@ -646,6 +761,8 @@ export interface MyERC20 extends BaseContract {
 
   isWhitelistedSale(overrides?: CallOverrides): Promise<boolean>;
 
+  merkleRoot(overrides?: CallOverrides): Promise<string>;
+
   mint(
     _to: PromiseOrValue<string>,
     _amount: PromiseOrValue<BigNumberish>,
@@ -660,6 +777,11 @@ export interface MyERC20 extends BaseContract {
     overrides?: Overrides & { from?: PromiseOrValue<string> }
   ): Promise<ContractTransaction>;
 
+  setMerkleRoot(
+    _merkleRoot: PromiseOrValue<BytesLike>,
+    overrides?: Overrides & { from?: PromiseOrValue<string> }
+  ): Promise<ContractTransaction>;
+
   symbol(overrides?: CallOverrides): Promise<string>;
 
   toggleIsWhitelistedSale(
@@ -742,8 +864,19 @@ export interface MyERC20 extends BaseContract {
       overrides?: CallOverrides
     ): Promise<void>;
 
+    buyTokenByERC20WithProof(
+      _erc20Amount: PromiseOrValue<BigNumberish>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     buyTokens(overrides?: CallOverrides): Promise<void>;
 
+    buyTokensWithProof(
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     changeTokenPriceAndLimit(
       _newPrice: PromiseOrValue<BigNumberish>,
       _newERC20Price: PromiseOrValue<BigNumberish>,
@@ -765,6 +898,12 @@ export interface MyERC20 extends BaseContract {
       overrides?: CallOverrides
     ): Promise<boolean>;
 
+    isAllowlisted(
+      _wallet: PromiseOrValue<string>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
     isWhitelisted(
       _wallet: PromiseOrValue<string>,
       overrides?: CallOverrides
@@ -772,6 +911,8 @@ export interface MyERC20 extends BaseContract {
 
     isWhitelistedSale(overrides?: CallOverrides): Promise<boolean>;
 
+    merkleRoot(overrides?: CallOverrides): Promise<string>;
+
     mint(
       _to: PromiseOrValue<string>,
       _amount: PromiseOrValue<BigNumberish>,
@@ -784,6 +925,11 @@ export interface MyERC20 extends BaseContract {
 
     renounceOwnership(overrides?: CallOverrides): Promise<void>;
 
+    setMerkleRoot(
+      _merkleRoot: PromiseOrValue<BytesLike>,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     symbol(overrides?: CallOverrides): Promise<string>;
 
     toggleIsWhitelistedSale(overrides?: CallOverrides): Promise<void>;
@@ -883,6 +1029,15 @@ export interface MyERC20 extends BaseContract {
       paidAmount?: null
     ): PurchaseTokensEventFilter;
 
+    "SetMerkleRoot(address,bytes32)"(
+      sender?: PromiseOrValue<string> | null,
+      merkleRoot?: null
+    ): SetMerkleRootEventFilter;
+    SetMerkleRoot(
+      sender?: PromiseOrValue<string> | null,
+      merkleRoot?: null
+    ): SetMerkleRootEventFilter;
+
     "Transfer(address,address,uint256)"(
       from?: PromiseOrValue<string> | null,
       to?: PromiseOrValue<string> | null,
@@ -894,6 +1049,17 @@ export interface MyERC20 extends BaseContract {
       value?: null
     ): TransferEventFilter;
 
+    "UpdateWhitelist(address,address,bool)"(
+      sender?: PromiseOrValue<string> | null,
+      wallet?: PromiseOrValue<string> | null,
+      isWhitelisted?: null
+    ): UpdateWhitelistEventFilter;
+    UpdateWhitelist(
+      sender?: PromiseOrValue<string> | null,
+      wallet?: PromiseOrValue<string> | null,
+      isWhitelisted?: null
+    ): UpdateWhitelistEventFilter;
+
     "WithdrawERC20(address,uint256,address)"(
       sender?: PromiseOrValue<string> | null,
       amount?: null,
@@ -957,10 +1123,21 @@ export interface MyERC20 extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<BigNumber>;
 
+    buyTokenByERC20WithProof(
+      _erc20Amount: PromiseOrValue<BigNumberish>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
     buyTokens(
       overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
     ): Promise<BigNumber>;
 
+    buyTokensWithProof(
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
     changeTokenPriceAndLimit(
       _newPrice: PromiseOrValue<BigNumberish>,
       _newERC20Price: PromiseOrValue<BigNumberish>,
@@ -982,6 +1159,12 @@ export interface MyERC20 extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<BigNumber>;
 
+    isAllowlisted(
+      _wallet: PromiseOrValue<string>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     isWhitelisted(
       _wallet: PromiseOrValue<string>,
       overrides?: CallOverrides
@@ -989,6 +1172,8 @@ export interface MyERC20 extends BaseContract {
 
     isWhitelistedSale(overrides?: CallOverrides): Promise<BigNumber>;
 
+    merkleRoot(overrides?: CallOverrides): Promise<BigNumber>;
+
     mint(
       _to: PromiseOrValue<string>,
       _amount: PromiseOrValue<BigNumberish>,
@@ -1003,6 +1188,11 @@ export interface MyERC20 extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<BigNumber>;
 
+    setMerkleRoot(
+      _merkleRoot: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<BigNumber>;
+
     symbol(overrides?: CallOverrides): Promise<BigNumber>;
 
     toggleIsWhitelistedSale(
@@ -1088,10 +1278,21 @@ export interface MyERC20 extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<PopulatedTransaction>;
 
+    buyTokenByERC20WithProof(
+      _erc20Amount: PromiseOrValue<BigNumberish>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
     buyTokens(
       overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
     ): Promise<PopulatedTransaction>;
 
+    buyTokensWithProof(
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: PayableOverrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
     changeTokenPriceAndLimit(
       _newPrice: PromiseOrValue<BigNumberish>,
       _newERC20Price: PromiseOrValue<BigNumberish>,
@@ -1113,6 +1314,12 @@ export interface MyERC20 extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<PopulatedTransaction>;
 
+    isAllowlisted(
+      _wallet: PromiseOrValue<string>,
+      _proof: PromiseOrValue<BytesLike>[],
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     isWhitelisted(
       _wallet: PromiseOrValue<string>,
       overrides?: CallOverrides
@@ -1120,6 +1327,8 @@ export interface MyERC20 extends BaseContract {
 
     isWhitelistedSale(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
+    merkleRoot(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
     mint(
       _to: PromiseOrValue<string>,
       _amount: PromiseOrValue<BigNumberish>,
@@ -1134,6 +1343,11 @@ export interface MyERC20 extends BaseContract {
       overrides?: Overrides & { from?: PromiseOrValue<string> }
     ): Promise<PopulatedTransaction>;
 
+    setMerkleRoot(
+      _merkleRoot: PromiseOrValue<BytesLike>,
+      overrides?: Overrides & { from?: PromiseOrValue<string> }
+    ): Promise<PopulatedTransaction>;
+
     symbol(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
     toggleIsWhitelistedSale(
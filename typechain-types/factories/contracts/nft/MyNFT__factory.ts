@@ -187,6 +187,100 @@ const _abi = [
     name: "OwnershipTransferred",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "quantity",
+        type: "uint256",
+      },
+    ],
+    name: "RedeemVoucher",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "merkleRoot",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "presalePrice",
+        type: "uint256",
+      },
+    ],
+    name: "SetPresale",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "voucherSigner",
+        type: "address",
+      },
+    ],
+    name: "SetVoucherSigner",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isPresaleEnabled",
+        type: "bool",
+      },
+    ],
+    name: "ToggleIsPresaleEnabled",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -369,6 +463,48 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_wallet",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "_proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "isPresaleAllowlisted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isPresaleEnabled",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "limitPerUser",
@@ -472,6 +608,69 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "presaleMerkleRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "presaleMintedWallets",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "presalePrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_limit",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "_proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "presalePurchaseToken",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
   {
     inputs: [],
     name: "purchaseToken",
@@ -479,6 +678,102 @@ const _abi = [
     stateMutability: "payable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "recipient",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "quantity",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "expiry",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct MyNFT.MintVoucher",
+        name: "_voucher",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    name: "recoverVoucherSigner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "address",
+            name: "recipient",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "quantity",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "expiry",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct MyNFT.MintVoucher",
+        name: "_voucher",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    name: "redeemVoucher",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
   {
     inputs: [],
     name: "renounceOwnership",
@@ -594,6 +889,37 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_merkleRoot",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "_presalePrice",
+        type: "uint256",
+      },
+    ],
+    name: "setPresale",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_voucherSigner",
+        type: "address",
+      },
+    ],
+    name: "setVoucherSigner",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -626,6 +952,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_toggleIsPresaleEnabled",
+        type: "bool",
+      },
+    ],
+    name: "toggleIsPresaleEnabled",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -750,6 +1089,38 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "usedVoucherNonces",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "voucherSigner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "withdrawFunds",
@@ -760,7 +1131,7 @@ const _abi = [
 ];
 
 const _bytecode =
-  "0x60806040523480156200001157600080fd5b50604051620047af380380620047af833981810160405281019062000037919062000300565b8686816000908051906020019062000051929190620001b0565b5080600190805190602001906200006a929190620001b0565b5050506200008d62000081620000e260201b60201c565b620000ea60201b60201c565b84600d8190555083600e8190555082600f8190555081601060006101000a81548160ff0219169083151502179055508060119080519060200190620000d4929190620001b0565b5050505050505050620005b2565b600033905090565b6000600b60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905081600b60006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508173ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e060405160405180910390a35050565b828054620001be90620004a3565b90600052602060002090601f016020900481019282620001e257600085556200022e565b82601f10620001fd57805160ff19168380011785556200022e565b828001600101855582156200022e579182015b828111156200022d57825182559160200191906001019062000210565b5b5090506200023d919062000241565b5090565b5b808211156200025c57600081600090555060010162000242565b5090565b600062000277620002718462000421565b620003f8565b9050828152602081018484840111156200029057600080fd5b6200029d8482856200046d565b509392505050565b600081519050620002b6816200057e565b92915050565b600082601f830112620002ce57600080fd5b8151620002e084826020860162000260565b91505092915050565b600081519050620002fa8162000598565b92915050565b600080600080600080600060e0888a0312156200031c57600080fd5b600088015167ffffffffffffffff8111156200033757600080fd5b620003458a828b01620002bc565b975050602088015167ffffffffffffffff8111156200036357600080fd5b620003718a828b01620002bc565b9650506040620003848a828b01620002e9565b9550506060620003978a828b01620002e9565b9450506080620003aa8a828b01620002e9565b93505060a0620003bd8a828b01620002a5565b92505060c088015167ffffffffffffffff811115620003db57600080fd5b620003e98a828b01620002bc565b91505092959891949750929550565b60006200040462000417565b9050620004128282620004d9565b919050565b6000604051905090565b600067ffffffffffffffff8211156200043f576200043e6200053e565b5b6200044a826200056d565b9050602081019050919050565b60008115159050919050565b6000819050919050565b60005b838110156200048d57808201518184015260208101905062000470565b838111156200049d576000848401525b50505050565b60006002820490506001821680620004bc57607f821691505b60208210811415620004d357620004d26200050f565b5b50919050565b620004e4826200056d565b810181811067ffffffffffffffff821117156200050657620005056200053e565b5b80604052505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6000601f19601f8301169050919050565b620005898162000457565b81146200059557600080fd5b50565b620005a38162000463565b8114620005af57600080fd5b50565b6141ed80620005c26000396000f3fe6080604052600436106101e35760003560e01c80636c0360eb11610102578063a22cb46511610095578063c87b56dd11610064578063c87b56dd146106b0578063d5abeb01146106ed578063e985e9c514610718578063f2fde38b14610755576101e3565b8063a22cb46514610617578063a95c4d6214610640578063ada7c4ed1461064a578063b88d4fde14610687576101e3565b8063715018a6116100d1578063715018a61461057f5780638da5cb5b1461059657806395d89b41146105c157806398b119ee146105ec576101e3565b80636c0360eb146104c55780636f8b44b0146104f0578063706d03b81461051957806370a0823114610542576101e3565b80632f745c591161017a5780634f6ccce7116101495780634f6ccce7146103f757806355f804b3146104345780636352211e1461045d5780636817c76c1461049a576101e3565b80632f745c591461033d578063346de50a1461037a57806342842e0e146103a557806342966c68146103ce576101e3565b806318160ddd116101b657806318160ddd146102b65780631bc8bc1c146102e157806323b872dd1461030a57806324600fc314610333576101e3565b806301ffc9a7146101e857806306fdde0314610225578063081812fc14610250578063095ea7b31461028d575b600080fd5b3480156101f457600080fd5b5061020f600480360381019061020a9190613059565b61077e565b60405161021c919061354f565b60405180910390f35b34801561023157600080fd5b5061023a610790565b604051610247919061356a565b60405180910390f35b34801561025c57600080fd5b50610277600480360381019061027291906130ec565b610822565b60405161028491906134e8565b60405180910390f35b34801561029957600080fd5b506102b460048036038101906102af9190612ff4565b610868565b005b3480156102c257600080fd5b506102cb610980565b6040516102d8919061382c565b60405180910390f35b3480156102ed57600080fd5b50610308600480360381019061030391906130ec565b61098d565b005b34801561031657600080fd5b50610331600480360381019061032c9190612eee565b6109ef565b005b61033b610a4f565b005b34801561034957600080fd5b50610364600480360381019061035f9190612ff4565b610b37565b604051610371919061382c565b60405180910390f35b34801561038657600080fd5b5061038f610bdc565b60405161039c919061354f565b60405180910390f35b3480156103b157600080fd5b506103cc60048036038101906103c79190612eee565b610bef565b005b3480156103da57600080fd5b506103f560048036038101906103f091906130ec565b610c0f565b005b34801561040357600080fd5b5061041e600480360381019061041991906130ec565b610c6b565b60405161042b919061382c565b60405180910390f35b34801561044057600080fd5b5061045b600480360381019061045691906130ab565b610d02565b005b34801561046957600080fd5b50610484600480360381019061047f91906130ec565b610d24565b60405161049191906134e8565b60405180910390f35b3480156104a657600080fd5b506104af610dd6565b6040516104bc919061382c565b60405180910390f35b3480156104d157600080fd5b506104da610ddc565b6040516104e7919061356a565b60405180910390f35b3480156104fc57600080fd5b50610517600480360381019061051291906130ec565b610e6a565b005b34801561052557600080fd5b50610540600480360381019061053b9190613030565b610ecc565b005b34801561054e57600080fd5b5061056960048036038101906105649190612e89565b610f4e565b604051610576919061382c565b60405180910390f35b34801561058b57600080fd5b50610594611006565b005b3480156105a257600080fd5b506105ab61101a565b6040516105b891906134e8565b60405180910390f35b3480156105cd57600080fd5b506105d6611044565b6040516105e3919061356a565b60405180910390f35b3480156105f857600080fd5b506106016110d6565b60405161060e919061382c565b60405180910390f35b34801561062357600080fd5b5061063e60048036038101906106399190612fb8565b6110dc565b005b6106486110f2565b005b34801561065657600080fd5b50610671600480360381019061066c9190612e89565b611327565b60405161067e919061382c565b60405180910390f35b34801561069357600080fd5b506106ae60048036038101906106a99190612f3d565b61133f565b005b3480156106bc57600080fd5b506106d760048036038101906106d291906130ec565b6113a1565b6040516106e4919061356a565b60405180910390f35b3480156106f957600080fd5b506107026113fb565b60405161070f919061382c565b60405180910390f35b34801561072457600080fd5b5061073f600480360381019061073a9190612eb2565b611401565b60405161074c919061354f565b60405180910390f35b34801561076157600080fd5b5061077c60048036038101906107779190612e89565b611495565b005b600061078982611519565b9050919050565b60606000805461079f90613ab2565b80601f01602080910402602001604051908101604052809291908181526020018280546107cb90613ab2565b80156108185780601f106107ed57610100808354040283529160200191610818565b820191906000526020600020905b8154815290600101906020018083116107fb57829003601f168201915b5050505050905090565b600061082d82611593565b6004600083815260200190815260200160002060009054906101000a900473ffffffffffffffffffffffffffffffffffffffff169050919050565b600061087382610d24565b90508073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff1614156108e4576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016108db9061376c565b60405180910390fd5b8073ffffffffffffffffffffffffffffffffffffffff166109036115de565b73ffffffffffffffffffffffffffffffffffffffff16148061093257506109318161092c6115de565b611401565b5b610971576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610968906136ac565b60405180910390fd5b61097b83836115e6565b505050565b6000600880549050905090565b61099561169f565b80600f819055503373ffffffffffffffffffffffffffffffffffffffff167f57bfb1cb62f8544e2e011dba7edec886476e8cf360a5d367eef2842ef0cf0d43600f546040516109e4919061382c565b60405180910390a250565b610a006109fa6115de565b8261171d565b610a3f576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610a36906137ec565b60405180910390fd5b610a4a8383836117b2565b505050565b610a5761169f565b600047905060008111610a9f576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610a96906137cc565b60405180910390fd5b3373ffffffffffffffffffffffffffffffffffffffff166108fc829081150290604051600060405180830381858888f19350505050158015610ae5573d6000803e3d6000fd5b503373ffffffffffffffffffffffffffffffffffffffff167f21901fa892c430ea8bd38b9390225ac8e67eac75ee10ffba16feefc539a288f982604051610b2c919061382c565b60405180910390a250565b6000610b4283610f4e565b8210610b83576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610b7a9061358c565b60405180910390fd5b600660008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600083815260200190815260200160002054905092915050565b601060009054906101000a900460ff1681565b610c0a8383836040518060200160405280600081525061133f565b505050565b610c20610c1a6115de565b8261171d565b610c5f576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610c56906137ec565b60405180910390fd5b610c6881611a19565b50565b6000610c75610980565b8210610cb6576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610cad906137ac565b60405180910390fd5b60088281548110610cf0577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b90600052602060002001549050919050565b610d0a61169f565b8060119080519060200190610d20929190612c6d565b5050565b6000806002600084815260200190815260200160002060009054906101000a900473ffffffffffffffffffffffffffffffffffffffff169050600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff161415610dcd576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610dc49061374c565b60405180910390fd5b80915050919050565b600d5481565b60118054610de990613ab2565b80601f0160208091040260200160405190810160405280929190818152602001828054610e1590613ab2565b8015610e625780601f10610e3757610100808354040283529160200191610e62565b820191906000526020600020905b815481529060010190602001808311610e4557829003601f168201915b505050505081565b610e7261169f565b80600e819055503373ffffffffffffffffffffffffffffffffffffffff167ffd8765a7c9095fad33081c30a9699873450be981f3883bbca006fff998fb7ce0600e54604051610ec1919061382c565b60405180910390a250565b610ed461169f565b80601060006101000a81548160ff0219169083151502179055503373ffffffffffffffffffffffffffffffffffffffff167f139b33adb40b549ee7a78bfd918399fff95682dd3ea2e456d5b8315cceb1c385601060009054906101000a900460ff16604051610f43919061354f565b60405180910390a250565b60008073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff161415610fbf576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610fb69061368c565b60405180910390fd5b600360008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020549050919050565b61100e61169f565b6110186000611a25565b565b6000600b60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905090565b60606001805461105390613ab2565b80601f016020809104026020016040519081016040528092919081815260200182805461107f90613ab2565b80156110cc5780601f106110a1576101008083540402835291602001916110cc565b820191906000526020600020905b8154815290600101906020018083116110af57829003601f168201915b5050505050905090565b600f5481565b6110ee6110e76115de565b8383611aeb565b5050565b601060009054906101000a900460ff16611141576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016111389061378c565b60405180910390fd5b61114b600c611c58565b600e541161118e576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611185906135cc565b60405180910390fd5b600f54601260003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000205410611211576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016112089061370c565b60405180910390fd5b600d543414611255576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161124c9061380c565b60405180910390fd5b601260003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008154809291906112a590613b15565b91905055506112b4600c611c66565b60006112c0600c611c58565b90506112cc3382611c7c565b3373ffffffffffffffffffffffffffffffffffffffff167f1f941184b9df6daf9afed8aa7958a3f8cb883eba1b65ce5506a2480c147beab28261130e846113a1565b60405161131c929190613847565b60405180910390a250565b60126020528060005260406000206000915090505481565b61135061134a6115de565b8361171d565b61138f576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611386906137ec565b60405180910390fd5b61139b84848484611c9a565b50505050565b60606113ac82611cf6565b6113eb576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016113e29061372c565b60405180910390fd5b6113f482611d62565b9050919050565b600e5481565b6000600560008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff16905092915050565b61149d61169f565b600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff16141561150d576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611504906135ec565b60405180910390fd5b61151681611a25565b50565b60007f780e9d63000000000000000000000000000000000000000000000000000000007bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916148061158c575061158b82611e75565b5b9050919050565b61159c81611cf6565b6115db576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016115d29061374c565b60405180910390fd5b50565b600033905090565b816004600083815260200190815260200160002060006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff160217905550808273ffffffffffffffffffffffffffffffffffffffff1661165983610d24565b73ffffffffffffffffffffffffffffffffffffffff167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45050565b6116a76115de565b73ffffffffffffffffffffffffffffffffffffffff166116c561101a565b73ffffffffffffffffffffffffffffffffffffffff161461171b576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611712906136ec565b60405180910390fd5b565b60008061172983610d24565b90508073ffffffffffffffffffffffffffffffffffffffff168473ffffffffffffffffffffffffffffffffffffffff16148061176b575061176a8185611401565b5b806117a957508373ffffffffffffffffffffffffffffffffffffffff1661179184610822565b73ffffffffffffffffffffffffffffffffffffffff16145b91505092915050565b8273ffffffffffffffffffffffffffffffffffffffff166117d282610d24565b73ffffffffffffffffffffffffffffffffffffffff1614611828576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161181f9061360c565b60405180910390fd5b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff161415611898576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161188f9061364c565b60405180910390fd5b6118a3838383611f57565b6118ae6000826115e6565b6001600360008573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008282546118fe91906139c8565b925050819055506001600360008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008282546119559190613941565b92505081905550816002600083815260200190815260200160002060006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff160217905550808273ffffffffffffffffffffffffffffffffffffffff168473ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60405160405180910390a4611a14838383611f67565b505050565b611a2281611f6c565b50565b6000600b60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905081600b60006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508173ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e060405160405180910390a35050565b8173ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff161415611b5a576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611b519061366c565b60405180910390fd5b80600560008573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff0219169083151502179055508173ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff167f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c3183604051611c4b919061354f565b60405180910390a3505050565b600081600001549050919050565b6001816000016000828254019250508190555050565b611c96828260405180602001604052806000815250611fbf565b5050565b611ca58484846117b2565b611cb18484848461201a565b611cf0576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611ce7906135ac565b60405180910390fd5b50505050565b60008073ffffffffffffffffffffffffffffffffffffffff166002600084815260200190815260200160002060009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1614159050919050565b6060611d6d82611593565b6000600a60008481526020019081526020016000208054611d8d90613ab2565b80601f0160208091040260200160405190810160405280929190818152602001828054611db990613ab2565b8015611e065780601f10611ddb57610100808354040283529160200191611e06565b820191906000526020600020905b815481529060010190602001808311611de957829003601f168201915b505050505090506000611e176121b1565b9050600081511415611e2d578192505050611e70565b600082511115611e62578082604051602001611e4a9291906134c4565b60405160208183030381529060405292505050611e70565b611e6b84612243565b925050505b919050565b60007f80ac58cd000000000000000000000000000000000000000000000000000000007bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff19161480611f4057507f5b5e139f000000000000000000000000000000000000000000000000000000007bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916145b80611f505750611f4f826122ab565b5b9050919050565b611f62838383612315565b505050565b505050565b611f7581612429565b6000600a60008381526020019081526020016000208054611f9590613ab2565b905014611fbc57600a60008281526020019081526020016000206000611fbb9190612cf3565b5b50565b611fc98383612546565b611fd6600084848461201a565b612015576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161200c906135ac565b60405180910390fd5b505050565b600061203b8473ffffffffffffffffffffffffffffffffffffffff16612720565b156121a4578373ffffffffffffffffffffffffffffffffffffffff1663150b7a026120646115de565b8786866040518563ffffffff1660e01b81526004016120869493929190613503565b602060405180830381600087803b1580156120a057600080fd5b505af19250505080156120d157506040513d601f19601f820116820180604052508101906120ce9190613082565b60015b612154573d8060008114612101576040519150601f19603f3d011682016040523d82523d6000602084013e612106565b606091505b5060008151141561214c576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401612143906135ac565b60405180910390fd5b805181602001fd5b63150b7a0260e01b7bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916817bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916149150506121a9565b600190505b949350505050565b6060601180546121c090613ab2565b80601f01602080910402602001604051908101604052809291908181526020018280546121ec90613ab2565b80156122395780601f1061220e57610100808354040283529160200191612239565b820191906000526020600020905b81548152906001019060200180831161221c57829003601f168201915b5050505050905090565b606061224e82611593565b60006122586121b1565b9050600081511161227857604051806020016040528060008152506122a3565b8061228284612743565b6040516020016122939291906134c4565b6040516020818303038152906040525b915050919050565b60007f01ffc9a7000000000000000000000000000000000000000000000000000000007bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916149050919050565b6123208383836128f0565b600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff1614156123635761235e816128f5565b6123a2565b8173ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff16146123a1576123a0838261293e565b5b5b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff1614156123e5576123e081612aab565b612424565b8273ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff1614612423576124228282612bee565b5b5b505050565b600061243482610d24565b905061244281600084611f57565b61244d6000836115e6565b6001600360008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600082825461249d91906139c8565b925050819055506002600083815260200190815260200160002060006101000a81549073ffffffffffffffffffffffffffffffffffffffff021916905581600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60405160405180910390a461254281600084611f67565b5050565b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff1614156125b6576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016125ad906136cc565b60405180910390fd5b6125bf81611cf6565b156125ff576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016125f69061362c565b60405180910390fd5b61260b60008383611f57565b6001600360008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600082825461265b9190613941565b92505081905550816002600083815260200190815260200160002060006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff160217905550808273ffffffffffffffffffffffffffffffffffffffff16600073ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60405160405180910390a461271c60008383611f67565b5050565b6000808273ffffffffffffffffffffffffffffffffffffffff163b119050919050565b6060600082141561278b576040518060400160405280600181526020017f300000000000000000000000000000000000000000000000000000000000000081525090506128eb565b600082905060005b600082146127bd5780806127a690613b15565b915050600a826127b69190613997565b9150612793565b60008167ffffffffffffffff8111156127ff577f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6040519080825280601f01601f1916602001820160405280156128315781602001600182028036833780820191505090505b5090505b600085146128e45760018261284a91906139c8565b9150600a856128599190613b5e565b60306128659190613941565b60f81b8183815181106128a1577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916908160001a905350600a856128dd9190613997565b9450612835565b8093505050505b919050565b505050565b6008805490506009600083815260200190815260200160002081905550600881908060018154018082558091505060019003906000526020600020016000909190919091505550565b6000600161294b84610f4e565b61295591906139c8565b9050600060076000848152602001908152602001600020549050818114612a3a576000600660008673ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600084815260200190815260200160002054905080600660008773ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600084815260200190815260200160002081905550816007600083815260200190815260200160002081905550505b6007600084815260200190815260200160002060009055600660008573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008381526020019081526020016000206000905550505050565b60006001600880549050612abf91906139c8565b9050600060096000848152602001908152602001600020549050600060088381548110612b15577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b906000526020600020015490508060088381548110612b5d577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b906000526020600020018190555081600960008381526020019081526020016000208190555060096000858152602001908152602001600020600090556008805480612bd2577f4e487b7100000000000000000000000000000000000000000000000000000000600052603160045260246000fd5b6001900381819060005260206000200160009055905550505050565b6000612bf983610f4e565b905081600660008573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600083815260200190815260200160002081905550806007600084815260200190815260200160002081905550505050565b828054612c7990613ab2565b90600052602060002090601f016020900481019282612c9b5760008555612ce2565b82601f10612cb457805160ff1916838001178555612ce2565b82800160010185558215612ce2579182015b82811115612ce1578251825591602001919060010190612cc6565b5b509050612cef9190612d33565b5090565b508054612cff90613ab2565b6000825580601f10612d115750612d30565b601f016020900490600052602060002090810190612d2f9190612d33565b5b50565b5b80821115612d4c576000816000905550600101612d34565b5090565b6000612d63612d5e8461389c565b613877565b905082815260208101848484011115612d7b57600080fd5b612d86848285613a70565b509392505050565b6000612da1612d9c846138cd565b613877565b905082815260208101848484011115612db957600080fd5b612dc4848285613a70565b509392505050565b600081359050612ddb8161415b565b92915050565b600081359050612df081614172565b92915050565b600081359050612e0581614189565b92915050565b600081519050612e1a81614189565b92915050565b600082601f830112612e3157600080fd5b8135612e41848260208601612d50565b91505092915050565b600082601f830112612e5b57600080fd5b8135612e6b848260208601612d8e565b91505092915050565b600081359050612e83816141a0565b92915050565b600060208284031215612e9b57600080fd5b6000612ea984828501612dcc565b91505092915050565b60008060408385031215612ec557600080fd5b6000612ed385828601612dcc565b9250506020612ee485828601612dcc565b9150509250929050565b600080600060608486031215612f0357600080fd5b6000612f1186828701612dcc565b9350506020612f2286828701612dcc565b9250506040612f3386828701612e74565b9150509250925092565b60008060008060808587031215612f5357600080fd5b6000612f6187828801612dcc565b9450506020612f7287828801612dcc565b9350506040612f8387828801612e74565b925050606085013567ffffffffffffffff811115612fa057600080fd5b612fac87828801612e20565b91505092959194509250565b60008060408385031215612fcb57600080fd5b6000612fd985828601612dcc565b9250506020612fea85828601612de1565b9150509250929050565b6000806040838503121561300757600080fd5b600061301585828601612dcc565b925050602061302685828601612e74565b9150509250929050565b60006020828403121561304257600080fd5b600061305084828501612de1565b91505092915050565b60006020828403121561306b57600080fd5b600061307984828501612df6565b91505092915050565b60006020828403121561309457600080fd5b60006130a284828501612e0b565b91505092915050565b6000602082840312156130bd57600080fd5b600082013567ffffffffffffffff8111156130d757600080fd5b6130e384828501612e4a565b91505092915050565b6000602082840312156130fe57600080fd5b600061310c84828501612e74565b91505092915050565b61311e816139fc565b82525050565b61312d81613a0e565b82525050565b600061313e826138fe565b6131488185613914565b9350613158818560208601613a7f565b61316181613c4b565b840191505092915050565b600061317782613909565b6131818185613925565b9350613191818560208601613a7f565b61319a81613c4b565b840191505092915050565b60006131b082613909565b6131ba8185613936565b93506131ca818560208601613a7f565b80840191505092915050565b60006131e3602b83613925565b91506131ee82613c5c565b604082019050919050565b6000613206603283613925565b915061321182613cab565b604082019050919050565b6000613229600f83613925565b915061323482613cfa565b602082019050919050565b600061324c602683613925565b915061325782613d23565b604082019050919050565b600061326f602583613925565b915061327a82613d72565b604082019050919050565b6000613292601c83613925565b915061329d82613dc1565b602082019050919050565b60006132b5602483613925565b91506132c082613dea565b604082019050919050565b60006132d8601983613925565b91506132e382613e39565b602082019050919050565b60006132fb602983613925565b915061330682613e62565b604082019050919050565b600061331e603e83613925565b915061332982613eb1565b604082019050919050565b6000613341602083613925565b915061334c82613f00565b602082019050919050565b6000613364602083613925565b915061336f82613f29565b602082019050919050565b6000613387601d83613925565b915061339282613f52565b602082019050919050565b60006133aa601983613925565b91506133b582613f7b565b602082019050919050565b60006133cd601883613925565b91506133d882613fa4565b602082019050919050565b60006133f0602183613925565b91506133fb82613fcd565b604082019050919050565b6000613413600e83613925565b915061341e8261401c565b602082019050919050565b6000613436602c83613925565b915061344182614045565b604082019050919050565b6000613459602183613925565b915061346482614094565b604082019050919050565b600061347c602e83613925565b9150613487826140e3565b604082019050919050565b600061349f601783613925565b91506134aa82614132565b602082019050919050565b6134be81613a66565b82525050565b60006134d082856131a5565b91506134dc82846131a5565b91508190509392505050565b60006020820190506134fd6000830184613115565b92915050565b60006080820190506135186000830187613115565b6135256020830186613115565b61353260408301856134b5565b81810360608301526135448184613133565b905095945050505050565b60006020820190506135646000830184613124565b92915050565b60006020820190508181036000830152613584818461316c565b905092915050565b600060208201905081810360008301526135a5816131d6565b9050919050565b600060208201905081810360008301526135c5816131f9565b9050919050565b600060208201905081810360008301526135e58161321c565b9050919050565b600060208201905081810360008301526136058161323f565b9050919050565b6000602082019050818103600083015261362581613262565b9050919050565b6000602082019050818103600083015261364581613285565b9050919050565b60006020820190508181036000830152613665816132a8565b9050919050565b60006020820190508181036000830152613685816132cb565b9050919050565b600060208201905081810360008301526136a5816132ee565b9050919050565b600060208201905081810360008301526136c581613311565b9050919050565b600060208201905081810360008301526136e581613334565b9050919050565b6000602082019050818103600083015261370581613357565b9050919050565b600060208201905081810360008301526137258161337a565b9050919050565b600060208201905081810360008301526137458161339d565b9050919050565b60006020820190508181036000830152613765816133c0565b9050919050565b60006020820190508181036000830152613785816133e3565b9050919050565b600060208201905081810360008301526137a581613406565b9050919050565b600060208201905081810360008301526137c581613429565b9050919050565b600060208201905081810360008301526137e58161344c565b9050919050565b600060208201905081810360008301526138058161346f565b9050919050565b6000602082019050818103600083015261382581613492565b9050919050565b600060208201905061384160008301846134b5565b92915050565b600060408201905061385c60008301856134b5565b818103602083015261386e818461316c565b90509392505050565b6000613881613892565b905061388d8282613ae4565b919050565b6000604051905090565b600067ffffffffffffffff8211156138b7576138b6613c1c565b5b6138c082613c4b565b9050602081019050919050565b600067ffffffffffffffff8211156138e8576138e7613c1c565b5b6138f182613c4b565b9050602081019050919050565b600081519050919050565b600081519050919050565b600082825260208201905092915050565b600082825260208201905092915050565b600081905092915050565b600061394c82613a66565b915061395783613a66565b9250827fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff0382111561398c5761398b613b8f565b5b828201905092915050565b60006139a282613a66565b91506139ad83613a66565b9250826139bd576139bc613bbe565b5b828204905092915050565b60006139d382613a66565b91506139de83613a66565b9250828210156139f1576139f0613b8f565b5b828203905092915050565b6000613a0782613a46565b9050919050565b60008115159050919050565b60007fffffffff0000000000000000000000000000000000000000000000000000000082169050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6000819050919050565b82818337600083830152505050565b60005b83811015613a9d578082015181840152602081019050613a82565b83811115613aac576000848401525b50505050565b60006002820490506001821680613aca57607f821691505b60208210811415613ade57613add613bed565b5b50919050565b613aed82613c4b565b810181811067ffffffffffffffff82111715613b0c57613b0b613c1c565b5b80604052505050565b6000613b2082613a66565b91507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff821415613b5357613b52613b8f565b5b600182019050919050565b6000613b6982613a66565b9150613b7483613a66565b925082613b8457613b83613bbe565b5b828206905092915050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6000601f19601f8301169050919050565b7f455243373231456e756d657261626c653a206f776e657220696e646578206f7560008201527f74206f6620626f756e6473000000000000000000000000000000000000000000602082015250565b7f4552433732313a207472616e7366657220746f206e6f6e20455243373231526560008201527f63656976657220696d706c656d656e7465720000000000000000000000000000602082015250565b7f546f6b656e7320736f6c64206f75740000000000000000000000000000000000600082015250565b7f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160008201527f6464726573730000000000000000000000000000000000000000000000000000602082015250565b7f4552433732313a207472616e736665722066726f6d20696e636f72726563742060008201527f6f776e6572000000000000000000000000000000000000000000000000000000602082015250565b7f4552433732313a20746f6b656e20616c7265616479206d696e74656400000000600082015250565b7f4552433732313a207472616e7366657220746f20746865207a65726f2061646460008201527f7265737300000000000000000000000000000000000000000000000000000000602082015250565b7f4552433732313a20617070726f766520746f2063616c6c657200000000000000600082015250565b7f4552433732313a2061646472657373207a65726f206973206e6f74206120766160008201527f6c6964206f776e65720000000000000000000000000000000000000000000000602082015250565b7f4552433732313a20617070726f76652063616c6c6572206973206e6f7420746f60008201527f6b656e206f776e6572206e6f7220617070726f76656420666f7220616c6c0000602082015250565b7f4552433732313a206d696e7420746f20746865207a65726f2061646472657373600082015250565b7f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572600082015250565b7f45786365656473206d617820746f6b656e73207065722077616c6c6574000000600082015250565b7f4552433732313a206e6f6e6578697374656e7420746f6b656e00000000000000600082015250565b7f4552433732313a20696e76616c696420746f6b656e2049440000000000000000600082015250565b7f4552433732313a20617070726f76616c20746f2063757272656e74206f776e6560008201527f7200000000000000000000000000000000000000000000000000000000000000602082015250565b7f53616c6573206e6f74206f70656e000000000000000000000000000000000000600082015250565b7f455243373231456e756d657261626c653a20676c6f62616c20696e646578206f60008201527f7574206f6620626f756e64730000000000000000000000000000000000000000602082015250565b7f546865726520617265206e6f2066756e647320746f206265207769746864726160008201527f7700000000000000000000000000000000000000000000000000000000000000602082015250565b7f4552433732313a2063616c6c6572206973206e6f7420746f6b656e206f776e6560008201527f72206e6f7220617070726f766564000000000000000000000000000000000000602082015250565b7f57726f6e67207472616e73616374696f6e2076616c7565000000000000000000600082015250565b614164816139fc565b811461416f57600080fd5b50565b61417b81613a0e565b811461418657600080fd5b50565b61419281613a1a565b811461419d57600080fd5b50565b6141a981613a66565b81146141b457600080fd5b5056fea264697066735822122003c6f55a19513120178ef31c90af935e939e061c679b782e80cb78c01862f13064736f6c63430008040033";
+  "0x6101406040523480156200001257600080fd5b50604051620067fa380380620067fa833981810160405281019062000038919062000429565b866040518060400160405280600181526020017f31000000000000000000000000000000000000000000000000000000000000008152508888816000908051906020019062000089929190620002d9565b508060019080519060200190620000a2929190620002d9565b50505060008280519060200120905060008280519060200120905060007f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f90508260e081815250508161010081815250504660a081815250506200010e818484620001cf60201b60201c565b608081815250503073ffffffffffffffffffffffffffffffffffffffff1660c08173ffffffffffffffffffffffffffffffffffffffff1660601b8152505080610120818152505050505050506200017a6200016e6200020b60201b60201c565b6200021360201b60201c565b84600d8190555083600e8190555082600f8190555081601060006101000a81548160ff0219169083151502179055508060119080519060200190620001c1929190620002d9565b5050505050505050620007a9565b60008383834630604051602001620001ec95949392919062000554565b6040516020818303038152906040528051906020012090509392505050565b600033905090565b6000600b60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905081600b60006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508173ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e060405160405180910390a35050565b828054620002e7906200069a565b90600052602060002090601f0160209004810192826200030b576000855562000357565b82601f106200032657805160ff191683800117855562000357565b8280016001018555821562000357579182015b828111156200035657825182559160200191906001019062000339565b5b5090506200036691906200036a565b5090565b5b80821115620003855760008160009055506001016200036b565b5090565b6000620003a06200039a84620005da565b620005b1565b905082815260208101848484011115620003b957600080fd5b620003c684828562000664565b509392505050565b600081519050620003df8162000775565b92915050565b600082601f830112620003f757600080fd5b81516200040984826020860162000389565b91505092915050565b60008151905062000423816200078f565b92915050565b600080600080600080600060e0888a0312156200044557600080fd5b600088015167ffffffffffffffff8111156200046057600080fd5b6200046e8a828b01620003e5565b975050602088015167ffffffffffffffff8111156200048c57600080fd5b6200049a8a828b01620003e5565b9650506040620004ad8a828b0162000412565b9550506060620004c08a828b0162000412565b9450506080620004d38a828b0162000412565b93505060a0620004e68a828b01620003ce565b92505060c088015167ffffffffffffffff8111156200050457600080fd5b620005128a828b01620003e5565b91505092959891949750929550565b6200052c8162000610565b82525050565b6200053d8162000630565b82525050565b6200054e816200065a565b82525050565b600060a0820190506200056b600083018862000532565b6200057a602083018762000532565b62000589604083018662000532565b62000598606083018562000543565b620005a7608083018462000521565b9695505050505050565b6000620005bd620005d0565b9050620005cb8282620006d0565b919050565b6000604051905090565b600067ffffffffffffffff821115620005f857620005f762000735565b5b620006038262000764565b9050602081019050919050565b60006200061d826200063a565b9050919050565b60008115159050919050565b6000819050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6000819050919050565b60005b838110156200068457808201518184015260208101905062000667565b8381111562000694576000848401525b50505050565b60006002820490506001821680620006b357607f821691505b60208210811415620006ca57620006c962000706565b5b50919050565b620006db8262000764565b810181811067ffffffffffffffff82111715620006fd57620006fc62000735565b5b80604052505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6000601f19601f8301169050919050565b620007808162000624565b81146200078c57600080fd5b50565b6200079a816200065a565b8114620007a657600080fd5b50565b60805160a05160c05160601c60e0516101005161012051615ffe620007fc6000396000612d8301526000612dc501526000612da401526000612cd901526000612d2f01526000612d580152615ffe6000f3fe6080604052600436106102715760003560e01c8063706d03b81161014f578063a95c4d62116100c1578063c87b56dd1161007a578063c87b56dd1461093d578063d5abeb011461097a578063e0f66fca146109a5578063e6d69618146109d0578063e985e9c5146109f9578063f2fde38b14610a3657610271565b8063a95c4d621461082a578063ada7c4ed14610834578063af6e40d014610871578063b38c55ed1461089a578063b88d4fde146108d7578063c600281d1461090057610271565b806388f4c1371161011357806388f4c137146107395780638da5cb5b1461076457806395d89b411461078f57806398b119ee146107ba57806399b42f55146107e5578063a22cb4651461080157610271565b8063706d03b81461067757806370a08231146106a0578063715018a6146106dd5780637c6f35b3146106f4578063827323b41461071057610271565b8063346de50a116101e857806355f804b3116101ac57806355f804b3146105555780635f5a0fb31461057e5780636352211e146105bb5780636817c76c146105f85780636c0360eb146106235780636f8b44b01461064e57610271565b8063346de50a1461045e57806342842e0e1461048957806342966c68146104b25780634f6ccce7146104db578063551d7e291461051857610271565b806318160ddd1161023a57806318160ddd1461036f5780631bc8bc1c1461039a57806322212e2b146103c357806323b872dd146103ee57806324600fc3146104175780632f745c591461042157610271565b80620e7fa81461027657806301ffc9a7146102a157806306fdde03146102de578063081812fc14610309578063095ea7b314610346575b600080fd5b34801561028257600080fd5b5061028b610a5f565b6040516102989190615358565b60405180910390f35b3480156102ad57600080fd5b506102c860048036038101906102c391906145e4565b610a65565b6040516102d59190614dde565b60405180910390f35b3480156102ea57600080fd5b506102f3610a77565b6040516103009190614f36565b60405180910390f35b34801561031557600080fd5b50610330600480360381019061032b91906146cf565b610b09565b60405161033d9190614d4e565b60405180910390f35b34801561035257600080fd5b5061036d600480360381019061036891906144d7565b610b4f565b005b34801561037b57600080fd5b50610384610c67565b6040516103919190615358565b60405180910390f35b3480156103a657600080fd5b506103c160048036038101906103bc91906146cf565b610c74565b005b3480156103cf57600080fd5b506103d8610cd6565b6040516103e59190614df9565b60405180910390f35b3480156103fa57600080fd5b50610415600480360381019061041091906143d1565b610cdc565b005b61041f610d3c565b005b34801561042d57600080fd5b50610448600480360381019061044391906144d7565b610e24565b6040516104559190615358565b60405180910390f35b34801561046a57600080fd5b50610473610ec9565b6040516104809190614dde565b60405180910390f35b34801561049557600080fd5b506104b060048036038101906104ab91906143d1565b610edc565b005b3480156104be57600080fd5b506104d960048036038101906104d491906146cf565b610efc565b005b3480156104e757600080fd5b5061050260048036038101906104fd91906146cf565b610f58565b60405161050f9190615358565b60405180910390f35b34801561052457600080fd5b5061053f600480360381019061053a9190614513565b610fef565b60405161054c9190614dde565b60405180910390f35b34801561056157600080fd5b5061057c60048036038101906105779190614636565b61109c565b005b34801561058a57600080fd5b506105a560048036038101906105a0919061436c565b6110be565b6040516105b29190615358565b60405180910390f35b3480156105c757600080fd5b506105e260048036038101906105dd91906146cf565b6110d6565b6040516105ef9190614d4e565b60405180910390f35b34801561060457600080fd5b5061060d611188565b60405161061a9190615358565b60405180910390f35b34801561062f57600080fd5b5061063861118e565b6040516106459190614f36565b60405180910390f35b34801561065a57600080fd5b50610675600480360381019061067091906146cf565b61121c565b005b34801561068357600080fd5b5061069e6004803603810190610699919061457f565b61127e565b005b3480156106ac57600080fd5b506106c760048036038101906106c2919061436c565b611300565b6040516106d49190615358565b60405180910390f35b3480156106e957600080fd5b506106f26113b8565b005b61070e600480360381019061070991906146f8565b6113cc565b005b34801561071c57600080fd5b506107376004803603810190610732919061457f565b6115f4565b005b34801561074557600080fd5b5061074e611676565b60405161075b9190614d4e565b60405180910390f35b34801561077057600080fd5b5061077961169c565b6040516107869190614d4e565b60405180910390f35b34801561079b57600080fd5b506107a46116c6565b6040516107b19190614f36565b60405180910390f35b3480156107c657600080fd5b506107cf611758565b6040516107dc9190615358565b60405180910390f35b6107ff60048036038101906107fa9190614677565b61175e565b005b34801561080d57600080fd5b506108286004803603810190610823919061449b565b611add565b005b610832611af3565b005b34801561084057600080fd5b5061085b6004803603810190610856919061436c565b611cb6565b6040516108689190615358565b60405180910390f35b34801561087d57600080fd5b506108986004803603810190610893919061436c565b611cce565b005b3480156108a657600080fd5b506108c160048036038101906108bc9190614677565b611d8a565b6040516108ce9190614d4e565b60405180910390f35b3480156108e357600080fd5b506108fe60048036038101906108f99190614420565b611e62565b005b34801561090c57600080fd5b50610927600480360381019061092291906146cf565b611ec4565b6040516109349190614dde565b60405180910390f35b34801561094957600080fd5b50610964600480360381019061095f91906146cf565b611ee4565b6040516109719190614f36565b60405180910390f35b34801561098657600080fd5b5061098f611f3e565b60405161099c9190615358565b60405180910390f35b3480156109b157600080fd5b506109ba611f44565b6040516109c79190614dde565b60405180910390f35b3480156109dc57600080fd5b506109f760048036038101906109f291906145a8565b611f57565b005b348015610a0557600080fd5b50610a206004803603810190610a1b9190614395565b611fc5565b604051610a2d9190614dde565b60405180910390f35b348015610a4257600080fd5b50610a5d6004803603810190610a58919061436c565b612059565b005b60135481565b6000610a70826120dd565b9050919050565b606060008054610a869061561e565b80601f0160208091040260200160405190810160405280929190818152602001828054610ab29061561e565b8015610aff5780601f10610ad457610100808354040283529160200191610aff565b820191906000526020600020905b815481529060010190602001808311610ae257829003601f168201915b5050505050905090565b6000610b1482612157565b6004600083815260200190815260200160002060009054906101000a900473ffffffffffffffffffffffffffffffffffffffff169050919050565b6000610b5a826110d6565b90508073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff161415610bcb576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610bc290615258565b60405180910390fd5b8073ffffffffffffffffffffffffffffffffffffffff16610bea6121a2565b73ffffffffffffffffffffffffffffffffffffffff161480610c195750610c1881610c136121a2565b611fc5565b5b610c58576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610c4f90615178565b60405180910390fd5b610c6283836121aa565b505050565b6000600880549050905090565b610c7c612263565b80600f819055503373ffffffffffffffffffffffffffffffffffffffff167f57bfb1cb62f8544e2e011dba7edec886476e8cf360a5d367eef2842ef0cf0d43600f54604051610ccb9190615358565b60405180910390a250565b60125481565b610ced610ce76121a2565b826122e1565b610d2c576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610d2390615318565b60405180910390fd5b610d37838383612376565b505050565b610d44612263565b600047905060008111610d8c576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610d83906152d8565b60405180910390fd5b3373ffffffffffffffffffffffffffffffffffffffff166108fc829081150290604051600060405180830381858888f19350505050158015610dd2573d6000803e3d6000fd5b503373ffffffffffffffffffffffffffffffffffffffff167f21901fa892c430ea8bd38b9390225ac8e67eac75ee10ffba16feefc539a288f982604051610e199190615358565b60405180910390a250565b6000610e2f83611300565b8210610e70576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610e6790614fb8565b60405180910390fd5b600660008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600083815260200190815260200160002054905092915050565b601060009054906101000a900460ff1681565b610ef783838360405180602001604052806000815250611e62565b505050565b610f0d610f076121a2565b826122e1565b610f4c576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610f4390615318565b60405180910390fd5b610f55816125dd565b50565b6000610f62610c67565b8210610fa3576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610f9a906152b8565b60405180910390fd5b60088281548110610fdd577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b90600052602060002001549050919050565b6000808585604051602001611005929190614db5565b6040516020818303038152906040528051906020012060405160200161102b9190614cd8565b604051602081830303815290604052805190602001209050611091848480806020026020016040519081016040528093929190818152602001838360200280828437600081840152601f19601f82011690508083019250505050505050601254836125e9565b915050949350505050565b6110a4612263565b80601190805190602001906110ba92919061408c565b5050565b60166020528060005260406000206000915090505481565b6000806002600084815260200190815260200160002060009054906101000a900473ffffffffffffffffffffffffffffffffffffffff169050600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff16141561117f576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161117690615238565b60405180910390fd5b80915050919050565b600d5481565b6011805461119b9061561e565b80601f01602080910402602001604051908101604052809291908181526020018280546111c79061561e565b80156112145780601f106111e957610100808354040283529160200191611214565b820191906000526020600020905b8154815290600101906020018083116111f757829003601f168201915b505050505081565b611224612263565b80600e819055503373ffffffffffffffffffffffffffffffffffffffff167ffd8765a7c9095fad33081c30a9699873450be981f3883bbca006fff998fb7ce0600e546040516112739190615358565b60405180910390a250565b611286612263565b80601060006101000a81548160ff0219169083151502179055503373ffffffffffffffffffffffffffffffffffffffff167f139b33adb40b549ee7a78bfd918399fff95682dd3ea2e456d5b8315cceb1c385601060009054906101000a900460ff166040516112f59190614dde565b60405180910390a250565b60008073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff161415611371576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161136890615118565b60405180910390fd5b600360008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020549050919050565b6113c0612263565b6113ca6000612600565b565b601460009054906101000a900460ff1680156113f55750601060009054906101000a900460ff16155b611434576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161142b90615298565b60405180910390fd5b61143e600c6126c6565b600e5411611481576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161147890614ff8565b60405180910390fd5b61148d33848484610fef565b6114cc576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016114c3906150f8565b60405180910390fd5b82601660003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020541061154d576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611544906151b8565b60405180910390fd5b6013543414611591576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161158890615338565b60405180910390fd5b601660003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008154809291906115e190615681565b91905055506115ef336126d4565b505050565b6115fc612263565b80601460006101000a81548160ff0219169083151502179055503373ffffffffffffffffffffffffffffffffffffffff167f7c9f063d43ea27d37d525e170b14d29bc9e2a2ca674f9825327370202785b3e1601460009054906101000a900460ff1660405161166b9190614dde565b60405180910390a250565b601460019054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b6000600b60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905090565b6060600180546116d59061561e565b80601f01602080910402602001604051908101604052809291908181526020018280546117019061561e565b801561174e5780601f106117235761010080835404028352916020019161174e565b820191906000526020600020905b81548152906001019060200180831161173157829003601f168201915b5050505050905090565b600f5481565b600073ffffffffffffffffffffffffffffffffffffffff16601460019054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16141580156118145750601460019054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff166117fc848484611d8a565b73ffffffffffffffffffffffffffffffffffffffff16145b611853576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161184a90615138565b60405180910390fd5b826060013542111561189a576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611891906152f8565b60405180910390fd5b601760008460800135815260200190815260200160002060009054906101000a900460ff16156118ff576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016118f6906150b8565b60405180910390fd5b6000836020013511611946576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161193d90614f78565b60405180910390fd5b8260200135611955600c6126c6565b61195f9190615496565b600e5410156119a3576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161199a90614ff8565b60405180910390fd5b826040013534146119e9576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016119e090615338565b60405180910390fd5b6001601760008560800135815260200190815260200160002060006101000a81548160ff021916908315150217905550826000016020810190611a2c919061436c565b73ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff167f7d98179a87ad367016522ee4fbbff86998008c79210b6ab481d03df8e2e4a5e985608001358660200135604051611a929291906153a3565b60405180910390a360005b8360200135811015611ad757611ac4846000016020810190611abf919061436c565b6126d4565b8080611acf90615681565b915050611a9d565b50505050565b611aef611ae86121a2565b8383612752565b5050565b601060009054906101000a900460ff16611b42576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611b3990615278565b60405180910390fd5b611b4c600c6126c6565b600e5411611b8f576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611b8690614ff8565b60405180910390fd5b600f54601560003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000205410611c12576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611c09906151f8565b60405180910390fd5b600d543414611c56576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611c4d90615338565b60405180910390fd5b601560003373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206000815480929190611ca690615681565b9190505550611cb4336126d4565b565b60156020528060005260406000206000915090505481565b611cd6612263565b80601460016101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055503373ffffffffffffffffffffffffffffffffffffffff167f6c61302b47e872d08552b17b5c3219414ee4a6e333af5955e372540f8dcc42bb601460019054906101000a900473ffffffffffffffffffffffffffffffffffffffff16604051611d7f9190614d4e565b60405180910390a250565b600080611e087f8d6e8ed18fa01ddd95f0f517b7ce2312eca95c6939b882b568b93f55ef4fb1a3866000016020810190611dc4919061436c565b8760200135886040013589606001358a60800135604051602001611ded96959493929190614e14565b604051602081830303815290604052805190602001206128bf565b9050611e588185858080601f016020809104026020016040519081016040528093929190818152602001838380828437600081840152601f19601f820116905080830192505050505050506128d9565b9150509392505050565b611e73611e6d6121a2565b836122e1565b611eb2576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611ea990615318565b60405180910390fd5b611ebe84848484612900565b50505050565b60176020528060005260406000206000915054906101000a900460ff1681565b6060611eef8261295c565b611f2e576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611f2590615218565b60405180910390fd5b611f37826129c8565b9050919050565b600e5481565b601460009054906101000a900460ff1681565b611f5f612263565b81601281905550806013819055503373ffffffffffffffffffffffffffffffffffffffff167fd21023083fcba0fa01f2404685d9e243b317972e2e8750dd4d1c10087b2eb638601254601354604051611fb9929190614ec8565b60405180910390a25050565b6000600560008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff16905092915050565b612061612263565b600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1614156120d1576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016120c890615018565b60405180910390fd5b6120da81612600565b50565b60007f780e9d63000000000000000000000000000000000000000000000000000000007bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff19161480612150575061214f82612adb565b5b9050919050565b6121608161295c565b61219f576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161219690615238565b60405180910390fd5b50565b600033905090565b816004600083815260200190815260200160002060006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff160217905550808273ffffffffffffffffffffffffffffffffffffffff1661221d836110d6565b73ffffffffffffffffffffffffffffffffffffffff167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45050565b61226b6121a2565b73ffffffffffffffffffffffffffffffffffffffff1661228961169c565b73ffffffffffffffffffffffffffffffffffffffff16146122df576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016122d6906151d8565b60405180910390fd5b565b6000806122ed836110d6565b90508073ffffffffffffffffffffffffffffffffffffffff168473ffffffffffffffffffffffffffffffffffffffff16148061232f575061232e8185611fc5565b5b8061236d57508373ffffffffffffffffffffffffffffffffffffffff1661235584610b09565b73ffffffffffffffffffffffffffffffffffffffff16145b91505092915050565b8273ffffffffffffffffffffffffffffffffffffffff16612396826110d6565b73ffffffffffffffffffffffffffffffffffffffff16146123ec576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016123e390615038565b60405180910390fd5b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff16141561245c576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161245390615078565b60405180910390fd5b612467838383612bbd565b6124726000826121aa565b6001600360008573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008282546124c2919061551d565b925050819055506001600360008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008282546125199190615496565b92505081905550816002600083815260200190815260200160002060006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff160217905550808273ffffffffffffffffffffffffffffffffffffffff168473ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60405160405180910390a46125d8838383612bcd565b505050565b6125e681612bd2565b50565b6000826125f68584612c25565b1490509392505050565b6000600b60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905081600b60006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508173ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e060405160405180910390a35050565b600081600001549050919050565b6126de600c612ca1565b60006126ea600c6126c6565b90506126f68282612cb7565b8173ffffffffffffffffffffffffffffffffffffffff167f1f941184b9df6daf9afed8aa7958a3f8cb883eba1b65ce5506a2480c147beab28261273884611ee4565b604051612746929190615373565b60405180910390a25050565b8173ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff1614156127c1576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016127b890615098565b60405180910390fd5b80600560008573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff0219169083151502179055508173ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff167f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c31836040516128b29190614dde565b60405180910390a3505050565b60006128d26128cc612cd5565b83612def565b9050919050565b60008060006128e88585612e22565b915091506128f581612ea5565b819250505092915050565b61290b848484612376565b612917848484846131f6565b612956576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161294d90614fd8565b60405180910390fd5b50505050565b60008073ffffffffffffffffffffffffffffffffffffffff166002600084815260200190815260200160002060009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1614159050919050565b60606129d382612157565b6000600a600084815260200190815260200160002080546129f39061561e565b80601f0160208091040260200160405190810160405280929190818152602001828054612a1f9061561e565b8015612a6c5780601f10612a4157610100808354040283529160200191612a6c565b820191906000526020600020905b815481529060010190602001808311612a4f57829003601f168201915b505050505090506000612a7d61338d565b9050600081511415612a93578192505050612ad6565b600082511115612ac8578082604051602001612ab0929190614cf3565b60405160208183030381529060405292505050612ad6565b612ad18461341f565b925050505b919050565b60007f80ac58cd000000000000000000000000000000000000000000000000000000007bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff19161480612ba657507f5b5e139f000000000000000000000000000000000000000000000000000000007bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916145b80612bb65750612bb582613487565b5b9050919050565b612bc88383836134f1565b505050565b505050565b612bdb81613605565b6000600a60008381526020019081526020016000208054612bfb9061561e565b905014612c2257600a60008281526020019081526020016000206000612c219190614112565b5b50565b60008082905060005b8451811015612c9657612c8182868381518110612c74577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b6020026020010151613722565b91508080612c8e90615681565b915050612c2e565b508091505092915050565b6001816000016000828254019250508190555050565b612cd182826040518060200160405280600081525061374d565b5050565b60007f000000000000000000000000000000000000000000000000000000000000000073ffffffffffffffffffffffffffffffffffffffff163073ffffffffffffffffffffffffffffffffffffffff16148015612d5157507f000000000000000000000000000000000000000000000000000000000000000046145b15612d7e577f00000000000000000000000000000000000000000000000000000000000000009050612dec565b612de97f00000000000000000000000000000000000000000000000000000000000000007f00000000000000000000000000000000000000000000000000000000000000007f00000000000000000000000000000000000000000000000000000000000000006137a8565b90505b90565b60008282604051602001612e04929190614d17565b60405160208183030381529060405280519060200120905092915050565b600080604183511415612e645760008060006020860151925060408601519150606086015160001a9050612e58878285856137e2565b94509450505050612e9e565b604083511415612e95576000806020850151915060408501519050612e8a8683836138ef565b935093505050612e9e565b60006002915091505b9250929050565b60006004811115612edf577f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b816004811115612f18577f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b1415612f23576131f3565b60016004811115612f5d577f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b816004811115612f96577f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b1415612fd7576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401612fce90614f58565b60405180910390fd5b60026004811115613011577f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b81600481111561304a577f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b141561308b576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161308290614f98565b60405180910390fd5b600360048111156130c5577f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b8160048111156130fe577f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b141561313f576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401613136906150d8565b60405180910390fd5b600480811115613178577f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b8160048111156131b1577f4e487b7100000000000000000000000000000000000000000000000000000000600052602160045260246000fd5b14156131f2576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016131e990615158565b60405180910390fd5b5b50565b60006132178473ffffffffffffffffffffffffffffffffffffffff1661394e565b15613380578373ffffffffffffffffffffffffffffffffffffffff1663150b7a026132406121a2565b8786866040518563ffffffff1660e01b81526004016132629493929190614d69565b602060405180830381600087803b15801561327c57600080fd5b505af19250505080156132ad57506040513d601f19601f820116820180604052508101906132aa919061460d565b60015b613330573d80600081146132dd576040519150601f19603f3d011682016040523d82523d6000602084013e6132e2565b606091505b50600081511415613328576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161331f90614fd8565b60405180910390fd5b805181602001fd5b63150b7a0260e01b7bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916817bffffffffffffffffffffffffffffffffffffffffffffffffffffffff191614915050613385565b600190505b949350505050565b60606011805461339c9061561e565b80601f01602080910402602001604051908101604052809291908181526020018280546133c89061561e565b80156134155780601f106133ea57610100808354040283529160200191613415565b820191906000526020600020905b8154815290600101906020018083116133f857829003601f168201915b5050505050905090565b606061342a82612157565b600061343461338d565b90506000815111613454576040518060200160405280600081525061347f565b8061345e84613971565b60405160200161346f929190614cf3565b6040516020818303038152906040525b915050919050565b60007f01ffc9a7000000000000000000000000000000000000000000000000000000007bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916827bffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916149050919050565b6134fc838383613b1e565b600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff16141561353f5761353a81613b23565b61357e565b8173ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff161461357d5761357c8382613b6c565b5b5b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff1614156135c1576135bc81613cd9565b613600565b8273ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff16146135ff576135fe8282613e1c565b5b5b505050565b6000613610826110d6565b905061361e81600084612bbd565b6136296000836121aa565b6001600360008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206000828254613679919061551d565b925050819055506002600083815260200190815260200160002060006101000a81549073ffffffffffffffffffffffffffffffffffffffff021916905581600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60405160405180910390a461371e81600084612bcd565b5050565b600081831061373a576137358284613e9b565b613745565b6137448383613e9b565b5b905092915050565b6137578383613eb2565b61376460008484846131f6565b6137a3576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161379a90614fd8565b60405180910390fd5b505050565b600083838346306040516020016137c3959493929190614e75565b6040516020818303038152906040528051906020012090509392505050565b6000807f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08360001c111561381d5760006003915091506138e6565b601b8560ff16141580156138355750601c8560ff1614155b156138475760006004915091506138e6565b60006001878787876040516000815260200160405260405161386c9493929190614ef1565b6020604051602081039080840390855afa15801561388e573d6000803e3d6000fd5b505050602060405103519050600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1614156138dd576000600192509250506138e6565b80600092509250505b94509492505050565b60008060007f7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff60001b841690506000601b60ff8660001c901c6139329190615496565b9050613940878288856137e2565b935093505050935093915050565b6000808273ffffffffffffffffffffffffffffffffffffffff163b119050919050565b606060008214156139b9576040518060400160405280600181526020017f30000000000000000000000000000000000000000000000000000000000000008152509050613b19565b600082905060005b600082146139eb5780806139d490615681565b915050600a826139e491906154ec565b91506139c1565b60008167ffffffffffffffff811115613a2d577f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6040519080825280601f01601f191660200182016040528015613a5f5781602001600182028036833780820191505090505b5090505b60008514613b1257600182613a78919061551d565b9150600a85613a8791906156d4565b6030613a939190615496565b60f81b818381518110613acf577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b60200101907effffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff1916908160001a905350600a85613b0b91906154ec565b9450613a63565b8093505050505b919050565b505050565b6008805490506009600083815260200190815260200160002081905550600881908060018154018082558091505060019003906000526020600020016000909190919091505550565b60006001613b7984611300565b613b83919061551d565b9050600060076000848152602001908152602001600020549050818114613c68576000600660008673ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600084815260200190815260200160002054905080600660008773ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600084815260200190815260200160002081905550816007600083815260200190815260200160002081905550505b6007600084815260200190815260200160002060009055600660008573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008381526020019081526020016000206000905550505050565b60006001600880549050613ced919061551d565b9050600060096000848152602001908152602001600020549050600060088381548110613d43577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b906000526020600020015490508060088381548110613d8b577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b906000526020600020018190555081600960008381526020019081526020016000208190555060096000858152602001908152602001600020600090556008805480613e00577f4e487b7100000000000000000000000000000000000000000000000000000000600052603160045260246000fd5b6001900381819060005260206000200160009055905550505050565b6000613e2783611300565b905081600660008573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600083815260200190815260200160002081905550806007600084815260200190815260200160002081905550505050565b600082600052816020526040600020905092915050565b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff161415613f22576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401613f1990615198565b60405180910390fd5b613f2b8161295c565b15613f6b576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401613f6290615058565b60405180910390fd5b613f7760008383612bbd565b6001600360008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206000828254613fc79190615496565b92505081905550816002600083815260200190815260200160002060006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff160217905550808273ffffffffffffffffffffffffffffffffffffffff16600073ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60405160405180910390a461408860008383612bcd565b5050565b8280546140989061561e565b90600052602060002090601f0160209004810192826140ba5760008555614101565b82601f106140d357805160ff1916838001178555614101565b82800160010185558215614101579182015b828111156141005782518255916020019190600101906140e5565b5b50905061410e9190614152565b5090565b50805461411e9061561e565b6000825580601f10614130575061414f565b601f01602090049060005260206000209081019061414e9190614152565b5b50565b5b8082111561416b576000816000905550600101614153565b5090565b600061418261417d846153f1565b6153cc565b90508281526020810184848401111561419a57600080fd5b6141a58482856155dc565b509392505050565b60006141c06141bb84615422565b6153cc565b9050828152602081018484840111156141d857600080fd5b6141e38482856155dc565b509392505050565b6000813590506141fa81615f55565b92915050565b60008083601f84011261421257600080fd5b8235905067ffffffffffffffff81111561422b57600080fd5b60208301915083602082028301111561424357600080fd5b9250929050565b60008135905061425981615f6c565b92915050565b60008135905061426e81615f83565b92915050565b60008135905061428381615f9a565b92915050565b60008151905061429881615f9a565b92915050565b60008083601f8401126142b057600080fd5b8235905067ffffffffffffffff8111156142c957600080fd5b6020830191508360018202830111156142e157600080fd5b9250929050565b600082601f8301126142f957600080fd5b813561430984826020860161416f565b91505092915050565b600082601f83011261432357600080fd5b81356143338482602086016141ad565b91505092915050565b600060a0828403121561434e57600080fd5b81905092915050565b60008135905061436681615fb1565b92915050565b60006020828403121561437e57600080fd5b600061438c848285016141eb565b91505092915050565b600080604083850312156143a857600080fd5b60006143b6858286016141eb565b92505060206143c7858286016141eb565b9150509250929050565b6000806000606084860312156143e657600080fd5b60006143f4868287016141eb565b9350506020614405868287016141eb565b925050604061441686828701614357565b9150509250925092565b6000806000806080858703121561443657600080fd5b6000614444878288016141eb565b9450506020614455878288016141eb565b935050604061446687828801614357565b925050606085013567ffffffffffffffff81111561448357600080fd5b61448f878288016142e8565b91505092959194509250565b600080604083850312156144ae57600080fd5b60006144bc858286016141eb565b92505060206144cd8582860161424a565b9150509250929050565b600080604083850312156144ea57600080fd5b60006144f8858286016141eb565b925050602061450985828601614357565b9150509250929050565b6000806000806060858703121561452957600080fd5b6000614537878288016141eb565b945050602061454887828801614357565b935050604085013567ffffffffffffffff81111561456557600080fd5b61457187828801614200565b925092505092959194509250565b60006020828403121561459157600080fd5b600061459f8482850161424a565b91505092915050565b600080604083850312156145bb57600080fd5b60006145c98582860161425f565b92505060206145da85828601614357565b9150509250929050565b6000602082840312156145f657600080fd5b600061460484828501614274565b91505092915050565b60006020828403121561461f57600080fd5b600061462d84828501614289565b91505092915050565b60006020828403121561464857600080fd5b600082013567ffffffffffffffff81111561466257600080fd5b61466e84828501614312565b91505092915050565b600080600060c0848603121561468c57600080fd5b600061469a8682870161433c565b93505060a084013567ffffffffffffffff8111156146b757600080fd5b6146c38682870161429e565b92509250509250925092565b6000602082840312156146e157600080fd5b60006146ef84828501614357565b91505092915050565b60008060006040848603121561470d57600080fd5b600061471b86828701614357565b935050602084013567ffffffffffffffff81111561473857600080fd5b61474486828701614200565b92509250509250925092565b61475981615551565b82525050565b61476881615563565b82525050565b6147778161556f565b82525050565b61478e6147898261556f565b6156ca565b82525050565b600061479f82615453565b6147a98185615469565b93506147b98185602086016155eb565b6147c2816157c1565b840191505092915050565b60006147d88261545e565b6147e2818561547a565b93506147f28185602086016155eb565b6147fb816157c1565b840191505092915050565b60006148118261545e565b61481b818561548b565b935061482b8185602086016155eb565b80840191505092915050565b600061484460188361547a565b915061484f826157d2565b602082019050919050565b6000614867601f8361547a565b9150614872826157fb565b602082019050919050565b600061488a601f8361547a565b915061489582615824565b602082019050919050565b60006148ad602b8361547a565b91506148b88261584d565b604082019050919050565b60006148d060328361547a565b91506148db8261589c565b604082019050919050565b60006148f3600f8361547a565b91506148fe826158eb565b602082019050919050565b600061491660268361547a565b915061492182615914565b604082019050919050565b600061493960258361547a565b915061494482615963565b604082019050919050565b600061495c601c8361547a565b9150614967826159b2565b602082019050919050565b600061497f60028361548b565b915061498a826159db565b600282019050919050565b60006149a260248361547a565b91506149ad82615a04565b604082019050919050565b60006149c560198361547a565b91506149d082615a53565b602082019050919050565b60006149e860148361547a565b91506149f382615a7c565b602082019050919050565b6000614a0b60228361547a565b9150614a1682615aa5565b604082019050919050565b6000614a2e60228361547a565b9150614a3982615af4565b604082019050919050565b6000614a5160298361547a565b9150614a5c82615b43565b604082019050919050565b6000614a7460198361547a565b9150614a7f82615b92565b602082019050919050565b6000614a9760228361547a565b9150614aa282615bbb565b604082019050919050565b6000614aba603e8361547a565b9150614ac582615c0a565b604082019050919050565b6000614add60208361547a565b9150614ae882615c59565b602082019050919050565b6000614b0060218361547a565b9150614b0b82615c82565b604082019050919050565b6000614b2360208361547a565b9150614b2e82615cd1565b602082019050919050565b6000614b46601d8361547a565b9150614b5182615cfa565b602082019050919050565b6000614b6960198361547a565b9150614b7482615d23565b602082019050919050565b6000614b8c60188361547a565b9150614b9782615d4c565b602082019050919050565b6000614baf60218361547a565b9150614bba82615d75565b604082019050919050565b6000614bd2600e8361547a565b9150614bdd82615dc4565b602082019050919050565b6000614bf560108361547a565b9150614c0082615ded565b602082019050919050565b6000614c18602c8361547a565b9150614c2382615e16565b604082019050919050565b6000614c3b60218361547a565b9150614c4682615e65565b604082019050919050565b6000614c5e600f8361547a565b9150614c6982615eb4565b602082019050919050565b6000614c81602e8361547a565b9150614c8c82615edd565b604082019050919050565b6000614ca460178361547a565b9150614caf82615f2c565b602082019050919050565b614cc3816155c5565b82525050565b614cd2816155cf565b82525050565b6000614ce4828461477d565b60208201915081905092915050565b6000614cff8285614806565b9150614d0b8284614806565b91508190509392505050565b6000614d2282614972565b9150614d2e828561477d565b602082019150614d3e828461477d565b6020820191508190509392505050565b6000602082019050614d636000830184614750565b92915050565b6000608082019050614d7e6000830187614750565b614d8b6020830186614750565b614d986040830185614cba565b8181036060830152614daa8184614794565b905095945050505050565b6000604082019050614dca6000830185614750565b614dd76020830184614cba565b9392505050565b6000602082019050614df3600083018461475f565b92915050565b6000602082019050614e0e600083018461476e565b92915050565b600060c082019050614e29600083018961476e565b614e366020830188614750565b614e436040830187614cba565b614e506060830186614cba565b614e5d6080830185614cba565b614e6a60a0830184614cba565b979650505050505050565b600060a082019050614e8a600083018861476e565b614e97602083018761476e565b614ea4604083018661476e565b614eb16060830185614cba565b614ebe6080830184614750565b9695505050505050565b6000604082019050614edd600083018561476e565b614eea6020830184614cba565b9392505050565b6000608082019050614f06600083018761476e565b614f136020830186614cc9565b614f20604083018561476e565b614f2d606083018461476e565b95945050505050565b60006020820190508181036000830152614f5081846147cd565b905092915050565b60006020820190508181036000830152614f7181614837565b9050919050565b60006020820190508181036000830152614f918161485a565b9050919050565b60006020820190508181036000830152614fb18161487d565b9050919050565b60006020820190508181036000830152614fd1816148a0565b9050919050565b60006020820190508181036000830152614ff1816148c3565b9050919050565b60006020820190508181036000830152615011816148e6565b9050919050565b6000602082019050818103600083015261503181614909565b9050919050565b600060208201905081810360008301526150518161492c565b9050919050565b600060208201905081810360008301526150718161494f565b9050919050565b6000602082019050818103600083015261509181614995565b9050919050565b600060208201905081810360008301526150b1816149b8565b9050919050565b600060208201905081810360008301526150d1816149db565b9050919050565b600060208201905081810360008301526150f1816149fe565b9050919050565b6000602082019050818103600083015261511181614a21565b9050919050565b6000602082019050818103600083015261513181614a44565b9050919050565b6000602082019050818103600083015261515181614a67565b9050919050565b6000602082019050818103600083015261517181614a8a565b9050919050565b6000602082019050818103600083015261519181614aad565b9050919050565b600060208201905081810360008301526151b181614ad0565b9050919050565b600060208201905081810360008301526151d181614af3565b9050919050565b600060208201905081810360008301526151f181614b16565b9050919050565b6000602082019050818103600083015261521181614b39565b9050919050565b6000602082019050818103600083015261523181614b5c565b9050919050565b6000602082019050818103600083015261525181614b7f565b9050919050565b6000602082019050818103600083015261527181614ba2565b9050919050565b6000602082019050818103600083015261529181614bc5565b9050919050565b600060208201905081810360008301526152b181614be8565b9050919050565b600060208201905081810360008301526152d181614c0b565b9050919050565b600060208201905081810360008301526152f181614c2e565b9050919050565b6000602082019050818103600083015261531181614c51565b9050919050565b6000602082019050818103600083015261533181614c74565b9050919050565b6000602082019050818103600083015261535181614c97565b9050919050565b600060208201905061536d6000830184614cba565b92915050565b60006040820190506153886000830185614cba565b818103602083015261539a81846147cd565b90509392505050565b60006040820190506153b86000830185614cba565b6153c56020830184614cba565b9392505050565b60006153d66153e7565b90506153e28282615650565b919050565b6000604051905090565b600067ffffffffffffffff82111561540c5761540b615792565b5b615415826157c1565b9050602081019050919050565b600067ffffffffffffffff82111561543d5761543c615792565b5b615446826157c1565b9050602081019050919050565b600081519050919050565b600081519050919050565b600082825260208201905092915050565b600082825260208201905092915050565b600081905092915050565b60006154a1826155c5565b91506154ac836155c5565b9250827fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff038211156154e1576154e0615705565b5b828201905092915050565b60006154f7826155c5565b9150615502836155c5565b92508261551257615511615734565b5b828204905092915050565b6000615528826155c5565b9150615533836155c5565b92508282101561554657615545615705565b5b828203905092915050565b600061555c826155a5565b9050919050565b60008115159050919050565b6000819050919050565b60007fffffffff0000000000000000000000000000000000000000000000000000000082169050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6000819050919050565b600060ff82169050919050565b82818337600083830152505050565b60005b838110156156095780820151818401526020810190506155ee565b83811115615618576000848401525b50505050565b6000600282049050600182168061563657607f821691505b6020821081141561564a57615649615763565b5b50919050565b615659826157c1565b810181811067ffffffffffffffff8211171561567857615677615792565b5b80604052505050565b600061568c826155c5565b91507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8214156156bf576156be615705565b5b600182019050919050565b6000819050919050565b60006156df826155c5565b91506156ea836155c5565b9250826156fa576156f9615734565b5b828206905092915050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6000601f19601f8301169050919050565b7f45434453413a20696e76616c6964207369676e61747572650000000000000000600082015250565b7f5175616e74697479206d7573742062652067726561746572207468616e203000600082015250565b7f45434453413a20696e76616c6964207369676e6174757265206c656e67746800600082015250565b7f455243373231456e756d657261626c653a206f776e657220696e646578206f7560008201527f74206f6620626f756e6473000000000000000000000000000000000000000000602082015250565b7f4552433732313a207472616e7366657220746f206e6f6e20455243373231526560008201527f63656976657220696d706c656d656e7465720000000000000000000000000000602082015250565b7f546f6b656e7320736f6c64206f75740000000000000000000000000000000000600082015250565b7f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160008201527f6464726573730000000000000000000000000000000000000000000000000000602082015250565b7f4552433732313a207472616e736665722066726f6d20696e636f72726563742060008201527f6f776e6572000000000000000000000000000000000000000000000000000000602082015250565b7f4552433732313a20746f6b656e20616c7265616479206d696e74656400000000600082015250565b7f1901000000000000000000000000000000000000000000000000000000000000600082015250565b7f4552433732313a207472616e7366657220746f20746865207a65726f2061646460008201527f7265737300000000000000000000000000000000000000000000000000000000602082015250565b7f4552433732313a20617070726f766520746f2063616c6c657200000000000000600082015250565b7f566f756368657220616c72656164792075736564000000000000000000000000600082015250565b7f45434453413a20696e76616c6964207369676e6174757265202773272076616c60008201527f7565000000000000000000000000000000000000000000000000000000000000602082015250565b7f55736572206973206e6f7420617574686f72697a656420746f2070757263686160008201527f7365000000000000000000000000000000000000000000000000000000000000602082015250565b7f4552433732313a2061646472657373207a65726f206973206e6f74206120766160008201527f6c6964206f776e65720000000000000000000000000000000000000000000000602082015250565b7f496e76616c696420766f7563686572207369676e617475726500000000000000600082015250565b7f45434453413a20696e76616c6964207369676e6174757265202776272076616c60008201527f7565000000000000000000000000000000000000000000000000000000000000602082015250565b7f4552433732313a20617070726f76652063616c6c6572206973206e6f7420746f60008201527f6b656e206f776e6572206e6f7220617070726f76656420666f7220616c6c0000602082015250565b7f4552433732313a206d696e7420746f20746865207a65726f2061646472657373600082015250565b7f457863656564732070726573616c6520746f6b656e73207065722077616c6c6560008201527f7400000000000000000000000000000000000000000000000000000000000000602082015250565b7f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572600082015250565b7f45786365656473206d617820746f6b656e73207065722077616c6c6574000000600082015250565b7f4552433732313a206e6f6e6578697374656e7420746f6b656e00000000000000600082015250565b7f4552433732313a20696e76616c696420746f6b656e2049440000000000000000600082015250565b7f4552433732313a20617070726f76616c20746f2063757272656e74206f776e6560008201527f7200000000000000000000000000000000000000000000000000000000000000602082015250565b7f53616c6573206e6f74206f70656e000000000000000000000000000000000000600082015250565b7f50726573616c65206e6f74206f70656e00000000000000000000000000000000600082015250565b7f455243373231456e756d657261626c653a20676c6f62616c20696e646578206f60008201527f7574206f6620626f756e64730000000000000000000000000000000000000000602082015250565b7f546865726520617265206e6f2066756e647320746f206265207769746864726160008201527f7700000000000000000000000000000000000000000000000000000000000000602082015250565b7f566f756368657220657870697265640000000000000000000000000000000000600082015250565b7f4552433732313a2063616c6c6572206973206e6f7420746f6b656e206f776e6560008201527f72206e6f7220617070726f766564000000000000000000000000000000000000602082015250565b7f57726f6e67207472616e73616374696f6e2076616c7565000000000000000000600082015250565b615f5e81615551565b8114615f6957600080fd5b50565b615f7581615563565b8114615f8057600080fd5b50565b615f8c8161556f565b8114615f9757600080fd5b50565b615fa381615579565b8114615fae57600080fd5b50565b615fba816155c5565b8114615fc557600080fd5b5056fea26469706673582212205519ed9c672708fc22ff31e56f30efd93de7aed97d06ca67116007cf663eadcd64736f6c63430008040033";
 
 type MyNFTConstructorParams =
   | [signer?: Signer]
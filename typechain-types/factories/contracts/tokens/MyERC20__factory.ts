@@ -213,6 +213,25 @@ const _abi = [
     name: "PurchaseTokens",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "merkleRoot",
+        type: "bytes32",
+      },
+    ],
+    name: "SetMerkleRoot",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -238,6 +257,31 @@ const _abi = [
     name: "Transfer",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "wallet",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "isWhitelisted",
+        type: "bool",
+      },
+    ],
+    name: "UpdateWhitelist",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -445,6 +489,24 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_erc20Amount",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "_proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "buyTokenByERC20WithProof",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [],
     name: "buyTokens",
@@ -452,6 +514,19 @@ const _abi = [
     stateMutability: "payable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "bytes32[]",
+        name: "_proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "buyTokensWithProof",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -536,6 +611,30 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_wallet",
+        type: "address",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "_proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "isAllowlisted",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -568,6 +667,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "merkleRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -619,6 +731,19 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_merkleRoot",
+        type: "bytes32",
+      },
+    ],
+    name: "setMerkleRoot",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [],
     name: "symbol",
@@ -753,7 +878,7 @@ const _abi = [
 ];
 
 const _bytecode =
-  "0x60806040523480156200001157600080fd5b5060405162003f2d38038062003f2d83398181016040528101906200003791906200051d565b8787816003908051906020019062000051929190620003b6565b5080600490805190602001906200006a929190620003b6565b5050506200008d620000816200016560201b60201c565b6200016d60201b60201c565b8560008111620000d4576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401620000cb9062000671565b60405180910390fd5b620000e633886200023360201b60201c565b856007819055508460088190555083600a60006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508260098190555081600560146101000a81548160ff021916908315150217905550505050505050505050620009dd565b600033905090565b6000600560009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905081600560006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508173ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e060405160405180910390a35050565b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff161415620002a6576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016200029d9062000693565b60405180910390fd5b620002ba60008383620003ac60201b60201c565b8060026000828254620002ce919062000742565b92505081905550806000808473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600082825462000325919062000742565b925050819055508173ffffffffffffffffffffffffffffffffffffffff16600073ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef836040516200038c9190620006b5565b60405180910390a3620003a860008383620003b160201b60201c565b5050565b505050565b505050565b828054620003c49062000833565b90600052602060002090601f016020900481019282620003e8576000855562000434565b82601f106200040357805160ff191683800117855562000434565b8280016001018555821562000434579182015b828111156200043357825182559160200191906001019062000416565b5b50905062000443919062000447565b5090565b5b808211156200046257600081600090555060010162000448565b5090565b60006200047d6200047784620006fb565b620006d2565b9050828152602081018484840111156200049657600080fd5b620004a3848285620007fd565b509392505050565b600081519050620004bc816200098f565b92915050565b600081519050620004d381620009a9565b92915050565b600082601f830112620004eb57600080fd5b8151620004fd84826020860162000466565b91505092915050565b6000815190506200051781620009c3565b92915050565b600080600080600080600080610100898b0312156200053b57600080fd5b600089015167ffffffffffffffff8111156200055657600080fd5b620005648b828c01620004d9565b985050602089015167ffffffffffffffff8111156200058257600080fd5b620005908b828c01620004d9565b9750506040620005a38b828c0162000506565b9650506060620005b68b828c0162000506565b9550506080620005c98b828c0162000506565b94505060a0620005dc8b828c01620004c2565b93505060c0620005ef8b828c0162000506565b92505060e0620006028b828c01620004ab565b9150509295985092959890939650565b600062000621601c8362000731565b91506200062e826200093d565b602082019050919050565b600062000648601f8362000731565b9150620006558262000966565b602082019050919050565b6200066b81620007f3565b82525050565b600060208201905081810360008301526200068c8162000612565b9050919050565b60006020820190508181036000830152620006ae8162000639565b9050919050565b6000602082019050620006cc600083018462000660565b92915050565b6000620006de620006f1565b9050620006ec828262000869565b919050565b6000604051905090565b600067ffffffffffffffff821115620007195762000718620008fd565b5b62000724826200092c565b9050602081019050919050565b600082825260208201905092915050565b60006200074f82620007f3565b91506200075c83620007f3565b9250827fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff038211156200079457620007936200089f565b5b828201905092915050565b6000620007ac82620007d3565b9050919050565b60008115159050919050565b6000620007cc826200079f565b9050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6000819050919050565b60005b838110156200081d57808201518184015260208101905062000800565b838111156200082d576000848401525b50505050565b600060028204905060018216806200084c57607f821691505b60208210811415620008635762000862620008ce565b5b50919050565b62000874826200092c565b810181811067ffffffffffffffff82111715620008965762000895620008fd565b5b80604052505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6000601f19601f8301169050919050565b7f56616c7565206d7573742062652067726561746572207468616e203000000000600082015250565b7f45524332303a206d696e7420746f20746865207a65726f206164647265737300600082015250565b6200099a81620007b3565b8114620009a657600080fd5b50565b620009b481620007bf565b8114620009c057600080fd5b50565b620009ce81620007f3565b8114620009da57600080fd5b50565b61354080620009ed6000396000f3fe6080604052600436106101cd5760003560e01c806371f0d575116100f7578063a9059cbb11610095578063d2d8cb6711610064578063d2d8cb6714610624578063dd62ed3e1461064f578063e1a8ad471461068c578063f2fde38b146106b7576101cd565b8063a9059cbb1461058b578063aff177ca146105c8578063c6a32051146105f1578063d0febe4c1461061a576101cd565b80638da5cb5b116100d15780638da5cb5b146104cf57806395d89b41146104fa57806399ccf8d414610525578063a457c2d71461054e576101cd565b806371f0d5751461045057806379cc67901461047b578063877c86fb146104a4576101cd565b8063313ce5671161016f57806342966c681161013e57806342966c68146103a85780635951e45c146103d157806370a08231146103fc578063715018a614610439576101cd565b8063313ce567146102da57806339509351146103055780633af32abf1461034257806340c10f191461037f576101cd565b80630aee92a4116101ab5780630aee92a41461025157806318160ddd1461026857806323b872dd1461029357806324600fc3146102d0576101cd565b806302ec022f146101d257806306fdde03146101e9578063095ea7b314610214575b600080fd5b3480156101de57600080fd5b506101e76106e0565b005b3480156101f557600080fd5b506101fe610714565b60405161020b919061277b565b60405180910390f35b34801561022057600080fd5b5061023b6004803603810190610236919061222a565b6107a6565b6040516102489190612745565b60405180910390f35b34801561025d57600080fd5b506102666107c9565b005b34801561027457600080fd5b5061027d6109e8565b60405161028a91906129fd565b60405180910390f35b34801561029f57600080fd5b506102ba60048036038101906102b591906121db565b6109f2565b6040516102c79190612745565b60405180910390f35b6102d8610a21565b005b3480156102e657600080fd5b506102ef610b09565b6040516102fc9190612ad8565b60405180910390f35b34801561031157600080fd5b5061032c6004803603810190610327919061222a565b610b12565b6040516103399190612745565b60405180910390f35b34801561034e57600080fd5b5061036960048036038101906103649190612176565b610b49565b6040516103769190612745565b60405180910390f35b34801561038b57600080fd5b506103a660048036038101906103a1919061222a565b610b9f565b005b3480156103b457600080fd5b506103cf60048036038101906103ca91906122e3565b610c48565b005b3480156103dd57600080fd5b506103e6610c5c565b6040516103f39190612745565b60405180910390f35b34801561040857600080fd5b50610423600480360381019061041e9190612176565b610c6f565b60405161043091906129fd565b60405180910390f35b34801561044557600080fd5b5061044e610cb7565b005b34801561045c57600080fd5b50610465610ccb565b60405161047291906129fd565b60405180910390f35b34801561048757600080fd5b506104a2600480360381019061049d919061222a565b610cd1565b005b3480156104b057600080fd5b506104b9610cf1565b6040516104c69190612760565b60405180910390f35b3480156104db57600080fd5b506104e4610d17565b6040516104f191906126a1565b60405180910390f35b34801561050657600080fd5b5061050f610d41565b60405161051c919061277b565b60405180910390f35b34801561053157600080fd5b5061054c600480360381019061054791906122e3565b610dd3565b005b34801561055a57600080fd5b506105756004803603810190610570919061222a565b61121b565b6040516105829190612745565b60405180910390f35b34801561059757600080fd5b506105b260048036038101906105ad919061222a565b611292565b6040516105bf9190612745565b60405180910390f35b3480156105d457600080fd5b506105ef60048036038101906105ea9190612266565b6112a9565b005b3480156105fd57600080fd5b5061061860048036038101906106139190612335565b61136c565b005b610622611466565b005b34801561063057600080fd5b506106396115fb565b60405161064691906129fd565b60405180910390f35b34801561065b57600080fd5b506106766004803603810190610671919061219f565b611601565b60405161068391906129fd565b60405180910390f35b34801561069857600080fd5b506106a1611688565b6040516106ae91906129fd565b60405180910390f35b3480156106c357600080fd5b506106de60048036038101906106d99190612176565b61168e565b005b6106e8611712565b600560149054906101000a900460ff1615600560146101000a81548160ff021916908315150217905550565b60606003805461072390612e92565b80601f016020809104026020016040519081016040528092919081815260200182805461074f90612e92565b801561079c5780601f106107715761010080835404028352916020019161079c565b820191906000526020600020905b81548152906001019060200180831161077f57829003601f168201915b5050505050905090565b6000806107b1611790565b90506107be818585611798565b600191505092915050565b6107d1611712565b6000600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff166370a08231306040518263ffffffff1660e01b815260040161082e91906126a1565b60206040518083038186803b15801561084657600080fd5b505afa15801561085a573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061087e919061230c565b9050600081116108c3576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016108ba9061297d565b60405180910390fd5b600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1663a9059cbb33836040518363ffffffff1660e01b815260040161092092919061271c565b602060405180830381600087803b15801561093a57600080fd5b505af115801561094e573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061097291906122ba565b503373ffffffffffffffffffffffffffffffffffffffff167f15e848750ab66cd66f07bebaf8dab757d6d4af0895afc4ff867f35baf163ee2d82600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff166040516109dd929190612a18565b60405180910390a250565b6000600254905090565b6000806109fd611790565b9050610a0a858285611963565b610a158585856119ef565b60019150509392505050565b610a29611712565b600047905060008111610a71576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610a689061297d565b60405180910390fd5b3373ffffffffffffffffffffffffffffffffffffffff166108fc829081150290604051600060405180830381858888f19350505050158015610ab7573d6000803e3d6000fd5b503373ffffffffffffffffffffffffffffffffffffffff167f680f2e4f4032ebf1774e8cdbaddcb1b617a5a606411c8ca96257ada338d3833c82604051610afe91906129fd565b60405180910390a250565b60006012905090565b600080610b1d611790565b9050610b3e818585610b2f8589611601565b610b399190612b60565b611798565b600191505092915050565b6000600660008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff169050919050565b610ba7611712565b8060008111610beb576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610be29061289d565b60405180910390fd5b610bf58383611c70565b8273ffffffffffffffffffffffffffffffffffffffff167f0f6798a560793a54c3bcfe86a93cde1e73087d944c0ea20544137d412139688583604051610c3b91906129fd565b60405180910390a2505050565b610c59610c53611790565b82611dd0565b50565b600560149054906101000a900460ff1681565b60008060008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020549050919050565b610cbf611712565b610cc96000611fa7565b565b60085481565b610ce382610cdd611790565b83611963565b610ced8282611dd0565b5050565b600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b6000600560009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905090565b606060048054610d5090612e92565b80601f0160208091040260200160405190810160405280929190818152602001828054610d7c90612e92565b8015610dc95780601f10610d9e57610100808354040283529160200191610dc9565b820191906000526020600020905b815481529060010190602001808311610dac57829003601f168201915b5050505050905090565b33600560149054906101000a900460ff1615610e3257610df281610b49565b610e31576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610e289061287d565b60405180910390fd5b5b8160008111610e76576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610e6d9061289d565b60405180910390fd5b6000610e80610b09565b600a610e8c9190612c3a565b600854610e999190612d58565b610ea1610b09565b600a610ead9190612c3a565b85610eb89190612d58565b610ec29190612bb6565b9050600954811115610f09576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610f00906128dd565b60405180910390fd5b83600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff166370a08231336040518263ffffffff1660e01b8152600401610f6591906126a1565b60206040518083038186803b158015610f7d57600080fd5b505afa158015610f91573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610fb5919061230c565b1015610ff6576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610fed906128bd565b60405180910390fd5b83600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1663dd62ed3e33306040518363ffffffff1660e01b81526004016110549291906126bc565b60206040518083038186803b15801561106c57600080fd5b505afa158015611080573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906110a4919061230c565b10156110e5576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016110dc9061281d565b60405180910390fd5b600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff166323b872dd3330876040518463ffffffff1660e01b8152600401611144939291906126e5565b602060405180830381600087803b15801561115e57600080fd5b505af1158015611172573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061119691906122ba565b506111a13382611c70565b3373ffffffffffffffffffffffffffffffffffffffff167fe3024ea82fbeab35bf86a4b8d27a63258c9847cfd7c0de98992a89e8507e4e218286600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1660405161120d93929190612a6a565b60405180910390a250505050565b600080611226611790565b905060006112348286611601565b905083811015611279576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611270906129bd565b60405180910390fd5b6112868286868403611798565b60019250505092915050565b600061129f3384846119ef565b6001905092915050565b6112b1611712565b60005b82518110156113675781600660008584815181106112fb577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b602002602001015173ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff021916908315150217905550808061135f90612ef5565b9150506112b4565b505050565b611374611712565b600083116113b7576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016113ae9061299d565b60405180910390fd5b600081116113fa576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016113f19061283d565b60405180910390fd5b8260078190555081600881905550806009819055503373ffffffffffffffffffffffffffffffffffffffff167f597eccd2eabd9f075dbe1e80e65e89c5dd7d8fd72792c8d2498735ed509967c184848460405161145993929190612aa1565b60405180910390a2505050565b33600560149054906101000a900460ff16156114c55761148581610b49565b6114c4576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016114bb9061287d565b60405180910390fd5b5b3460008111611509576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016115009061289d565b60405180910390fd5b6000611513610b09565b600a61151f9190612c3a565b60075461152c9190612d58565b611534610b09565b600a6115409190612c3a565b3461154b9190612d58565b6115559190612bb6565b905060095481111561159c576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611593906128dd565b60405180910390fd5b6115a63382611c70565b3373ffffffffffffffffffffffffffffffffffffffff167f22bb9e718001d9e96ba01b874e20a59101db4428f08f3b5d72f457b03a5579ab82346040516115ee929190612a41565b60405180910390a2505050565b60075481565b6000600160008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002054905092915050565b60095481565b611696611712565b600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff161415611706576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016116fd906127dd565b60405180910390fd5b61170f81611fa7565b50565b61171a611790565b73ffffffffffffffffffffffffffffffffffffffff16611738610d17565b73ffffffffffffffffffffffffffffffffffffffff161461178e576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611785906128fd565b60405180910390fd5b565b600033905090565b600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff161415611808576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016117ff9061295d565b60405180910390fd5b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff161415611878576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161186f906127fd565b60405180910390fd5b80600160008573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020819055508173ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b9258360405161195691906129fd565b60405180910390a3505050565b600061196f8484611601565b90507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff81146119e957818110156119db576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016119d29061281d565b60405180910390fd5b6119e88484848403611798565b5b50505050565b600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff161415611a5f576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611a569061293d565b60405180910390fd5b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff161415611acf576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611ac69061279d565b60405180910390fd5b611ada83838361206d565b60008060008573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002054905081811015611b60576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611b579061285d565b60405180910390fd5b8181036000808673ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002081905550816000808573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206000828254611bf39190612b60565b925050819055508273ffffffffffffffffffffffffffffffffffffffff168473ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef84604051611c5791906129fd565b60405180910390a3611c6a848484612072565b50505050565b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff161415611ce0576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611cd7906129dd565b60405180910390fd5b611cec6000838361206d565b8060026000828254611cfe9190612b60565b92505081905550806000808473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206000828254611d539190612b60565b925050819055508173ffffffffffffffffffffffffffffffffffffffff16600073ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef83604051611db891906129fd565b60405180910390a3611dcc60008383612072565b5050565b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff161415611e40576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611e379061291d565b60405180910390fd5b611e4c8260008361206d565b60008060008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002054905081811015611ed2576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611ec9906127bd565b60405180910390fd5b8181036000808573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020819055508160026000828254611f299190612db2565b92505081905550600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef84604051611f8e91906129fd565b60405180910390a3611fa283600084612072565b505050565b6000600560009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905081600560006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508173ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e060405160405180910390a35050565b505050565b505050565b600061208a61208584612b18565b612af3565b905080838252602082019050828560208602820111156120a957600080fd5b60005b858110156120d957816120bf88826120e3565b8452602084019350602083019250506001810190506120ac565b5050509392505050565b6000813590506120f2816134c5565b92915050565b600082601f83011261210957600080fd5b8135612119848260208601612077565b91505092915050565b600081359050612131816134dc565b92915050565b600081519050612146816134dc565b92915050565b60008135905061215b816134f3565b92915050565b600081519050612170816134f3565b92915050565b60006020828403121561218857600080fd5b6000612196848285016120e3565b91505092915050565b600080604083850312156121b257600080fd5b60006121c0858286016120e3565b92505060206121d1858286016120e3565b9150509250929050565b6000806000606084860312156121f057600080fd5b60006121fe868287016120e3565b935050602061220f868287016120e3565b92505060406122208682870161214c565b9150509250925092565b6000806040838503121561223d57600080fd5b600061224b858286016120e3565b925050602061225c8582860161214c565b9150509250929050565b6000806040838503121561227957600080fd5b600083013567ffffffffffffffff81111561229357600080fd5b61229f858286016120f8565b92505060206122b085828601612122565b9150509250929050565b6000602082840312156122cc57600080fd5b60006122da84828501612137565b91505092915050565b6000602082840312156122f557600080fd5b60006123038482850161214c565b91505092915050565b60006020828403121561231e57600080fd5b600061232c84828501612161565b91505092915050565b60008060006060848603121561234a57600080fd5b60006123588682870161214c565b93505060206123698682870161214c565b925050604061237a8682870161214c565b9150509250925092565b61238d81612de6565b82525050565b61239c81612df8565b82525050565b6123ab81612e3b565b82525050565b60006123bc82612b44565b6123c68185612b4f565b93506123d6818560208601612e5f565b6123df81612ffa565b840191505092915050565b60006123f7602383612b4f565b915061240282613018565b604082019050919050565b600061241a602283612b4f565b915061242582613067565b604082019050919050565b600061243d602683612b4f565b9150612448826130b6565b604082019050919050565b6000612460602283612b4f565b915061246b82613105565b604082019050919050565b6000612483601d83612b4f565b915061248e82613154565b602082019050919050565b60006124a6601c83612b4f565b91506124b18261317d565b602082019050919050565b60006124c9602683612b4f565b91506124d4826131a6565b604082019050919050565b60006124ec602283612b4f565b91506124f7826131f5565b604082019050919050565b600061250f601c83612b4f565b915061251a82613244565b602082019050919050565b6000612532601c83612b4f565b915061253d8261326d565b602082019050919050565b6000612555601c83612b4f565b915061256082613296565b602082019050919050565b6000612578602083612b4f565b9150612583826132bf565b602082019050919050565b600061259b602183612b4f565b91506125a6826132e8565b604082019050919050565b60006125be602583612b4f565b91506125c982613337565b604082019050919050565b60006125e1602483612b4f565b91506125ec82613386565b604082019050919050565b6000612604602183612b4f565b915061260f826133d5565b604082019050919050565b6000612627601c83612b4f565b915061263282613424565b602082019050919050565b600061264a602583612b4f565b91506126558261344d565b604082019050919050565b600061266d601f83612b4f565b91506126788261349c565b602082019050919050565b61268c81612e24565b82525050565b61269b81612e2e565b82525050565b60006020820190506126b66000830184612384565b92915050565b60006040820190506126d16000830185612384565b6126de6020830184612384565b9392505050565b60006060820190506126fa6000830186612384565b6127076020830185612384565b6127146040830184612683565b949350505050565b60006040820190506127316000830185612384565b61273e6020830184612683565b9392505050565b600060208201905061275a6000830184612393565b92915050565b600060208201905061277560008301846123a2565b92915050565b6000602082019050818103600083015261279581846123b1565b905092915050565b600060208201905081810360008301526127b6816123ea565b9050919050565b600060208201905081810360008301526127d68161240d565b9050919050565b600060208201905081810360008301526127f681612430565b9050919050565b6000602082019050818103600083015261281681612453565b9050919050565b6000602082019050818103600083015261283681612476565b9050919050565b6000602082019050818103600083015261285681612499565b9050919050565b60006020820190508181036000830152612876816124bc565b9050919050565b60006020820190508181036000830152612896816124df565b9050919050565b600060208201905081810360008301526128b681612502565b9050919050565b600060208201905081810360008301526128d681612525565b9050919050565b600060208201905081810360008301526128f681612548565b9050919050565b600060208201905081810360008301526129168161256b565b9050919050565b600060208201905081810360008301526129368161258e565b9050919050565b60006020820190508181036000830152612956816125b1565b9050919050565b60006020820190508181036000830152612976816125d4565b9050919050565b60006020820190508181036000830152612996816125f7565b9050919050565b600060208201905081810360008301526129b68161261a565b9050919050565b600060208201905081810360008301526129d68161263d565b9050919050565b600060208201905081810360008301526129f681612660565b9050919050565b6000602082019050612a126000830184612683565b92915050565b6000604082019050612a2d6000830185612683565b612a3a6020830184612384565b9392505050565b6000604082019050612a566000830185612683565b612a636020830184612683565b9392505050565b6000606082019050612a7f6000830186612683565b612a8c6020830185612683565b612a996040830184612384565b949350505050565b6000606082019050612ab66000830186612683565b612ac36020830185612683565b612ad06040830184612683565b949350505050565b6000602082019050612aed6000830184612692565b92915050565b6000612afd612b0e565b9050612b098282612ec4565b919050565b6000604051905090565b600067ffffffffffffffff821115612b3357612b32612fcb565b5b602082029050602081019050919050565b600081519050919050565b600082825260208201905092915050565b6000612b6b82612e24565b9150612b7683612e24565b9250827fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff03821115612bab57612baa612f3e565b5b828201905092915050565b6000612bc182612e24565b9150612bcc83612e24565b925082612bdc57612bdb612f6d565b5b828204905092915050565b6000808291508390505b6001851115612c3157808604811115612c0d57612c0c612f3e565b5b6001851615612c1c5780820291505b8081029050612c2a8561300b565b9450612bf1565b94509492505050565b6000612c4582612e24565b9150612c5083612e2e565b9250612c7d7fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8484612c85565b905092915050565b600082612c955760019050612d51565b81612ca35760009050612d51565b8160018114612cb95760028114612cc357612cf2565b6001915050612d51565b60ff841115612cd557612cd4612f3e565b5b8360020a915084821115612cec57612ceb612f3e565b5b50612d51565b5060208310610133831016604e8410600b8410161715612d275782820a905083811115612d2257612d21612f3e565b5b612d51565b612d348484846001612be7565b92509050818404811115612d4b57612d4a612f3e565b5b81810290505b9392505050565b6000612d6382612e24565b9150612d6e83612e24565b9250817fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff0483118215151615612da757612da6612f3e565b5b828202905092915050565b6000612dbd82612e24565b9150612dc883612e24565b925082821015612ddb57612dda612f3e565b5b828203905092915050565b6000612df182612e04565b9050919050565b60008115159050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6000819050919050565b600060ff82169050919050565b6000612e4682612e4d565b9050919050565b6000612e5882612e04565b9050919050565b60005b83811015612e7d578082015181840152602081019050612e62565b83811115612e8c576000848401525b50505050565b60006002820490506001821680612eaa57607f821691505b60208210811415612ebe57612ebd612f9c565b5b50919050565b612ecd82612ffa565b810181811067ffffffffffffffff82111715612eec57612eeb612fcb565b5b80604052505050565b6000612f0082612e24565b91507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff821415612f3357612f32612f3e565b5b600182019050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6000601f19601f8301169050919050565b60008160011c9050919050565b7f45524332303a207472616e7366657220746f20746865207a65726f206164647260008201527f6573730000000000000000000000000000000000000000000000000000000000602082015250565b7f45524332303a206275726e20616d6f756e7420657863656564732062616c616e60008201527f6365000000000000000000000000000000000000000000000000000000000000602082015250565b7f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160008201527f6464726573730000000000000000000000000000000000000000000000000000602082015250565b7f45524332303a20617070726f766520746f20746865207a65726f20616464726560008201527f7373000000000000000000000000000000000000000000000000000000000000602082015250565b7f45524332303a20696e73756666696369656e7420616c6c6f77616e6365000000600082015250565b7f4c696d6974206d7573742062652067726561746572207468616e203000000000600082015250565b7f45524332303a207472616e7366657220616d6f756e742065786365656473206260008201527f616c616e63650000000000000000000000000000000000000000000000000000602082015250565b7f55736572206973206e6f7420617574686f72697a656420746f2070757263686160008201527f7365000000000000000000000000000000000000000000000000000000000000602082015250565b7f56616c7565206d7573742062652067726561746572207468616e203000000000600082015250565b7f596f7520646f6e6074206861766520656e6f75676820746f6b656e7300000000600082015250565b7f50757263686173652065786365656420746f6b656e73206c696d697400000000600082015250565b7f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572600082015250565b7f45524332303a206275726e2066726f6d20746865207a65726f2061646472657360008201527f7300000000000000000000000000000000000000000000000000000000000000602082015250565b7f45524332303a207472616e736665722066726f6d20746865207a65726f20616460008201527f6472657373000000000000000000000000000000000000000000000000000000602082015250565b7f45524332303a20617070726f76652066726f6d20746865207a65726f2061646460008201527f7265737300000000000000000000000000000000000000000000000000000000602082015250565b7f546865726520617265206e6f2066756e647320746f206265207769746864726160008201527f7700000000000000000000000000000000000000000000000000000000000000602082015250565b7f5072696365206d7573742062652067726561746572207468616e203000000000600082015250565b7f45524332303a2064656372656173656420616c6c6f77616e63652062656c6f7760008201527f207a65726f000000000000000000000000000000000000000000000000000000602082015250565b7f45524332303a206d696e7420746f20746865207a65726f206164647265737300600082015250565b6134ce81612de6565b81146134d957600080fd5b50565b6134e581612df8565b81146134f057600080fd5b50565b6134fc81612e24565b811461350757600080fd5b5056fea26469706673582212205450a6923ef1f9e6d0470ec4cfe1994688b03c66f2808e33786447e0eed5f20b64736f6c63430008040033";
+  "0x60806040523480156200001157600080fd5b506040516200466e3803806200466e83398181016040528101906200003791906200051d565b8787816003908051906020019062000051929190620003b6565b5080600490805190602001906200006a929190620003b6565b5050506200008d620000816200016560201b60201c565b6200016d60201b60201c565b8560008111620000d4576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401620000cb9062000671565b60405180910390fd5b620000e633886200023360201b60201c565b856007819055508460088190555083600a60006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508260098190555081600560146101000a81548160ff021916908315150217905550505050505050505050620009dd565b600033905090565b6000600560009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905081600560006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508173ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e060405160405180910390a35050565b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff161415620002a6576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016200029d9062000693565b60405180910390fd5b620002ba60008383620003ac60201b60201c565b8060026000828254620002ce919062000742565b92505081905550806000808473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020600082825462000325919062000742565b925050819055508173ffffffffffffffffffffffffffffffffffffffff16600073ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef836040516200038c9190620006b5565b60405180910390a3620003a860008383620003b160201b60201c565b5050565b505050565b505050565b828054620003c49062000833565b90600052602060002090601f016020900481019282620003e8576000855562000434565b82601f106200040357805160ff191683800117855562000434565b8280016001018555821562000434579182015b828111156200043357825182559160200191906001019062000416565b5b50905062000443919062000447565b5090565b5b808211156200046257600081600090555060010162000448565b5090565b60006200047d6200047784620006fb565b620006d2565b9050828152602081018484840111156200049657600080fd5b620004a3848285620007fd565b509392505050565b600081519050620004bc816200098f565b92915050565b600081519050620004d381620009a9565b92915050565b600082601f830112620004eb57600080fd5b8151620004fd84826020860162000466565b91505092915050565b6000815190506200051781620009c3565b92915050565b600080600080600080600080610100898b0312156200053b57600080fd5b600089015167ffffffffffffffff8111156200055657600080fd5b620005648b828c01620004d9565b985050602089015167ffffffffffffffff8111156200058257600080fd5b620005908b828c01620004d9565b9750506040620005a38b828c0162000506565b9650506060620005b68b828c0162000506565b9550506080620005c98b828c0162000506565b94505060a0620005dc8b828c01620004c2565b93505060c0620005ef8b828c0162000506565b92505060e0620006028b828c01620004ab565b9150509295985092959890939650565b600062000621601c8362000731565b91506200062e826200093d565b602082019050919050565b600062000648601f8362000731565b9150620006558262000966565b602082019050919050565b6200066b81620007f3565b82525050565b600060208201905081810360008301526200068c8162000612565b9050919050565b60006020820190508181036000830152620006ae8162000639565b9050919050565b6000602082019050620006cc600083018462000660565b92915050565b6000620006de620006f1565b9050620006ec828262000869565b919050565b6000604051905090565b600067ffffffffffffffff821115620007195762000718620008fd565b5b62000724826200092c565b9050602081019050919050565b600082825260208201905092915050565b60006200074f82620007f3565b91506200075c83620007f3565b9250827fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff038211156200079457620007936200089f565b5b828201905092915050565b6000620007ac82620007d3565b9050919050565b60008115159050919050565b6000620007cc826200079f565b9050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6000819050919050565b60005b838110156200081d57808201518184015260208101905062000800565b838111156200082d576000848401525b50505050565b600060028204905060018216806200084c57607f821691505b60208210811415620008635762000862620008ce565b5b50919050565b62000874826200092c565b810181811067ffffffffffffffff82111715620008965762000895620008fd565b5b80604052505050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6000601f19601f8301169050919050565b7f56616c7565206d7573742062652067726561746572207468616e203000000000600082015250565b7f45524332303a206d696e7420746f20746865207a65726f206164647265737300600082015250565b6200099a81620007b3565b8114620009a657600080fd5b50565b620009b481620007bf565b8114620009c057600080fd5b50565b620009ce81620007f3565b8114620009da57600080fd5b50565b613c8180620009ed6000396000f3fe6080604052600436106102045760003560e01c806370a0823111610118578063a457c2d7116100a0578063d0febe4c1161006f578063d0febe4c14610727578063d2d8cb6714610731578063dd62ed3e1461075c578063e1a8ad4714610799578063f2fde38b146107c457610204565b8063a457c2d71461065b578063a9059cbb14610698578063aff177ca146106d5578063c6a32051146106fe57610204565b80637cb64759116100e75780637cb6475914610588578063877c86fb146105b15780638da5cb5b146105dc57806395d89b411461060757806399ccf8d41461063257610204565b806370a08231146104e0578063715018a61461051d57806371f0d5751461053457806379cc67901461055f57610204565b80632eb4a7ab1161019b578063395093511161016a57806339509351146103e95780633af32abf1461042657806340c10f191461046357806342966c681461048c5780635951e45c146104b557610204565b80632eb4a7ab1461032d578063313ce56714610358578063330067861461038357806334314fff146103c057610204565b806310789dad116101d757806310789dad1461029f57806318160ddd146102bb57806323b872dd146102e657806324600fc31461032357610204565b806302ec022f1461020957806306fdde0314610220578063095ea7b31461024b5780630aee92a414610288575b600080fd5b34801561021557600080fd5b5061021e6107ed565b005b34801561022c57600080fd5b50610235610821565b6040516102429190612e91565b60405180910390f35b34801561025757600080fd5b50610272600480360381019061026d919061281e565b6108b3565b60405161027f9190612e40565b60405180910390f35b34801561029457600080fd5b5061029d6108d6565b005b6102b960048036038101906102b491906128ae565b610af5565b005b3480156102c757600080fd5b506102d0610bbc565b6040516102dd9190613113565b60405180910390f35b3480156102f257600080fd5b5061030d60048036038101906103089190612777565b610bc6565b60405161031a9190612e40565b60405180910390f35b61032b610bf5565b005b34801561033957600080fd5b50610342610cdd565b60405161034f9190612e5b565b60405180910390f35b34801561036457600080fd5b5061036d610ce3565b60405161037a91906131ee565b60405180910390f35b34801561038f57600080fd5b506103aa60048036038101906103a591906127c6565b610cec565b6040516103b79190612e40565b60405180910390f35b3480156103cc57600080fd5b506103e760048036038101906103e29190612997565b610d96565b005b3480156103f557600080fd5b50610410600480360381019061040b919061281e565b610e5f565b60405161041d9190612e40565b60405180910390f35b34801561043257600080fd5b5061044d60048036038101906104489190612712565b610e96565b60405161045a9190612e40565b60405180910390f35b34801561046f57600080fd5b5061048a6004803603810190610485919061281e565b610eec565b005b34801561049857600080fd5b506104b360048036038101906104ae9190612945565b610f95565b005b3480156104c157600080fd5b506104ca610fa9565b6040516104d79190612e40565b60405180910390f35b3480156104ec57600080fd5b5061050760048036038101906105029190612712565b610fbc565b6040516105149190613113565b60405180910390f35b34801561052957600080fd5b50610532611004565b005b34801561054057600080fd5b50610549611018565b6040516105569190613113565b60405180910390f35b34801561056b57600080fd5b506105866004803603810190610581919061281e565b61101e565b005b34801561059457600080fd5b506105af60048036038101906105aa919061291c565b61103e565b005b3480156105bd57600080fd5b506105c661109e565b6040516105d39190612e76565b60405180910390f35b3480156105e857600080fd5b506105f16110c4565b6040516105fe9190612d9c565b60405180910390f35b34801561061357600080fd5b5061061c6110ee565b6040516106299190612e91565b60405180910390f35b34801561063e57600080fd5b5061065960048036038101906106549190612945565b611180565b005b34801561066757600080fd5b50610682600480360381019061067d919061281e565b611231565b60405161068f9190612e40565b60405180910390f35b3480156106a457600080fd5b506106bf60048036038101906106ba919061281e565b6112a8565b6040516106cc9190612e40565b60405180910390f35b3480156106e157600080fd5b506106fc60048036038101906106f7919061285a565b6112bf565b005b34801561070a57600080fd5b50610725600480360381019061072091906129ef565b611427565b005b61072f611521565b005b34801561073d57600080fd5b506107466115d0565b6040516107539190613113565b60405180910390f35b34801561076857600080fd5b50610783600480360381019061077e919061273b565b6115d6565b6040516107909190613113565b60405180910390f35b3480156107a557600080fd5b506107ae61165d565b6040516107bb9190613113565b60405180910390f35b3480156107d057600080fd5b506107eb60048036038101906107e69190612712565b611663565b005b6107f56116e7565b600560149054906101000a900460ff1615600560146101000a81548160ff021916908315150217905550565b606060038054610830906135b2565b80601f016020809104026020016040519081016040528092919081815260200182805461085c906135b2565b80156108a95780601f1061087e576101008083540402835291602001916108a9565b820191906000526020600020905b81548152906001019060200180831161088c57829003601f168201915b5050505050905090565b6000806108be611765565b90506108cb81858561176d565b600191505092915050565b6108de6116e7565b6000600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff166370a08231306040518263ffffffff1660e01b815260040161093b9190612d9c565b60206040518083038186803b15801561095357600080fd5b505afa158015610967573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061098b919061296e565b9050600081116109d0576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016109c790613093565b60405180910390fd5b600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1663a9059cbb33836040518363ffffffff1660e01b8152600401610a2d929190612e17565b602060405180830381600087803b158015610a4757600080fd5b505af1158015610a5b573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610a7f91906128f3565b503373ffffffffffffffffffffffffffffffffffffffff167f15e848750ab66cd66f07bebaf8dab757d6d4af0895afc4ff867f35baf163ee2d82600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16604051610aea92919061312e565b60405180910390a250565b338282600560149054906101000a900460ff1615610b6857610b1683610e96565b80610b285750610b27838383610cec565b5b610b67576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610b5e90612f93565b60405180910390fd5b5b3460008111610bac576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610ba390612fb3565b60405180910390fd5b610bb4611938565b505050505050565b6000600254905090565b600080610bd1611765565b9050610bde858285611a28565b610be9858585611ab4565b60019150509392505050565b610bfd6116e7565b600047905060008111610c45576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610c3c90613093565b60405180910390fd5b3373ffffffffffffffffffffffffffffffffffffffff166108fc829081150290604051600060405180830381858888f19350505050158015610c8b573d6000803e3d6000fd5b503373ffffffffffffffffffffffffffffffffffffffff167f680f2e4f4032ebf1774e8cdbaddcb1b617a5a606411c8ca96257ada338d3833c82604051610cd29190613113565b60405180910390a250565b600b5481565b60006012905090565b60008084604051602001610d009190612d9c565b60405160208183030381529060405280519060200120604051602001610d269190612d81565b604051602081830303815290604052805190602001209050610d8c848480806020026020016040519081016040528093929190818152602001838360200280828437600081840152601f19601f82011690508083019250505050505050600b5483611d35565b9150509392505050565b338282600560149054906101000a900460ff1615610e0957610db783610e96565b80610dc95750610dc8838383610cec565b5b610e08576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610dff90612f93565b60405180910390fd5b5b8560008111610e4d576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610e4490612fb3565b60405180910390fd5b610e5687611d4c565b50505050505050565b600080610e6a611765565b9050610e8b818585610e7c85896115d6565b610e869190613276565b61176d565b600191505092915050565b6000600660008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060009054906101000a900460ff169050919050565b610ef46116e7565b8060008111610f38576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401610f2f90612fb3565b60405180910390fd5b610f4283836120ef565b8273ffffffffffffffffffffffffffffffffffffffff167f0f6798a560793a54c3bcfe86a93cde1e73087d944c0ea20544137d412139688583604051610f889190613113565b60405180910390a2505050565b610fa6610fa0611765565b8261224f565b50565b600560149054906101000a900460ff1681565b60008060008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020549050919050565b61100c6116e7565b6110166000612426565b565b60085481565b6110308261102a611765565b83611a28565b61103a828261224f565b5050565b6110466116e7565b80600b819055503373ffffffffffffffffffffffffffffffffffffffff167f8c20d275fe64865598ebdb3edb3a618f781cd951ac8ec5b911ddd5c72a4fb8b0826040516110939190612e5b565b60405180910390a250565b600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1681565b6000600560009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905090565b6060600480546110fd906135b2565b80601f0160208091040260200160405190810160405280929190818152602001828054611129906135b2565b80156111765780601f1061114b57610100808354040283529160200191611176565b820191906000526020600020905b81548152906001019060200180831161115957829003601f168201915b5050505050905090565b33600560149054906101000a900460ff16156111df5761119f81610e96565b6111de576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016111d590612f93565b60405180910390fd5b5b8160008111611223576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161121a90612fb3565b60405180910390fd5b61122c83611d4c565b505050565b60008061123c611765565b9050600061124a82866115d6565b90508381101561128f576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611286906130d3565b60405180910390fd5b61129c828686840361176d565b60019250505092915050565b60006112b5338484611ab4565b6001905092915050565b6112c76116e7565b60005b8251811015611422578160066000858481518110611311577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b602002602001015173ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060006101000a81548160ff0219169083151502179055508281815181106113a3577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b602002602001015173ffffffffffffffffffffffffffffffffffffffff163373ffffffffffffffffffffffffffffffffffffffff167fe4e4c8a7471e1ee48431e42fd693b482c138bbf80927a847467b0a2da24304d5846040516114079190612e40565b60405180910390a3808061141a90613615565b9150506112ca565b505050565b61142f6116e7565b60008311611472576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611469906130b3565b60405180910390fd5b600081116114b5576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016114ac90612f53565b60405180910390fd5b8260078190555081600881905550806009819055503373ffffffffffffffffffffffffffffffffffffffff167f597eccd2eabd9f075dbe1e80e65e89c5dd7d8fd72792c8d2498735ed509967c1848484604051611514939291906131b7565b60405180910390a2505050565b33600560149054906101000a900460ff16156115805761154081610e96565b61157f576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161157690612f93565b60405180910390fd5b5b34600081116115c4576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016115bb90612fb3565b60405180910390fd5b6115cc611938565b5050565b60075481565b6000600160008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008373ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002054905092915050565b60095481565b61166b6116e7565b600073ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff1614156116db576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016116d290612ef3565b60405180910390fd5b6116e481612426565b50565b6116ef611765565b73ffffffffffffffffffffffffffffffffffffffff1661170d6110c4565b73ffffffffffffffffffffffffffffffffffffffff1614611763576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161175a90613013565b60405180910390fd5b565b600033905090565b600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff1614156117dd576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016117d490613073565b60405180910390fd5b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff16141561184d576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161184490612f13565b60405180910390fd5b80600160008573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff168152602001908152602001600020819055508173ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b9258360405161192b9190613113565b60405180910390a3505050565b6000611942610ce3565b600a61194e9190613350565b60075461195b919061346e565b611963610ce3565b600a61196f9190613350565b3461197a919061346e565b61198491906132cc565b90506009548111156119cb576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016119c290612ff3565b60405180910390fd5b6119d533826120ef565b3373ffffffffffffffffffffffffffffffffffffffff167f22bb9e718001d9e96ba01b874e20a59101db4428f08f3b5d72f457b03a5579ab8234604051611a1d929190613157565b60405180910390a250565b6000611a3484846115d6565b90507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff8114611aae5781811015611aa0576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611a9790612f33565b60405180910390fd5b611aad848484840361176d565b5b50505050565b600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff161415611b24576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611b1b90613053565b60405180910390fd5b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff161415611b94576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611b8b90612eb3565b60405180910390fd5b611b9f8383836124ec565b60008060008573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002054905081811015611c25576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611c1c90612f73565b60405180910390fd5b8181036000808673ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002081905550816000808573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000206000828254611cb89190613276565b925050819055508273ffffffffffffffffffffffffffffffffffffffff168473ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef84604051611d1c9190613113565b60405180910390a3611d2f8484846124f1565b50505050565b600082611d4285846124f6565b1490509392505050565b6000611d56610ce3565b600a611d629190613350565b600854611d6f919061346e565b611d77610ce3565b600a611d839190613350565b83611d8e919061346e565b611d9891906132cc565b9050600954811115611ddf576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611dd690612ff3565b60405180910390fd5b81600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff166370a08231336040518263ffffffff1660e01b8152600401611e3b9190612d9c565b60206040518083038186803b158015611e5357600080fd5b505afa158015611e67573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190611e8b919061296e565b1015611ecc576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611ec390612fd3565b60405180910390fd5b81600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1663dd62ed3e33306040518363ffffffff1660e01b8152600401611f2a929190612db7565b60206040518083038186803b158015611f4257600080fd5b505afa158015611f56573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190611f7a919061296e565b1015611fbb576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401611fb290612f33565b60405180910390fd5b600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff166323b872dd3330856040518463ffffffff1660e01b815260040161201a93929190612de0565b602060405180830381600087803b15801561203457600080fd5b505af1158015612048573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061206c91906128f3565b5061207733826120ef565b3373ffffffffffffffffffffffffffffffffffffffff167fe3024ea82fbeab35bf86a4b8d27a63258c9847cfd7c0de98992a89e8507e4e218284600a60009054906101000a900473ffffffffffffffffffffffffffffffffffffffff166040516120e393929190613180565b60405180910390a25050565b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff16141561215f576040517f08c379a0000000000000000000000000000000000000000000000000000000008152600401612156906130f3565b60405180910390fd5b61216b600083836124ec565b806002600082825461217d9190613276565b92505081905550806000808473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002060008282546121d29190613276565b925050819055508173ffffffffffffffffffffffffffffffffffffffff16600073ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef836040516122379190613113565b60405180910390a361224b600083836124f1565b5050565b600073ffffffffffffffffffffffffffffffffffffffff168273ffffffffffffffffffffffffffffffffffffffff1614156122bf576040517f08c379a00000000000000000000000000000000000000000000000000000000081526004016122b690613033565b60405180910390fd5b6122cb826000836124ec565b60008060008473ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff16815260200190815260200160002054905081811015612351576040517f08c379a000000000000000000000000000000000000000000000000000000000815260040161234890612ed3565b60405180910390fd5b8181036000808573ffffffffffffffffffffffffffffffffffffffff1673ffffffffffffffffffffffffffffffffffffffff1681526020019081526020016000208190555081600260008282546123a891906134c8565b92505081905550600073ffffffffffffffffffffffffffffffffffffffff168373ffffffffffffffffffffffffffffffffffffffff167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef8460405161240d9190613113565b60405180910390a3612421836000846124f1565b505050565b6000600560009054906101000a900473ffffffffffffffffffffffffffffffffffffffff16905081600560006101000a81548173ffffffffffffffffffffffffffffffffffffffff021916908373ffffffffffffffffffffffffffffffffffffffff1602179055508173ffffffffffffffffffffffffffffffffffffffff168173ffffffffffffffffffffffffffffffffffffffff167f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e060405160405180910390a35050565b505050565b505050565b60008082905060005b84518110156125675761255282868381518110612545577f4e487b7100000000000000000000000000000000000000000000000000000000600052603260045260246000fd5b6020026020010151612572565b9150808061255f90613615565b9150506124ff565b508091505092915050565b600081831061258a57612585828461259d565b612595565b612594838361259d565b5b905092915050565b600082600052816020526040600020905092915050565b60006125c76125c28461322e565b613209565b905080838252602082019050828560208602820111156125e657600080fd5b60005b8581101561261657816125fc8882612620565b8452602084019350602083019250506001810190506125e9565b5050509392505050565b60008135905061262f81613bef565b92915050565b600082601f83011261264657600080fd5b81356126568482602086016125b4565b91505092915050565b60008083601f84011261267157600080fd5b8235905067ffffffffffffffff81111561268a57600080fd5b6020830191508360208202830111156126a257600080fd5b9250929050565b6000813590506126b881613c06565b92915050565b6000815190506126cd81613c06565b92915050565b6000813590506126e281613c1d565b92915050565b6000813590506126f781613c34565b92915050565b60008151905061270c81613c34565b92915050565b60006020828403121561272457600080fd5b600061273284828501612620565b91505092915050565b6000806040838503121561274e57600080fd5b600061275c85828601612620565b925050602061276d85828601612620565b9150509250929050565b60008060006060848603121561278c57600080fd5b600061279a86828701612620565b93505060206127ab86828701612620565b92505060406127bc868287016126e8565b9150509250925092565b6000806000604084860312156127db57600080fd5b60006127e986828701612620565b935050602084013567ffffffffffffffff81111561280657600080fd5b6128128682870161265f565b92509250509250925092565b6000806040838503121561283157600080fd5b600061283f85828601612620565b9250506020612850858286016126e8565b9150509250929050565b6000806040838503121561286d57600080fd5b600083013567ffffffffffffffff81111561288757600080fd5b61289385828601612635565b92505060206128a4858286016126a9565b9150509250929050565b600080602083850312156128c157600080fd5b600083013567ffffffffffffffff8111156128db57600080fd5b6128e78582860161265f565b92509250509250929050565b60006020828403121561290557600080fd5b6000612913848285016126be565b91505092915050565b60006020828403121561292e57600080fd5b600061293c848285016126d3565b91505092915050565b60006020828403121561295757600080fd5b6000612965848285016126e8565b91505092915050565b60006020828403121561298057600080fd5b600061298e848285016126fd565b91505092915050565b6000806000604084860312156129ac57600080fd5b60006129ba868287016126e8565b935050602084013567ffffffffffffffff8111156129d757600080fd5b6129e38682870161265f565b92509250509250925092565b600080600060608486031215612a0457600080fd5b6000612a12868287016126e8565b9350506020612a23868287016126e8565b9250506040612a34868287016126e8565b9150509250925092565b612a47816134fc565b82525050565b612a568161350e565b82525050565b612a658161351a565b82525050565b612a7c612a778261351a565b61365e565b82525050565b612a8b8161355b565b82525050565b6000612a9c8261325a565b612aa68185613265565b9350612ab681856020860161357f565b612abf81613724565b840191505092915050565b6000612ad7602383613265565b9150612ae282613742565b604082019050919050565b6000612afa602283613265565b9150612b0582613791565b604082019050919050565b6000612b1d602683613265565b9150612b28826137e0565b604082019050919050565b6000612b40602283613265565b9150612b4b8261382f565b604082019050919050565b6000612b63601d83613265565b9150612b6e8261387e565b602082019050919050565b6000612b86601c83613265565b9150612b91826138a7565b602082019050919050565b6000612ba9602683613265565b9150612bb4826138d0565b604082019050919050565b6000612bcc602283613265565b9150612bd78261391f565b604082019050919050565b6000612bef601c83613265565b9150612bfa8261396e565b602082019050919050565b6000612c12601c83613265565b9150612c1d82613997565b602082019050919050565b6000612c35601c83613265565b9150612c40826139c0565b602082019050919050565b6000612c58602083613265565b9150612c63826139e9565b602082019050919050565b6000612c7b602183613265565b9150612c8682613a12565b604082019050919050565b6000612c9e602583613265565b9150612ca982613a61565b604082019050919050565b6000612cc1602483613265565b9150612ccc82613ab0565b604082019050919050565b6000612ce4602183613265565b9150612cef82613aff565b604082019050919050565b6000612d07601c83613265565b9150612d1282613b4e565b602082019050919050565b6000612d2a602583613265565b9150612d3582613b77565b604082019050919050565b6000612d4d601f83613265565b9150612d5882613bc6565b602082019050919050565b612d6c81613544565b82525050565b612d7b8161354e565b82525050565b6000612d8d8284612a6b565b60208201915081905092915050565b6000602082019050612db16000830184612a3e565b92915050565b6000604082019050612dcc6000830185612a3e565b612dd96020830184612a3e565b9392505050565b6000606082019050612df56000830186612a3e565b612e026020830185612a3e565b612e0f6040830184612d63565b949350505050565b6000604082019050612e2c6000830185612a3e565b612e396020830184612d63565b9392505050565b6000602082019050612e556000830184612a4d565b92915050565b6000602082019050612e706000830184612a5c565b92915050565b6000602082019050612e8b6000830184612a82565b92915050565b60006020820190508181036000830152612eab8184612a91565b905092915050565b60006020820190508181036000830152612ecc81612aca565b9050919050565b60006020820190508181036000830152612eec81612aed565b9050919050565b60006020820190508181036000830152612f0c81612b10565b9050919050565b60006020820190508181036000830152612f2c81612b33565b9050919050565b60006020820190508181036000830152612f4c81612b56565b9050919050565b60006020820190508181036000830152612f6c81612b79565b9050919050565b60006020820190508181036000830152612f8c81612b9c565b9050919050565b60006020820190508181036000830152612fac81612bbf565b9050919050565b60006020820190508181036000830152612fcc81612be2565b9050919050565b60006020820190508181036000830152612fec81612c05565b9050919050565b6000602082019050818103600083015261300c81612c28565b9050919050565b6000602082019050818103600083015261302c81612c4b565b9050919050565b6000602082019050818103600083015261304c81612c6e565b9050919050565b6000602082019050818103600083015261306c81612c91565b9050919050565b6000602082019050818103600083015261308c81612cb4565b9050919050565b600060208201905081810360008301526130ac81612cd7565b9050919050565b600060208201905081810360008301526130cc81612cfa565b9050919050565b600060208201905081810360008301526130ec81612d1d565b9050919050565b6000602082019050818103600083015261310c81612d40565b9050919050565b60006020820190506131286000830184612d63565b92915050565b60006040820190506131436000830185612d63565b6131506020830184612a3e565b9392505050565b600060408201905061316c6000830185612d63565b6131796020830184612d63565b9392505050565b60006060820190506131956000830186612d63565b6131a26020830185612d63565b6131af6040830184612a3e565b949350505050565b60006060820190506131cc6000830186612d63565b6131d96020830185612d63565b6131e66040830184612d63565b949350505050565b60006020820190506132036000830184612d72565b92915050565b6000613213613224565b905061321f82826135e4565b919050565b6000604051905090565b600067ffffffffffffffff821115613249576132486136f5565b5b602082029050602081019050919050565b600081519050919050565b600082825260208201905092915050565b600061328182613544565b915061328c83613544565b9250827fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff038211156132c1576132c0613668565b5b828201905092915050565b60006132d782613544565b91506132e283613544565b9250826132f2576132f1613697565b5b828204905092915050565b6000808291508390505b60018511156133475780860481111561332357613322613668565b5b60018516156133325780820291505b808102905061334085613735565b9450613307565b94509492505050565b600061335b82613544565b91506133668361354e565b92506133937fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff848461339b565b905092915050565b6000826133ab5760019050613467565b816133b95760009050613467565b81600181146133cf57600281146133d957613408565b6001915050613467565b60ff8411156133eb576133ea613668565b5b8360020a91508482111561340257613401613668565b5b50613467565b5060208310610133831016604e8410600b841016171561343d5782820a90508381111561343857613437613668565b5b613467565b61344a84848460016132fd565b9250905081840481111561346157613460613668565b5b81810290505b9392505050565b600061347982613544565b915061348483613544565b9250817fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff04831182151516156134bd576134bc613668565b5b828202905092915050565b60006134d382613544565b91506134de83613544565b9250828210156134f1576134f0613668565b5b828203905092915050565b600061350782613524565b9050919050565b60008115159050919050565b6000819050919050565b600073ffffffffffffffffffffffffffffffffffffffff82169050919050565b6000819050919050565b600060ff82169050919050565b60006135668261356d565b9050919050565b600061357882613524565b9050919050565b60005b8381101561359d578082015181840152602081019050613582565b838111156135ac576000848401525b50505050565b600060028204905060018216806135ca57607f821691505b602082108114156135de576135dd6136c6565b5b50919050565b6135ed82613724565b810181811067ffffffffffffffff8211171561360c5761360b6136f5565b5b80604052505050565b600061362082613544565b91507fffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffffff82141561365357613652613668565b5b600182019050919050565b6000819050919050565b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601160045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052601260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052602260045260246000fd5b7f4e487b7100000000000000000000000000000000000000000000000000000000600052604160045260246000fd5b6000601f19601f8301169050919050565b60008160011c9050919050565b7f45524332303a207472616e7366657220746f20746865207a65726f206164647260008201527f6573730000000000000000000000000000000000000000000000000000000000602082015250565b7f45524332303a206275726e20616d6f756e7420657863656564732062616c616e60008201527f6365000000000000000000000000000000000000000000000000000000000000602082015250565b7f4f776e61626c653a206e6577206f776e657220697320746865207a65726f206160008201527f6464726573730000000000000000000000000000000000000000000000000000602082015250565b7f45524332303a20617070726f766520746f20746865207a65726f20616464726560008201527f7373000000000000000000000000000000000000000000000000000000000000602082015250565b7f45524332303a20696e73756666696369656e7420616c6c6f77616e6365000000600082015250565b7f4c696d6974206d7573742062652067726561746572207468616e203000000000600082015250565b7f45524332303a207472616e7366657220616d6f756e742065786365656473206260008201527f616c616e63650000000000000000000000000000000000000000000000000000602082015250565b7f55736572206973206e6f7420617574686f72697a656420746f2070757263686160008201527f7365000000000000000000000000000000000000000000000000000000000000602082015250565b7f56616c7565206d7573742062652067726561746572207468616e203000000000600082015250565b7f596f7520646f6e6074206861766520656e6f75676820746f6b656e7300000000600082015250565b7f50757263686173652065786365656420746f6b656e73206c696d697400000000600082015250565b7f4f776e61626c653a2063616c6c6572206973206e6f7420746865206f776e6572600082015250565b7f45524332303a206275726e2066726f6d20746865207a65726f2061646472657360008201527f7300000000000000000000000000000000000000000000000000000000000000602082015250565b7f45524332303a207472616e736665722066726f6d20746865207a65726f20616460008201527f6472657373000000000000000000000000000000000000000000000000000000602082015250565b7f45524332303a20617070726f76652066726f6d20746865207a65726f2061646460008201527f7265737300000000000000000000000000000000000000000000000000000000602082015250565b7f546865726520617265206e6f2066756e647320746f206265207769746864726160008201527f7700000000000000000000000000000000000000000000000000000000000000602082015250565b7f5072696365206d7573742062652067726561746572207468616e203000000000600082015250565b7f45524332303a2064656372656173656420616c6c6f77616e63652062656c6f7760008201527f207a65726f000000000000000000000000000000000000000000000000000000602082015250565b7f45524332303a206d696e7420746f20746865207a65726f206164647265737300600082015250565b613bf8816134fc565b8114613c0357600080fd5b50565b613c0f8161350e565b8114613c1a57600080fd5b50565b613c268161351a565b8114613c3157600080fd5b50565b613c3d81613544565b8114613c4857600080fd5b5056fea2646970667358221220fe1f91e8b752a0610f437faa94e13085ccf3bd1fd616d71a49d2e6bacbb621e964736f6c63430008040033";
 
 type MyERC20ConstructorParams =
   | [signer?: Signer]